@@ -11,7 +11,10 @@
  *   - `topics`: sync or inspect the bundled topic catalog.
  *   - `lookup`: search for topics in the local catalog or discover new ones via API.
  *   - `fetch`: download and normalize snapshots from both sources.
- *   - `analyse`: compute the analysis JSON (with optional Gemini + citation verification).
+ *   - `analyse`: compute the analysis JSON (with optional LLM + citation verification).
+ *   - `history`: list archived snapshot revisions that analyses can be pinned to.
+ *   - `cache`: inspect or prune the model output cache.
+ *   - `models`: list, download, verify, and locate local transformer models.
  *   - `show`: render the analysis in the terminal or as an HTML report.
  *   - `notes`: build/publish JSON-LD Community Notes derived from the analysis.
  *   - `publish`: push arbitrary JSON-LD files to the DKG.
@@ -23,6 +26,11 @@
  *   gwaln lookup "Bitcoin" --limit 3
  *   gwaln fetch wiki --topic moon
  *   gwaln analyse --topic moon --verify-citations --bias-verifier gemini
+ *   gwaln history moon
+ *   gwaln cache llm --prune
+ *   gwaln models pull summary
+ *   gwaln analyse --topic moon --base grok@2025-11-01 --target grok@latest
+ *   gwaln analyse --concurrency 4
  *   gwaln show --topic moon --open-html
  *   gwaln notes build --topic moon --summary "Alignment check"
  *   gwaln notes publish --topic moon
@@ -37,9 +45,12 @@ import figlet from 'figlet';
 import fs from 'node:fs';
 import path from 'node:path';
 import analyseCommand from './commands/analyse';
+import cacheCommand from './commands/cache';
 import fetchCommand from './commands/fetch';
+import historyCommand from './commands/history';
 import initCommand from './commands/init';
 import lookupCommand from './commands/lookup';
+import modelsCommand from './commands/models';
 import notesCommand from './commands/notes';
 import publishCommand from './commands/publish';
 import queryCommand from './commands/query';
@@ -57,6 +68,9 @@ program
 program.addCommand(initCommand);
 program.addCommand(fetchCommand);
 program.addCommand(analyseCommand);
+program.addCommand(historyCommand);
+program.addCommand(cacheCommand);
+program.addCommand(modelsCommand);
 program.addCommand(showCommand);
 program.addCommand(notesCommand);
 program.addCommand(topicsCommand);
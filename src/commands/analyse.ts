@@ -3,27 +3,46 @@
  * @description CLI wiring for the analysis workflow.
  */
 
+import chalk from 'chalk';
 import { Command } from 'commander';
 import ora, { Ora } from 'ora';
-import { GEMINI_DEFAULT_MODEL } from '../lib/bias-verifier';
+import { GEMINI_DEFAULT_MODEL } from '../llm';
 import type { AnalyzeTopicResult } from '../workflows/analyze-workflow';
 import {
   type AnalyzeWorkflowHooks,
   type BiasVerifierOptionInput,
-  type GeminiSummaryOptionInput,
+  type LlmVerifierOptionInput,
   resolveBiasVerifierOptions,
-  resolveGeminiSummaryOptions,
+  resolveLlmVerifierOptions,
+  resolveSummaryOptions,
   runAnalyzeWorkflow,
+  type SummaryOptionInput,
 } from '../workflows/analyze-workflow';
 
-interface AnalyseCliOptions extends BiasVerifierOptionInput, GeminiSummaryOptionInput {
+interface AnalyseCliOptions
+  extends BiasVerifierOptionInput,
+    LlmVerifierOptionInput,
+    SummaryOptionInput {
   topic?: string;
   force?: boolean;
-  geminiSummary?: boolean;
   verifyCitations?: boolean;
   semanticBias?: boolean;
+  semanticAlign?: boolean;
+  nli?: boolean;
+  llmModel?: string;
+  llmEndpoint?: string;
+  base?: string;
+  target?: string;
+  concurrency?: string;
 }
 
+const describeResult = (result: AnalyzeTopicResult): string => {
+  if (result.status === 'written') return `wrote ${result.analysisPath}`;
+  if (result.status === 'cached') return result.detail ?? 'reused cached analysis';
+  if (result.status === 'error') return result.error ?? 'Unknown error';
+  return result.detail ?? result.status;
+};
+
 const createCliHooks = (): AnalyzeWorkflowHooks => {
   let spinner: Ora | null = null;
   return {
@@ -33,12 +52,10 @@ const createCliHooks = (): AnalyzeWorkflowHooks => {
     onTopicComplete: (result: AnalyzeTopicResult) => {
       if (!spinner) return;
       const label = `[analyse] ${result.topicId}:`;
-      if (result.status === 'written') {
-        spinner.succeed(`${label} wrote ${result.analysisPath}`);
-      } else if (result.status === 'cached') {
-        spinner.succeed(`${label} ${result.detail ?? 'reused cached analysis'}`);
+      if (result.status === 'written' || result.status === 'cached') {
+        spinner.succeed(`${label} ${describeResult(result)}`);
       } else if (result.status === 'error') {
-        spinner.fail(`${label} ${result.error ?? 'Unknown error'}`);
+        spinner.fail(`${label} ${describeResult(result)}`);
       } else {
         spinner.stop();
       }
@@ -47,38 +64,157 @@ const createCliHooks = (): AnalyzeWorkflowHooks => {
   };
 };
 
+/**
+ * Progress hooks for concurrent runs: topics overlap, so a single spinner tracks the active set
+ * and each completion is printed as a persistent line.
+ */
+const createConcurrentCliHooks = (): AnalyzeWorkflowHooks => {
+  const active = new Set<string>();
+  let completed = 0;
+  const spinner = ora();
+  const refresh = (): void => {
+    if (!active.size) {
+      spinner.stop();
+      return;
+    }
+    spinner.text = `[analyse] ${completed} done, analyzing ${[...active].join(', ')}`;
+    if (!spinner.isSpinning) spinner.start();
+  };
+  return {
+    onTopicStart: (topic) => {
+      active.add(topic.id);
+      refresh();
+    },
+    onTopicComplete: (result: AnalyzeTopicResult) => {
+      active.delete(result.topicId);
+      completed += 1;
+      const line = `[analyse] ${result.topicId}: ${describeResult(result)}`;
+      if (result.status === 'error') {
+        spinner.fail(line);
+      } else {
+        spinner.succeed(line);
+      }
+      refresh();
+    },
+  };
+};
+
+const STATUS_COLORS: Record<AnalyzeTopicResult['status'], (value: string) => string> = {
+  written: chalk.green,
+  cached: chalk.cyan,
+  skipped: chalk.gray,
+  error: chalk.red,
+};
+
+const formatDuration = (ms: number | undefined): string =>
+  ms === undefined ? '-' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+const printSummaryTable = (results: AnalyzeTopicResult[], elapsedMs: number): void => {
+  if (!results.length) return;
+  const topicWidth = Math.max(5, ...results.map((result) => result.topicId.length));
+  const statusWidth = Math.max(6, ...results.map((result) => result.status.length));
+  const timeWidth = Math.max(
+    4,
+    ...results.map((result) => formatDuration(result.durationMs).length),
+  );
+  console.log('');
+  console.log(
+    chalk.bold(
+      `${'Topic'.padEnd(topicWidth)}  ${'Status'.padEnd(statusWidth)}  ${'Time'.padStart(timeWidth)}  Result`,
+    ),
+  );
+  results.forEach((result) => {
+    const color = STATUS_COLORS[result.status];
+    console.log(
+      `${result.topicId.padEnd(topicWidth)}  ${color(result.status.padEnd(statusWidth))}  ${formatDuration(
+        result.durationMs,
+      ).padStart(timeWidth)}  ${chalk.gray(describeResult(result))}`,
+    );
+  });
+  const count = (status: AnalyzeTopicResult['status']): number =>
+    results.filter((result) => result.status === status).length;
+  console.log(
+    chalk.bold(
+      `\n${results.length} topic(s) in ${formatDuration(elapsedMs)}: ${count('written')} written, ${count(
+        'cached',
+      )} cached, ${count('error')} failed`,
+    ),
+  );
+};
+
+const parseConcurrency = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Invalid --concurrency '${value}'. Use a positive integer.`);
+  }
+  return parsed;
+};
+
 const analyseCommand = new Command('analyse')
   .alias('analyze')
   .description('Generate comparison JSON between Grokipedia and Wikipedia content')
   .option('-t, --topic <id>', 'Topic identifier (default: all topics)')
   .option('-f, --force', 'Ignore cached analysis results and recompute')
   .option(
-    '--bias-verifier <provider>',
-    'Verify bias events with an external provider (e.g., gemini)',
+    '--bias-verifier [provider]',
+    'Verify bias events with an LLM provider: gemini, openai, ollama, llamacpp, or one configured under llmProviders (default: llmProvider from .gwalnrc.json, else gemini)',
+  )
+  .option(
+    '--llm-verify [provider]',
+    'Verify bias, hallucination, factual, missing-context, and rewording discrepancies with an LLM provider, using the relevant passages and citations of both articles',
+  )
+  .option(
+    '--llm-summary [provider]',
+    'Generate an LLM-authored comparison summary with the given provider',
   )
+  .option('--llm-model <model>', 'Model identifier for the selected LLM provider(s)')
+  .option('--llm-endpoint <url>', 'Base URL of the selected LLM provider(s)')
   .option('--gemini-key <key>', 'API key for the Gemini provider (falls back to GEMINI_API_KEY)')
   .option('--gemini-model <model>', `Gemini model identifier (default: ${GEMINI_DEFAULT_MODEL})`)
   .option('--gemini-summary', 'Generate a Gemini-authored comparison summary')
-  .option(
-    '--verify-citations',
-    'Fetch Grokipedia citations and confirm extra sentences are supported',
-  )
+  .option('--verify-citations', 'Check cited sentences on both sides against the sources they cite')
   .option(
     '--semantic-bias',
     'Enable transformer-based semantic bias detection (otherwise keyword-only cues are used)',
   )
+  .option(
+    '--semantic-align',
+    'Align sentences, claims, and sections with a local sentence-embedding model (downloads a model)',
+  )
+  .option(
+    '--nli',
+    'Flag contradictions between aligned claims with a local NLI model (downloads a model)',
+  )
+  .option('--base <source@revision>', 'Baseline snapshot to compare from (default: wiki@latest)')
+  .option('--target <source@revision>', 'Snapshot to compare against (default: grok@latest)')
+  .option(
+    '-c, --concurrency <n>',
+    'Analyse up to N topics in parallel using worker threads (default: 1)',
+  )
   .action(async (options: AnalyseCliOptions) => {
-    const verifier = resolveBiasVerifierOptions(options);
-    const summary = options.geminiSummary ? resolveGeminiSummaryOptions(options) : null;
-    await runAnalyzeWorkflow({
+    const overrides = { model: options.llmModel, endpoint: options.llmEndpoint };
+    const verifier = resolveBiasVerifierOptions({ ...options, ...overrides });
+    const llmVerifier = resolveLlmVerifierOptions({ ...options, ...overrides });
+    const summary = resolveSummaryOptions({ ...options, ...overrides });
+    const concurrency = parseConcurrency(options.concurrency);
+    const startedAt = Date.now();
+    const results = await runAnalyzeWorkflow({
       topicId: options.topic,
       force: options.force,
       biasVerifier: verifier,
+      llmVerifier,
       summary,
       verifyCitations: options.verifyCitations,
       semanticBias: options.semanticBias,
-      hooks: createCliHooks(),
+      semanticAlign: options.semanticAlign,
+      nli: options.nli,
+      base: options.base,
+      target: options.target,
+      concurrency,
+      hooks: concurrency && concurrency > 1 ? createConcurrentCliHooks() : createCliHooks(),
     });
+    printSummaryTable(results, Date.now() - startedAt);
   });
 
 export default analyseCommand;
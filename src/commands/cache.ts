@@ -0,0 +1,75 @@
+/**
+ * @file src/commands/cache.ts
+ * @description CLI wiring for cache maintenance. Business logic lives in
+ *              `src/workflows/cache-workflow.ts`.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import type { LlmCacheStats } from '../llm';
+import { runLlmCacheWorkflow } from '../workflows/cache-workflow';
+
+type LlmCacheCliOptions = {
+  prune?: boolean;
+  all?: boolean;
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KiB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MiB`;
+};
+
+const printStats = (stats: LlmCacheStats): void => {
+  const state = stats.enabled ? chalk.green('enabled') : chalk.yellow('disabled (llmCache: false)');
+  console.log(chalk.bold(`[cache] LLM cache at ${stats.dir} (${state})`));
+  console.log(
+    `  ${stats.entries} entr${stats.entries === 1 ? 'y' : 'ies'}, ${formatBytes(stats.bytes)}, ` +
+      `TTL ${stats.ttl_hours}h, ${stats.expired} expired` +
+      (stats.invalid ? `, ${stats.invalid} unreadable` : ''),
+  );
+  const rate = stats.hit_rate === null ? 'n/a' : `${(stats.hit_rate * 100).toFixed(1)}%`;
+  console.log(`  ${stats.hits} hit(s), ${stats.entries} miss(es) stored, hit rate ${rate}`);
+  if (stats.oldest && stats.newest) {
+    console.log(chalk.gray(`  Stored between ${stats.oldest} and ${stats.newest}`));
+  }
+  stats.models.forEach((model) => {
+    console.log(
+      `  ${chalk.cyan(`${model.provider}/${model.model}`)}: ${model.entries} entr${
+        model.entries === 1 ? 'y' : 'ies'
+      }, ${model.hits} hit(s)`,
+    );
+  });
+  if (stats.expired || stats.invalid) {
+    console.log(chalk.gray('\nDelete expired entries with: gwaln cache llm --prune'));
+  }
+};
+
+const cacheCommand = new Command('cache').description('Inspect and prune local caches');
+
+cacheCommand
+  .command('llm')
+  .description('Show model output cache statistics (LLM completions and local model inference)')
+  .option('--prune', 'Delete expired and unreadable entries')
+  .option('--all', 'With --prune, delete every entry')
+  .action((options: LlmCacheCliOptions) => {
+    try {
+      const result = runLlmCacheWorkflow({ prune: options.prune, all: options.all });
+      if (result.pruned) {
+        console.log(
+          chalk.green(
+            `[cache] Removed ${result.pruned.removed} entr${
+              result.pruned.removed === 1 ? 'y' : 'ies'
+            } (${formatBytes(result.pruned.freed_bytes)} freed).`,
+          ),
+        );
+      }
+      printStats(result.stats);
+    } catch (error) {
+      console.error(chalk.red(`[cache] ${error instanceof Error ? error.message : String(error)}`));
+      process.exitCode = 1;
+    }
+  });
+
+export default cacheCommand;
@@ -3,27 +3,34 @@
  * @description CLI wiring for the fetch workflow. Business logic lives in `src/workflows/fetch-workflow.ts`.
  */
 
+import chalk from 'chalk';
 import { Command } from 'commander';
-import { runFetchWorkflow } from '../workflows/fetch-workflow';
+import { type FetchSource, runFetchWorkflow } from '../workflows/fetch-workflow';
 
-type FetchCliOptions = { topic?: string };
+type FetchCliOptions = { topic?: string; fromFile?: string };
 
-const fetchCommand = new Command('fetch').description(
-  'Download topic content from Grokipedia and Wikipedia for offline comparison',
-);
-
-const registerSubcommand = (source: 'wiki' | 'grok' | 'both', description: string): void => {
-  fetchCommand
-    .command(source)
-    .description(description)
-    .option('-t, --topic <id>', 'Topic identifier (default: all topics)')
-    .action(async (options: FetchCliOptions) => {
-      await runFetchWorkflow(source, options.topic);
-    });
-};
-
-registerSubcommand('wiki', 'Fetch articles from Wikipedia');
-registerSubcommand('grok', 'Fetch articles from Grokipedia');
-registerSubcommand('both', 'Fetch articles from both Wikipedia and Grokipedia');
+/**
+ * The source is checked against the registry when the command runs, so configured sources in
+ * `.gwalnrc.json` are only read by `fetch` itself.
+ */
+const fetchCommand = new Command('fetch')
+  .description('Download topic content from Grokipedia, Wikipedia, or a configured source')
+  .argument(
+    '<source>',
+    'wiki, grok, both, or a source id configured under "sources" in .gwalnrc.json',
+  )
+  .option('-t, --topic <id>', 'Topic identifier (default: all topics)')
+  .option(
+    '--from-file <path>',
+    'Parse a local file, a directory of <topic>.<ext> files, or a MediaWiki XML dump (single source only)',
+  )
+  .action(async (source: FetchSource, options: FetchCliOptions) => {
+    try {
+      await runFetchWorkflow(source, options.topic, { fromFile: options.fromFile });
+    } catch (error) {
+      console.error(chalk.red(`[fetch] ${error instanceof Error ? error.message : String(error)}`));
+      process.exitCode = 1;
+    }
+  });
 
 export default fetchCommand;
@@ -0,0 +1,75 @@
+/**
+ * @file src/commands/history.ts
+ * @description CLI wiring for the snapshot history workflow. Business logic lives in
+ *              `src/workflows/history-workflow.ts`.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import type { SnapshotRevisionEntry } from '../shared/snapshots';
+import { type HistorySourceOption, runHistoryWorkflow } from '../workflows/history-workflow';
+
+type HistoryCliOptions = {
+  source?: string;
+};
+
+const SOURCE_OPTIONS: HistorySourceOption[] = ['wiki', 'grok', 'both'];
+
+const printRevisions = (label: string, revisions: SnapshotRevisionEntry[]): void => {
+  console.log(chalk.cyan(`${label} (${revisions.length} revision(s))`));
+  if (!revisions.length) {
+    console.log(chalk.gray('  No archived revisions. Fetch the topic to start its history.'));
+    return;
+  }
+  revisions.forEach((entry, idx) => {
+    const marker = idx === revisions.length - 1 ? chalk.green(' (latest)') : '';
+    console.log(
+      `  ${entry.revision_timestamp}  ${chalk.white(entry.revision_id)}${marker} ${chalk.gray(
+        `stored ${entry.stored_at}`,
+      )}`,
+    );
+  });
+};
+
+const historyCommand = new Command('history')
+  .description('List archived Wikipedia/Grokipedia snapshot revisions for a topic')
+  .argument('<topic>', 'Topic identifier')
+  .option('-s, --source <source>', 'Limit output to wiki, grok, or both', 'both')
+  .action((topicId: string, options: HistoryCliOptions) => {
+    const source = (options.source ?? 'both').toLowerCase() as HistorySourceOption;
+    if (!SOURCE_OPTIONS.includes(source)) {
+      console.error(
+        chalk.red(`[history] Unknown source '${options.source}'. Use wiki, grok, or both.`),
+      );
+      process.exitCode = 1;
+      return;
+    }
+    let result: ReturnType<typeof runHistoryWorkflow>;
+    try {
+      result = runHistoryWorkflow({ topicId, source });
+    } catch (error) {
+      console.error(
+        chalk.red(`[history] ${error instanceof Error ? error.message : String(error)}`),
+      );
+      process.exitCode = 1;
+      return;
+    }
+    console.log(chalk.bold(`[history] ${result.topic.title} (${result.topic.id})\n`));
+    if (source !== 'grok') {
+      printRevisions('Wikipedia', result.wiki);
+    }
+    if (source === 'both') {
+      console.log('');
+    }
+    if (source !== 'wiki') {
+      printRevisions('Grokipedia', result.grok);
+    }
+    console.log(
+      chalk.gray(
+        `\nCompare revisions with: gwaln analyse --topic ${result.topic.id} --base grok@<revision> --target grok@latest`,
+      ),
+    );
+  });
+
+export default historyCommand;
@@ -12,9 +12,11 @@ import {
   type GrokipediaSearchResult,
   type WikipediaSearchResult,
 } from '../workflows/lookup-workflow';
+import { normalizeWikipediaLang } from '../shared/topics';
 
 type LookupCliOptions = {
   limit?: string;
+  lang?: string;
 };
 
 const displayLocalTopic = (topic: {
@@ -22,6 +24,7 @@ const displayLocalTopic = (topic: {
   title: string;
   wikipedia_slug: string;
   grokipedia_slug: string;
+  lang?: string;
   ual?: string;
   category?: string;
 }): void => {
@@ -30,6 +33,9 @@ const displayLocalTopic = (topic: {
   console.log(chalk.gray(`  ID: ${topic.id}`));
   console.log(chalk.gray(`  Wikipedia: ${topic.wikipedia_slug}`));
   console.log(chalk.gray(`  Grokipedia: ${topic.grokipedia_slug}`));
+  if (topic.lang) {
+    console.log(chalk.gray(`  Language: ${topic.lang}`));
+  }
   if (topic.ual) {
     console.log(chalk.gray(`  UAL: ${topic.ual}`));
   }
@@ -68,6 +74,7 @@ const displaySearchResults = (
 const promptAndAddTopic = async (
   grokResults: GrokipediaSearchResult[],
   wikiResults: WikipediaSearchResult[],
+  lang?: string,
 ): Promise<void> => {
   if (grokResults.length === 0 || wikiResults.length === 0) {
     if (grokResults.length === 0) {
@@ -92,19 +99,31 @@ const promptAndAddTopic = async (
     title: selectedWiki.title,
     wikipediaSlug: wikiSlug,
     grokipediaSlug: grokSlug,
+    lang,
   });
 
   console.log(chalk.green(`\n[lookup] Added topic "${newTopic.title}" to catalog`));
   console.log(chalk.gray(`  ID: ${newTopic.id}`));
   console.log(chalk.gray(`  Wikipedia: ${newTopic.wikipedia_slug}`));
   console.log(chalk.gray(`  Grokipedia: ${newTopic.grokipedia_slug}`));
+  if (newTopic.lang) {
+    console.log(chalk.gray(`  Language: ${newTopic.lang}`));
+  }
 };
 
 const lookupCommand = new Command('lookup')
   .description('Lookup a topic in the catalog or search APIs to add it')
   .argument('<query>', 'Topic name or keyword to lookup')
   .option('--limit <number>', 'Number of search results to show', '5')
+  .option('--lang <code>', 'Wikipedia language edition to search (e.g., de, es, ja)', 'en')
   .action(async (query: string, options: LookupCliOptions) => {
+    try {
+      normalizeWikipediaLang(options.lang ?? 'en');
+    } catch (error) {
+      console.error(chalk.red(`[lookup] ${(error as Error).message}`));
+      process.exitCode = 1;
+      return;
+    }
     const limit = parseInt(options.limit || '5', 10);
 
     console.log(chalk.cyan(`[lookup] Looking up "${query}"...\n`));
@@ -127,6 +146,7 @@ const lookupCommand = new Command('lookup')
       query,
       searchApis: true,
       limit,
+      lang: options.lang,
     });
 
     if (!searchResult.searchResults) {
@@ -141,7 +161,7 @@ const lookupCommand = new Command('lookup')
     }
 
     displaySearchResults(grokResults, wikiResults);
-    await promptAndAddTopic(grokResults, wikiResults);
+    await promptAndAddTopic(grokResults, wikiResults, options.lang);
   });
 
 export default lookupCommand;
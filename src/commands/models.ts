@@ -0,0 +1,137 @@
+/**
+ * @file src/commands/models.ts
+ * @description CLI wiring for local transformer model management. Business logic lives in
+ *              `src/workflows/models-workflow.ts`.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import {
+  parseModelPipelines,
+  runModelsListWorkflow,
+  runModelsPathWorkflow,
+  runModelsPullWorkflow,
+  runModelsVerifyWorkflow,
+} from '../workflows/models-workflow';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KiB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MiB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GiB`;
+};
+
+const fail = (error: unknown): void => {
+  console.error(chalk.red(`[models] ${error instanceof Error ? error.message : String(error)}`));
+  process.exitCode = 1;
+};
+
+const modelsCommand = new Command('models').description(
+  'Manage the local transformer models used by semantic pipelines',
+);
+
+modelsCommand
+  .command('list')
+  .description('List each pipeline with its model and download status')
+  .action(() => {
+    try {
+      const { settings, models } = runModelsListWorkflow();
+      const mode = settings.offline ? chalk.yellow(' (offline)') : '';
+      console.log(chalk.bold(`[models] Model cache: ${settings.cacheDir}${mode}`));
+      models.forEach(({ spec, cached, bytes, manifest }) => {
+        const variant = [spec.quantized ? 'quantized' : 'full precision', spec.revision]
+          .filter((part) => part !== 'main')
+          .join(', ');
+        const status = cached
+          ? chalk.green(`downloaded, ${formatBytes(bytes)}${manifest ? '' : ', no checksums'}`)
+          : chalk.gray('not downloaded');
+        console.log(
+          `  ${chalk.cyan(spec.id.padEnd(9))} ${spec.model} (${variant})${
+            spec.overridden ? chalk.magenta(' [config]') : ''
+          } ${status}`,
+        );
+        console.log(chalk.gray(`            ${spec.description}`));
+      });
+      if (models.some((entry) => !entry.cached)) {
+        console.log(chalk.gray('\nDownload missing models with: gwaln models pull'));
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+modelsCommand
+  .command('pull')
+  .description('Download pipeline models and record their checksums (default: all pipelines)')
+  .argument('[pipelines...]', 'bias, nli, summary, or embedding')
+  .action(async (names: string[]) => {
+    try {
+      const pipelines = parseModelPipelines(names);
+      const records = await runModelsPullWorkflow({
+        pipelines,
+        onProgress: (pipeline, event) => {
+          if (event.status === 'done' && event.file) {
+            console.log(chalk.gray(`  [${pipeline}] ${event.file}`));
+          }
+        },
+      });
+      records.forEach((record) => {
+        const detail = record.sharedWith
+          ? `same model as ${record.sharedWith}`
+          : `${record.files} file(s), ${formatBytes(record.bytes)}`;
+        console.log(chalk.green(`[models] ${record.pipeline}: ${record.model} (${detail})`));
+      });
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+modelsCommand
+  .command('verify')
+  .description('Check downloaded models against the checksums recorded by pull')
+  .argument('[pipelines...]', 'bias, nli, summary, or embedding')
+  .action(async (names: string[]) => {
+    try {
+      const results = await runModelsVerifyWorkflow({ pipelines: parseModelPipelines(names) });
+      results.forEach((result) => {
+        const label = `[models] ${result.spec.id}: ${result.spec.model}`;
+        if (result.status === 'ok') {
+          console.log(chalk.green(`${label} ok (${result.checked} file(s))`));
+        } else if (result.status === 'unverified') {
+          console.log(
+            chalk.yellow(
+              `${label} has no checksums; run \`gwaln models pull ${result.spec.id}\` to record them`,
+            ),
+          );
+        } else if (result.status === 'missing') {
+          console.log(
+            chalk.red(`${label} is not downloaded; run \`gwaln models pull ${result.spec.id}\``),
+          );
+        } else {
+          console.log(chalk.red(`${label} failed verification`));
+          result.modified.forEach((file) => console.log(chalk.red(`  changed: ${file}`)));
+          result.missing.forEach((file) => console.log(chalk.red(`  missing: ${file}`)));
+          console.log(chalk.gray(`  Re-download with: gwaln models pull ${result.spec.id}`));
+        }
+      });
+      if (results.some((result) => result.status === 'corrupt' || result.status === 'missing')) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+modelsCommand
+  .command('path')
+  .description('Print the model cache directory, or the directory of one pipeline model')
+  .argument('[pipeline]', 'bias, nli, summary, or embedding')
+  .action((pipeline?: string) => {
+    try {
+      console.log(runModelsPathWorkflow(pipeline));
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+export default modelsCommand;
@@ -10,7 +10,7 @@ import { Command } from 'commander';
 import { spawn } from 'node:child_process';
 import { resolve as resolvePath, isAbsolute } from 'node:path';
 import { existsSync } from 'node:fs';
-import { StructuredAnalysisReport } from '../lib/structured-report';
+import type { StructuredAnalysisReport } from '../lib/structured-report';
 import { NoteIndexEntry } from '../shared/notes';
 import {
   loadShowContext,
@@ -60,8 +60,10 @@ const printAnalysis = (analysis: StructuredAnalysisReport): void => {
     attachments,
     bias_metrics: biasMetrics,
     meta,
+    sources,
   } = analysis;
   console.log(chalk.bold(`# ${topic.title} (${topic.id})`));
+  console.log(chalk.gray(`${sources.reference.label} → ${sources.candidate.label}`));
   console.log(chalk.gray(summary.headline));
   console.log(
     [
@@ -80,22 +82,26 @@ const printAnalysis = (analysis: StructuredAnalysisReport): void => {
   );
 
   printBulletSection(
-    'Missing snippets (Wikipedia only)',
+    `Missing snippets (${sources.reference.label} only)`,
     chalk.yellow,
     comparison.sentences.missing,
   );
-  printBulletSection('Extra snippets (Grokipedia only)', chalk.cyan, comparison.sentences.extra);
+  printBulletSection(
+    `Extra snippets (${sources.candidate.label} only)`,
+    chalk.cyan,
+    comparison.sentences.extra,
+  );
 
   const structuralIssues = discrepancies.primary ?? [];
   if (structuralIssues.length) {
     console.log(chalk.bold('\nStructured discrepancies:'));
     structuralIssues.forEach((issue, idx) => {
       const evidence = issue.evidence ?? {};
-      const wikiEvidence = evidence.wikipedia
-        ? `\n   - Wikipedia: ${formatSnippet(evidence.wikipedia)}`
+      const wikiEvidence = evidence.reference
+        ? `\n   - ${sources.reference.label}: ${formatSnippet(evidence.reference)}`
         : '';
-      const grokEvidence = evidence.grokipedia
-        ? `\n   - Grokipedia: ${formatSnippet(evidence.grokipedia)}`
+      const grokEvidence = evidence.candidate
+        ? `\n   - ${sources.candidate.label}: ${formatSnippet(evidence.candidate)}`
         : '';
       console.log(
         ` ${idx + 1}. [${issue.type}] ${issue.description}${wikiEvidence}${grokEvidence}`,
@@ -150,10 +156,37 @@ const printAnalysis = (analysis: StructuredAnalysisReport): void => {
   const citationChecks = attachments.citation_verifications ?? [];
   if (citationChecks.length) {
     console.log(chalk.bold('\nCitation verification:'));
+    const verifiability = attachments.citation_verifiability;
+    if (verifiability) {
+      (['reference', 'candidate'] as const).forEach((side) => {
+        const counts = verifiability[side];
+        console.log(
+          `   ${sources[side].label}: ${counts.supported}/${counts.checked} supported, ${counts.partially_supported} partial, ${counts.unsupported} unsupported, ${counts.error} unreadable`,
+        );
+      });
+    }
     citationChecks.forEach((entry) => {
       const url = entry.supporting_url ? ` (${entry.supporting_url})` : '';
       const message = entry.message ? ` - ${entry.message}` : '';
-      console.log(` - [${entry.status}] ${formatSnippet(entry.sentence ?? '')}${url}${message}`);
+      const side = entry.source ? `${sources[entry.source].label} ` : '';
+      const extractor = entry.extractor
+        ? ` [${entry.extractor}${entry.truncated ? ', truncated' : ''}]`
+        : '';
+      console.log(
+        ` - [${entry.status}] ${side}${formatSnippet(entry.sentence ?? '')}${url}${extractor}${message}`,
+      );
+      if (entry.passage) console.log(chalk.gray(`     "${formatSnippet(entry.passage)}"`));
+    });
+  }
+
+  const linkRot = attachments.link_rot;
+  if (linkRot) {
+    console.log(chalk.bold('\nLink health:'));
+    (['reference', 'candidate'] as const).forEach((side) => {
+      const counts = linkRot[side];
+      console.log(
+        `   ${sources[side].label}: ${counts.live} live, ${counts.archived} archived, ${counts.dead} dead${counts.unreachable ? `, ${counts.unreachable} unreachable` : ''} of ${counts.checked} (rot ${(counts.rot_rate * 100).toFixed(1)}%)`,
+      );
     });
   }
 
@@ -215,15 +248,18 @@ const printNote = (_topicId: string, payload: NotePayload): void => {
     console.log(`Stake: ${stake['amount'] ?? 0} ${stake['token'] ?? 'TRAC'}`);
   }
   const annotations = (note['hasPart'] as Array<Record<string, unknown>>) ?? [];
+  const compared = (note['citation'] as Array<Record<string, string>> | undefined) ?? [];
   annotations.forEach((issue, idx) => {
     const body = issue.body as Record<string, string> | undefined;
     const target = issue.target as Array<Record<string, unknown>> | undefined;
-    const wikiTarget = target?.find((t) => (t.source as string)?.includes('wikipedia'));
-    const grokTarget = target?.find((t) => (t.source as string)?.includes('grokipedia'));
+    const targets = compared
+      .map((source) => {
+        const match = target?.find((t) => t.source === source.url);
+        return `\n   ${source.name}: ${(match?.source as string | undefined) ?? 'n/a'}`;
+      })
+      .join('');
     console.log(
-      `- ${idx + 1}. [${issue.classification ?? 'annotation'}] ${body?.value ?? ''}\n   Wikipedia: ${
-        wikiTarget?.source ?? 'n/a'
-      }\n   Grokipedia: ${grokTarget?.source ?? 'n/a'}`,
+      `- ${idx + 1}. [${issue.classification ?? 'annotation'}] ${body?.value ?? ''}${targets}`,
     );
   });
 };
@@ -6,11 +6,11 @@
  */
 
 import { Command } from 'commander';
-import fetch from 'node-fetch';
 import fs from 'node:fs';
 import path from 'node:path';
+import { httpRequest } from '../shared/http';
 import { paths } from '../shared/paths';
-import { Topic, writeTopics } from '../shared/topics';
+import { DEFAULT_TOPIC_LANG, Topic, writeTopics } from '../shared/topics';
 
 interface TopicFeedRecord {
   id?: string;
@@ -28,11 +28,21 @@ interface TopicFeedRecord {
   };
   metadata?: Record<string, unknown>;
   category?: string;
+  lang?: string;
 }
 
 const normalizeSlug = (value?: string | null): string | undefined => {
   if (!value) return undefined;
-  return value.replace(/^https?:\/\/en\.wikipedia\.org\/wiki\//i, '').replace(/^\/+/, '');
+  return value
+    .replace(/^https?:\/\/[a-z-]+(?:\.m)?\.wikipedia\.org\/wiki\//i, '')
+    .replace(/^\/+/, '');
+};
+
+const extractWikipediaLang = (record: TopicFeedRecord): string | undefined => {
+  if (record.lang) return record.lang.toLowerCase();
+  const link = record.links?.wikipedia ?? record.wikipedia_url ?? record.wikipediaUrl;
+  const match = link?.match(/^https?:\/\/([a-z-]+)(?:\.m)?\.wikipedia\.org\//i);
+  return match ? match[1].toLowerCase() : undefined;
 };
 
 const normalizeGrokSlug = (value?: string | null): string | undefined => {
@@ -63,6 +73,7 @@ const extractSlugFromLinks = (
 const mapFeedRecordToTopic = (record: TopicFeedRecord, fallbackIndex: number): Topic | null => {
   const wikipediaSlug = extractSlugFromLinks(record, 'wikipedia');
   const grokSlug = extractSlugFromLinks(record, 'grokipedia');
+  const lang = extractWikipediaLang(record);
   const rawTitle = record.title ?? record.metadata?.['title'];
   const title = typeof rawTitle === 'string' ? rawTitle : undefined;
   if (!title || !wikipediaSlug || !grokSlug) {
@@ -76,6 +87,7 @@ const mapFeedRecordToTopic = (record: TopicFeedRecord, fallbackIndex: number): T
     title,
     wikipedia_slug: wikipediaSlug,
     grokipedia_slug: grokSlug,
+    ...(lang && lang !== DEFAULT_TOPIC_LANG ? { lang } : {}),
     ual: record.ual,
     category:
       record.category ??
@@ -107,15 +119,16 @@ const parseTopicPayload = (payload: unknown): Topic[] => {
 };
 
 const fetchTopicsFromFeed = async (url: string): Promise<Topic[]> => {
-  const response = await fetch(url, {
+  const response = await httpRequest(url, {
     headers: {
       'Content-Type': 'application/json',
     },
+    cache: false,
   });
   if (!response.ok) {
     throw new Error(`Failed to fetch topic source (${response.status} ${response.statusText}).`);
   }
-  const payload = await response.json();
+  const payload = JSON.parse(response.text);
   return parseTopicPayload(payload);
 };
 
@@ -5,67 +5,227 @@
  */
 
 import stringSimilarity from 'string-similarity';
-import type { StructuredArticle, StructuredClaim } from '../parsers/shared/types';
+import type {
+  StructuredArticle,
+  StructuredClaim,
+  StructuredParagraph,
+} from '../parsers/shared/types';
+import { maximumWeightAssignment, type SparseWeights } from './assignment';
+import type { NliVerdict } from './contradictions';
+import type { SimilarityIndex } from './semantic-alignment';
+
+/**
+ * How an aligned pair was matched: `string` for Dice-coefficient character bigrams, `embedding`
+ * for sentence-embedding cosine similarity (`--semantic-align`).
+ */
+export type AlignmentMethod = 'string' | 'embedding';
 
 export interface SectionAlignmentRecord {
-  wikipedia?: { section_id: string; heading: string };
-  grokipedia?: { section_id: string; heading: string };
+  reference?: { section_id: string; heading: string };
+  candidate?: { section_id: string; heading: string };
   similarity: number;
+  method?: AlignmentMethod | null;
+  /** Next-best candidate heading for a matched reference section. */
+  runner_up?: { section_id: string; heading: string; similarity: number } | null;
+  /** `similarity - runner_up.similarity`; small margins flag ambiguous matches. */
+  margin?: number | null;
 }
 
 export interface ClaimAlignmentRecord {
-  wikipedia?: StructuredClaim;
-  grokipedia?: StructuredClaim;
+  reference?: StructuredClaim;
+  candidate?: StructuredClaim;
   similarity: number;
+  /** Method that produced the match; `null` when the claim has no counterpart. */
+  method: AlignmentMethod | null;
+  /** Next-best candidate claim for a matched reference claim, whether or not it is taken. */
+  runner_up?: { claim_id: string; text: string; similarity: number } | null;
+  /** `similarity - runner_up.similarity`; small margins flag ambiguous matches. */
+  margin?: number | null;
+  /** Entailment verdict for the pair when `--nli` is enabled. */
+  nli?: NliVerdict;
+}
+
+export interface AlignmentOptions {
+  /** Embedding index; when present, pairs that fail the string threshold are re-scored. */
+  index?: SimilarityIndex | null;
+  /** Precomputed section alignment used for the claim position prior. */
+  sections?: SectionAlignmentRecord[];
 }
 
 const SECTION_THRESHOLD = 0.7;
 const CLAIM_THRESHOLD = 0.65;
+const SEMANTIC_SECTION_THRESHOLD = 0.75;
+/** Minimum cosine similarity for two sentences or claims to count as paraphrases. */
+export const SEMANTIC_SIMILARITY_THRESHOLD = 0.78;
+
+/**
+ * Position prior added to eligible pair weights during assignment (never to the reported
+ * similarity): claims in aligned sections get `SAME_SECTION_PRIOR`, and both claims and sections
+ * get up to `POSITION_PRIOR` for sitting at the same relative position in their article.
+ */
+const SAME_SECTION_PRIOR = 0.05;
+const POSITION_PRIOR = 0.05;
 
 const normalizeHeading = (value: string): string => value.trim().toLowerCase();
 
+interface ScoredMatch {
+  similarity: number;
+  method: AlignmentMethod;
+  matched: boolean;
+}
+
+/**
+ * Scores a pair with string similarity first and falls back to the embedding index only when
+ * the lexical score misses its threshold, so the reported method is the one that matched.
+ */
+const scorePair = (
+  lexical: number,
+  lexicalThreshold: number,
+  semantic: () => number | null,
+  semanticThreshold: number,
+): ScoredMatch => {
+  if (lexical >= lexicalThreshold) {
+    return { similarity: lexical, method: 'string', matched: true };
+  }
+  const cosine = semantic();
+  if (cosine !== null && cosine >= semanticThreshold) {
+    return { similarity: cosine, method: 'embedding', matched: true };
+  }
+  return { similarity: lexical, method: 'string', matched: false };
+};
+
+const round = (value: number): number => Number(value.toFixed(3));
+
+const relativePosition = (index: number, total: number): number =>
+  total > 1 ? index / (total - 1) : 0.5;
+
+const positionPrior = (wikiIdx: number, wikiTotal: number, grokIdx: number, grokTotal: number) =>
+  POSITION_PRIOR *
+  (1 - Math.abs(relativePosition(wikiIdx, wikiTotal) - relativePosition(grokIdx, grokTotal)));
+
+interface OptimalMatch {
+  /** Index of the assigned candidate, or -1. */
+  assigned: number;
+  score: ScoredMatch | null;
+  /** Best raw score on the row, used for unmatched records. */
+  best: ScoredMatch | null;
+  runnerUp: { index: number; score: ScoredMatch } | null;
+}
+
+interface RankedScore {
+  index: number;
+  score: ScoredMatch;
+}
+
+/**
+ * Scores every pair but keeps only the eligible ones (plus the two best scores per row), solves
+ * the maximum-weight one-to-one assignment over them (similarity plus the supplied prior), and
+ * reports the runner-up candidate per row.
+ */
+const matchOptimally = (
+  rows: number,
+  cols: number,
+  score: (row: number, col: number) => ScoredMatch,
+  prior: (row: number, col: number) => number,
+): OptimalMatch[] => {
+  const eligible: Array<Map<number, ScoredMatch>> = [];
+  const weights: SparseWeights = [];
+  const leaders: Array<[RankedScore | null, RankedScore | null]> = [];
+  for (let row = 0; row < rows; row += 1) {
+    const matched = new Map<number, ScoredMatch>();
+    const rowWeights = new Map<number, number>();
+    let first: RankedScore | null = null;
+    let second: RankedScore | null = null;
+    for (let col = 0; col < cols; col += 1) {
+      const entry = score(row, col);
+      if (entry.matched) {
+        matched.set(col, entry);
+        rowWeights.set(col, entry.similarity + prior(row, col));
+      }
+      if (!first || entry.similarity > first.score.similarity) {
+        second = first;
+        first = { index: col, score: entry };
+      } else if (!second || entry.similarity > second.score.similarity) {
+        second = { index: col, score: entry };
+      }
+    }
+    eligible.push(matched);
+    weights.push(rowWeights);
+    leaders.push([first, second]);
+  }
+  const assignment = maximumWeightAssignment(weights, cols);
+  return leaders.map(([first, second], row) => {
+    const assigned = assignment[row];
+    return {
+      assigned,
+      score: assigned >= 0 ? (eligible[row].get(assigned) ?? null) : null,
+      best: first?.score ?? null,
+      runnerUp: first && first.index !== assigned ? first : second,
+    };
+  });
+};
+
 export const alignSections = (
   wiki: StructuredArticle,
   grok: StructuredArticle,
+  options: AlignmentOptions = {},
 ): SectionAlignmentRecord[] => {
-  const results: SectionAlignmentRecord[] = [];
+  const grokSections = grok.sections.filter((section) => Boolean(section.heading));
+  const matches = matchOptimally(
+    wiki.sections.length,
+    grokSections.length,
+    (row, col) => {
+      const heading = wiki.sections[row].heading ?? '';
+      const candidateHeading = grokSections[col].heading;
+      return scorePair(
+        stringSimilarity.compareTwoStrings(
+          normalizeHeading(heading),
+          normalizeHeading(candidateHeading),
+        ),
+        SECTION_THRESHOLD,
+        () => options.index?.similarity(heading, candidateHeading) ?? null,
+        SEMANTIC_SECTION_THRESHOLD,
+      );
+    },
+    (row, col) => positionPrior(row, wiki.sections.length, col, grokSections.length),
+  );
+
   const usedGrok = new Set<string>();
-  for (const section of wiki.sections) {
+  const results: SectionAlignmentRecord[] = wiki.sections.map((section, row) => {
     const heading = section.heading ?? '';
-    let best: { id: string; heading: string; similarity: number } | null = null;
-    for (const candidate of grok.sections) {
-      if (!candidate.heading) continue;
-      if (usedGrok.has(candidate.section_id)) continue;
-      const similarity = stringSimilarity.compareTwoStrings(
-        normalizeHeading(heading),
-        normalizeHeading(candidate.heading),
-      );
-      if (!best || similarity > best.similarity) {
-        best = { id: candidate.section_id, heading: candidate.heading, similarity };
-      }
-    }
-    const matched = best;
-    if (matched && matched.similarity >= SECTION_THRESHOLD) {
-      usedGrok.add(matched.id);
-      results.push({
-        wikipedia: { section_id: section.section_id, heading },
-        grokipedia: { section_id: matched.id, heading: matched.heading },
-        similarity: Number(matched.similarity.toFixed(3)),
-      });
-    } else {
-      results.push({
-        wikipedia: { section_id: section.section_id, heading },
-        grokipedia: undefined,
-        similarity: matched?.similarity ?? 0,
-      });
+    const { assigned, score, best, runnerUp } = matches[row];
+    if (assigned < 0 || !score) {
+      return {
+        reference: { section_id: section.section_id, heading },
+        candidate: undefined,
+        similarity: best?.similarity ?? 0,
+        method: null,
+      };
     }
-  }
+    const matched = grokSections[assigned];
+    usedGrok.add(matched.section_id);
+    return {
+      reference: { section_id: section.section_id, heading },
+      candidate: { section_id: matched.section_id, heading: matched.heading },
+      similarity: round(score.similarity),
+      method: score.method,
+      runner_up: runnerUp
+        ? {
+            section_id: grokSections[runnerUp.index].section_id,
+            heading: grokSections[runnerUp.index].heading,
+            similarity: round(runnerUp.score.similarity),
+          }
+        : null,
+      margin: round(score.similarity - (runnerUp?.score.similarity ?? 0)),
+    };
+  });
   grok.sections.forEach((section: { section_id: string; heading?: string }) => {
     if (usedGrok.has(section.section_id)) return;
     results.push({
-      wikipedia: undefined,
-      grokipedia: { section_id: section.section_id, heading: section.heading ?? '' },
+      reference: undefined,
+      candidate: { section_id: section.section_id, heading: section.heading ?? '' },
       similarity: 0,
+      method: null,
     });
   });
   return results;
@@ -74,44 +234,97 @@ export const alignSections = (
 const compareClaims = (a: string, b: string): number =>
   stringSimilarity.compareTwoStrings(a.trim().toLowerCase(), b.trim().toLowerCase());
 
+const LEAD_SECTION = 'lead';
+
+/**
+ * Maps each claim id to the section whose sentences reference it (`lead` for the lead).
+ */
+const claimSections = (article: StructuredArticle): Map<string, string> => {
+  const owners = new Map<string, string>();
+  const register = (paragraphs: StructuredParagraph[], sectionId: string) =>
+    paragraphs.forEach((paragraph) =>
+      paragraph.sentences.forEach((sentence) =>
+        sentence.claim_ids.forEach((claimId) => owners.set(claimId, sectionId)),
+      ),
+    );
+  register(article.lead?.paragraphs ?? [], LEAD_SECTION);
+  article.sections.forEach((section) => register(section.paragraphs, section.section_id));
+  return owners;
+};
+
 export const alignClaims = (
   wiki: StructuredArticle,
   grok: StructuredArticle,
+  options: AlignmentOptions = {},
 ): ClaimAlignmentRecord[] => {
   const wikiClaims = wiki.claims ?? [];
   const grokClaims = grok.claims ?? [];
-  const used = new Set<string>();
-  const alignments: ClaimAlignmentRecord[] = [];
-  for (const claim of wikiClaims) {
-    let best: { claim: StructuredClaim; similarity: number } | null = null;
-    for (const candidate of grokClaims) {
-      if (used.has(candidate.claim_id)) continue;
-      const similarity = compareClaims(claim.text, candidate.text);
-      if (!best || similarity > best.similarity) {
-        best = { claim: candidate, similarity };
-      }
+  const sectionPairs = new Map<string, string>([[LEAD_SECTION, LEAD_SECTION]]);
+  (options.sections ?? alignSections(wiki, grok, options)).forEach((record) => {
+    if (record.reference && record.candidate) {
+      sectionPairs.set(record.reference.section_id, record.candidate.section_id);
     }
-    if (best && best.similarity >= CLAIM_THRESHOLD) {
-      used.add(best.claim.claim_id);
-      alignments.push({
-        wikipedia: claim,
-        grokipedia: best.claim,
-        similarity: Number(best.similarity.toFixed(3)),
-      });
-    } else {
-      alignments.push({
-        wikipedia: claim,
-        grokipedia: undefined,
+  });
+  const wikiOwners = claimSections(wiki);
+  const grokOwners = claimSections(grok);
+
+  const matches = matchOptimally(
+    wikiClaims.length,
+    grokClaims.length,
+    (row, col) =>
+      scorePair(
+        compareClaims(wikiClaims[row].text, grokClaims[col].text),
+        CLAIM_THRESHOLD,
+        () => options.index?.similarity(wikiClaims[row].text, grokClaims[col].text) ?? null,
+        SEMANTIC_SIMILARITY_THRESHOLD,
+      ),
+    (row, col) => {
+      const wikiSection = wikiOwners.get(wikiClaims[row].claim_id);
+      const sameSection =
+        wikiSection !== undefined &&
+        sectionPairs.get(wikiSection) === grokOwners.get(grokClaims[col].claim_id);
+      return (
+        (sameSection ? SAME_SECTION_PRIOR : 0) +
+        positionPrior(row, wikiClaims.length, col, grokClaims.length)
+      );
+    },
+  );
+
+  const used = new Set<string>();
+  const alignments: ClaimAlignmentRecord[] = wikiClaims.map((claim, row) => {
+    const { assigned, score, best, runnerUp } = matches[row];
+    if (assigned < 0 || !score) {
+      return {
+        reference: claim,
+        candidate: undefined,
         similarity: best?.similarity ?? 0,
-      });
+        method: null,
+      };
     }
-  }
+    const matched = grokClaims[assigned];
+    used.add(matched.claim_id);
+    return {
+      reference: claim,
+      candidate: matched,
+      similarity: round(score.similarity),
+      method: score.method,
+      runner_up: runnerUp
+        ? {
+            claim_id: grokClaims[runnerUp.index].claim_id,
+            text: grokClaims[runnerUp.index].text,
+            similarity: round(runnerUp.score.similarity),
+          }
+        : null,
+      margin: round(score.similarity - (runnerUp?.score.similarity ?? 0)),
+    };
+  });
   grokClaims.forEach((claim: StructuredClaim) => {
     if (used.has(claim.claim_id)) return;
     alignments.push({
-      wikipedia: undefined,
-      grokipedia: claim,
+      reference: undefined,
+      candidate: claim,
       similarity: 0,
+      method: null,
     });
   });
   return alignments;
@@ -10,27 +10,41 @@ import {
   ANALYZER_VERSION,
   CACHE_TTL_HOURS,
   CLASSIFICATION_THRESHOLDS,
+  DEFAULT_SOURCE_LABELS,
   HIGHLIGHT_WINDOW,
   SEMANTIC_BIAS_CONFIDENCE_THRESHOLD,
   SEMANTIC_NEUTRAL_THRESHOLD,
   SHINGLE_SIZE,
 } from '../shared/analyzer-config';
+import { createLlmUsageRecorder, type LlmUsageRecorder, type LlmUsageReport } from '../llm';
 import { computeContentHash } from '../shared/content-hash';
 import type { Topic } from '../shared/topics';
 import {
   alignClaims,
   alignSections,
   type ClaimAlignmentRecord,
+  SEMANTIC_SIMILARITY_THRESHOLD,
   type SectionAlignmentRecord,
 } from './alignment';
 import { biasCategories } from './bias-lexicon';
 import { type BiasMetrics, computeBiasMetrics } from './bias-metrics';
+import { detectContradictions } from './contradictions';
+import { type CitationMatch, matchCitations } from './citation-matching';
+import { compareInfobox, type InfoboxFieldComparison } from './infobox-comparison';
+import { computeSourceOverlap, type SourceOverlap } from './source-overlap';
+import { assessSourceQuality, type SourceQuality } from './source-reliability';
+import type { SourceExtractor } from './source-text';
+import { compareTables, type TableComparison } from './table-comparison';
 import {
   detectEntityDiscrepancies,
   detectNumericDiscrepancies,
+  detectTemporalDiscrepancies,
   type EntityDiscrepancy,
   type NumericDiscrepancy,
+  type NumericTolerances,
+  type TemporalDiscrepancy,
 } from './discrepancies';
+import type { EmbeddingIndex } from './semantic-alignment';
 import type {
   StructuredArticle,
   StructuredClaim,
@@ -50,18 +64,97 @@ export type DiscrepancyType =
   | 'bias_shift'
   | 'hallucination'
   | 'factual_error'
-  | 'reworded_claim';
+  | 'reworded_claim'
+  | 'contradiction'
+  | 'temporal_discrepancy'
+  | 'infobox_mismatch'
+  | 'table_discrepancy'
+  | 'deprecated_source';
 
 export interface DiscrepancyRecord {
   type: DiscrepancyType;
   description: string;
   evidence: {
-    wikipedia?: string;
-    grokipedia?: string;
+    reference?: string;
+    candidate?: string;
+    reference_claim_id?: string;
+    candidate_claim_id?: string;
+    /** Reference infobox parameter the discrepancy refers to. */
+    infobox_field?: string;
+    /** Reference table (`table_id`) the discrepancy refers to. */
+    table_id?: string;
+    /** Reference (`citation_id`) the discrepancy refers to. */
+    citation_id?: string;
   };
   severity?: number;
   category?: string;
   tags?: string[];
+  /** LLM verdict from `--llm-verify` or `--bias-verifier`. */
+  verification?: DiscrepancyVerification;
+}
+
+export interface DiscrepancyVerification {
+  provider: string;
+  model: string;
+  verdict: BiasVerificationVerdict;
+  confidence: number | null;
+  rationale?: string;
+  /** Passages shown to the model, as `<side>:<sentence_id>`. */
+  context: string[];
+}
+
+/** Totals of one LLM verification run. */
+export interface LlmVerificationSummary {
+  provider: string;
+  model: string;
+  types: DiscrepancyType[];
+  batches: number;
+  verified: number;
+  confirmed: number;
+  rejected: number;
+  uncertain: number;
+}
+
+/**
+ * Side of a comparison, whichever adapters produced the snapshots: `reference` is the base ref
+ * (Wikipedia by default) and `candidate` the target (Grokipedia by default). `meta.sources` maps
+ * each side to the source id actually compared.
+ */
+export type ComparisonSide = 'reference' | 'candidate';
+
+/** Display name of the source behind each side, used in descriptions. */
+export type SourceLabels = Record<ComparisonSide, string>;
+
+/** Source adapter that produced one side of the comparison. */
+export interface ComparedSource {
+  /** Adapter id, e.g. `wiki`, `grok`, or a source configured under `sources`. */
+  id: string;
+  label: string;
+  /** Page slug the adapter used for the topic. */
+  slug: string;
+  url: string;
+}
+
+/**
+ * Names of the compared sources from `meta.sources`, defaulting to Wikipedia and Grokipedia.
+ * Identical names (two revisions of one source) get the side appended so descriptions can tell
+ * them apart.
+ */
+export const sourceLabels = (sources?: Record<ComparisonSide, ComparedSource>): SourceLabels => {
+  const labels = {
+    reference: sources?.reference.label ?? DEFAULT_SOURCE_LABELS.reference,
+    candidate: sources?.candidate.label ?? DEFAULT_SOURCE_LABELS.candidate,
+  };
+  return labels.reference === labels.candidate
+    ? { reference: `${labels.reference} (reference)`, candidate: `${labels.candidate} (candidate)` }
+    : labels;
+};
+
+/** A reference sentence that the candidate paraphrases. */
+export interface RewordedSentence {
+  reference: string;
+  candidate: string;
+  similarity: number;
 }
 
 export type ConfidenceLabel = 'aligned' | 'possible_divergence' | 'suspected_divergence';
@@ -73,7 +166,7 @@ export interface ConfidenceSummary {
 }
 
 export interface HighlightSnippet {
-  source: 'wikipedia' | 'grokipedia';
+  source: ComparisonSide;
   tag: 'missing' | 'extra' | 'bias' | 'hallucination';
   text: string;
   preview: string;
@@ -101,11 +194,35 @@ export interface AnalysisMeta {
     grok_analyzed_chars: number;
     source_note: string;
   };
+  revisions?: Record<ComparisonSide, AnalyzedRevision>;
+  /** Source behind each side of the comparison. */
+  sources?: Record<ComparisonSide, ComparedSource>;
+  /** `semantic` when `--semantic-align` embeddings were used alongside string similarity. */
+  alignment_method?: 'string' | 'semantic';
+  embedding_model?: string;
+  /** Model calls of this run (semantic bias, LLM verification, summaries) and their cost. */
+  llm_usage?: LlmUsageReport;
+}
+
+export interface AnalyzedRevision {
+  source: string;
+  revision_id: string;
+  revision_timestamp: string;
 }
 
 interface AnalyzerOptions {
   contentHash?: string;
   semanticBias?: boolean;
+  /** Align sentences, claims, and sections with sentence embeddings as well as string similarity. */
+  semanticAlign?: boolean;
+  /** Classify aligned claim pairs with an NLI model and report contradictions. */
+  nli?: boolean;
+  /** Per-unit/role overrides for the numeric comparison tolerances (`numericTolerances`). */
+  numericTolerances?: NumericTolerances;
+  /** Domain ratings merged over the bundled perennial-sources list (`sourceReliability`). */
+  sourceReliability?: Record<string, string>;
+  /** Sources behind each side; their labels name the sides in descriptions. */
+  sources?: Record<ComparisonSide, ComparedSource>;
 }
 
 export interface GeminiSummary {
@@ -137,22 +254,29 @@ export interface AnalysisPayload {
   ngram_overlap: number;
   missing_sentences: string[];
   extra_sentences: string[];
-  reworded_sentences: Array<{ wikipedia: string; grokipedia: string; similarity: number }>;
+  reworded_sentences: RewordedSentence[];
   truly_missing_sentences: string[];
   agreed_sentences: string[];
   sections_missing: string[];
   sections_extra: string[];
   citations: {
+    /** Reference citations whose source the candidate does not cite (by identifier or URL). */
     missing: string[];
     extra: string[];
+    matches: CitationMatch[];
   };
   diff_sample: string[];
   discrepancies: DiscrepancyRecord[];
   bias_events: DiscrepancyRecord[];
   hallucination_events: DiscrepancyRecord[];
   factual_errors: DiscrepancyRecord[];
+  /** NLI contradictions between aligned claims (`--nli`). */
+  contradictions?: DiscrepancyRecord[];
   bias_verifications?: BiasVerificationRecord[];
+  llm_verification?: LlmVerificationSummary;
   citation_verifications?: CitationVerificationRecord[];
+  /** Health of the reference links fetched by `--verify-citations`. */
+  link_health?: LinkHealthRecord[];
   gemini_summary?: GeminiSummary | null;
   confidence: ConfidenceSummary;
   highlights: {
@@ -164,14 +288,49 @@ export interface AnalysisPayload {
   section_alignment: SectionAlignmentRecord[];
   claim_alignment: ClaimAlignmentRecord[];
   numeric_discrepancies: NumericDiscrepancy[];
+  temporal_discrepancies: TemporalDiscrepancy[];
+  infobox_comparisons: InfoboxFieldComparison[];
+  table_comparisons: TableComparison[];
+  source_overlap: SourceOverlap;
+  source_quality: SourceQuality;
   entity_discrepancies: EntityDiscrepancy[];
   bias_metrics: BiasMetrics;
 }
 
 export interface CitationVerificationRecord {
+  source: ComparisonSide;
+  sentence_id: string;
   sentence: string;
-  status: 'supported' | 'unsupported' | 'error';
+  /** `error` when no cited source could be fetched or read. */
+  status: 'supported' | 'partially_supported' | 'unsupported' | 'error';
+  citation_ids: string[];
+  /** Score of the best passage, from 0 to 1. */
+  score?: number;
+  supporting_citation_id?: string | null;
   supporting_url?: string | null;
+  /** Archived copy read because `supporting_url` is dead. */
+  archive_url?: string;
+  /** Closest passage in the cited sources. */
+  passage?: string | null;
+  /** Extractor that read the source of the closest passage (`html`, `pdf`, `text`, `json`). */
+  extractor?: SourceExtractor;
+  /** True when that source was cut off at the download size limit. */
+  truncated?: boolean;
+  message?: string;
+}
+
+export interface LinkHealthRecord {
+  source: ComparisonSide;
+  citation_id: string;
+  url: string;
+  /**
+   * `dead`: 404, 410, timeout, or unknown host, with no readable archive; `archived`: dead but
+   * archived; `unreachable`: any other error status or connection failure, so whether the page
+   * still exists is unknown.
+   */
+  status: 'live' | 'dead' | 'archived' | 'unreachable';
+  archive_url?: string;
+  http_status?: number | null;
   message?: string;
 }
 
@@ -188,6 +347,12 @@ export interface AnalyzerSource {
   article: StructuredArticle;
 }
 
+const describeRevision = (article: StructuredArticle): AnalyzedRevision => ({
+  source: article.source,
+  revision_id: article.revision.id,
+  revision_timestamp: article.revision.timestamp,
+});
+
 const REWORD_SIMILARITY_THRESHOLD = 0.65;
 const MIN_SENTENCE_LENGTH = 20;
 const HALLUCINATION_SIMILARITY_MIN = 0.15;
@@ -198,7 +363,7 @@ const normalizeWhitespace = (text: string): string =>
 
 const sentenceTokens = (text: string): string[] =>
   text
-    .split(/(?<=[.!?])\s+/)
+    .split(/(?<=[.!?])\s+|(?<=[。！？])/)
     .map((sentence) => sentence.trim())
     .filter((sentence) => sentence.length > MIN_SENTENCE_LENGTH);
 
@@ -206,12 +371,12 @@ const normalizeSentence = (sentence: string): string =>
   sentence
     .trim()
     .toLowerCase()
-    .replace(/[^\w\s]/g, '');
+    .replace(/[^\p{L}\p{N}_\s]/gu, '');
 
 const tokenize = (text: string): string[] =>
   text
     .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
     .split(/\s+/)
     .filter(Boolean);
 
@@ -436,7 +601,7 @@ const detectBiasEventsKeywordOnly = (
           events.push({
             type: 'bias_shift',
             description: `${category.label}: ${category.description} (${category.reference})`,
-            evidence: { grokipedia: sentence },
+            evidence: { candidate: sentence },
             severity: category.severity,
             category: 'bias',
             tags: [category.id, pattern.label],
@@ -452,6 +617,7 @@ const detectBiasEventsKeywordOnly = (
 const detectBiasEventsHybrid = async (
   extraSentences: string[],
   wikiText: string,
+  usage: LlmUsageRecorder,
 ): Promise<DiscrepancyRecord[]> => {
   if (!extraSentences.length) {
     return [];
@@ -460,7 +626,7 @@ const detectBiasEventsHybrid = async (
   const keywordEvents = detectBiasEventsKeywordOnly(extraSentences, wikiText);
   const { detectSemanticBiasBatch } = await import('./semantic-bias-detector');
 
-  const flaggedSentences = new Set(keywordEvents.map((e) => e.evidence.grokipedia!));
+  const flaggedSentences = new Set(keywordEvents.map((e) => e.evidence.candidate!));
   const sampleSize = Math.min(50, Math.ceil(extraSentences.length * 0.1));
   const randomSample = extraSentences
     .filter((s) => !flaggedSentences.has(s))
@@ -468,13 +634,13 @@ const detectBiasEventsHybrid = async (
     .slice(0, sampleSize);
 
   const sentencesToCheck = [...flaggedSentences, ...randomSample];
-  const semanticResults = await detectSemanticBiasBatch(sentencesToCheck);
+  const semanticResults = await detectSemanticBiasBatch(sentencesToCheck, usage);
 
   const verifiedEvents: DiscrepancyRecord[] = [];
   const processedSentences = new Set<string>();
 
   keywordEvents.forEach((event) => {
-    const sentence = event.evidence.grokipedia!;
+    const sentence = event.evidence.candidate!;
     const semanticResult = semanticResults.find((r) => r.sentence === sentence);
 
     if (!semanticResult) {
@@ -517,7 +683,7 @@ const detectBiasEventsHybrid = async (
       verifiedEvents.push({
         type: 'bias_shift',
         description: `Semantic bias detected: ${semanticResult.predicted_bias_type} (${(semanticResult.confidence * 100).toFixed(0)}% confidence)`,
-        evidence: { grokipedia: semanticResult.sentence },
+        evidence: { candidate: semanticResult.sentence },
         severity: semanticResult.confidence > 0.8 ? 3 : 2,
         category: 'bias',
         tags: ['semantic_only', semanticResult.predicted_bias_type],
@@ -532,12 +698,13 @@ const detectBiasEvents = async (
   extraSentences: string[],
   wikiText: string,
   enableSemantic: boolean,
+  usage: LlmUsageRecorder,
 ): Promise<DiscrepancyRecord[]> => {
   if (!enableSemantic) {
     return detectBiasEventsKeywordOnly(extraSentences, wikiText);
   }
   try {
-    return await detectBiasEventsHybrid(extraSentences, wikiText);
+    return await detectBiasEventsHybrid(extraSentences, wikiText, usage);
   } catch (error) {
     console.warn('[analyzer] Semantic bias detection failed, falling back to keyword-only:', error);
     return detectBiasEventsKeywordOnly(extraSentences, wikiText);
@@ -547,6 +714,7 @@ const detectBiasEvents = async (
 const detectHallucinationEvents = (
   extraSentences: string[],
   wikiClaims: StructuredClaim[],
+  labels: SourceLabels,
 ): DiscrepancyRecord[] => {
   const speculativeKeywords = [
     'apparently',
@@ -596,8 +764,8 @@ const detectHallucinationEvents = (
     if (hasSpeculativeWords && (hasConflict || wikiFactsLower.length === 0)) {
       results.push({
         type: 'hallucination' as const,
-        description: 'Grokipedia uses speculative or unverified language.',
-        evidence: { grokipedia: sentence },
+        description: `${labels.candidate} uses speculative or unverified language.`,
+        evidence: { candidate: sentence },
         severity: 4,
         category: 'hallucination',
         tags: ['speculative_language'],
@@ -648,36 +816,80 @@ interface MatchCandidate {
   similarity: number;
 }
 
+interface RewordProfile {
+  sentence: string;
+  normalized: string;
+  /** Length without whitespace, which is what `compareTwoStrings` compares. */
+  length: number;
+  tokens: Set<string>;
+}
+
+const rewordProfile = (sentence: string): RewordProfile => {
+  const normalized = normalizeSentence(sentence);
+  return {
+    sentence,
+    normalized,
+    length: normalized.replace(/\s+/g, '').length,
+    tokens: new Set(normalized.split(/\s+/).filter((token) => token.length >= 3)),
+  };
+};
+
+/** Highest bigram similarity two strings of these lengths can reach. */
+const maxBigramSimilarity = (left: number, right: number): number =>
+  left + right <= 2 ? 1 : (2 * (Math.min(left, right) - 1)) / (left + right - 2);
+
+const sharesToken = (left: Set<string>, right: Set<string>): boolean => {
+  const [small, large] = left.size <= right.size ? [left, right] : [right, left];
+  for (const token of small) {
+    if (large.has(token)) return true;
+  }
+  return false;
+};
+
+/**
+ * Pairs each missing sentence with its closest rewording. Sentences are normalized once, and
+ * pairs whose lengths cannot reach the threshold or that share no word are skipped before the
+ * bigram comparison.
+ */
 const detectRewordedSentences = (
   missingSentences: string[],
   grokSentences: string[],
-): Array<{ wikipedia: string; grokipedia: string; similarity: number }> => {
-  const reworded: Array<{ wikipedia: string; grokipedia: string; similarity: number }> = [];
+  index: EmbeddingIndex | null = null,
+): RewordedSentence[] => {
+  const reworded: RewordedSentence[] = [];
 
   const validMissing = missingSentences.filter((s) => s.length > MIN_SENTENCE_LENGTH);
   const validGrok = grokSentences.filter((s) => s.length > MIN_SENTENCE_LENGTH);
+  const grokProfiles = validGrok.map(rewordProfile);
 
   validMissing.forEach((wikiSentence) => {
+    const wiki = rewordProfile(wikiSentence);
     let bestMatch: MatchCandidate | null = null;
 
-    validGrok.forEach((grokSentence) => {
-      const similarity = stringSimilarity.compareTwoStrings(
-        normalizeSentence(wikiSentence),
-        normalizeSentence(grokSentence),
-      );
+    grokProfiles.forEach((grok) => {
+      if (maxBigramSimilarity(wiki.length, grok.length) < REWORD_SIMILARITY_THRESHOLD) return;
+      if (!sharesToken(wiki.tokens, grok.tokens)) return;
+      const similarity = stringSimilarity.compareTwoStrings(wiki.normalized, grok.normalized);
 
       if (similarity >= REWORD_SIMILARITY_THRESHOLD && similarity < 1.0) {
         if (!bestMatch || similarity > bestMatch.similarity) {
-          bestMatch = { sentence: grokSentence, similarity };
+          bestMatch = { sentence: grok.sentence, similarity };
         }
       }
     });
 
+    if (bestMatch === null && index) {
+      const [nearest] = index.nearest(wikiSentence, validGrok);
+      if (nearest && nearest.similarity >= SEMANTIC_SIMILARITY_THRESHOLD) {
+        bestMatch = { sentence: nearest.text, similarity: nearest.similarity };
+      }
+    }
+
     if (bestMatch !== null) {
       const match: MatchCandidate = bestMatch;
       reworded.push({
-        wikipedia: wikiSentence,
-        grokipedia: match.sentence,
+        reference: wikiSentence,
+        candidate: match.sentence,
         similarity: Number(match.similarity.toFixed(3)),
       });
     }
@@ -699,10 +911,26 @@ const detectAgreedSentences = (wikiSentences: string[], grokSentences: string[])
   });
 };
 
+const buildTemporalEvents = (discrepancies: TemporalDiscrepancy[]): DiscrepancyRecord[] =>
+  discrepancies.map((discrepancy) => ({
+    type: 'temporal_discrepancy',
+    description: discrepancy.description,
+    evidence: {
+      reference: discrepancy.reference_value.raw,
+      candidate: discrepancy.candidate_value.raw,
+      reference_claim_id: discrepancy.reference_claim_id,
+      candidate_claim_id: discrepancy.candidate_claim_id,
+    },
+    severity: 4,
+    category: 'factual',
+    tags: ['date_mismatch'],
+  }));
+
 const detectFactualErrors = (
   claimAlignment: ClaimAlignmentRecord[],
   numericDiscrepancies: NumericDiscrepancy[],
   entityDiscrepancies: EntityDiscrepancy[],
+  labels: SourceLabels,
 ): DiscrepancyRecord[] => {
   const errors: DiscrepancyRecord[] = [];
 
@@ -712,8 +940,8 @@ const detectFactualErrors = (
         type: 'factual_error',
         description: `Significant numeric discrepancy: ${discrepancy.description}`,
         evidence: {
-          wikipedia: discrepancy.wikipedia_value?.raw,
-          grokipedia: discrepancy.grokipedia_value?.raw,
+          reference: discrepancy.reference_value?.raw,
+          candidate: discrepancy.candidate_value?.raw,
         },
         severity: 5,
         category: 'factual',
@@ -723,21 +951,21 @@ const detectFactualErrors = (
   });
 
   entityDiscrepancies.forEach((discrepancy) => {
-    const missingEntities = discrepancy.wikipedia_entities.filter(
-      (entity) => !discrepancy.grokipedia_entities.includes(entity),
+    const missingEntities = discrepancy.reference_entities.filter(
+      (entity) => !discrepancy.candidate_entities.includes(entity),
     );
-    const extraEntities = discrepancy.grokipedia_entities.filter(
-      (entity) => !discrepancy.wikipedia_entities.includes(entity),
+    const extraEntities = discrepancy.candidate_entities.filter(
+      (entity) => !discrepancy.reference_entities.includes(entity),
     );
 
     const totalDiff = missingEntities.length + extraEntities.length;
     if (totalDiff > 1) {
       errors.push({
         type: 'factual_error',
-        description: `Entity discrepancy: Wikipedia mentions [${missingEntities.join(', ')}], Grokipedia adds [${extraEntities.join(', ')}]`,
+        description: `Entity discrepancy: ${labels.reference} mentions [${missingEntities.join(', ')}], ${labels.candidate} adds [${extraEntities.join(', ')}]`,
         evidence: {
-          wikipedia: missingEntities.join(', '),
-          grokipedia: extraEntities.join(', '),
+          reference: missingEntities.join(', '),
+          candidate: extraEntities.join(', '),
         },
         severity: 3,
         category: 'factual',
@@ -748,8 +976,8 @@ const detectFactualErrors = (
 
   claimAlignment.forEach((alignment) => {
     if (
-      alignment.wikipedia &&
-      alignment.grokipedia &&
+      alignment.reference &&
+      alignment.candidate &&
       alignment.similarity < 0.3 &&
       alignment.similarity > 0
     ) {
@@ -757,8 +985,8 @@ const detectFactualErrors = (
         type: 'factual_error',
         description: 'Claims are semantically divergent despite topic alignment.',
         evidence: {
-          wikipedia: alignment.wikipedia.text,
-          grokipedia: alignment.grokipedia.text,
+          reference: alignment.reference.text,
+          candidate: alignment.candidate.text,
         },
         severity: 3,
         category: 'factual',
@@ -784,6 +1012,7 @@ const classifyDocument = (
   agreementCount: number,
   _rewordedCount: number,
   sectionAlignment: number,
+  labels: SourceLabels,
 ): ConfidenceSummary => {
   const rationales: string[] = [];
 
@@ -852,14 +1081,14 @@ const classifyDocument = (
   if (extraCount > 50) {
     const boost = Math.min(0.1, extraCount * 0.0001);
     score += boost;
-    rationales.push(`${extraCount} unique Grokipedia sentences show original content`);
+    rationales.push(`${extraCount} unique ${labels.candidate} sentences show original content`);
   }
 
   if (trulyMissingCount > 50) {
     const boost = Math.min(0.05, trulyMissingCount * 0.00005);
     score += boost;
     rationales.push(
-      `${trulyMissingCount} Wikipedia sentences omitted (shows editorial independence)`,
+      `${trulyMissingCount} ${labels.reference} sentences omitted (shows editorial independence)`,
     );
   }
 
@@ -928,31 +1157,32 @@ const buildDiscrepancies = (
   extraSections: string[],
   missingCitations: string[],
   extraCitations: string[],
-  reworded: Array<{ wikipedia: string; grokipedia: string; similarity: number }>,
+  reworded: RewordedSentence[],
   bias: DiscrepancyRecord[],
   hallucinations: DiscrepancyRecord[],
   factualErrors: DiscrepancyRecord[],
+  labels: SourceLabels,
 ): DiscrepancyRecord[] => {
   const issues: DiscrepancyRecord[] = [];
   trulyMissing.forEach((sentence) =>
     issues.push({
       type: 'missing_context',
-      description: 'Sentence present on Wikipedia but truly absent on Grokipedia.',
-      evidence: { wikipedia: sentence },
+      description: `Sentence present on ${labels.reference} but truly absent on ${labels.candidate}.`,
+      evidence: { reference: sentence },
     }),
   );
   extra.forEach((sentence) =>
     issues.push({
       type: 'added_claim',
-      description: 'Sentence present on Grokipedia but absent on Wikipedia.',
-      evidence: { grokipedia: sentence },
+      description: `Sentence present on ${labels.candidate} but absent on ${labels.reference}.`,
+      evidence: { candidate: sentence },
     }),
   );
   reworded.forEach((pair) =>
     issues.push({
       type: 'reworded_claim',
       description: `Sentence reworded (${(pair.similarity * 100).toFixed(0)}% similar).`,
-      evidence: { wikipedia: pair.wikipedia, grokipedia: pair.grokipedia },
+      evidence: { reference: pair.reference, candidate: pair.candidate },
       severity: 2,
       category: 'rewording',
     }),
@@ -960,44 +1190,77 @@ const buildDiscrepancies = (
   missingSections.forEach((section) =>
     issues.push({
       type: 'section_missing',
-      description: `Section "${section}" exists on Wikipedia but not on Grokipedia.`,
-      evidence: { wikipedia: section },
+      description: `Section "${section}" exists on ${labels.reference} but not on ${labels.candidate}.`,
+      evidence: { reference: section },
       category: 'structure',
     }),
   );
   extraSections.forEach((section) =>
     issues.push({
       type: 'section_extra',
-      description: `Grokipedia adds a section "${section}" not found on Wikipedia.`,
-      evidence: { grokipedia: section },
+      description: `${labels.candidate} adds a section "${section}" not found on ${labels.reference}.`,
+      evidence: { candidate: section },
       category: 'structure',
     }),
   );
   missingCitations.forEach((url) =>
     issues.push({
       type: 'missing_citation',
-      description: 'Citation present on Wikipedia is missing on Grokipedia.',
-      evidence: { wikipedia: url },
+      description: `Citation present on ${labels.reference} is missing on ${labels.candidate}.`,
+      evidence: { reference: url },
       category: 'citation',
     }),
   );
   extraCitations.forEach((url) =>
     issues.push({
       type: 'added_citation',
-      description: 'Grokipedia introduces an uncited reference not present on Wikipedia.',
-      evidence: { grokipedia: url },
+      description: `${labels.candidate} introduces an uncited reference not present on ${labels.reference}.`,
+      evidence: { candidate: url },
       category: 'citation',
     }),
   );
   return [...issues, ...bias, ...hallucinations, ...factualErrors];
 };
 
+/**
+ * Embeds everything the alignment steps compare (headings, claims, and candidate sentences) in
+ * one pass. The transformer module is imported lazily so string-only runs never load it.
+ */
+const buildAlignmentIndex = async (
+  wiki: StructuredArticle,
+  grok: StructuredArticle,
+  missingSentences: string[],
+  grokSentences: string[],
+): Promise<EmbeddingIndex> => {
+  const { buildEmbeddingIndex } = await import('./semantic-alignment');
+  const headings = [...wiki.sections, ...grok.sections]
+    .map((section) => section.heading ?? '')
+    .filter(Boolean);
+  const claims = [...(wiki.claims ?? []), ...(grok.claims ?? [])].map((claim) => claim.text);
+  const sentences = [...missingSentences, ...grokSentences].filter(
+    (sentence) => sentence.length > MIN_SENTENCE_LENGTH,
+  );
+  return buildEmbeddingIndex([...headings, ...claims, ...sentences]);
+};
+
+/**
+ * Runs NLI over aligned claim pairs. The model-backed classifier is imported lazily so runs
+ * without `--nli` never load it.
+ */
+const detectClaimContradictions = async (
+  claimAlignment: ClaimAlignmentRecord[],
+): Promise<DiscrepancyRecord[]> => {
+  const { classifyEntailment } = await import('./nli-detector');
+  return detectContradictions(claimAlignment, classifyEntailment);
+};
+
 export const analyzeContent = async (
   topic: Topic,
   wiki: AnalyzerSource,
   grok: AnalyzerSource,
   options: AnalyzerOptions = {},
 ): Promise<AnalysisPayload> => {
+  const labels = sourceLabels(options.sources);
   const wikiText = wiki.text;
   const grokText = grok.text;
 
@@ -1024,12 +1287,17 @@ export const analyzeContent = async (
     );
   });
 
+  const embeddingIndex = options.semanticAlign
+    ? await buildAlignmentIndex(wiki.article, grok.article, missingAll, grokSentences)
+    : null;
+
   const agreedSentences = detectAgreedSentences(wikiSentences, grokSentences);
-  const rewordedPairs = detectRewordedSentences(missingAll, grokSentences);
+  const rewordedPairs = detectRewordedSentences(missingAll, grokSentences, embeddingIndex);
 
   const wordSimilarity = wordSimilarityRatio(wikiText, grokText);
   const sentenceSimilarity = sentenceSimilarityRatio(wikiSentences, grokSentences);
-  const rewordedWikiSentences = new Set(rewordedPairs.map((pair) => pair.wikipedia));
+  const rewordedWikiSentences = new Set(rewordedPairs.map((pair) => pair.reference));
+  const rewordedGrokSentences = new Set(rewordedPairs.map((pair) => pair.candidate));
   const trulyMissingAll = missingAll.filter((sentence) => !rewordedWikiSentences.has(sentence));
 
   const missing = missingAll;
@@ -1043,22 +1311,53 @@ export const analyzeContent = async (
   const missingSections = difference(wikiSections, grokSections);
   const extraSections = difference(grokSections, wikiSections);
 
-  const missingCitations = difference(wiki.content.citations, grok.content.citations);
-  const extraCitations = difference(grok.content.citations, wiki.content.citations);
+  const citationMatches = matchCitations(wiki.article.references, grok.article.references);
+  const missingCitations = citationMatches.missing;
+  const extraCitations = citationMatches.extra;
+  const sourceOverlap = computeSourceOverlap(
+    wiki.article.references,
+    grok.article.references,
+    citationMatches,
+  );
+  const sourceQuality = assessSourceQuality(
+    wiki.article,
+    grok.article,
+    options.sourceReliability,
+    labels,
+  );
 
-  const sectionAlignment = alignSections(wiki.article, grok.article);
-  const claimAlignment = alignClaims(wiki.article, grok.article);
-  const numericDiscrepancies = detectNumericDiscrepancies(claimAlignment);
-  const entityDiscrepancies = detectEntityDiscrepancies(claimAlignment);
+  const sectionAlignment = alignSections(wiki.article, grok.article, { index: embeddingIndex });
+  const claimAlignment = alignClaims(wiki.article, grok.article, {
+    index: embeddingIndex,
+    sections: sectionAlignment,
+  });
+  const numericDiscrepancies = detectNumericDiscrepancies(claimAlignment, {
+    tolerances: options.numericTolerances,
+  });
+  const temporalDiscrepancies = detectTemporalDiscrepancies(claimAlignment);
+  const temporalEvents = buildTemporalEvents(temporalDiscrepancies);
+  const infoboxComparison = compareInfobox(wiki.article, grok.article, {
+    tolerances: options.numericTolerances,
+    labels,
+  });
+  const tableComparison = compareTables(wiki.article, grok.article, {
+    tolerances: options.numericTolerances,
+    labels,
+  });
+  const tableFactualEvents = tableComparison.events.filter((event) => event.category === 'factual');
+  const entityDiscrepancies = detectEntityDiscrepancies(claimAlignment, { labels });
 
   const semanticBiasEnabled = options.semanticBias === true;
-  const biasEvents = await detectBiasEvents(extra, wikiText, semanticBiasEnabled);
-  const hallucinationEvents = detectHallucinationEvents(extra, wiki.content.claims);
+  const llmUsage = createLlmUsageRecorder();
+  const biasEvents = await detectBiasEvents(extra, wikiText, semanticBiasEnabled, llmUsage);
+  const hallucinationEvents = detectHallucinationEvents(extra, wiki.content.claims, labels);
   const factualErrors = detectFactualErrors(
     claimAlignment,
     numericDiscrepancies,
     entityDiscrepancies,
+    labels,
   );
+  const contradictions = options.nli ? await detectClaimContradictions(claimAlignment) : [];
 
   const sectionSimilarityAvg =
     sectionAlignment.length > 0
@@ -1073,33 +1372,39 @@ export const analyzeContent = async (
     extraAll.length,
     biasEvents.length,
     hallucinationEvents.length,
-    factualErrors.length,
+    factualErrors.length +
+      contradictions.length +
+      temporalEvents.length +
+      infoboxComparison.events.length +
+      tableFactualEvents.length,
     agreedSentences.length,
     rewordedPairs.length,
     sectionSimilarityAvg,
+    labels,
   );
 
-  const missingHighlights = buildHighlights(missing, 'wikipedia', 'missing');
+  const missingHighlights = buildHighlights(missing, 'reference', 'missing');
   const extraHighlights = [
-    ...buildHighlights(extra, 'grokipedia', 'extra'),
+    ...buildHighlights(extra, 'candidate', 'extra'),
     ...buildHighlights(
       biasEvents
-        .map((event) => event.evidence?.grokipedia)
+        .map((event) => event.evidence?.candidate)
         .filter((sentence): sentence is string => Boolean(sentence)),
-      'grokipedia',
+      'candidate',
       'bias',
     ),
     ...buildHighlights(
       hallucinationEvents
-        .map((event) => event.evidence?.grokipedia)
+        .map((event) => event.evidence?.candidate)
         .filter((sentence): sentence is string => Boolean(sentence)),
-      'grokipedia',
+      'candidate',
       'hallucination',
     ),
   ];
 
   const biasMetrics = computeBiasMetrics(wiki.text, grok.text);
   const generatedAt = new Date().toISOString();
+  const usageReport = llmUsage.report();
   const contentHash = options.contentHash ?? computeContentHash(wiki.text, grok.text);
 
   return {
@@ -1131,11 +1436,12 @@ export const analyzeContent = async (
     citations: {
       missing: missingCitations,
       extra: extraCitations,
+      matches: citationMatches.matches,
     },
     diff_sample: diffSample(wikiText, grokText, topic.id),
     discrepancies: buildDiscrepancies(
       trulyMissing,
-      extra,
+      embeddingIndex ? extra.filter((sentence) => !rewordedGrokSentences.has(sentence)) : extra,
       missingSections,
       extraSections,
       missingCitations,
@@ -1143,11 +1449,20 @@ export const analyzeContent = async (
       reworded,
       biasEvents,
       hallucinationEvents,
-      factualErrors,
+      [
+        ...factualErrors,
+        ...temporalEvents,
+        ...infoboxComparison.events,
+        ...tableComparison.events,
+        ...sourceQuality.events,
+        ...contradictions,
+      ],
+      labels,
     ),
     bias_events: biasEvents,
     hallucination_events: hallucinationEvents,
     factual_errors: factualErrors,
+    ...(options.nli ? { contradictions } : {}),
     confidence,
     highlights: {
       missing: missingHighlights,
@@ -1165,10 +1480,23 @@ export const analyzeContent = async (
         grok_analyzed_chars: grok.text.length,
         source_note: 'Analyzed text reconstructed from structured sections, not raw article text',
       },
+      revisions: {
+        reference: describeRevision(wiki.article),
+        candidate: describeRevision(grok.article),
+      },
+      ...(options.sources ? { sources: options.sources } : {}),
+      alignment_method: embeddingIndex ? 'semantic' : 'string',
+      ...(embeddingIndex ? { embedding_model: embeddingIndex.model } : {}),
+      ...(usageReport ? { llm_usage: usageReport } : {}),
     },
     section_alignment: sectionAlignment,
     claim_alignment: claimAlignment,
     numeric_discrepancies: numericDiscrepancies,
+    temporal_discrepancies: temporalDiscrepancies,
+    infobox_comparisons: infoboxComparison.comparisons,
+    table_comparisons: tableComparison.comparisons,
+    source_overlap: sourceOverlap,
+    source_quality: sourceQuality.quality,
     entity_discrepancies: entityDiscrepancies,
     bias_metrics: biasMetrics,
   };
@@ -0,0 +1,164 @@
+/**
+ * @file src/lib/assignment.ts
+ * @description Maximum-weight one-to-one assignment (Hungarian / Kuhn-Munkres) used to align
+ *              claims and sections. Weights are stored sparsely, only for eligible pairs. The
+ *              eligibility graph is split into connected components first so large articles solve
+ *              many small problems instead of one cubic one, and components too large for the cubic
+ *              solver are matched greedily.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+/** Eligible pairs per row: column index to weight. Missing columns are ineligible. */
+export type SparseWeights = Array<Map<number, number>>;
+
+/** Sparse form of a dense matrix in which `null` marks an ineligible pair. */
+export const sparseWeights = (matrix: Array<Array<number | null>>): SparseWeights =>
+  matrix.map(
+    (row) =>
+      new Map(
+        row.flatMap((weight, col) => (weight === null ? [] : [[col, weight] as [number, number]])),
+      ),
+  );
+
+/** Components with more cells than this are matched greedily instead of optimally. */
+export const MAX_OPTIMAL_CELLS = 250 * 250;
+
+/**
+ * Solves the rectangular min-cost assignment problem for `rows <= cols` and returns the column
+ * assigned to each row. Standard O(rows² · cols) formulation with row/column potentials.
+ */
+const hungarian = (cost: number[][]): number[] => {
+  const rows = cost.length;
+  const cols = rows ? cost[0].length : 0;
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(cols + 1).fill(0);
+  const owner = new Array<number>(cols + 1).fill(0);
+  const way = new Array<number>(cols + 1).fill(0);
+
+  for (let row = 1; row <= rows; row += 1) {
+    owner[0] = row;
+    let col0 = 0;
+    const minv = new Array<number>(cols + 1).fill(Infinity);
+    const used = new Array<boolean>(cols + 1).fill(false);
+    do {
+      used[col0] = true;
+      const row0 = owner[col0];
+      let delta = Infinity;
+      let col1 = 0;
+      for (let col = 1; col <= cols; col += 1) {
+        if (used[col]) continue;
+        const reduced = cost[row0 - 1][col - 1] - u[row0] - v[col];
+        if (reduced < minv[col]) {
+          minv[col] = reduced;
+          way[col] = col0;
+        }
+        if (minv[col] < delta) {
+          delta = minv[col];
+          col1 = col;
+        }
+      }
+      for (let col = 0; col <= cols; col += 1) {
+        if (used[col]) {
+          u[owner[col]] += delta;
+          v[col] -= delta;
+        } else {
+          minv[col] -= delta;
+        }
+      }
+      col0 = col1;
+    } while (owner[col0] !== 0);
+    do {
+      const col1 = way[col0];
+      owner[col0] = owner[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  const assignment = new Array<number>(rows).fill(-1);
+  for (let col = 1; col <= cols; col += 1) {
+    if (owner[col] > 0) assignment[owner[col] - 1] = col - 1;
+  }
+  return assignment;
+};
+
+/**
+ * Groups rows and columns connected through eligible weights.
+ */
+const components = (weights: SparseWeights, cols: number) => {
+  const parent = Array.from({ length: weights.length + cols }, (_, idx) => idx);
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node]];
+      node = parent[node];
+    }
+    return node;
+  };
+  weights.forEach((row, r) =>
+    row.forEach((_weight, c) => {
+      parent[find(r)] = find(weights.length + c);
+    }),
+  );
+  const groups = new Map<number, { rows: number[]; cols: number[] }>();
+  weights.forEach((row, r) => {
+    if (!row.size) return;
+    const root = find(r);
+    const group = groups.get(root) ?? { rows: [], cols: [] };
+    group.rows.push(r);
+    groups.set(root, group);
+  });
+  for (let c = 0; c < cols; c += 1) {
+    const group = groups.get(find(weights.length + c));
+    group?.cols.push(c);
+  }
+  return [...groups.values()];
+};
+
+/** Takes the heaviest remaining pair until no eligible pair is left. */
+const greedyAssignment = (weights: SparseWeights, rows: number[], assignment: number[]): void => {
+  const usedCols = new Set<number>();
+  rows
+    .flatMap((row) => Array.from(weights[row], ([col, weight]) => ({ row, col, weight })))
+    .sort((a, b) => b.weight - a.weight || a.row - b.row || a.col - b.col)
+    .forEach(({ row, col }) => {
+      if (assignment[row] >= 0 || usedCols.has(col)) return;
+      assignment[row] = col;
+      usedCols.add(col);
+    });
+};
+
+/**
+ * Finds the one-to-one assignment maximizing the total weight; rows without an eligible partner
+ * in the optimum get `-1`. Components larger than `maxCells` fall back to greedy matching.
+ */
+export const maximumWeightAssignment = (
+  weights: SparseWeights,
+  cols: number,
+  maxCells = MAX_OPTIMAL_CELLS,
+): number[] => {
+  const assignment = new Array<number>(weights.length).fill(-1);
+  for (const group of components(weights, cols)) {
+    if (group.rows.length * group.cols.length > maxCells) {
+      greedyAssignment(weights, group.rows, assignment);
+      continue;
+    }
+    const transpose = group.rows.length > group.cols.length;
+    const outer = transpose ? group.cols : group.rows;
+    const inner = transpose ? group.rows : group.cols;
+    // Ineligible pairs cost 0 and eligible pairs cost -weight, so the minimum-cost solution is the
+    // maximum-weight matching; zero-cost placements are dropped afterwards.
+    const cost = outer.map((o) =>
+      inner.map((i) => {
+        const weight = transpose ? weights[i].get(o) : weights[o].get(i);
+        return weight === undefined ? 0 : -weight;
+      }),
+    );
+    const solved = hungarian(cost);
+    solved.forEach((innerIdx, outerIdx) => {
+      if (innerIdx < 0) return;
+      const row = transpose ? inner[innerIdx] : outer[outerIdx];
+      const col = transpose ? outer[outerIdx] : inner[innerIdx];
+      if (weights[row].has(col)) assignment[row] = col;
+    });
+  }
+  return assignment;
+};
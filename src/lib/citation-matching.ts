@@ -0,0 +1,152 @@
+/**
+ * @file src/lib/citation-matching.ts
+ * @description Matches the references of both articles by what they cite rather than by how
+ *              they are written: DOI, ISBN, PMID, canonical URL (archive snapshots count as the
+ *              archived page), and finally title plus first-author surname. A Wikipedia
+ *              `{{cite journal}}` and a Grokipedia link to `doi.org` therefore count as the same
+ *              source.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { StructuredReference } from '../parsers/shared/types';
+import { canonicalizeUrl } from '../parsers/shared/urls';
+
+export type CitationMatchMethod = 'doi' | 'isbn' | 'pmid' | 'url' | 'title_author';
+
+export interface CitationMatch {
+  reference_citation_id: string;
+  candidate_citation_id: string;
+  method: CitationMatchMethod;
+  /** The shared identifier, URL, or title that produced the match. */
+  key: string;
+}
+
+export interface CitationMatchResult {
+  matches: CitationMatch[];
+  /** Labels of reference-side citations with no counterpart on the candidate side. */
+  missing: string[];
+  /** Labels of candidate-side citations with no counterpart on the reference side. */
+  extra: string[];
+}
+
+/** Strongest evidence first; a reference pair is reported under the first method that agrees. */
+const METHODS: CitationMatchMethod[] = ['doi', 'isbn', 'pmid', 'url', 'title_author'];
+
+/** Titles shorter than this are too generic ("Home", "News") to identify a source. */
+const MIN_TITLE_LENGTH = 12;
+
+const normalizeTitle = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const surname = (author: string): string => {
+  const name = author.includes(',') ? author.split(',')[0] : author.trim().split(/\s+/).pop();
+  return normalizeTitle(name ?? '');
+};
+
+/**
+ * Keys a reference can be matched on, per method. Archived URLs contribute both the snapshot and
+ * the original so an archive-only citation still meets a live link to the same page.
+ */
+const referenceKeys = (reference: StructuredReference): Map<CitationMatchMethod, string[]> => {
+  const { normalized } = reference;
+  const keys = new Map<CitationMatchMethod, string[]>();
+  const add = (method: CitationMatchMethod, value: string | null | undefined) => {
+    if (!value) return;
+    keys.set(method, [...(keys.get(method) ?? []), value]);
+  };
+  add('doi', normalized.doi);
+  add('isbn', normalized.isbn);
+  add('pmid', normalized.pmid);
+  add('url', normalized.canonical_url ?? canonicalizeUrl(normalized.url));
+  add('url', canonicalizeUrl(normalized.archive_url));
+  const title = normalized.title ? normalizeTitle(normalized.title) : '';
+  const firstAuthor = normalized.authors?.[0];
+  if (title.length >= MIN_TITLE_LENGTH && firstAuthor) {
+    add('title_author', `${title} / ${surname(firstAuthor)}`);
+  }
+  return keys;
+};
+
+/** Display label for a reference in the report: URL, then title, name, or id. */
+export const citationLabel = (reference: StructuredReference): string =>
+  (
+    reference.normalized.url ??
+    reference.normalized.title ??
+    reference.name ??
+    reference.citation_id
+  ).trim();
+
+/** Labels of unmatched references, minus labels that a matched reference also carries. */
+const remainingLabels = (
+  unmatched: StructuredReference[],
+  all: StructuredReference[],
+): string[] => {
+  const matchedLabels = new Set(
+    all.filter((reference) => !unmatched.includes(reference)).map(citationLabel),
+  );
+  return Array.from(new Set(unmatched.map(citationLabel))).filter(
+    (label) => label && !matchedLabels.has(label),
+  );
+};
+
+/**
+ * Pairs every reference-side citation with the candidate citation that shares its strongest key.
+ * Several reference citations may meet the same candidate citation (an article often cites
+ * one source under several names), so unmatched references on either side are the ones that
+ * share no key at all.
+ */
+export const matchCitations = (
+  wikiReferences: StructuredReference[],
+  grokReferences: StructuredReference[],
+): CitationMatchResult => {
+  const index = new Map<string, StructuredReference>();
+  for (const reference of grokReferences) {
+    for (const [method, values] of referenceKeys(reference)) {
+      for (const value of values) {
+        const key = `${method}:${value}`;
+        if (!index.has(key)) index.set(key, reference);
+      }
+    }
+  }
+
+  const matches: CitationMatch[] = [];
+  const unmatched: StructuredReference[] = [];
+  const matchedGrok = new Set<string>();
+  for (const reference of wikiReferences) {
+    const keys = referenceKeys(reference);
+    let match: CitationMatch | null = null;
+    for (const method of METHODS) {
+      for (const value of keys.get(method) ?? []) {
+        const counterpart = index.get(`${method}:${value}`);
+        if (counterpart) {
+          match = {
+            reference_citation_id: reference.citation_id,
+            candidate_citation_id: counterpart.citation_id,
+            method,
+            key: value,
+          };
+          break;
+        }
+      }
+      if (match) break;
+    }
+    if (match) {
+      matches.push(match);
+      matchedGrok.add(match.candidate_citation_id);
+    } else {
+      unmatched.push(reference);
+    }
+  }
+
+  const unmatchedGrok = grokReferences.filter(
+    (reference) => !matchedGrok.has(reference.citation_id),
+  );
+  return {
+    matches,
+    missing: remainingLabels(unmatched, wikiReferences),
+    extra: remainingLabels(unmatchedGrok, grokReferences),
+  };
+};
@@ -1,123 +1,537 @@
 /**
  * @file src/lib/citation-verifier.ts
- * @description Fetches Grokipedia citation URLs and checks whether extra sentences appear in those sources.
+ * @description Checks cited sentences against the sources they cite. Each sentence is compared
+ *              with the readable text of its own references (`StructuredSentence.citation_ids`),
+ *              passage by passage, and recorded as supported, partially supported, or unsupported
+ *              with the best passage quoted. Works on both articles so their verifiability can be
+ *              compared. Every fetched reference gets a link-health entry: a URL that returns 404
+ *              or 410, times out, or whose host does not resolve is dead, and its archived copy
+ *              (the citation's `archive-url`, then an archive lookup) is read instead when one
+ *              exists. Any other error status or connection failure is unreachable rather than
+ *              dead, and a live page whose body cannot be read stays live.
  * @author Doğu Abaris <abaris@null.net>
  */
 
-import fetch from 'node-fetch';
-import type { CitationVerificationRecord } from './analyzer';
+import stringSimilarity from 'string-similarity';
+import type {
+  StructuredArticle,
+  StructuredReference,
+  StructuredSentence,
+} from '../parsers/shared/types';
+import { splitSentences } from '../parsers/wiki/sentence-splitter';
+import {
+  httpGetBuffer,
+  HttpError,
+  HttpRequestError,
+  httpRequestJson,
+  HttpTimeoutError,
+} from '../shared/http';
+import type { CitationVerificationRecord, ComparisonSide, LinkHealthRecord } from './analyzer';
+import { extractSourceText, type SourceExtractor } from './source-text';
 
-interface CitationVerificationOptions {
-  maxCitations?: number;
+export interface CitationVerificationOptions {
+  /** Cited sentences checked per article. Defaults to 20. */
+  maxSentences?: number;
+  /** References fetched per sentence. Defaults to 3. */
+  maxSourcesPerSentence?: number;
   timeoutMs?: number;
+  /** Bytes read per source; longer downloads are cut off and marked truncated. Defaults to 10 MiB. */
+  maxBytes?: number;
+  /**
+   * Sentences checked before the rest of the article, e.g. the sentences only one side contains.
+   */
+  priority?: string[];
+  /**
+   * References per article whose links are checked after the cited sentences, so link rot is
+   * measured beyond the sources those sentences cite. Defaults to 25.
+   */
+  maxLinks?: number;
+  /**
+   * Archive lookup for dead links, with `{url}` standing for the encoded original URL. It must
+   * answer like the Wayback Machine availability API. Null disables lookups.
+   */
+  archiveEndpoint?: string | null;
 }
 
+export interface CitationVerificationResult {
+  records: CitationVerificationRecord[];
+  links: LinkHealthRecord[];
+}
+
+export const DEFAULT_ARCHIVE_ENDPOINT = 'https://archive.org/wayback/available?url={url}';
+
+/** Statuses that mean the page is gone rather than temporarily unavailable or blocked. */
+const DEAD_STATUS = new Set([404, 410]);
+
+/** Score from which the best passage counts as support. */
+const SUPPORTED_THRESHOLD = 0.7;
+/** Score from which the best passage counts as partial support. */
+const PARTIAL_THRESHOLD = 0.4;
+/** Weight of token recall against character-level similarity in the passage score. */
+const RECALL_WEIGHT = 0.7;
+
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'been',
+  'by',
+  'for',
+  'from',
+  'had',
+  'has',
+  'have',
+  'he',
+  'her',
+  'his',
+  'in',
+  'is',
+  'it',
+  'its',
+  'of',
+  'on',
+  'or',
+  'she',
+  'that',
+  'the',
+  'their',
+  'they',
+  'this',
+  'to',
+  'was',
+  'were',
+  'which',
+  'who',
+  'with',
+]);
+
 const normalize = (value: string): string => value.replace(/\s+/g, ' ').trim().toLowerCase();
 
-const fetchCitation = async (url: string, timeoutMs = 8000): Promise<string> => {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    const response = await fetch(url, { signal: controller.signal });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
+const stem = (token: string): string =>
+  token.length > 4 ? token.replace(/(?:ing|ed|es|s)$/, '') : token;
+
+const contentTokens = (text: string): Set<string> =>
+  new Set(
+    normalize(text)
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token && !STOPWORDS.has(token))
+      .map(stem),
+  );
+
+const numbersIn = (text: string): string[] =>
+  Array.from(text.matchAll(/\d+(?:[.,]\d+)*/g), (match) => match[0].replace(/,/g, ''));
+
+const round = (value: number): number => Number(value.toFixed(3));
+
+interface Passage {
+  text: string;
+  normalized: string;
+  tokens: Set<string>;
+  numbers: Set<string>;
+}
+
+/** Splits readable text into passages of one and two consecutive sentences. */
+const toPassages = (text: string, lang: string): Passage[] => {
+  const sentences = text
+    .split('\n')
+    .flatMap((line) => {
+      const slices = splitSentences(line, lang).map((slice) => slice.text);
+      return slices.length ? slices : [line];
+    })
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+  const windows = sentences.flatMap((sentence, index) =>
+    index + 1 < sentences.length ? [sentence, `${sentence} ${sentences[index + 1]}`] : [sentence],
+  );
+  return windows.map((passage) => ({
+    text: passage,
+    normalized: normalize(passage),
+    tokens: contentTokens(passage),
+    numbers: new Set(numbersIn(passage)),
+  }));
+};
+
+interface PassageMatch {
+  passage: string;
+  score: number;
+  numbersMatch: boolean;
+}
+
+/**
+ * Scores a sentence against each passage: the share of the sentence's content tokens the passage
+ * contains, blended with character-level similarity. A verbatim occurrence scores 1.
+ */
+const bestPassage = (sentence: string, passages: Passage[]): PassageMatch | null => {
+  const normalized = normalize(sentence);
+  const tokens = contentTokens(sentence);
+  const numbers = numbersIn(sentence);
+  let best: PassageMatch | null = null;
+  for (const passage of passages) {
+    let score: number;
+    if (passage.normalized.includes(normalized)) {
+      score = 1;
+    } else {
+      const shared = Array.from(tokens).filter((token) => passage.tokens.has(token)).length;
+      const recall = tokens.size ? shared / tokens.size : 0;
+      const similarity = stringSimilarity.compareTwoStrings(normalized, passage.normalized);
+      score = RECALL_WEIGHT * recall + (1 - RECALL_WEIGHT) * similarity;
+    }
+    if (!best || score > best.score) {
+      best = {
+        passage: passage.text,
+        score,
+        numbersMatch: numbers.every((value) => passage.numbers.has(value)),
+      };
     }
-    return await response.text();
-  } finally {
-    clearTimeout(timer);
   }
+  return best;
+};
+
+const httpUrl = (...candidates: Array<string | null | undefined>): string | null =>
+  candidates.find((url): url is string => Boolean(url && /^https?:\/\//i.test(url))) ?? null;
+
+interface ReferenceLink {
+  reference: StructuredReference;
+  url: string;
+  archiveUrl: string | null;
+}
+
+/**
+ * The URL a reference points to and its archived copy, following short citations to their
+ * bibliography entry. A reference with only an archive link is read from the archive directly.
+ */
+const referenceLink = (
+  reference: StructuredReference,
+  references: Map<string, StructuredReference>,
+): ReferenceLink | null => {
+  const full = reference.full_citation_id ? references.get(reference.full_citation_id) : null;
+  const archiveUrl = httpUrl(reference.normalized.archive_url, full?.normalized.archive_url);
+  const url = httpUrl(reference.normalized.url, full?.normalized.url) ?? archiveUrl;
+  if (!url) return null;
+  return { reference, url, archiveUrl: archiveUrl === url ? null : archiveUrl };
+};
+
+/** Wayback snapshot URLs rewritten to the `id_` form, which serves the page without the toolbar. */
+const rawSnapshotUrl = (url: string): string =>
+  url
+    .replace(/^http:\/\/(web\.)?archive\.org\//i, 'https://$1archive.org/')
+    .replace(/(\/web\/\d{4,14})(?:[a-z]{2}_)?\//i, '$1id_/');
+
+interface WaybackAvailability {
+  archived_snapshots?: { closest?: { available?: boolean; url?: string; status?: string } };
+}
+
+/**
+ * Classifies a failed fetch. Only 404, 410, timeouts, and hosts that do not resolve (NXDOMAIN)
+ * count as dead; other statuses and refused, reset, or TLS-failed connections are unreachable.
+ */
+const fetchFailureStatus = (error: unknown): 'dead' | 'unreachable' => {
+  const cause = error instanceof HttpRequestError ? error.cause : error;
+  if (cause instanceof HttpError) return DEAD_STATUS.has(cause.status) ? 'dead' : 'unreachable';
+  if (cause instanceof HttpTimeoutError) return 'dead';
+  return (cause as { code?: unknown } | null)?.code === 'ENOTFOUND' ? 'dead' : 'unreachable';
 };
 
+const articleSentences = (article: StructuredArticle): StructuredSentence[] =>
+  [article.lead.paragraphs, ...article.sections.map((section) => section.paragraphs)].flatMap(
+    (paragraphs) => paragraphs.flatMap((paragraph) => paragraph.sentences),
+  );
+
+/** Cited sentences in check order: priority sentences first, then document order. */
+const selectSentences = (
+  article: StructuredArticle,
+  priority: Set<string>,
+  limit: number,
+): StructuredSentence[] => {
+  const cited = articleSentences(article).filter((sentence) => sentence.citation_ids.length);
+  const first = cited.filter((sentence) => priority.has(normalize(sentence.text)));
+  const rest = cited.filter((sentence) => !priority.has(normalize(sentence.text)));
+  return [...first, ...rest].slice(0, limit);
+};
+
+type LoadedSource = (
+  | { passages: Passage[]; extractor: SourceExtractor; truncated: boolean }
+  | { error: string }
+) & { link: Omit<LinkHealthRecord, 'source' | 'citation_id'> };
+
+export interface VerifiabilitySide {
+  checked: number;
+  supported: number;
+  partially_supported: number;
+  unsupported: number;
+  error: number;
+  /** Supported sentences over the sentences whose sources could be read. */
+  supported_share: number;
+}
+
+export interface CitationVerifiability {
+  reference: VerifiabilitySide;
+  candidate: VerifiabilitySide;
+}
+
+const summarizeSide = (records: CitationVerificationRecord[]): VerifiabilitySide => {
+  const count = (status: CitationVerificationRecord['status']) =>
+    records.filter((record) => record.status === status).length;
+  const side = {
+    checked: records.length,
+    supported: count('supported'),
+    partially_supported: count('partially_supported'),
+    unsupported: count('unsupported'),
+    error: count('error'),
+  };
+  const readable = side.checked - side.error;
+  return { ...side, supported_share: readable ? round(side.supported / readable) : 0 };
+};
+
+/** Counts verification outcomes per article. */
+export const summarizeVerifiability = (
+  records: CitationVerificationRecord[],
+): CitationVerifiability => ({
+  reference: summarizeSide(records.filter((record) => record.source === 'reference')),
+  candidate: summarizeSide(records.filter((record) => record.source === 'candidate')),
+});
+
+export interface LinkHealthSide {
+  checked: number;
+  live: number;
+  dead: number;
+  archived: number;
+  /** Links that answered another error status or failed to connect; neither live nor rotten. */
+  unreachable: number;
+  /** Links whose original URL is gone (dead or only archived) over the links with a known state. */
+  rot_rate: number;
+}
+
+export interface LinkRot {
+  reference: LinkHealthSide;
+  candidate: LinkHealthSide;
+}
+
+const summarizeLinks = (links: LinkHealthRecord[]): LinkHealthSide => {
+  const count = (status: LinkHealthRecord['status']) =>
+    links.filter((link) => link.status === status).length;
+  const side = {
+    checked: links.length,
+    live: count('live'),
+    dead: count('dead'),
+    archived: count('archived'),
+    unreachable: count('unreachable'),
+  };
+  const known = side.checked - side.unreachable;
+  return {
+    ...side,
+    rot_rate: known ? round((side.dead + side.archived) / known) : 0,
+  };
+};
+
+/** Link-rot rates per article. */
+export const summarizeLinkHealth = (links: LinkHealthRecord[]): LinkRot => ({
+  reference: summarizeLinks(links.filter((link) => link.source === 'reference')),
+  candidate: summarizeLinks(links.filter((link) => link.source === 'candidate')),
+});
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Verifies the cited sentences of each article against their own references and records the
+ * health of every link it fetches. Articles are keyed by comparison side. Fetched sources are
+ * shared between articles, so a source both sides cite is downloaded once.
+ */
 export const verifySentencesAgainstCitations = async (
-  sentences: string[],
-  citations: string[],
+  articles: Partial<Record<ComparisonSide, StructuredArticle>>,
   options: CitationVerificationOptions = {},
-): Promise<CitationVerificationRecord[]> => {
-  if (!sentences.length || !citations.length) {
-    return sentences.map((sentence) => ({
-      sentence,
-      status: 'error',
-      message: 'No citations available for verification.',
-    }));
-  }
+): Promise<CitationVerificationResult> => {
+  const {
+    maxSentences = 20,
+    maxSourcesPerSentence = 3,
+    maxLinks = 25,
+    timeoutMs = 8000,
+    maxBytes,
+  } = options;
+  const archiveEndpoint =
+    options.archiveEndpoint === undefined ? DEFAULT_ARCHIVE_ENDPOINT : options.archiveEndpoint;
+  const priority = new Set((options.priority ?? []).map(normalize));
+  const sources = new Map<string, Promise<LoadedSource>>();
 
-  const { maxCitations = 5, timeoutMs = 8000 } = options;
-  const uniqueCitations = Array.from(
-    new Set(citations.filter((url) => /^https?:\/\//i.test(url))),
-  ).slice(0, maxCitations);
-  if (!uniqueCitations.length) {
-    return sentences.map((sentence) => ({
-      sentence,
-      status: 'error',
-      message: 'No HTTP citations available.',
-    }));
-  }
+  const fetchUrl = (url: string) => httpGetBuffer(url, { timeoutMs, maxRetries: 1, maxBytes });
 
-  const cache = new Map<string, string | Error>();
+  /** Extracts passages from a fetched body; throws for content without readable text. */
+  const readResponse = (response: Awaited<ReturnType<typeof fetchUrl>>, lang: string) => {
+    const { text, extractor } = extractSourceText(response.body, response.headers['content-type']);
+    return { passages: toPassages(text, lang), extractor, truncated: response.truncated };
+  };
 
-  const getCitationText = async (url: string): Promise<string | Error> => {
-    if (cache.has(url)) {
-      return cache.get(url)!;
-    }
+  const lookupArchive = async (url: string): Promise<string | null> => {
+    if (!archiveEndpoint) return null;
+    const lookup = archiveEndpoint.replace('{url}', encodeURIComponent(url));
+    const answer = await httpRequestJson<WaybackAvailability>(lookup, { timeoutMs, maxRetries: 1 });
+    const closest = answer.archived_snapshots?.closest;
+    return closest?.available && closest.url ? closest.url : null;
+  };
+
+  const resolveSource = async (link: ReferenceLink, lang: string): Promise<LoadedSource> => {
+    let original: unknown;
     try {
-      const text = await fetchCitation(url, timeoutMs);
-      cache.set(url, text);
-      return text;
+      const response = await fetchUrl(link.url);
+      const live = { url: link.url, status: 'live' as const };
+      try {
+        return { ...readResponse(response, lang), link: live };
+      } catch (error) {
+        return { error: errorMessage(error), link: live };
+      }
     } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      cache.set(url, err);
-      return err;
+      original = error;
     }
+    const httpStatus = original instanceof HttpError ? original.status : null;
+    if (fetchFailureStatus(original) === 'unreachable') {
+      return {
+        error: errorMessage(original),
+        link: { url: link.url, status: 'unreachable', http_status: httpStatus },
+      };
+    }
+    const dead = { url: link.url, http_status: httpStatus, message: errorMessage(original) };
+    const readCopy = async (copy: string | null) => {
+      if (!copy) return null;
+      try {
+        const archived = readResponse(await fetchUrl(rawSnapshotUrl(copy)), lang);
+        return { ...archived, link: { ...dead, status: 'archived' as const, archive_url: copy } };
+      } catch {
+        return null;
+      }
+    };
+    const cited = await readCopy(link.archiveUrl);
+    if (cited) return cited;
+    const lookedUp = await lookupArchive(link.url).catch(() => null);
+    const found = lookedUp && lookedUp !== link.archiveUrl ? await readCopy(lookedUp) : null;
+    if (found) return found;
+    return {
+      error: `${errorMessage(original)}; no archived copy could be read`,
+      link: { ...dead, status: 'dead' },
+    };
   };
 
-  const normalizedSentences = sentences.map((sentence) => ({
-    raw: sentence,
-    normalized: normalize(sentence),
-  }));
-
-  const results: CitationVerificationRecord[] = [];
-  const fetchedTexts: Array<{ url: string; text?: string; error?: Error }> = [];
-
-  for (const citation of uniqueCitations) {
-    const result = await getCitationText(citation);
-    if (result instanceof Error) {
-      fetchedTexts.push({ url: citation, error: result });
-    } else {
-      fetchedTexts.push({ url: citation, text: result });
+  const loadSource = (link: ReferenceLink, lang: string): Promise<LoadedSource> => {
+    if (!sources.has(link.url)) {
+      sources.set(link.url, resolveSource(link, lang));
     }
-  }
+    return sources.get(link.url)!;
+  };
 
-  normalizedSentences.forEach((sentence) => {
-    const supported = fetchedTexts.find(
-      (entry) => entry.text && normalize(entry.text).includes(sentence.normalized),
+  const links: LinkHealthRecord[] = [];
+  const recordLink = (source: ComparisonSide, citationId: string, loaded: LoadedSource) => {
+    if (links.some((link) => link.source === source && link.citation_id === citationId)) return;
+    links.push({ source, citation_id: citationId, ...loaded.link });
+  };
+
+  const records: CitationVerificationRecord[] = [];
+  for (const [side, article] of Object.entries(articles) as Array<
+    [ComparisonSide, StructuredArticle]
+  >) {
+    const references = new Map(
+      article.references.map((reference) => [reference.citation_id, reference]),
     );
-    if (supported) {
-      results.push({
-        sentence: sentence.raw,
-        status: 'supported',
-        supporting_url: supported.url,
+    for (const sentence of selectSentences(article, priority, maxSentences)) {
+      const base = {
+        source: side,
+        sentence_id: sentence.sentence_id,
+        sentence: sentence.text,
+        citation_ids: sentence.citation_ids,
+      };
+      const cited = sentence.citation_ids
+        .map((id) => references.get(id))
+        .filter((reference): reference is StructuredReference => Boolean(reference))
+        .map((reference) => referenceLink(reference, references))
+        .filter((link): link is ReferenceLink => Boolean(link))
+        .slice(0, maxSourcesPerSentence);
+      if (!cited.length) {
+        records.push({
+          ...base,
+          status: 'error',
+          message: 'None of the cited references has a fetchable URL.',
+        });
+        continue;
+      }
+
+      let best:
+        | (PassageMatch & {
+            citation_id: string;
+            url: string;
+            archive_url: string | null;
+            extractor: SourceExtractor;
+            truncated: boolean;
+          })
+        | null = null;
+      const errors: string[] = [];
+      for (const link of cited) {
+        const source = await loadSource(link, article.lang);
+        recordLink(side, link.reference.citation_id, source);
+        if ('error' in source) {
+          errors.push(`${link.url}: ${source.error}`);
+          continue;
+        }
+        const match = bestPassage(sentence.text, source.passages);
+        if (match && (!best || match.score > best.score)) {
+          best = {
+            ...match,
+            citation_id: link.reference.citation_id,
+            url: link.url,
+            archive_url: source.link.archive_url ?? null,
+            extractor: source.extractor,
+            truncated: source.truncated,
+          };
+        }
+      }
+      if (!best) {
+        records.push({
+          ...base,
+          status: 'error',
+          message: errors.join('; ') || 'Cited sources contain no readable text.',
+        });
+        continue;
+      }
+
+      const status =
+        best.score >= SUPPORTED_THRESHOLD && best.numbersMatch
+          ? 'supported'
+          : best.score >= PARTIAL_THRESHOLD
+            ? 'partially_supported'
+            : 'unsupported';
+      const notes = [
+        status === 'partially_supported' && !best.numbersMatch
+          ? 'The closest passage does not contain every number in the sentence.'
+          : null,
+        errors.length ? `Some sources could not be fetched: ${errors.join('; ')}` : null,
+      ].filter(Boolean);
+      records.push({
+        ...base,
+        status,
+        score: round(best.score),
+        supporting_citation_id: status === 'unsupported' ? null : best.citation_id,
+        supporting_url: status === 'unsupported' ? null : best.url,
+        ...(best.archive_url ? { archive_url: best.archive_url } : {}),
+        passage: best.passage,
+        extractor: best.extractor,
+        truncated: best.truncated,
+        ...(notes.length ? { message: notes.join(' ') } : {}),
       });
-      return;
     }
-    const hadText = fetchedTexts.some((entry) => entry.text);
-    if (!hadText) {
-      const issues = fetchedTexts
-        .filter((entry) => entry.error)
-        .map((entry) => `${entry.url}: ${(entry.error as Error).message}`)
-        .join('; ');
-      results.push({
-        sentence: sentence.raw,
-        status: 'error',
-        message: issues || 'Unable to fetch citations.',
-      });
-      return;
+
+    const unchecked = article.references
+      .filter(
+        (reference) =>
+          !links.some((link) => link.source === side && link.citation_id === reference.citation_id),
+      )
+      .map((reference) => referenceLink(reference, references))
+      .filter((link): link is ReferenceLink => Boolean(link))
+      .slice(0, Math.max(0, maxLinks));
+    for (const link of unchecked) {
+      recordLink(side, link.reference.citation_id, await loadSource(link, article.lang));
     }
-    results.push({
-      sentence: sentence.raw,
-      status: 'unsupported',
-      message: 'Sentence not found in fetched citations.',
-    });
-  });
-
-  return results;
+  }
+  return { records, links };
 };
@@ -0,0 +1,86 @@
+/**
+ * @file src/lib/contradictions.ts
+ * @description Turns NLI verdicts on aligned claim pairs into `contradiction` discrepancies. The
+ *              classifier is injected so the model-backed implementation in `nli-detector.ts` is
+ *              only loaded when `--nli` is enabled.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { NLI_CONTRADICTION_THRESHOLD } from '../shared/analyzer-config';
+import type { ClaimAlignmentRecord } from './alignment';
+import type { DiscrepancyRecord } from './analyzer';
+
+export type NliLabel = 'entailment' | 'neutral' | 'contradiction';
+
+export interface NliScores {
+  entailment: number;
+  neutral: number;
+  contradiction: number;
+}
+
+export interface NliVerdict {
+  label: NliLabel;
+  confidence: number;
+  scores: NliScores;
+}
+
+export type EntailmentClassifier = (premise: string, hypothesis: string) => Promise<NliScores>;
+
+export interface ContradictionOptions {
+  threshold?: number;
+}
+
+const round = (value: number): number => Number(value.toFixed(3));
+
+/**
+ * Averages both directions (reference ⇒ candidate and back) so a claim that merely adds detail
+ * on one side is not mistaken for a contradiction.
+ */
+const combineDirections = (forward: NliScores, backward: NliScores): NliVerdict => {
+  const scores: NliScores = {
+    entailment: round((forward.entailment + backward.entailment) / 2),
+    neutral: round((forward.neutral + backward.neutral) / 2),
+    contradiction: round((forward.contradiction + backward.contradiction) / 2),
+  };
+  const [label, confidence] = (Object.entries(scores) as Array<[NliLabel, number]>).reduce(
+    (best, entry) => (entry[1] > best[1] ? entry : best),
+  );
+  return { label, confidence, scores };
+};
+
+/**
+ * Classifies every matched claim pair, records the verdict on the alignment record (`nli`), and
+ * returns a discrepancy for each confident contradiction.
+ */
+export const detectContradictions = async (
+  alignments: ClaimAlignmentRecord[],
+  classify: EntailmentClassifier,
+  options: ContradictionOptions = {},
+): Promise<DiscrepancyRecord[]> => {
+  const threshold = options.threshold ?? NLI_CONTRADICTION_THRESHOLD;
+  const events: DiscrepancyRecord[] = [];
+  for (const alignment of alignments) {
+    const { reference, candidate } = alignment;
+    if (!reference || !candidate) continue;
+    const verdict = combineDirections(
+      await classify(reference.text, candidate.text),
+      await classify(candidate.text, reference.text),
+    );
+    alignment.nli = verdict;
+    if (verdict.label !== 'contradiction' || verdict.scores.contradiction < threshold) continue;
+    events.push({
+      type: 'contradiction',
+      description: `Aligned claims contradict each other (NLI ${(verdict.scores.contradiction * 100).toFixed(0)}% contradiction).`,
+      evidence: {
+        reference: reference.text,
+        candidate: candidate.text,
+        reference_claim_id: reference.claim_id,
+        candidate_claim_id: candidate.claim_id,
+      },
+      severity: 5,
+      category: 'factual',
+      tags: ['nli_contradiction'],
+    });
+  }
+  return events;
+};
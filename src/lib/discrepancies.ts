@@ -1,25 +1,83 @@
 /**
  * @file src/lib/discrepancies.ts
- * @description Helpers for extracting numeric/entity differences from aligned claims.
+ * @description Helpers for extracting numeric/temporal/entity differences from aligned claims.
+ *              Numbers are paired by role and normalized through the `{{convert}}` unit table
+ *              before they are compared; dates are compared as calendar intervals.
  * @author Doğu Abaris <abaris@null.net>
  */
 
+import {
+  convertValue,
+  resolveUnit,
+  toBaseUnit,
+  type UnitDefinition,
+} from '../parsers/wiki/convert';
+import { temporalOverlap } from '../parsers/shared/temporal';
+import type { TemporalExpression } from '../parsers/shared/types';
+import {
+  DEFAULT_SOURCE_LABELS,
+  NUMERIC_TOLERANCES,
+  TEMPORAL_CIRCA_SLACK_YEARS,
+} from '../shared/analyzer-config';
 import type { ClaimAlignmentRecord } from './alignment';
+import type { SourceLabels } from './analyzer';
+
+export interface NumericValue {
+  value: number;
+  unit: string | null;
+  raw: string;
+}
+
+/**
+ * Maximum relative difference tolerated before two paired numbers are reported. Keys are unit
+ * keys or symbols from the convert table (`km`, `°C`), roles (`length`, `percent`, `count`), or
+ * `default`; the most specific match wins.
+ */
+export type NumericTolerances = Record<string, number>;
+
+export interface NumericComparisonOptions {
+  tolerances?: NumericTolerances;
+}
 
 export interface NumericDiscrepancy {
-  wikipedia_claim_id?: string;
-  grokipedia_claim_id?: string;
-  wikipedia_value?: { value: number; unit: string | null; raw: string } | null;
-  grokipedia_value?: { value: number; unit: string | null; raw: string } | null;
+  reference_claim_id?: string;
+  candidate_claim_id?: string;
+  reference_value?: NumericValue | null;
+  candidate_value?: NumericValue | null;
+  /** Role the two numbers were paired by: a convert-table unit type, `percent`, or `count`. */
+  role: string;
+  /** Candidate value converted into the reference value's unit when the units differ. */
+  converted_value?: { value: number; unit: string } | null;
   relative_difference: number;
+  /** Difference in kelvin for temperatures, which are compared by it instead of relatively. */
+  absolute_difference?: number;
+  tolerance: number;
+  description: string;
+}
+
+export interface TemporalComparisonOptions {
+  /** Years added on each side of a `circa` expression before intervals are compared. */
+  circaSlackYears?: number;
+}
+
+export interface TemporalDiscrepancy {
+  reference_claim_id?: string;
+  candidate_claim_id?: string;
+  reference_value: TemporalExpression;
+  candidate_value: TemporalExpression;
   description: string;
 }
 
+export interface EntityComparisonOptions {
+  /** Names of the compared sources, used in descriptions. */
+  labels?: SourceLabels;
+}
+
 export interface EntityDiscrepancy {
-  wikipedia_claim_id?: string;
-  grokipedia_claim_id?: string;
-  wikipedia_entities: string[];
-  grokipedia_entities: string[];
+  reference_claim_id?: string;
+  candidate_claim_id?: string;
+  reference_entities: string[];
+  candidate_entities: string[];
   description: string;
 }
 
@@ -29,36 +87,157 @@ const relativeDiff = (a: number, b: number): number => {
   return Math.abs(a - b) / Math.max(Math.abs(a), Math.abs(b));
 };
 
-const isComparableUnit = (a: string | null, b: string | null): boolean => {
-  if (!a || !b) return false;
-  return a === b;
+interface RoledNumber {
+  number: NumericValue;
+  role: string;
+  unit: UnitDefinition | null;
+}
+
+const isCalendarYear = (number: NumericValue): boolean =>
+  /^\d{4}(?![\d,.]\d)/.test(number.raw) &&
+  Number.isInteger(number.value) &&
+  number.value >= 1000 &&
+  number.value <= 2100;
+
+/**
+ * Classifies a number by what it measures so values are only compared with their counterpart:
+ * unit type from the convert table, percentages, bare calendar years, or plain counts. Units
+ * outside the table only pair with the same unit string. Calendar years are classified so they
+ * are kept out of other roles; they are compared by `detectTemporalDiscrepancies`.
+ */
+const classifyNumber = (number: NumericValue): RoledNumber => {
+  if (number.unit === '%') {
+    return { number, role: 'percent', unit: null };
+  }
+  if (number.unit) {
+    const unit = resolveUnit(number.unit);
+    return { number, role: unit ? unit.utype : `unit:${number.unit}`, unit };
+  }
+  return { number, role: isCalendarYear(number) ? 'date' : 'count', unit: null };
 };
 
+/**
+ * Role a number is compared under; exposed for callers that pre-filter comparable values.
+ */
+export const numericRole = (number: NumericValue): string => classifyNumber(number).role;
+
+/**
+ * Pairs the numbers of two claims by role, in order of appearance within each role. Numbers
+ * without a counterpart are left out; they are additions or omissions, not disagreements.
+ */
+const pairByRole = (
+  wikiNumbers: NumericValue[],
+  grokNumbers: NumericValue[],
+): Array<[RoledNumber, RoledNumber]> => {
+  const grokByRole = new Map<string, RoledNumber[]>();
+  grokNumbers.map(classifyNumber).forEach((entry) => {
+    const bucket = grokByRole.get(entry.role) ?? [];
+    bucket.push(entry);
+    grokByRole.set(entry.role, bucket);
+  });
+  const pairs: Array<[RoledNumber, RoledNumber]> = [];
+  wikiNumbers.map(classifyNumber).forEach((entry) => {
+    const counterpart = grokByRole.get(entry.role)?.shift();
+    if (counterpart) pairs.push([entry, counterpart]);
+  });
+  return pairs;
+};
+
+const resolveTolerance = (
+  tolerances: NumericTolerances,
+  wiki: RoledNumber,
+  grok: RoledNumber,
+): number =>
+  [wiki.number.unit, wiki.unit?.symbol, grok.number.unit, grok.unit?.symbol, wiki.role]
+    .map((key) => (key ? tolerances[key] : undefined))
+    .find((value): value is number => typeof value === 'number') ?? tolerances.default;
+
+const formatValue = (value: number): string =>
+  Number(value.toPrecision(6)).toLocaleString('en-US', { maximumFractionDigits: 6 });
+
+/**
+ * Compares every number of each aligned claim pair with its counterpart of the same role.
+ * Values with convertible units are normalized to base units first, so `384,400 km` and
+ * `238,855 miles` agree while `384,400 km` and `250,000 miles` do not.
+ */
 export const detectNumericDiscrepancies = (
   alignments: ClaimAlignmentRecord[],
+  options: NumericComparisonOptions = {},
 ): NumericDiscrepancy[] => {
+  const tolerances = { ...NUMERIC_TOLERANCES, ...(options.tolerances ?? {}) };
   const results: NumericDiscrepancy[] = [];
   alignments.forEach((record) => {
-    if (!record.wikipedia || !record.grokipedia) return;
-    const wNumbers = record.wikipedia.numbers ?? [];
-    const gNumbers = record.grokipedia.numbers ?? [];
-    if (!wNumbers.length || !gNumbers.length) return;
-    const primaryW = wNumbers[0];
-    const primaryG = gNumbers[0];
-    if (primaryW.unit && primaryG.unit && !isComparableUnit(primaryW.unit, primaryG.unit)) {
-      return;
-    }
-    const delta = relativeDiff(primaryW.value, primaryG.value);
-    if (delta >= 0.05) {
+    const { reference, candidate } = record;
+    if (!reference || !candidate) return;
+    const pairs = pairByRole(reference.numbers ?? [], candidate.numbers ?? []).filter(
+      ([wiki]) => wiki.role !== 'date',
+    );
+    pairs.forEach(([wiki, grok]) => {
+      const converted =
+        wiki.unit && grok.unit && wiki.number.unit !== grok.number.unit
+          ? { value: convertValue(grok.number.value, grok.unit, wiki.unit), unit: wiki.unit.symbol }
+          : null;
+      const base =
+        wiki.unit && grok.unit
+          ? [toBaseUnit(wiki.number.value, wiki.unit), toBaseUnit(grok.number.value, grok.unit)]
+          : [wiki.number.value, grok.number.value];
+      const delta = relativeDiff(base[0], base[1]);
+      // Kelvin values sit near 300, so a relative tolerance would hide a 10 °C disagreement.
+      const absolute = wiki.role === 'temperature' ? Math.abs(base[0] - base[1]) : null;
+      const tolerance = resolveTolerance(tolerances, wiki, grok);
+      if ((absolute ?? delta) <= tolerance) return;
+      const grokLabel = converted
+        ? `${grok.number.raw} ≈ ${formatValue(converted.value)} ${converted.unit}`
+        : grok.number.raw;
       results.push({
-        wikipedia_claim_id: record.wikipedia.claim_id,
-        grokipedia_claim_id: record.grokipedia.claim_id,
-        wikipedia_value: primaryW,
-        grokipedia_value: primaryG,
+        reference_claim_id: reference.claim_id,
+        candidate_claim_id: candidate.claim_id,
+        reference_value: wiki.number,
+        candidate_value: grok.number,
+        role: wiki.role,
+        converted_value: converted,
         relative_difference: Number(delta.toFixed(3)),
-        description: `Numeric discrepancy detected (${primaryW.raw} vs ${primaryG.raw}).`,
+        ...(absolute === null ? {} : { absolute_difference: Number(absolute.toFixed(2)) }),
+        tolerance,
+        description: `Numeric discrepancy detected (${wiki.number.raw} vs ${grokLabel}).`,
       });
-    }
+    });
+  });
+  return results;
+};
+
+/**
+ * Compares the dates, years, decades, and ranges of each aligned claim pair. Expressions that
+ * overlap a counterpart are settled first so a date mentioned on only one side does not shift
+ * the pairing; the remaining expressions are paired in order and reported as disagreements.
+ */
+export const detectTemporalDiscrepancies = (
+  alignments: ClaimAlignmentRecord[],
+  options: TemporalComparisonOptions = {},
+): TemporalDiscrepancy[] => {
+  const slack = options.circaSlackYears ?? TEMPORAL_CIRCA_SLACK_YEARS;
+  const results: TemporalDiscrepancy[] = [];
+  alignments.forEach((record) => {
+    const { reference, candidate } = record;
+    if (!reference || !candidate) return;
+    const grokRemaining = [...(candidate.temporal ?? [])];
+    const wikiRemaining = (reference.temporal ?? []).filter((expression) => {
+      const match = grokRemaining.findIndex((other) => temporalOverlap(expression, other, slack));
+      if (match < 0) return true;
+      grokRemaining.splice(match, 1);
+      return false;
+    });
+    wikiRemaining.forEach((expression, index) => {
+      const counterpart = grokRemaining[index];
+      if (!counterpart) return;
+      results.push({
+        reference_claim_id: reference.claim_id,
+        candidate_claim_id: candidate.claim_id,
+        reference_value: expression,
+        candidate_value: counterpart,
+        description: `Date mismatch (${expression.raw} vs ${counterpart.raw}).`,
+      });
+    });
   });
   return results;
 };
@@ -68,17 +247,19 @@ const normalizeEntity = (entity: { label: string; type: string | null }): string
 
 export const detectEntityDiscrepancies = (
   alignments: ClaimAlignmentRecord[],
+  options: EntityComparisonOptions = {},
 ): EntityDiscrepancy[] => {
+  const labels = options.labels ?? DEFAULT_SOURCE_LABELS;
   const discrepancies: EntityDiscrepancy[] = [];
   alignments.forEach((record) => {
-    if (!record.wikipedia || !record.grokipedia) return;
+    if (!record.reference || !record.candidate) return;
     const wikiEntities = new Set(
-      (record.wikipedia.entities ?? [])
+      (record.reference.entities ?? [])
         .map((entity: { label: string; type: string | null }) => normalizeEntity(entity))
         .filter((label: string) => label.length > 0),
     );
     const grokEntities = new Set(
-      (record.grokipedia.entities ?? [])
+      (record.candidate.entities ?? [])
         .map((entity: { label: string; type: string | null }) => normalizeEntity(entity))
         .filter((label: string) => label.length > 0),
     );
@@ -86,11 +267,11 @@ export const detectEntityDiscrepancies = (
     const extra = Array.from(grokEntities).filter((label) => !wikiEntities.has(label));
     if (missing.length || extra.length) {
       discrepancies.push({
-        wikipedia_claim_id: record.wikipedia.claim_id,
-        grokipedia_claim_id: record.grokipedia.claim_id,
-        wikipedia_entities: Array.from(wikiEntities) as string[],
-        grokipedia_entities: Array.from(grokEntities) as string[],
-        description: 'Entity mismatch between Wikipedia and Grokipedia claims.',
+        reference_claim_id: record.reference.claim_id,
+        candidate_claim_id: record.candidate.claim_id,
+        reference_entities: Array.from(wikiEntities) as string[],
+        candidate_entities: Array.from(grokEntities) as string[],
+        description: `Entity mismatch between ${labels.reference} and ${labels.candidate} claims.`,
       });
     }
   });
@@ -60,6 +60,7 @@ export const renderList = (title: string, items: string[], modalId: string): str
 export const renderAlignmentTable = (analysis: StructuredAnalysisReport): string => {
   const allRows = analysis.comparison.sections.alignment;
   if (!allRows.length) return '';
+  const { sources } = analysis;
 
   const displayCount = Math.min(3, allRows.length);
   const hasMore = allRows.length > displayCount;
@@ -71,13 +72,13 @@ export const renderAlignmentTable = (analysis: StructuredAnalysisReport): string
     return `<div class="alignment-row">
       <div class="alignment-sections">
         <div class="alignment-section">
-          <span class="section-label">Wiki</span>
-          <span class="section-heading">${escapeHtml(record.wikipedia?.heading ?? '-')}</span>
+          <span class="section-label">${escapeHtml(sources.reference.label)}</span>
+          <span class="section-heading">${escapeHtml(record.reference?.heading ?? '-')}</span>
         </div>
         <div class="alignment-arrow">→</div>
         <div class="alignment-section">
-          <span class="section-label">Grok</span>
-          <span class="section-heading">${escapeHtml(record.grokipedia?.heading ?? '-')}</span>
+          <span class="section-label">${escapeHtml(sources.candidate.label)}</span>
+          <span class="section-heading">${escapeHtml(record.candidate?.heading ?? '-')}</span>
         </div>
       </div>
       <div class="similarity-bar-container">
@@ -122,6 +123,7 @@ export const renderDiscrepancyList = (
   title: string,
   issues: DiscrepancyRecord[],
   modalId: string,
+  sources: StructuredAnalysisReport['sources'],
 ): string => {
   if (!issues.length) return '';
   const displayCount = Math.min(3, issues.length);
@@ -130,12 +132,12 @@ export const renderDiscrepancyList = (
   const renderIssue = (issue: DiscrepancyRecord, idx: number, showEvidence: boolean) => {
     const evidence = issue.evidence ?? {};
     const wiki =
-      showEvidence && evidence.wikipedia
-        ? `<div class="evidence"><strong>Wikipedia</strong>: ${escapeHtml(formatSnippet(evidence.wikipedia))}</div>`
+      showEvidence && evidence.reference
+        ? `<div class="evidence"><strong>${escapeHtml(sources.reference.label)}</strong>: ${escapeHtml(formatSnippet(evidence.reference))}</div>`
         : '';
     const grok =
-      showEvidence && evidence.grokipedia
-        ? `<div class="evidence"><strong>Grokipedia</strong>: ${escapeHtml(formatSnippet(evidence.grokipedia))}</div>`
+      showEvidence && evidence.candidate
+        ? `<div class="evidence"><strong>${escapeHtml(sources.candidate.label)}</strong>: ${escapeHtml(formatSnippet(evidence.candidate))}</div>`
         : '';
     return `<li>
   <span class="issue-label">${idx + 1}. [${escapeHtml(issue.type)}]</span> ${escapeHtml(issue.description ?? '')}
@@ -177,6 +179,7 @@ export const renderDiscrepancyList = (
 
 export const renderBiasPanel = (analysis: StructuredAnalysisReport): string => {
   const metrics = analysis.bias_metrics;
+  const { sources } = analysis;
   const listLoadedTerms = (entries: Record<string, number>): string => {
     if (!entries || !Object.keys(entries).length) return '';
     return Object.entries(entries)
@@ -203,8 +206,8 @@ export const renderBiasPanel = (analysis: StructuredAnalysisReport): string => {
       <strong style="display: block; font-size: 2rem; color: #221C46;">${metrics.polarity_delta.toFixed(3)}</strong>
     </div>
   </div>
-  ${grokTerms ? `<div style="margin-bottom: 0.5rem;"><p style="font-size: 0.65rem; color: #6c757d; margin-bottom: 0.375rem; text-transform: uppercase; letter-spacing: 0.05em;">Grokipedia Terms</p><div>${grokTerms}</div></div>` : ''}
-  ${wikiTerms ? `<div><p style="font-size: 0.65rem; color: #6c757d; margin-bottom: 0.375rem; text-transform: uppercase; letter-spacing: 0.05em;">Wikipedia Terms</p><div>${wikiTerms}</div></div>` : ''}
+  ${grokTerms ? `<div style="margin-bottom: 0.5rem;"><p style="font-size: 0.65rem; color: #6c757d; margin-bottom: 0.375rem; text-transform: uppercase; letter-spacing: 0.05em;">${escapeHtml(sources.candidate.label)} Terms</p><div>${grokTerms}</div></div>` : ''}
+  ${wikiTerms ? `<div><p style="font-size: 0.65rem; color: #6c757d; margin-bottom: 0.375rem; text-transform: uppercase; letter-spacing: 0.05em;">${escapeHtml(sources.reference.label)} Terms</p><div>${wikiTerms}</div></div>` : ''}
 </div>`;
 };
 
@@ -229,6 +232,7 @@ export const renderDiffSampleButton = (analysis: StructuredAnalysisReport): stri
 };
 
 export const renderVerifications = (analysis: StructuredAnalysisReport): string => {
+  const { sources } = analysis;
   const citationChecks = analysis.attachments.citation_verifications ?? [];
   const biasChecks = analysis.attachments.bias_verifications ?? [];
   const blocks: string[] = [];
@@ -237,8 +241,9 @@ export const renderVerifications = (analysis: StructuredAnalysisReport): string
       .slice(0, 10)
       .map(
         (entry) => `<li>
-  <strong class="status-${escapeHtml(entry.status)}">[${escapeHtml(entry.status)}]</strong> ${escapeHtml(formatSnippet(entry.sentence ?? ''))}
-  ${entry.supporting_url ? `<div class="evidence">${escapeHtml(entry.supporting_url)}</div>` : ''}
+  <strong class="status-${escapeHtml(entry.status)}">[${escapeHtml(entry.status)}]</strong>${entry.source ? ` <span class="muted">${escapeHtml(sources[entry.source].label)}</span>` : ''} ${escapeHtml(formatSnippet(entry.sentence ?? ''))}
+  ${entry.passage ? `<div class="evidence">“${escapeHtml(formatSnippet(entry.passage))}”</div>` : ''}
+  ${entry.supporting_url ? `<div class="evidence">${escapeHtml(entry.supporting_url)}${entry.extractor ? ` (${escapeHtml(entry.extractor)}${entry.truncated ? ', truncated' : ''})` : ''}</div>` : ''}
   ${entry.message ? `<div class="evidence">${escapeHtml(entry.message)}</div>` : ''}
 </li>`,
       )
@@ -247,6 +252,21 @@ export const renderVerifications = (analysis: StructuredAnalysisReport): string
       `<section class="card">
   <div class="card-title">Citation Verification</div>
   <ul>${list}</ul>
+</section>`,
+    );
+  }
+  const linkRot = analysis.attachments.link_rot;
+  if (linkRot && linkRot.reference.checked + linkRot.candidate.checked > 0) {
+    const rows = (['reference', 'candidate'] as const)
+      .map((side) => {
+        const counts = linkRot[side];
+        return `<li><strong>${escapeHtml(sources[side].label)}</strong> · ${counts.live} live, ${counts.archived} archived, ${counts.dead} dead${counts.unreachable ? `, ${counts.unreachable} unreachable` : ''} of ${counts.checked} <span class="muted">(link rot ${(counts.rot_rate * 100).toFixed(1)}%)</span></li>`;
+      })
+      .join('');
+    blocks.push(
+      `<section class="card">
+  <div class="card-title">Link Health</div>
+  <ul>${rows}</ul>
 </section>`,
     );
   }
@@ -274,6 +294,7 @@ export const renderVerifications = (analysis: StructuredAnalysisReport): string
 export const renderSimilarSentencesModal = (analysis: StructuredAnalysisReport): string => {
   const reworded = analysis.comparison.sentences.reworded;
   const agreed = analysis.comparison.sentences.agreed;
+  const { sources } = analysis;
 
   if (!reworded.length && !agreed.length) return '';
 
@@ -284,12 +305,12 @@ export const renderSimilarSentencesModal = (analysis: StructuredAnalysisReport):
         item,
       ) => `<li style="margin-bottom: 1rem; padding-bottom: 1rem; border-bottom: 1px solid var(--color-border);">
   <div style="margin-bottom: 0.5rem;">
-    <strong style="color: var(--color-purple); font-size: 0.7rem;">Wikipedia:</strong>
-    <div style="font-size: 0.75rem; color: var(--color-text); margin-top: 0.25rem;">${escapeHtml(item.wikipedia)}</div>
+    <strong style="color: var(--color-purple); font-size: 0.7rem;">${escapeHtml(sources.reference.label)}:</strong>
+    <div style="font-size: 0.75rem; color: var(--color-text); margin-top: 0.25rem;">${escapeHtml(item.reference)}</div>
   </div>
   <div style="margin-bottom: 0.5rem;">
-    <strong style="color: var(--color-purple); font-size: 0.7rem;">Grokipedia:</strong>
-    <div style="font-size: 0.75rem; color: var(--color-text); margin-top: 0.25rem;">${escapeHtml(item.grokipedia)}</div>
+    <strong style="color: var(--color-purple); font-size: 0.7rem;">${escapeHtml(sources.candidate.label)}:</strong>
+    <div style="font-size: 0.75rem; color: var(--color-text); margin-top: 0.25rem;">${escapeHtml(item.candidate)}</div>
   </div>
   <div style="font-size: 0.65rem; color: var(--color-text-muted);">
     Similarity: ${formatPercent(item.similarity)}
@@ -317,7 +338,7 @@ export const renderSimilarSentencesModal = (analysis: StructuredAnalysisReport):
         agreed.length
           ? `
         <h4 style="font-size: 0.85rem; color: var(--color-purple); margin-bottom: 0.75rem; font-weight: 600;">Identical Sentences (${agreed.length})</h4>
-        <p style="font-size: 0.75rem; color: var(--color-text-muted); margin-bottom: 1rem;">These sentences appear exactly the same in both Wikipedia and Grokipedia:</p>
+        <p style="font-size: 0.75rem; color: var(--color-text-muted); margin-bottom: 1rem;">These sentences appear exactly the same in both ${escapeHtml(sources.reference.label)} and ${escapeHtml(sources.candidate.label)}:</p>
         <ul style="list-style: none; padding: 0; margin-bottom: 2rem;">${agreedItems}</ul>
       `
           : ''
@@ -349,8 +370,7 @@ export const renderNoteInfo = (
     entry: { status?: string; file: string; ual?: string | null } | null;
     note: Record<string, unknown> | null;
   },
-  wikiUrl: string,
-  grokUrl: string,
+  sources: StructuredAnalysisReport['sources'],
 ): string => {
   const entry = notePayload?.entry;
   const note = notePayload?.note;
@@ -367,8 +387,8 @@ export const renderNoteInfo = (
   return `<div style="display: flex; align-items: center; gap: 1rem; margin-top: 0.5rem; flex-wrap: wrap;">
   ${statusBadge}
   <div style="display: flex; gap: 1rem;">
-    <a href="${escapeHtml(wikiUrl)}" target="_blank" rel="noopener" style="color: #221C46; text-decoration: none; font-size: 0.75rem; font-weight: 600; transition: opacity 0.2s;">Wikipedia →</a>
-    <a href="${escapeHtml(grokUrl)}" target="_blank" rel="noopener" style="color: #221C46; text-decoration: none; font-size: 0.75rem; font-weight: 600; transition: opacity 0.2s;">Grokipedia →</a>
+    <a href="${escapeHtml(sources.reference.url)}" target="_blank" rel="noopener" style="color: #221C46; text-decoration: none; font-size: 0.75rem; font-weight: 600; transition: opacity 0.2s;">${escapeHtml(sources.reference.label)} →</a>
+    <a href="${escapeHtml(sources.candidate.url)}" target="_blank" rel="noopener" style="color: #221C46; text-decoration: none; font-size: 0.75rem; font-weight: 600; transition: opacity 0.2s;">${escapeHtml(sources.candidate.label)} →</a>
   </div>
 </div>`;
 };
@@ -381,7 +401,7 @@ export const renderHtmlReport = (
   },
   notesIndexUpdatedAt: string | null,
 ): string => {
-  const { topic, summary, comparison, discrepancies, meta } = analysis;
+  const { topic, summary, comparison, discrepancies, meta, sources } = analysis;
   const totalSentences = summary.sentences_reviewed;
 
   const hasSimilarContent =
@@ -487,12 +507,12 @@ export const renderHtmlReport = (
   </div>
   <div class="metadata-grid-new">
     <div class="meta-box">
-      <div class="meta-label">Wikipedia</div>
+      <div class="meta-label">${escapeHtml(sources.reference.label)}</div>
       <div class="meta-value">${meta.analysis_window.wiki_analyzed_chars.toLocaleString()}</div>
       <div class="meta-unit">chars analyzed</div>
     </div>
     <div class="meta-box">
-      <div class="meta-label">Grokipedia</div>
+      <div class="meta-label">${escapeHtml(sources.candidate.label)}</div>
       <div class="meta-value">${meta.analysis_window.grok_analyzed_chars.toLocaleString()}</div>
       <div class="meta-unit">chars analyzed</div>
     </div>
@@ -532,20 +552,20 @@ export const renderHtmlReport = (
     'summary.headline_html': summary.headline.includes('<span')
       ? summary.headline
       : escapeHtml(summary.headline),
-    'topic.urls.wikipedia': escapeHtml(topic.urls.wikipedia),
-    'topic.urls.grokipedia': escapeHtml(topic.urls.grokipedia),
+    'topic.urls.reference': escapeHtml(topic.urls.reference),
+    'topic.urls.candidate': escapeHtml(topic.urls.candidate),
     statsCards,
     confidenceMeter,
     versionBox: versionWithDiff,
     noteInfoLogo: renderNoteInfoLogo(notePayload),
-    noteInfo: renderNoteInfo(notePayload, topic.urls.wikipedia, topic.urls.grokipedia),
+    noteInfo: renderNoteInfo(notePayload, sources),
     missingSentences: renderList(
-      `Missing Sentences (${summary.missing_sentence_count} from Wikipedia)`,
+      `Missing Sentences (${summary.missing_sentence_count} from ${sources.reference.label})`,
       comparison.sentences.missing,
       'modal-missing-sentences',
     ),
     extraSentences: renderList(
-      `Extra Sentences (${summary.extra_sentence_count} in Grokipedia)`,
+      `Extra Sentences (${summary.extra_sentence_count} in ${sources.candidate.label})`,
       comparison.sentences.extra,
       'modal-extra-sentences',
     ),
@@ -554,12 +574,14 @@ export const renderHtmlReport = (
       'Core Discrepancies',
       discrepancies.primary,
       'modal-core-discrepancies',
+      sources,
     ),
     biasPanel: renderBiasPanel(analysis),
     hallucinationCues: renderDiscrepancyList(
       'Hallucination Flags',
       discrepancies.hallucinations,
       'modal-hallucinations',
+      sources,
     ),
     verifications: renderVerifications(analysis),
     metadataCard,
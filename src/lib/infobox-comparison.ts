@@ -0,0 +1,212 @@
+/**
+ * @file src/lib/infobox-comparison.ts
+ * @description Checks reference infobox fields against the candidate article. Each field with a
+ *              date or a number is compared with the candidate infobox field of the same name when
+ *              one exists, then with candidate claims that mention the field. Values are compared
+ *              with the same temporal and unit-aware numeric checks used for aligned claims.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type {
+  StructuredArticle,
+  StructuredClaim,
+  StructuredInfoboxField,
+} from '../parsers/shared/types';
+import { DEFAULT_SOURCE_LABELS } from '../shared/analyzer-config';
+import type { ClaimAlignmentRecord } from './alignment';
+import type { DiscrepancyRecord, SourceLabels } from './analyzer';
+import {
+  detectNumericDiscrepancies,
+  detectTemporalDiscrepancies,
+  numericRole,
+  type NumericTolerances,
+} from './discrepancies';
+
+export type InfoboxFieldStatus = 'consistent' | 'mismatch' | 'not_found';
+
+export interface InfoboxFieldComparison {
+  field: string;
+  label: string;
+  reference_value: string;
+  status: InfoboxFieldStatus;
+  /** Candidate text the field was checked against (infobox value or claim sentence). */
+  candidate_value?: string;
+  /** Claim id of the candidate evidence; `infobox:<field>` for a candidate infobox field. */
+  candidate_claim_id?: string;
+  description?: string;
+}
+
+export interface InfoboxComparisonOptions {
+  tolerances?: NumericTolerances;
+  /** Names of the compared sources, used in descriptions. */
+  labels?: SourceLabels;
+}
+
+export interface InfoboxComparisonResult {
+  comparisons: InfoboxFieldComparison[];
+  events: DiscrepancyRecord[];
+}
+
+/** Words a claim typically uses for an infobox parameter (`birth_date` → "born"). */
+const FIELD_KEYWORDS: Record<string, string[]> = {
+  birth: ['born', 'birth'],
+  born: ['born', 'birth'],
+  death: ['died', 'death'],
+  died: ['died', 'death'],
+  founded: ['founded', 'established', 'formed'],
+  established: ['established', 'founded', 'formed'],
+  formation: ['formed', 'founded', 'established'],
+  opened: ['opened', 'opening'],
+  released: ['released', 'release'],
+  population: ['population', 'inhabitants', 'residents'],
+  pop: ['population', 'inhabitants', 'residents'],
+  elevation: ['elevation', 'altitude'],
+  height: ['height', 'tall'],
+};
+
+const GENERIC_TOKENS = new Set([
+  'date',
+  'total',
+  'place',
+  'mean',
+  'est',
+  'official',
+  'the',
+  'and',
+  'year',
+  'value',
+]);
+
+const TEMPORAL_FIELD =
+  /(date|born|birth|died|death|founded|established|formation|opened|released|year|start|end)/;
+
+type ValueKind = 'date' | 'number';
+
+interface CandidateVerdict {
+  kind: ValueKind;
+  description: string | null;
+}
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const fieldKeywords = (key: string): RegExp[] =>
+  key
+    .split('_')
+    .filter((token) => token.length > 2 && !/\d/.test(token) && !GENERIC_TOKENS.has(token))
+    .flatMap((token) => FIELD_KEYWORDS[token] ?? [token])
+    .map((keyword) => new RegExp(`\\b${escapeRegex(keyword)}`, 'i'));
+
+const fieldKind = (field: StructuredInfoboxField): ValueKind | null => {
+  const hasQuantity = field.numbers.some((number) => numericRole(number) !== 'date');
+  if (field.temporal.length && (TEMPORAL_FIELD.test(field.key) || !hasQuantity)) return 'date';
+  return hasQuantity ? 'number' : null;
+};
+
+const asClaim = (
+  claimId: string,
+  text: string,
+  source: Pick<StructuredClaim, 'numbers' | 'temporal'>,
+): StructuredClaim => ({
+  claim_id: claimId,
+  text,
+  normalized_text: text.toLowerCase(),
+  entities: [],
+  time: null,
+  temporal: source.temporal,
+  numbers: source.numbers,
+  citation_ids: [],
+});
+
+/**
+ * Compares a field with one candidate. Returns null when the candidate carries no
+ * value of the field's kind, so it can neither confirm nor contradict the field.
+ */
+const compareCandidate = (
+  kind: ValueKind,
+  field: StructuredClaim,
+  candidate: StructuredClaim,
+  tolerances: NumericTolerances | undefined,
+): CandidateVerdict | null => {
+  const alignment: ClaimAlignmentRecord[] = [
+    { reference: field, candidate, similarity: 1, method: null },
+  ];
+  if (kind === 'date') {
+    if (!(candidate.temporal ?? []).length) return null;
+    const [mismatch] = detectTemporalDiscrepancies(alignment);
+    return { kind, description: mismatch?.description ?? null };
+  }
+  const roles = new Set(field.numbers.map(numericRole).filter((role) => role !== 'date'));
+  if (!candidate.numbers.some((number) => roles.has(numericRole(number)))) return null;
+  const [mismatch] = detectNumericDiscrepancies(alignment, { tolerances });
+  return { kind, description: mismatch?.description ?? null };
+};
+
+/**
+ * Checks every dated or numeric reference infobox field. A field is consistent when any
+ * comparable candidate agrees with it, a mismatch when comparable candidates exist but none
+ * agree, and `not_found` when the candidate article has nothing to compare.
+ */
+export const compareInfobox = (
+  wiki: StructuredArticle,
+  grok: StructuredArticle,
+  options: InfoboxComparisonOptions = {},
+): InfoboxComparisonResult => {
+  const labels = options.labels ?? DEFAULT_SOURCE_LABELS;
+  const comparisons: InfoboxFieldComparison[] = [];
+  const events: DiscrepancyRecord[] = [];
+  const grokFields = new Map((grok.infobox?.fields ?? []).map((field) => [field.key, field]));
+
+  for (const field of wiki.infobox?.fields ?? []) {
+    const kind = fieldKind(field);
+    if (!kind) continue;
+    const fieldClaim = asClaim(`infobox:${field.key}`, `${field.label}: ${field.value}`, field);
+    const keywords = fieldKeywords(field.key);
+    const grokField = grokFields.get(field.key);
+    const candidates: StructuredClaim[] = [
+      ...(grokField ? [asClaim(`infobox:${grokField.key}`, grokField.value, grokField)] : []),
+      ...(keywords.length
+        ? grok.claims.filter((claim) => keywords.some((keyword) => keyword.test(claim.text)))
+        : []),
+    ];
+
+    const verdicts = candidates
+      .map((candidate) => ({
+        candidate,
+        verdict: compareCandidate(kind, fieldClaim, candidate, options.tolerances),
+      }))
+      .filter(
+        (entry): entry is { candidate: StructuredClaim; verdict: CandidateVerdict } =>
+          entry.verdict !== null,
+      );
+    const base = { field: field.key, label: field.label, reference_value: field.value };
+    if (!verdicts.length) {
+      comparisons.push({ ...base, status: 'not_found' });
+      continue;
+    }
+    const agreeing = verdicts.find((entry) => entry.verdict.description === null);
+    const chosen = agreeing ?? verdicts[0];
+    const comparison: InfoboxFieldComparison = {
+      ...base,
+      status: agreeing ? 'consistent' : 'mismatch',
+      candidate_value: chosen.candidate.text,
+      candidate_claim_id: chosen.candidate.claim_id,
+      ...(agreeing ? {} : { description: chosen.verdict.description ?? undefined }),
+    };
+    comparisons.push(comparison);
+    if (agreeing) continue;
+    events.push({
+      type: 'infobox_mismatch',
+      description: `Infobox field "${field.label}" disagrees with ${labels.candidate}: ${chosen.verdict.description}`,
+      evidence: {
+        reference: `${field.label}: ${field.value}`,
+        candidate: chosen.candidate.text,
+        candidate_claim_id: chosen.candidate.claim_id,
+        infobox_field: field.key,
+      },
+      severity: 4,
+      category: 'factual',
+      tags: ['infobox', kind === 'date' ? 'date_mismatch' : 'numeric_mismatch'],
+    });
+  }
+  return { comparisons, events };
+};
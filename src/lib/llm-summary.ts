@@ -0,0 +1,76 @@
+/**
+ * @file src/lib/llm-summary.ts
+ * @description Asks the configured LLM provider for a high-level comparison summary.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { createPromptFence, type LlmProvider } from '../llm';
+import { DEFAULT_SOURCE_LABELS } from '../shared/analyzer-config';
+import type { SourceLabels } from './analyzer';
+
+export interface ComparisonSummaryRecord {
+  provider: string;
+  model: string;
+  text: string;
+  generated_at: string;
+  raw?: unknown;
+}
+
+interface ComparisonSummaryOptions {
+  provider: LlmProvider;
+  wikiText: string;
+  grokText: string;
+  /** Names of the compared sources; Wikipedia and Grokipedia by default. */
+  labels?: SourceLabels;
+  maxChars?: number;
+}
+
+const trimContext = (value: string, limit: number): string =>
+  value.length > limit ? `${value.slice(0, limit)}…` : value;
+
+const buildSummaryPrompt = (wikiText: string, grokText: string, labels: SourceLabels): string => {
+  const instructions = [
+    'You compare two encyclopedia entries about the same topic.',
+    `Reference article: ${labels.reference} (considered the baseline).`,
+    `Candidate article: ${labels.candidate} (may add/remove/alter claims).`,
+    'Summarize the most important differences in 3-5 concise bullet points:',
+    '- missing factual context',
+    '- added or speculative claims',
+    '- tone or bias shifts',
+    '- citation or structural gaps.',
+    'Avoid quoting raw markdown headers. Focus on human-readable insights.',
+  ].join('\n');
+  const fence = createPromptFence(wikiText, grokText);
+  return [
+    instructions,
+    fence.notice,
+    '',
+    `${labels.reference} article:`,
+    fence.wrap('reference', wikiText),
+    '',
+    `${labels.candidate} article:`,
+    fence.wrap('candidate', grokText),
+    '',
+    'Bullet summary:',
+  ].join('\n');
+};
+
+export const generateComparisonSummary = async ({
+  provider,
+  wikiText,
+  grokText,
+  labels = DEFAULT_SOURCE_LABELS,
+  maxChars = 3200,
+}: ComparisonSummaryOptions): Promise<ComparisonSummaryRecord> => {
+  const trimmedWiki = trimContext(wikiText, maxChars);
+  const trimmedGrok = trimContext(grokText, maxChars);
+  const prompt = buildSummaryPrompt(trimmedWiki, trimmedGrok, labels);
+  const response = await provider.complete({ prompt, temperature: 0.2 });
+  return {
+    provider: provider.id,
+    model: response.model,
+    text: response.text,
+    generated_at: new Date().toISOString(),
+    raw: response.raw,
+  };
+};
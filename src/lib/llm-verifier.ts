@@ -0,0 +1,623 @@
+/**
+ * @file src/lib/llm-verifier.ts
+ * @description Context-aware LLM verification of detected discrepancies. Each event is paired
+ *              with the passages that matter for it on both sides (its own sentence and
+ *              neighbours, plus the most similar sentences of the other article, favouring aligned
+ *              sections) and the citations behind them. Events are packed into batches that fit a
+ *              token budget, every reply is schema-checked (see `completeStructured`), and the
+ *              verdicts are attached to the `DiscrepancyRecord`s before adjusting their severity
+ *              and the document confidence.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import stringSimilarity from 'string-similarity';
+import { z } from 'zod';
+import {
+  completeStructured,
+  createPromptFence,
+  extractJson,
+  LlmResponseError,
+  type LlmProvider,
+} from '../llm';
+import type {
+  StructuredArticle,
+  StructuredParagraph,
+  StructuredReference,
+} from '../parsers/shared/types';
+import {
+  type AnalysisPayload,
+  type BiasVerificationRecord,
+  type ComparisonSide,
+  type DiscrepancyRecord,
+  type DiscrepancyType,
+  type DiscrepancyVerification,
+  type LlmVerificationSummary,
+  type SourceLabels,
+  sourceLabels,
+} from './analyzer';
+
+/** Types judged from sentence-level evidence; structural and citation events are skipped. */
+export const LLM_VERIFIABLE_TYPES: DiscrepancyType[] = [
+  'bias_shift',
+  'hallucination',
+  'factual_error',
+  'missing_context',
+  'added_claim',
+  'reworded_claim',
+  'contradiction',
+  'temporal_discrepancy',
+];
+
+const DEFAULT_TOKEN_BUDGET = 3000;
+const DEFAULT_MAX_EVENTS_PER_BATCH = 8;
+const DEFAULT_PASSAGES_PER_SIDE = 3;
+const MAX_RATIONALE_CHARS = 600;
+const MAX_PASSAGE_CHARS = 400;
+/** Score bonus for passages in the section aligned with the event's own section. */
+const ALIGNED_SECTION_BONUS = 0.15;
+const MIN_RELATED_SCORE = 0.1;
+
+/**
+ * Per-event weights of the document confidence penalties in `classifyDocument`; a confirmed
+ * event doubles its penalty and a rejected one lifts it.
+ */
+const CONFIDENCE_WEIGHTS: Partial<Record<DiscrepancyType, number>> = {
+  factual_error: 0.03,
+  contradiction: 0.03,
+  temporal_discrepancy: 0.03,
+  hallucination: 0.025,
+  bias_shift: 0.01,
+};
+
+const SIDES: ComparisonSide[] = ['reference', 'candidate'];
+
+const clamp = (value: number): number => Math.max(0, Math.min(1, value));
+
+const VerdictEntrySchema = z.object({
+  index: z.number().int().nonnegative(),
+  verdict: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(['confirm', 'reject', 'uncertain']),
+  ),
+  confidence: z
+    .number()
+    .nullish()
+    .transform((value) => (typeof value === 'number' ? Number(clamp(value).toFixed(2)) : null)),
+  rationale: z
+    .string()
+    .optional()
+    .transform((value) => value?.trim().slice(0, MAX_RATIONALE_CHARS)),
+});
+
+type VerdictEntry = z.infer<typeof VerdictEntrySchema>;
+
+/** `{"verdicts": [...]}`; a bare array is accepted because many models drop the wrapper. */
+export const VerdictResponseSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { verdicts: value } : value),
+  z.object({ verdicts: z.array(VerdictEntrySchema) }),
+);
+
+const systemPrompt = (labels: SourceLabels): string =>
+  [
+    `You check discrepancies that an automated comparison found between a ${labels.reference}`,
+    `article (the reference) and a ${labels.candidate} article (the candidate). For each numbered`,
+    'event, use its evidence, the passages from both articles, and their citations to decide',
+    `whether the discrepancy is real. Answer "confirm" when the ${labels.candidate} article omits,`,
+    `adds, distorts, or contradicts what the ${labels.reference} passages support, or frames it`,
+    'with biased wording; "reject" when the passages show a false alarm (same meaning, covered',
+    'elsewhere, or a harmless rewording); and "uncertain" when the passages are not enough to',
+    'decide.',
+    'Respond with JSON only, shaped like',
+    '{"verdicts":[{"index":0,"verdict":"confirm","confidence":0.8,"rationale":"Why"}]},',
+    'with one entry per event index, a confidence between 0 and 1, and a one-sentence rationale.',
+  ].join(' ');
+
+interface IndexedSentence {
+  side: ComparisonSide;
+  sentenceId: string;
+  sectionId: string;
+  heading: string;
+  text: string;
+  normalized: string;
+  tokens: Set<string>;
+  citationIds: string[];
+  claimIds: string[];
+  /** Position in reading order, used to find neighbours. */
+  order: number;
+  paragraphKey: string;
+}
+
+interface ArticleIndex {
+  side: ComparisonSide;
+  /** Name of the compared source, used in the prompt. */
+  label: string;
+  sentences: IndexedSentence[];
+  references: Map<string, StructuredReference>;
+}
+
+interface ContextPassage {
+  sentence: IndexedSentence;
+  score: number;
+}
+
+interface EventContext {
+  records: DiscrepancyRecord[];
+  event: DiscrepancyRecord;
+  passages: Record<ComparisonSide, ContextPassage[]>;
+}
+
+export interface VerifyDiscrepanciesOptions {
+  provider: LlmProvider;
+  /** Discrepancy types to verify. Defaults to {@link LLM_VERIFIABLE_TYPES}. */
+  types?: DiscrepancyType[];
+  /** Estimated prompt tokens per batch (about four characters per token). */
+  tokenBudget?: number;
+  maxEventsPerBatch?: number;
+  /** Passages retrieved from each article per event, besides the event's own sentence. */
+  passagesPerSide?: number;
+  /** Requests per batch including schema repairs. */
+  maxAttempts?: number;
+}
+
+const normalize = (value: string): string => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const flatten = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+const contentTokens = (text: string): Set<string> =>
+  new Set(
+    normalize(text)
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length > 2),
+  );
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const indexArticle = (
+  side: ComparisonSide,
+  label: string,
+  article: StructuredArticle,
+): ArticleIndex => {
+  const sentences: IndexedSentence[] = [];
+  const register = (paragraphs: StructuredParagraph[], sectionId: string, heading: string) => {
+    paragraphs.forEach((paragraph) => {
+      paragraph.sentences.forEach((sentence) => {
+        sentences.push({
+          side,
+          sentenceId: sentence.sentence_id,
+          sectionId,
+          heading,
+          text: sentence.text,
+          normalized: normalize(sentence.text),
+          tokens: contentTokens(sentence.text),
+          citationIds: sentence.citation_ids ?? [],
+          claimIds: sentence.claim_ids ?? [],
+          order: sentences.length,
+          paragraphKey: `${sectionId}/${paragraph.para_id}`,
+        });
+      });
+    });
+  };
+  register(article.lead?.paragraphs ?? [], 'lead', 'Lead');
+  article.sections.forEach((section) =>
+    register(section.paragraphs, section.section_id, section.heading),
+  );
+  return {
+    side,
+    label,
+    sentences,
+    references: new Map(article.references.map((reference) => [reference.citation_id, reference])),
+  };
+};
+
+/** Token recall of `query` in the sentence, blended with character-level similarity. */
+const scoreSentence = (query: string, queryTokens: Set<string>, sentence: IndexedSentence) => {
+  if (!queryTokens.size) return 0;
+  let shared = 0;
+  queryTokens.forEach((token) => {
+    if (sentence.tokens.has(token)) shared += 1;
+  });
+  const recall = shared / queryTokens.size;
+  return (
+    0.7 * recall + 0.3 * stringSimilarity.compareTwoStrings(normalize(query), sentence.normalized)
+  );
+};
+
+/** Finds the sentence an event quotes: by claim id first, then verbatim, then by similarity. */
+const findAnchor = (
+  index: ArticleIndex,
+  text: string | undefined,
+  claimId: string | undefined,
+): IndexedSentence | null => {
+  if (claimId) {
+    const byClaim = index.sentences.find((sentence) => sentence.claimIds.includes(claimId));
+    if (byClaim) return byClaim;
+  }
+  if (!text) return null;
+  const needle = normalize(text);
+  const verbatim = index.sentences.find(
+    (sentence) => sentence.normalized === needle || sentence.normalized.includes(needle),
+  );
+  if (verbatim) return verbatim;
+  const tokens = contentTokens(text);
+  let best: ContextPassage | null = null;
+  index.sentences.forEach((sentence) => {
+    const score = scoreSentence(text, tokens, sentence);
+    if (!best || score > best.score) best = { sentence, score };
+  });
+  const match = best as ContextPassage | null;
+  return match && match.score >= 0.5 ? match.sentence : null;
+};
+
+const neighbours = (index: ArticleIndex, anchor: IndexedSentence): IndexedSentence[] =>
+  [index.sentences[anchor.order - 1], anchor, index.sentences[anchor.order + 1]].filter(
+    (sentence): sentence is IndexedSentence =>
+      Boolean(sentence) && sentence.paragraphKey === anchor.paragraphKey,
+  );
+
+/** Maps each section id to the section aligned with it on the other side. */
+const alignedSections = (analysis: AnalysisPayload): Map<string, string> => {
+  const map = new Map<string, string>([
+    ['reference:lead', 'lead'],
+    ['candidate:lead', 'lead'],
+  ]);
+  (analysis.section_alignment ?? []).forEach((record) => {
+    if (record.reference && record.candidate) {
+      map.set(`reference:${record.reference.section_id}`, record.candidate.section_id);
+      map.set(`candidate:${record.candidate.section_id}`, record.reference.section_id);
+    }
+  });
+  return map;
+};
+
+const otherSide = (side: ComparisonSide): ComparisonSide =>
+  side === 'reference' ? 'candidate' : 'reference';
+
+const evidenceFor = (event: DiscrepancyRecord, side: ComparisonSide): string | undefined =>
+  event.evidence[side];
+
+const claimIdFor = (event: DiscrepancyRecord, side: ComparisonSide): string | undefined =>
+  event.evidence[`${side}_claim_id`];
+
+const buildContext = (
+  records: DiscrepancyRecord[],
+  indexes: Record<ComparisonSide, ArticleIndex>,
+  sections: Map<string, string>,
+  passagesPerSide: number,
+): EventContext => {
+  const [event] = records;
+  const anchors = Object.fromEntries(
+    SIDES.map((side) => [
+      side,
+      findAnchor(indexes[side], evidenceFor(event, side), claimIdFor(event, side)),
+    ]),
+  ) as Record<ComparisonSide, IndexedSentence | null>;
+  const passages = Object.fromEntries(
+    SIDES.map((side) => {
+      const anchor = anchors[side];
+      const other = anchors[otherSide(side)];
+      const own: ContextPassage[] = anchor
+        ? neighbours(indexes[side], anchor).map((sentence) => ({ sentence, score: 1 }))
+        : [];
+      const query = [other?.text ?? evidenceFor(event, otherSide(side)), evidenceFor(event, side)]
+        .filter(Boolean)
+        .join(' ');
+      const queryTokens = contentTokens(query);
+      const alignedSection = other ? sections.get(`${other.side}:${other.sectionId}`) : undefined;
+      const seen = new Set(own.map((passage) => passage.sentence.sentenceId));
+      const related = indexes[side].sentences
+        .filter((sentence) => !seen.has(sentence.sentenceId))
+        .map((sentence) => ({
+          sentence,
+          score:
+            scoreSentence(query, queryTokens, sentence) +
+            (alignedSection && sentence.sectionId === alignedSection ? ALIGNED_SECTION_BONUS : 0),
+        }))
+        .filter((passage) => passage.score >= MIN_RELATED_SCORE)
+        .sort(
+          (left, right) => right.score - left.score || left.sentence.order - right.sentence.order,
+        )
+        .slice(0, passagesPerSide);
+      return [side, [...own, ...related]];
+    }),
+  ) as Record<ComparisonSide, ContextPassage[]>;
+  return { records, event, passages };
+};
+
+const describeCitations = (index: ArticleIndex, sentence: IndexedSentence): string => {
+  const cited = sentence.citationIds
+    .map((id) => index.references.get(id))
+    .filter((reference): reference is StructuredReference => Boolean(reference))
+    .slice(0, 3)
+    .map((reference) => {
+      const title = reference.normalized.title ?? reference.normalized.publisher ?? 'untitled';
+      const url = reference.normalized.url ? ` <${reference.normalized.url}>` : '';
+      return flatten(`${title}${url}`);
+    });
+  return cited.length ? ` (cites: ${cited.join('; ')})` : '';
+};
+
+const renderEvent = (
+  context: EventContext,
+  position: number,
+  indexes: Record<ComparisonSide, ArticleIndex>,
+): string => {
+  const { event } = context;
+  const lines = [`[${position}] ${event.type}: ${flatten(event.description)}`];
+  SIDES.forEach((side) => {
+    const evidence = evidenceFor(event, side);
+    if (evidence) lines.push(`${indexes[side].label} evidence: ${flatten(evidence)}`);
+  });
+  SIDES.forEach((side) => {
+    const passages = context.passages[side];
+    if (!passages.length) return;
+    lines.push(`${indexes[side].label} passages:`);
+    passages.forEach(({ sentence }) => {
+      const text = flatten(sentence.text).slice(0, MAX_PASSAGE_CHARS);
+      lines.push(
+        `- [${flatten(sentence.heading)}] ${text}${describeCitations(indexes[side], sentence)}`,
+      );
+    });
+  });
+  return lines.join('\n');
+};
+
+/** Drops the lowest-ranked retrieved passages until the event fits the budget on its own. */
+const fitToBudget = (
+  context: EventContext,
+  indexes: Record<ComparisonSide, ArticleIndex>,
+  budget: number,
+): EventContext => {
+  let fitted = context;
+  while (estimateTokens(renderEvent(fitted, 0, indexes)) > budget) {
+    const side = SIDES.filter((candidate) => fitted.passages[candidate].length > 0).sort(
+      (left, right) => fitted.passages[right].length - fitted.passages[left].length,
+    )[0];
+    if (!side) break;
+    fitted = {
+      ...fitted,
+      passages: { ...fitted.passages, [side]: fitted.passages[side].slice(0, -1) },
+    };
+  }
+  return fitted;
+};
+
+const packBatches = (
+  contexts: EventContext[],
+  indexes: Record<ComparisonSide, ArticleIndex>,
+  budget: number,
+  maxEvents: number,
+): EventContext[][] => {
+  const batches: EventContext[][] = [];
+  let current: EventContext[] = [];
+  let used = 0;
+  contexts.forEach((context) => {
+    const fitted = fitToBudget(context, indexes, budget);
+    const cost = estimateTokens(renderEvent(fitted, 0, indexes));
+    if (current.length && (used + cost > budget || current.length >= maxEvents)) {
+      batches.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(fitted);
+    used += cost;
+  });
+  if (current.length) batches.push(current);
+  return batches;
+};
+
+const buildPrompt = (
+  batch: EventContext[],
+  indexes: Record<ComparisonSide, ArticleIndex>,
+): string => {
+  const events = batch.map((context, position) => renderEvent(context, position, indexes));
+  const fence = createPromptFence(...events);
+  return [
+    fence.notice,
+    '',
+    `Events (indices 0-${batch.length - 1}):`,
+    fence.wrap('events', events.join('\n\n')),
+    '',
+    `Return one verdict for each index from 0 to ${batch.length - 1} as JSON.`,
+  ].join('\n');
+};
+
+/** Keeps the entries of an unusable reply that still validate on their own. */
+const salvageEntries = (output: string): VerdictEntry[] => {
+  const value = extractJson(output);
+  const list = Array.isArray(value)
+    ? value
+    : Array.isArray((value as { verdicts?: unknown } | undefined)?.verdicts)
+      ? (value as { verdicts: unknown[] }).verdicts
+      : [];
+  return list.flatMap((entry) => {
+    const parsed = VerdictEntrySchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+};
+
+const verifyBatch = async (
+  batch: EventContext[],
+  indexes: Record<ComparisonSide, ArticleIndex>,
+  options: VerifyDiscrepanciesOptions,
+): Promise<Array<Omit<DiscrepancyVerification, 'context'>>> => {
+  const { provider } = options;
+  let entries: VerdictEntry[];
+  let model = provider.model;
+  let fallbackReason = `${provider.id} returned no verdict for this event`;
+  try {
+    const { data, response } = await completeStructured(provider, {
+      system: systemPrompt({
+        reference: indexes.reference.label,
+        candidate: indexes.candidate.label,
+      }),
+      prompt: buildPrompt(batch, indexes),
+      temperature: 0,
+      schema: VerdictResponseSchema,
+      maxAttempts: options.maxAttempts,
+    });
+    entries = data.verdicts;
+    model = response.model;
+  } catch (error) {
+    if (!(error instanceof LlmResponseError)) throw error;
+    entries = salvageEntries(error.output);
+    fallbackReason = `${provider.id} returned malformed JSON after ${error.attempts} attempt(s)`;
+  }
+  const byIndex = new Map<number, VerdictEntry>();
+  entries.forEach((entry) => {
+    if (entry.index < batch.length && !byIndex.has(entry.index)) {
+      byIndex.set(entry.index, entry);
+    }
+  });
+  return batch.map((_context, position) => {
+    const entry = byIndex.get(position);
+    return entry
+      ? {
+          provider: provider.id,
+          model,
+          verdict: entry.verdict,
+          confidence: entry.confidence,
+          rationale: entry.rationale,
+        }
+      : {
+          provider: provider.id,
+          model,
+          verdict: 'uncertain',
+          confidence: null,
+          rationale: `${fallbackReason}; defaulted to uncertain.`,
+        };
+  });
+};
+
+const eventKey = (event: DiscrepancyRecord): string =>
+  JSON.stringify([event.type, event.description, event.evidence]);
+
+/** Every distinct event of the selected types, grouped with its copies in the other lists. */
+const collectEvents = (analysis: AnalysisPayload, types: Set<DiscrepancyType>) => {
+  const groups = new Map<string, DiscrepancyRecord[]>();
+  [
+    analysis.discrepancies,
+    analysis.bias_events,
+    analysis.hallucination_events,
+    analysis.factual_errors,
+    analysis.contradictions ?? [],
+  ].forEach((list) =>
+    (list ?? []).forEach((event) => {
+      if (!types.has(event.type)) return;
+      if (!event.evidence?.reference && !event.evidence?.candidate) return;
+      const key = eventKey(event);
+      const group = groups.get(key) ?? [];
+      if (!group.includes(event)) group.push(event);
+      groups.set(key, group);
+    }),
+  );
+  return Array.from(groups.values());
+};
+
+const adjustSeverity = (event: DiscrepancyRecord, verdict: DiscrepancyVerification['verdict']) => {
+  const base = event.severity ?? 2;
+  if (verdict === 'confirm') event.severity = Math.min(5, base + 1);
+  if (verdict === 'reject') event.severity = Math.max(1, base - 2);
+};
+
+const adjustConfidence = (
+  analysis: AnalysisPayload,
+  summary: LlmVerificationSummary,
+  outcomes: Array<{ type: DiscrepancyType; verdict: DiscrepancyVerification['verdict'] }>,
+) => {
+  let delta = 0;
+  outcomes.forEach(({ type, verdict }) => {
+    const weight = CONFIDENCE_WEIGHTS[type] ?? 0;
+    if (verdict === 'confirm') delta -= weight;
+    if (verdict === 'reject') delta += weight;
+  });
+  if (!summary.confirmed && !summary.rejected) return;
+  analysis.confidence = {
+    ...analysis.confidence,
+    score: Number(clamp(analysis.confidence.score + delta).toFixed(3)),
+    rationale: [
+      ...analysis.confidence.rationale,
+      `LLM verification (${summary.provider}) confirmed ${summary.confirmed} and rejected ${summary.rejected} of ${summary.verified} discrepancies`,
+    ],
+  };
+};
+
+/**
+ * Verifies the discrepancies of `analysis` against both articles, named after the sources in
+ * `meta.sources`, and records the outcome in place: each event gets a `verification`, confirmed events gain severity, rejected events lose
+ * it, and the document confidence moves with the verdicts. Provider and network errors
+ * propagate; malformed replies fall back to `uncertain` per event.
+ */
+export const verifyDiscrepancies = async (
+  analysis: AnalysisPayload,
+  articles: Record<ComparisonSide, StructuredArticle>,
+  options: VerifyDiscrepanciesOptions,
+): Promise<LlmVerificationSummary> => {
+  const types = new Set(options.types ?? LLM_VERIFIABLE_TYPES);
+  const labels = sourceLabels(analysis.meta?.sources);
+  const indexes: Record<ComparisonSide, ArticleIndex> = {
+    reference: indexArticle('reference', labels.reference, articles.reference),
+    candidate: indexArticle('candidate', labels.candidate, articles.candidate),
+  };
+  const sections = alignedSections(analysis);
+  const contexts = collectEvents(analysis, types).map((records) =>
+    buildContext(records, indexes, sections, options.passagesPerSide ?? DEFAULT_PASSAGES_PER_SIDE),
+  );
+  const batches = packBatches(
+    contexts,
+    indexes,
+    options.tokenBudget ?? DEFAULT_TOKEN_BUDGET,
+    options.maxEventsPerBatch ?? DEFAULT_MAX_EVENTS_PER_BATCH,
+  );
+
+  const summary: LlmVerificationSummary = {
+    provider: options.provider.id,
+    model: options.provider.model,
+    types: Array.from(types),
+    batches: batches.length,
+    verified: 0,
+    confirmed: 0,
+    rejected: 0,
+    uncertain: 0,
+  };
+  const outcomes: Array<{ type: DiscrepancyType; verdict: DiscrepancyVerification['verdict'] }> =
+    [];
+  for (const batch of batches) {
+    const verdicts = await verifyBatch(batch, indexes, options);
+    batch.forEach((context, position) => {
+      const verification: DiscrepancyVerification = {
+        ...verdicts[position],
+        context: SIDES.flatMap((side) =>
+          context.passages[side].map(({ sentence }) => `${side}:${sentence.sentenceId}`),
+        ),
+      };
+      context.records.forEach((record) => {
+        record.verification = verification;
+        adjustSeverity(record, verification.verdict);
+      });
+      summary.model = verification.model;
+      summary.verified += 1;
+      if (verification.verdict === 'confirm') summary.confirmed += 1;
+      else if (verification.verdict === 'reject') summary.rejected += 1;
+      else summary.uncertain += 1;
+      outcomes.push({ type: context.event.type, verdict: verification.verdict });
+    });
+  }
+  adjustConfidence(analysis, summary, outcomes);
+  return summary;
+};
+
+/** Legacy `bias_verifications` view: one record per verified entry of `bias_events`. */
+export const biasVerificationRecords = (analysis: AnalysisPayload): BiasVerificationRecord[] =>
+  analysis.bias_events.flatMap((event, index) =>
+    event.verification
+      ? [
+          {
+            provider: event.verification.provider,
+            event_index: index,
+            verdict: event.verification.verdict,
+            confidence: event.verification.confidence,
+            rationale: event.verification.rationale,
+          },
+        ]
+      : [],
+  );
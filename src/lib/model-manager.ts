@@ -0,0 +1,363 @@
+/**
+ * @file src/lib/model-manager.ts
+ * @description Resolves, loads, downloads, and verifies the local transformers.js models behind
+ *              the semantic pipelines (`bias`, `nli`, `summary`, `embedding`). Models are stored
+ *              under `~/.gwaln/models` (`modelCacheDir`) and can be swapped per pipeline through
+ *              `models` in `.gwalnrc.json`, e.g. for quantized or multilingual variants. In offline
+ *              mode (`modelOffline` or `GWALN_OFFLINE=1`) nothing is downloaded and a missing
+ *              model fails immediately with the command that fetches it.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { PipelineType } from '@xenova/transformers';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { readConfig } from '../shared/config';
+import { paths } from '../shared/paths';
+
+export type ModelPipelineId = 'bias' | 'nli' | 'summary' | 'embedding';
+
+/** One entry under `models` in `.gwalnrc.json`. */
+export interface ModelDefinition {
+  /** Hugging Face repository with ONNX weights, e.g. `Xenova/distilbart-cnn-12-6`. */
+  model?: string;
+  /** Load the 8-bit quantized weights (default `true`). */
+  quantized?: boolean;
+  /** Branch, tag, or commit to download (default `main`). */
+  revision?: string;
+}
+
+export interface ModelPipelineSpec {
+  id: ModelPipelineId;
+  task: PipelineType;
+  description: string;
+  model: string;
+  quantized: boolean;
+  revision: string;
+  /** True when `models.<id>` in `.gwalnrc.json` changes the default. */
+  overridden: boolean;
+}
+
+export interface ModelSettings {
+  cacheDir: string;
+  offline: boolean;
+}
+
+export interface ModelFileRecord {
+  path: string;
+  bytes: number;
+  sha256: string;
+}
+
+/** Checksums written by `gwaln models pull` next to the model files. */
+export interface ModelManifest {
+  model: string;
+  revision: string;
+  quantized: boolean;
+  pulled_at: string;
+  files: ModelFileRecord[];
+}
+
+export interface ModelStatus {
+  spec: ModelPipelineSpec;
+  dir: string;
+  cached: boolean;
+  bytes: number;
+  /** A checksum manifest exists, so `gwaln models verify` can check the files. */
+  manifest: boolean;
+}
+
+export type ModelVerificationStatus = 'ok' | 'corrupt' | 'missing' | 'unverified';
+
+export interface ModelVerification {
+  spec: ModelPipelineSpec;
+  dir: string;
+  status: ModelVerificationStatus;
+  /** Manifest files whose checksum changed or that were deleted. */
+  modified: string[];
+  missing: string[];
+  checked: number;
+}
+
+/** Download progress reported by transformers.js (`initiate`, `progress`, `done`, `ready`). */
+export interface ModelProgressEvent {
+  status: string;
+  name?: string;
+  file?: string;
+  progress?: number;
+  loaded?: number;
+  total?: number;
+}
+
+export class ModelUnavailableError extends Error {
+  constructor(
+    message: string,
+    public readonly pipeline: ModelPipelineId,
+    public readonly model: string,
+  ) {
+    super(message);
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+interface PipelineDefaults {
+  task: PipelineType;
+  model: string;
+  description: string;
+}
+
+const PIPELINE_DEFAULTS: Record<ModelPipelineId, PipelineDefaults> = {
+  bias: {
+    task: 'zero-shot-classification',
+    model: 'Xenova/bart-large-mnli',
+    description: 'Semantic bias detection (--semantic-bias)',
+  },
+  nli: {
+    task: 'zero-shot-classification',
+    model: 'Xenova/bart-large-mnli',
+    description: 'Claim contradiction detection (--nli)',
+  },
+  summary: {
+    task: 'summarization',
+    model: 'Xenova/distilbart-cnn-6-6',
+    description: 'Community Note summaries (notes build)',
+  },
+  embedding: {
+    task: 'feature-extraction',
+    model: 'Xenova/all-MiniLM-L6-v2',
+    description: 'Paraphrase alignment (--semantic-align)',
+  },
+};
+
+export const MODEL_PIPELINES = Object.keys(PIPELINE_DEFAULTS) as ModelPipelineId[];
+
+const MANIFEST_FILE = '.gwaln-manifest.json';
+
+const instances = new Map<string, Promise<unknown>>();
+
+export const isModelPipelineId = (value: string): value is ModelPipelineId =>
+  MODEL_PIPELINES.includes(value as ModelPipelineId);
+
+const expandHome = (value: string): string =>
+  value === '~' || value.startsWith('~/') ? path.join(os.homedir(), value.slice(1)) : value;
+
+const isTruthy = (value: string | undefined): boolean =>
+  value !== undefined &&
+  value.trim() !== '' &&
+  !['0', 'false', 'no', 'off'].includes(value.trim().toLowerCase());
+
+export const resolveModelSettings = (): ModelSettings => {
+  const cfg = readConfig();
+  return {
+    cacheDir: path.resolve(expandHome(cfg.modelCacheDir ?? paths.MODELS_DIR)),
+    offline: isTruthy(process.env.GWALN_OFFLINE) || cfg.modelOffline === true,
+  };
+};
+
+/** Applies `models.<id>` from `.gwalnrc.json` over the built-in model of the pipeline. */
+export const resolveModelPipeline = (id: ModelPipelineId): ModelPipelineSpec => {
+  const defaults = PIPELINE_DEFAULTS[id];
+  const override: ModelDefinition = readConfig().models?.[id] ?? {};
+  const model = override.model?.trim() || defaults.model;
+  const quantized = override.quantized ?? true;
+  const revision = override.revision?.trim() || 'main';
+  return {
+    id,
+    task: defaults.task,
+    description: defaults.description,
+    model,
+    quantized,
+    revision,
+    overridden: model !== defaults.model || !quantized || revision !== 'main',
+  };
+};
+
+/** Directory transformers.js stores the model in; revisions other than `main` get a subfolder. */
+export const modelDirectory = (
+  spec: ModelPipelineSpec,
+  settings: ModelSettings = resolveModelSettings(),
+): string =>
+  spec.revision === 'main'
+    ? path.join(settings.cacheDir, spec.model)
+    : path.join(settings.cacheDir, spec.model, spec.revision);
+
+const listFiles = (dir: string, prefix = ''): string[] => {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) => {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) return listFiles(path.join(dir, entry.name), relative);
+      return entry.name === MANIFEST_FILE ? [] : [relative];
+    })
+    .sort();
+};
+
+/** The model config plus ONNX weights matching the quantization setting are on disk. */
+export const isModelCached = (
+  spec: ModelPipelineSpec,
+  settings: ModelSettings = resolveModelSettings(),
+): boolean => {
+  const dir = modelDirectory(spec, settings);
+  if (!fs.existsSync(path.join(dir, 'config.json'))) return false;
+  return listFiles(path.join(dir, 'onnx'), 'onnx').some(
+    (file) => file.endsWith('.onnx') && file.endsWith('_quantized.onnx') === spec.quantized,
+  );
+};
+
+const offlineError = (spec: ModelPipelineSpec, settings: ModelSettings): ModelUnavailableError =>
+  new ModelUnavailableError(
+    `Model ${spec.model} for the ${spec.id} pipeline is not in ${settings.cacheDir} and offline mode is on. ` +
+      `Run \`gwaln models pull ${spec.id}\` on a machine with network access and copy ${settings.cacheDir} over, ` +
+      'or turn off `modelOffline` / `GWALN_OFFLINE`.',
+    spec.id,
+    spec.model,
+  );
+
+const createPipeline = async (
+  spec: ModelPipelineSpec,
+  settings: ModelSettings,
+  onProgress?: (event: ModelProgressEvent) => void,
+): Promise<unknown> => {
+  const { pipeline } = await import('@xenova/transformers');
+  return pipeline(spec.task, spec.model, {
+    quantized: spec.quantized,
+    revision: spec.revision,
+    cache_dir: settings.cacheDir,
+    local_files_only: settings.offline,
+    ...(onProgress ? { progress_callback: onProgress } : {}),
+  });
+};
+
+/**
+ * Loads the pipeline `id` with its configured model. Pipelines resolving to the same task and
+ * model share one instance (`bias` and `nli` by default). In offline mode a model missing from
+ * the cache fails before transformers.js is imported.
+ */
+export const loadModelPipeline = async <T>(id: ModelPipelineId): Promise<T> => {
+  const spec = resolveModelPipeline(id);
+  const settings = resolveModelSettings();
+  if (settings.offline && !isModelCached(spec, settings)) {
+    throw offlineError(spec, settings);
+  }
+  const key = JSON.stringify([spec.task, spec.model, spec.quantized, spec.revision, settings]);
+  let instance = instances.get(key);
+  if (!instance) {
+    instance = createPipeline(spec, settings);
+    instances.set(key, instance);
+    instance.catch(() => instances.delete(key));
+  }
+  return instance as Promise<T>;
+};
+
+const hashFile = (file: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(file)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+
+const readManifest = (dir: string): ModelManifest | null => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, MANIFEST_FILE), 'utf8')) as ModelManifest;
+  } catch {
+    return null;
+  }
+};
+
+/** Records the size and SHA-256 of every file of the model for `gwaln models verify`. */
+export const writeModelManifest = async (
+  spec: ModelPipelineSpec,
+  settings: ModelSettings = resolveModelSettings(),
+): Promise<ModelManifest> => {
+  const dir = modelDirectory(spec, settings);
+  const files: ModelFileRecord[] = [];
+  for (const file of listFiles(dir)) {
+    const absolute = path.join(dir, file);
+    files.push({ path: file, bytes: fs.statSync(absolute).size, sha256: await hashFile(absolute) });
+  }
+  const manifest: ModelManifest = {
+    model: spec.model,
+    revision: spec.revision,
+    quantized: spec.quantized,
+    pulled_at: new Date().toISOString(),
+    files,
+  };
+  fs.writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf8');
+  return manifest;
+};
+
+/** Downloads the model of pipeline `id` into the model cache and writes its manifest. */
+export const pullModel = async (
+  id: ModelPipelineId,
+  onProgress?: (event: ModelProgressEvent) => void,
+): Promise<{ spec: ModelPipelineSpec; dir: string; manifest: ModelManifest }> => {
+  const spec = resolveModelPipeline(id);
+  const settings = resolveModelSettings();
+  if (settings.offline) {
+    throw new ModelUnavailableError(
+      `Cannot download ${spec.model} in offline mode. Turn off \`modelOffline\` / \`GWALN_OFFLINE\` to run \`gwaln models pull\`.`,
+      id,
+      spec.model,
+    );
+  }
+  paths.ensureDir(settings.cacheDir);
+  await createPipeline(spec, settings, onProgress);
+  const manifest = await writeModelManifest(spec, settings);
+  return { spec, dir: modelDirectory(spec, settings), manifest };
+};
+
+/** Rehashes the files listed in the model's manifest. */
+export const verifyModel = async (id: ModelPipelineId): Promise<ModelVerification> => {
+  const spec = resolveModelPipeline(id);
+  const settings = resolveModelSettings();
+  const dir = modelDirectory(spec, settings);
+  const result: ModelVerification = {
+    spec,
+    dir,
+    status: 'ok',
+    modified: [],
+    missing: [],
+    checked: 0,
+  };
+  const manifest = readManifest(dir);
+  if (!manifest) {
+    result.status = isModelCached(spec, settings) ? 'unverified' : 'missing';
+    return result;
+  }
+  for (const entry of manifest.files) {
+    const absolute = path.join(dir, entry.path);
+    if (!fs.existsSync(absolute)) {
+      result.missing.push(entry.path);
+      continue;
+    }
+    result.checked += 1;
+    if (fs.statSync(absolute).size !== entry.bytes || (await hashFile(absolute)) !== entry.sha256) {
+      result.modified.push(entry.path);
+    }
+  }
+  if (result.modified.length || result.missing.length) result.status = 'corrupt';
+  return result;
+};
+
+export const listModels = (): ModelStatus[] => {
+  const settings = resolveModelSettings();
+  return MODEL_PIPELINES.map((id) => {
+    const spec = resolveModelPipeline(id);
+    const dir = modelDirectory(spec, settings);
+    return {
+      spec,
+      dir,
+      cached: isModelCached(spec, settings),
+      bytes: listFiles(dir).reduce(
+        (total, file) => total + fs.statSync(path.join(dir, file)).size,
+        0,
+      ),
+      manifest: readManifest(dir) !== null,
+    };
+  });
+};
@@ -0,0 +1,46 @@
+/**
+ * @file src/lib/nli-detector.ts
+ * @description Natural-language inference over claim pairs. The `nli` pipeline defaults to the
+ *              MNLI model already loaded for semantic bias detection (`Xenova/bart-large-mnli`)
+ *              and can be swapped under `models.nli` in `.gwalnrc.json`. Runs the sequence-pair
+ *              classifier directly so entailment, neutral, and contradiction are all scored.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { ZeroShotClassificationPipeline } from '@xenova/transformers';
+import type { NliScores } from './contradictions';
+import { loadModelPipeline } from './model-manager';
+
+const softmax = (values: number[]): number[] => {
+  const max = Math.max(...values);
+  const exps = values.map((value) => Math.exp(value - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map((value) => value / total);
+};
+
+/**
+ * Scores whether `premise` entails, is neutral towards, or contradicts `hypothesis`.
+ */
+export async function classifyEntailment(premise: string, hypothesis: string): Promise<NliScores> {
+  const classifier = await loadModelPipeline<ZeroShotClassificationPipeline>('nli');
+  const inputs = await classifier.tokenizer(premise, {
+    text_pair: hypothesis,
+    padding: true,
+    truncation: true,
+  });
+  const { logits } = await classifier.model(inputs);
+  const probabilities = softmax(Array.from(logits.data as Float32Array));
+  const id2label = (classifier.model.config as { id2label?: Record<string, string> }).id2label ?? {
+    0: 'contradiction',
+    1: 'neutral',
+    2: 'entailment',
+  };
+  const scores: NliScores = { entailment: 0, neutral: 0, contradiction: 0 };
+  probabilities.forEach((probability, idx) => {
+    const label = id2label[idx]?.toLowerCase() as keyof NliScores | undefined;
+    if (label && label in scores) {
+      scores[label] = probability;
+    }
+  });
+  return scores;
+}
@@ -5,8 +5,14 @@
  */
 
 import type { Topic } from '../shared/topics';
-import { topicUrls } from '../shared/topics';
-import type { DiscrepancyRecord } from './analyzer';
+import { topicLang } from '../shared/topics';
+import {
+  type ComparisonSide,
+  type DiscrepancyRecord,
+  type SourceLabels,
+  sourceLabels,
+} from './analyzer';
+import { isModelCached, resolveModelPipeline } from './model-manager';
 import type { StructuredAnalysisReport } from './structured-report';
 import { generateSummary } from './summary-generator';
 
@@ -33,7 +39,11 @@ const snip = (value: string, limit = 240): string =>
 
 const NOTE_CONTEXT: string[] = ['https://schema.org', 'https://www.w3.org/ns/anno.jsonld'];
 
-const buildAnalysisText = (analysis: StructuredAnalysisReport, topic: Topic): string => {
+const buildAnalysisText = (
+  analysis: StructuredAnalysisReport,
+  topic: Topic,
+  labels: SourceLabels,
+): string => {
   const parts: string[] = [];
 
   parts.push(`Comparison analysis for ${topic.title}.`);
@@ -57,7 +67,7 @@ const buildAnalysisText = (analysis: StructuredAnalysisReport, topic: Topic): st
   if (missingCount > 0) {
     const examples = analysis.comparison.sentences.missing.slice(0, 2).join(' ');
     parts.push(
-      `Grokipedia is missing ${missingCount} Wikipedia sentences. Examples: ${examples.slice(0, 200)}...`,
+      `${labels.candidate} is missing ${missingCount} ${labels.reference} sentences. Examples: ${examples.slice(0, 200)}...`,
     );
   }
 
@@ -65,7 +75,7 @@ const buildAnalysisText = (analysis: StructuredAnalysisReport, topic: Topic): st
   if (extraCount > 0) {
     const examples = analysis.comparison.sentences.extra.slice(0, 2).join(' ');
     parts.push(
-      `Grokipedia contains ${extraCount} additional sentences not in Wikipedia. Examples: ${examples.slice(0, 200)}...`,
+      `${labels.candidate} contains ${extraCount} additional sentences not in ${labels.reference}. Examples: ${examples.slice(0, 200)}...`,
     );
   }
 
@@ -79,12 +89,12 @@ const buildAnalysisText = (analysis: StructuredAnalysisReport, topic: Topic): st
 const annotationFromDiscrepancy = (
   issue: DiscrepancyRecord,
   topicId: string,
-  urls: { wikipedia: string; grokipedia: string },
+  urls: Record<ComparisonSide, string>,
   index: number,
 ) => {
-  const isMissing = issue.type === 'missing_context';
-  const targetUrl = isMissing ? urls.wikipedia : urls.grokipedia;
-  const quote = isMissing ? issue.evidence.wikipedia : issue.evidence.grokipedia;
+  const side: ComparisonSide = issue.type === 'missing_context' ? 'reference' : 'candidate';
+  const targetUrl = urls[side];
+  const quote = issue.evidence[side];
   return {
     '@type': 'Annotation',
     '@id': `urn:gwaln:annotation:${topicId}:${index}`,
@@ -115,7 +125,9 @@ export const buildCommunityNote = async (
   analysis: StructuredAnalysisReport,
   options: BuildNoteOptions = {},
 ): Promise<Record<string, unknown>> => {
-  const urls = topicUrls(topic);
+  const { sources } = analysis;
+  const labels = sourceLabels(sources);
+  const urls = { reference: sources.reference.url, candidate: sources.candidate.url };
   const now = new Date().toISOString();
   const accuracy = clampScore(options.accuracy, 3);
   const completeness = clampScore(options.completeness, 3);
@@ -124,12 +136,22 @@ export const buildCommunityNote = async (
   const discrepancies = analysis.discrepancies.primary ?? [];
 
   let summary: string;
+  const templateSummary = (): string =>
+    discrepancies.length
+      ? `Detected ${analysis.summary.discrepancy_count} notable discrepancies between ${labels.candidate} and ${labels.reference} entries for ${topic.title}.`
+      : `No material discrepancies detected for ${topic.title}; ${labels.candidate} aligns with ${labels.reference}.`;
+  const summaryModel = resolveModelPipeline('summary');
 
   if (options.summary) {
     summary = options.summary;
+  } else if (!isModelCached(summaryModel)) {
+    console.warn(
+      `[notes] Summary model ${summaryModel.model} is not downloaded; using the template summary. Run \`gwaln models pull summary\` to enable AI summaries.`,
+    );
+    summary = templateSummary();
   } else {
     try {
-      const analysisText = buildAnalysisText(analysis, topic);
+      const analysisText = buildAnalysisText(analysis, topic, labels);
       const summaryPromise = generateSummary(analysisText, { maxLength: 100, minLength: 30 });
       const timeoutPromise = new Promise<string>((_, reject) =>
         setTimeout(() => reject(new Error('summary_timeout')), 5000),
@@ -137,9 +159,7 @@ export const buildCommunityNote = async (
       summary = await Promise.race([summaryPromise, timeoutPromise]);
     } catch (error) {
       console.warn('[notes] AI summary generation failed, falling back to template:', error);
-      summary = discrepancies.length
-        ? `Detected ${analysis.summary.discrepancy_count} notable discrepancies between Grokipedia and Wikipedia entries for ${topic.title}.`
-        : `No material discrepancies detected for ${topic.title}; Grokipedia aligns with Wikipedia.`;
+      summary = templateSummary();
     }
   }
 
@@ -149,7 +169,8 @@ export const buildCommunityNote = async (
     '@id': `urn:gwaln:note:${topic.id}:${analysis.generated_at}`,
     topic_id: topic.id,
     topic_title: topic.title,
-    claimReviewed: `Comparison of ${topic.title} entries on Grokipedia and Wikipedia`,
+    claimReviewed: `Comparison of ${topic.title} entries on ${labels.candidate} and ${labels.reference}`,
+    inLanguage: analysis.topic.lang ?? topicLang(topic),
     dateCreated: now,
     author: {
       '@type': 'Organization',
@@ -158,8 +179,8 @@ export const buildCommunityNote = async (
     },
     itemReviewed: {
       '@type': 'CreativeWork',
-      name: `${topic.title} (Wikipedia)`,
-      url: urls.wikipedia,
+      name: `${topic.title} (${labels.reference})`,
+      url: urls.reference,
     },
     reviewRating: {
       '@type': 'Rating',
@@ -181,8 +202,8 @@ export const buildCommunityNote = async (
       annotationFromDiscrepancy(issue, topic.id, urls, idx),
     ),
     citation: [
-      { '@type': 'CreativeWork', name: 'Wikipedia', url: urls.wikipedia },
-      { '@type': 'CreativeWork', name: 'Grokipedia', url: urls.grokipedia },
+      { '@type': 'CreativeWork', name: labels.reference, url: urls.reference },
+      { '@type': 'CreativeWork', name: labels.candidate, url: urls.candidate },
     ],
     analysisSummary: {
       missing_count: analysis.comparison.sentences.missing.length,
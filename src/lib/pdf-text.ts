@@ -0,0 +1,418 @@
+/**
+ * @file src/lib/pdf-text.ts
+ * @description Text layer of a PDF without external dependencies. Objects are indexed (including
+ *              those packed in object streams), Flate streams are inflated, fonts with a
+ *              `ToUnicode` CMap are decoded through it, and the text-showing operators of every
+ *              content stream are read in file order. Scanned PDFs have no text layer and yield an
+ *              empty string; a truncated file yields the text of the streams it still contains.
+ *              Image and embedded font streams are never inflated, and the inflated size of all
+ *              other streams shares one byte budget, so a small compressed file cannot expand
+ *              without bound.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import zlib from 'node:zlib';
+
+interface PdfObject {
+  /** Dictionary (or whole body) of the object as Latin-1 text. */
+  dict: string;
+  /** Decoded stream data, when the object has a stream with a supported filter. */
+  data: Buffer | null;
+}
+
+interface ToUnicodeMap {
+  /** Bytes per character code, from the first codespace range. */
+  width: number;
+  codes: Map<string, string>;
+}
+
+type Operand = number | string | Buffer | Operand[];
+
+export interface PdfTextOptions {
+  /** Total bytes all Flate streams of the file may inflate to. */
+  maxInflatedBytes?: number;
+}
+
+/** Bytes left for inflating the remaining streams of one file. */
+interface InflateBudget {
+  remaining: number;
+}
+
+export const DEFAULT_MAX_INFLATED_BYTES = 32 * 1024 * 1024;
+
+const OBJECT_START = /(\d+)\s+\d+\s+obj\b/g;
+const STREAM_START = /(>>\s*)stream\r?\n/;
+
+/**
+ * Streams that never hold text: images, embedded font programs (`/Length1`..`/Length3`, or a
+ * `FontFile3` subtype), cross-reference streams, and XMP metadata.
+ */
+const SKIPPED_STREAM =
+  /\/(?:Subtype\s*\/(?:Image|Type1C|CIDFontType0C|OpenType)|Length[123]|Type\s*\/(?:XRef|Metadata))\b/;
+
+const PDF_DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+
+/** TJ offsets (thousandths of a text unit) wide enough to read as a word space. */
+const TJ_SPACE_OFFSET = -200;
+
+const isWhitespace = (char: string): boolean => /[\0\t\n\f\r ]/.test(char);
+
+const decodeStream = (dict: string, data: Buffer, budget: InflateBudget): Buffer | null => {
+  if (SKIPPED_STREAM.test(dict)) return null;
+  const filter = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/);
+  const filters = filter ? (filter[1].match(/\/\w+/g) ?? []) : [];
+  if (!filters.length) return data;
+  if (filters.length > 1 || (filters[0] !== '/FlateDecode' && filters[0] !== '/Fl')) return null;
+  if (budget.remaining <= 0) return null;
+  try {
+    const inflated = zlib.inflateSync(data, {
+      finishFlush: zlib.constants.Z_SYNC_FLUSH,
+      maxOutputLength: budget.remaining,
+    });
+    budget.remaining -= inflated.length;
+    return inflated;
+  } catch {
+    /* corrupt data, or more than the budget left: the stream is dropped */
+    return null;
+  }
+};
+
+const unpackObjectStream = (object: PdfObject, objects: Map<number, PdfObject>): void => {
+  const count = Number(object.dict.match(/\/N\s+(\d+)/)?.[1] ?? 0);
+  const first = Number(object.dict.match(/\/First\s+(\d+)/)?.[1] ?? 0);
+  if (!object.data || !count) return;
+  const text = object.data.toString('latin1');
+  const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+  for (let index = 0; index < count && index * 2 + 1 < header.length; index += 1) {
+    const id = header[index * 2];
+    const start = first + header[index * 2 + 1];
+    const end = index + 1 < count ? first + header[index * 2 + 3] : text.length;
+    if (!objects.has(id)) objects.set(id, { dict: text.slice(start, end), data: null });
+  }
+};
+
+/** Indexes the objects of the file; the last definition of an object number wins. */
+const readObjects = (raw: string, budget: InflateBudget): Map<number, PdfObject> => {
+  const objects = new Map<number, PdfObject>();
+  OBJECT_START.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = OBJECT_START.exec(raw)) !== null) {
+    const start = match.index + match[0].length;
+    const endObject = raw.indexOf('endobj', start);
+    const limit = endObject === -1 ? raw.length : endObject;
+    const body = raw.slice(start, limit);
+    const stream = STREAM_START.exec(body);
+    if (!stream) {
+      objects.set(Number(match[1]), { dict: body, data: null });
+      OBJECT_START.lastIndex = limit;
+      continue;
+    }
+    const dict = body.slice(0, stream.index + stream[1].length);
+    const dataStart = start + stream.index + stream[0].length;
+    const length = Number(dict.match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/)?.[1] ?? NaN);
+    const endStream = raw.indexOf('endstream', dataStart);
+    const dataEnd =
+      Number.isFinite(length) && dataStart + length <= raw.length
+        ? dataStart + length
+        : endStream === -1
+          ? raw.length
+          : endStream;
+    const data = decodeStream(dict, Buffer.from(raw.slice(dataStart, dataEnd), 'latin1'), budget);
+    objects.set(Number(match[1]), { dict, data });
+    const next = raw.indexOf('endobj', dataEnd);
+    OBJECT_START.lastIndex = next === -1 ? raw.length : next;
+  }
+  Array.from(objects.values())
+    .filter((object) => /\/Type\s*\/ObjStm\b/.test(object.dict))
+    .forEach((object) => unpackObjectStream(object, objects));
+  return objects;
+};
+
+const decodeUtf16 = (hex: string): string => {
+  let text = '';
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(index, index + 4), 16));
+  }
+  return text;
+};
+
+const parseToUnicode = (cmap: string): ToUnicodeMap => {
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-f]+)>/i);
+  const width = codespace ? Math.max(1, codespace[1].length / 2) : 2;
+  const codes = new Map<string, string>();
+  const key = (value: number) => value.toString(16).padStart(width * 2, '0');
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) {
+      codes.set(key(parseInt(pair[1], 16)), decodeUtf16(pair[2]));
+    }
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const ranges = block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi);
+    for (const range of ranges) {
+      const low = parseInt(range[1], 16);
+      const high = parseInt(range[2], 16);
+      if (range[3].startsWith('[')) {
+        const targets = Array.from(range[3].matchAll(/<([0-9a-f]*)>/gi), (item) => item[1]);
+        targets.forEach((target, offset) => codes.set(key(low + offset), decodeUtf16(target)));
+        continue;
+      }
+      const target = range[3].slice(1, -1);
+      const base = parseInt(target.slice(-4) || '0', 16);
+      const prefix = decodeUtf16(target.slice(0, -4));
+      for (let code = low; code <= high && code - low < 0x10000; code += 1) {
+        codes.set(key(code), prefix + String.fromCharCode(base + code - low));
+      }
+    }
+  }
+  return { width, codes };
+};
+
+/**
+ * Maps font resource names (`/F1`) to their `ToUnicode` CMaps. Names are collected from every
+ * font resource dictionary in the file; the first definition of a name wins.
+ */
+const readFonts = (objects: Map<number, PdfObject>): Map<string, ToUnicodeMap> => {
+  const fonts = new Map<string, ToUnicodeMap>();
+  const cmaps = new Map<number, ToUnicodeMap | null>();
+  const toUnicode = (fontId: number): ToUnicodeMap | null => {
+    const reference = objects.get(fontId)?.dict.match(/\/ToUnicode\s+(\d+)\s+\d+\s+R/);
+    if (!reference) return null;
+    const id = Number(reference[1]);
+    if (!cmaps.has(id)) {
+      const data = objects.get(id)?.data;
+      cmaps.set(id, data ? parseToUnicode(data.toString('latin1')) : null);
+    }
+    return cmaps.get(id) ?? null;
+  };
+  const register = (entries: string) => {
+    for (const entry of entries.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+      if (fonts.has(entry[1])) continue;
+      const cmap = toUnicode(Number(entry[2]));
+      if (cmap) fonts.set(entry[1], cmap);
+    }
+  };
+  objects.forEach((object) => {
+    for (const resource of object.dict.matchAll(/\/Font\s*(<<[\s\S]*?>>|(\d+)\s+\d+\s+R)/g)) {
+      register(resource[2] ? (objects.get(Number(resource[2]))?.dict ?? '') : resource[1]);
+    }
+  });
+  return fonts;
+};
+
+const readLiteralString = (content: string, start: number): { bytes: Buffer; end: number } => {
+  const bytes: number[] = [];
+  let depth = 1;
+  let index = start + 1;
+  while (index < content.length) {
+    const char = content[index];
+    if (char === '\\') {
+      const next = content[index + 1];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+      if (next in escapes) {
+        bytes.push(escapes[next]);
+        index += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)![0];
+        bytes.push(parseInt(octal, 8) & 0xff);
+        index += 1 + octal.length;
+      } else if (next === '\r' || next === '\n') {
+        index += next === '\r' && content[index + 2] === '\n' ? 3 : 2;
+      } else {
+        bytes.push(next.charCodeAt(0));
+        index += 2;
+      }
+      continue;
+    }
+    if (char === '(') depth += 1;
+    if (char === ')') {
+      depth -= 1;
+      if (depth === 0) break;
+    }
+    bytes.push(char.charCodeAt(0) & 0xff);
+    index += 1;
+  }
+  return { bytes: Buffer.from(bytes), end: index + 1 };
+};
+
+const decodeShownString = (bytes: Buffer, font: ToUnicodeMap | null): string => {
+  if (font) {
+    let text = '';
+    for (let index = 0; index + font.width <= bytes.length; index += font.width) {
+      text += font.codes.get(bytes.subarray(index, index + font.width).toString('hex')) ?? '';
+    }
+    return text;
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return decodeUtf16(bytes.subarray(2).toString('hex'));
+  }
+  return Buffer.from(
+    bytes.filter((byte) => byte >= 0x20 || byte === 0x09 || byte === 0x0a),
+  ).toString('latin1');
+};
+
+/** Reads the text-showing operators of one content stream. */
+const readContentStream = (content: string, fonts: Map<string, ToUnicodeMap>): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  let font: ToUnicodeMap | null = null;
+  let lastY: number | null = null;
+  const stack: Operand[][] = [[]];
+  const operands = () => stack[0];
+
+  const breakLine = () => {
+    if (line.trim()) lines.push(line.trim());
+    line = '';
+  };
+  const space = () => {
+    if (line && !line.endsWith(' ')) line += ' ';
+  };
+  const show = (value: Operand) => {
+    if (Buffer.isBuffer(value)) line += decodeShownString(value, font);
+  };
+
+  const apply = (operator: string) => {
+    const args = operands();
+    switch (operator) {
+      case 'Tf':
+        font = typeof args[0] === 'string' ? (fonts.get(args[0]) ?? null) : null;
+        break;
+      case 'Tj':
+        show(args[args.length - 1]);
+        break;
+      case "'":
+      case '"':
+        breakLine();
+        show(args[args.length - 1]);
+        break;
+      case 'TJ': {
+        const items = args[args.length - 1];
+        if (Array.isArray(items)) {
+          items.forEach((item) => {
+            if (typeof item === 'number') {
+              if (item < TJ_SPACE_OFFSET) space();
+            } else {
+              show(item);
+            }
+          });
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD':
+        if (typeof args[1] === 'number' && args[1] !== 0) breakLine();
+        else space();
+        break;
+      case 'T*':
+        breakLine();
+        break;
+      case 'Tm': {
+        const y = typeof args[5] === 'number' ? args[5] : null;
+        if (lastY !== null && y !== null && Math.abs(y - lastY) > 0.5) breakLine();
+        else space();
+        lastY = y;
+        break;
+      }
+      case 'ET':
+        space();
+        break;
+      default:
+        break;
+    }
+    stack[0] = [];
+  };
+
+  let index = 0;
+  while (index < content.length) {
+    const char = content[index];
+    if (isWhitespace(char)) {
+      index += 1;
+    } else if (char === '%') {
+      const end = content.slice(index).search(/[\r\n]/);
+      index = end === -1 ? content.length : index + end;
+    } else if (char === '(') {
+      const literal = readLiteralString(content, index);
+      stack[stack.length - 1].push(literal.bytes);
+      index = literal.end;
+    } else if (char === '<' && content[index + 1] === '<') {
+      let depth = 0;
+      do {
+        if (content.startsWith('<<', index)) {
+          depth += 1;
+          index += 2;
+        } else if (content.startsWith('>>', index)) {
+          depth -= 1;
+          index += 2;
+        } else {
+          index += 1;
+        }
+      } while (depth > 0 && index < content.length);
+    } else if (char === '<') {
+      const end = content.indexOf('>', index);
+      const hex = content.slice(index + 1, end === -1 ? content.length : end).replace(/\s+/g, '');
+      stack[stack.length - 1].push(Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex'));
+      index = end === -1 ? content.length : end + 1;
+    } else if (char === '[') {
+      stack.push([]);
+      index += 1;
+    } else if (char === ']') {
+      const array = stack.length > 1 ? stack.pop()! : [];
+      stack[stack.length - 1].push(array);
+      index += 1;
+    } else if (char === '/') {
+      let end = index + 1;
+      while (
+        end < content.length &&
+        !isWhitespace(content[end]) &&
+        !PDF_DELIMITERS.has(content[end])
+      ) {
+        end += 1;
+      }
+      stack[stack.length - 1].push(content.slice(index + 1, end));
+      index = end;
+    } else {
+      let end = index;
+      while (
+        end < content.length &&
+        !isWhitespace(content[end]) &&
+        !PDF_DELIMITERS.has(content[end])
+      ) {
+        end += 1;
+      }
+      const token = content.slice(index, Math.max(end, index + 1));
+      index = Math.max(end, index + 1);
+      if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(token)) {
+        stack[stack.length - 1].push(Number(token));
+      } else if (token === 'BI') {
+        const data = content.slice(index).search(/\sEI(?=\s|$)/);
+        index = data === -1 ? content.length : index + data + 3;
+        stack.splice(0, stack.length, []);
+      } else if (stack.length === 1) {
+        apply(token);
+      }
+    }
+  }
+  breakLine();
+  return lines;
+};
+
+/**
+ * Extracts the text layer of a PDF, one line of text per output line. Returns an empty string
+ * for PDFs without text (scans) and for data that is not a PDF. Streams that would inflate past
+ * `maxInflatedBytes` are skipped.
+ */
+export const extractPdfText = (body: Buffer, options: PdfTextOptions = {}): string => {
+  const raw = body.toString('latin1');
+  if (!raw.startsWith('%PDF-')) return '';
+  const objects = readObjects(raw, {
+    remaining: options.maxInflatedBytes ?? DEFAULT_MAX_INFLATED_BYTES,
+  });
+  const fonts = readFonts(objects);
+  const lines: string[] = [];
+  objects.forEach((object) => {
+    if (!object.data || /\/Type\s*\/ObjStm\b/.test(object.dict)) return;
+    const content = object.data.toString('latin1');
+    if (!/\bBT\b/.test(content) || /begincmap/.test(content)) return;
+    lines.push(...readContentStream(content, fonts));
+  });
+  return lines.join('\n');
+};
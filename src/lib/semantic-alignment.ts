@@ -0,0 +1,102 @@
+/**
+ * @file src/lib/semantic-alignment.ts
+ * @description Sentence-embedding index used by `--semantic-align`. Embeds every sentence, claim,
+ *              and heading once with a local transformer model and serves cosine similarities so
+ *              the alignment helpers can match paraphrases that share meaning but few character
+ *              bigrams.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+import { loadModelPipeline, resolveModelPipeline } from './model-manager';
+
+const EMBEDDING_BATCH_SIZE = 32;
+
+export async function initSentenceEmbedder(): Promise<FeatureExtractionPipeline> {
+  return loadModelPipeline<FeatureExtractionPipeline>('embedding');
+}
+
+/**
+ * Similarity lookup consumed by the alignment helpers. Returns `null` for texts that were not
+ * embedded so callers can fall back to string similarity.
+ */
+export interface SimilarityIndex {
+  similarity: (a: string, b: string) => number | null;
+}
+
+const normalizeKey = (text: string): string => text.trim().toLowerCase();
+
+/**
+ * In-memory cosine-similarity index keyed by normalized text. Vectors are L2-normalized at build
+ * time, so similarity lookups are a single dot product.
+ */
+export class EmbeddingIndex implements SimilarityIndex {
+  private readonly vectors = new Map<string, Float32Array>();
+
+  constructor(
+    readonly model: string,
+    entries: Array<[string, ArrayLike<number>]> = [],
+  ) {
+    entries.forEach(([text, vector]) => this.add(text, vector));
+  }
+
+  add(text: string, vector: ArrayLike<number>): void {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i += 1) norm += vector[i] * vector[i];
+    const scale = norm ? 1 / Math.sqrt(norm) : 0;
+    this.vectors.set(
+      normalizeKey(text),
+      Float32Array.from(vector, (value) => value * scale),
+    );
+  }
+
+  has(text: string): boolean {
+    return this.vectors.has(normalizeKey(text));
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  similarity(a: string, b: string): number | null {
+    const left = this.vectors.get(normalizeKey(a));
+    const right = this.vectors.get(normalizeKey(b));
+    if (!left || !right) return null;
+    let dot = 0;
+    for (let i = 0; i < left.length; i += 1) dot += left[i] * right[i];
+    return Math.max(-1, Math.min(1, dot));
+  }
+
+  /**
+   * Returns the `k` candidates closest to `query`, best first. Candidates without a vector are
+   * skipped.
+   */
+  nearest(query: string, candidates: string[], k = 1): Array<{ text: string; similarity: number }> {
+    return candidates
+      .map((text) => ({ text, similarity: this.similarity(query, text) }))
+      .filter((entry): entry is { text: string; similarity: number } => entry.similarity !== null)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, k);
+  }
+}
+
+/**
+ * Embeds the given texts (deduplicated, in batches) with the `embedding` pipeline model and
+ * returns an index over them. The model is downloaded on first use unless offline mode is on.
+ */
+export async function buildEmbeddingIndex(texts: string[]): Promise<EmbeddingIndex> {
+  const unique = [...new Map(texts.filter(Boolean).map((text) => [normalizeKey(text), text]))];
+  const index = new EmbeddingIndex(resolveModelPipeline('embedding').model);
+  if (!unique.length) return index;
+  const extractor = await initSentenceEmbedder();
+  for (let i = 0; i < unique.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = unique.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const output = await extractor(
+      batch.map(([, text]) => text),
+      { pooling: 'mean', normalize: true },
+    );
+    const vectors = output.tolist() as number[][];
+    batch.forEach(([, text], idx) => index.add(text, vectors[idx]));
+  }
+  return index;
+}
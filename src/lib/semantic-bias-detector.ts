@@ -5,18 +5,12 @@
  * @author Doğu Abaris <abaris@null.net>
  */
 
-import { pipeline, type ZeroShotClassificationPipeline } from '@xenova/transformers';
-
-let classifierInstance: ZeroShotClassificationPipeline | null = null;
+import type { ZeroShotClassificationPipeline } from '@xenova/transformers';
+import { cachedModelCall, type LlmUsageRecorder } from '../llm';
+import { loadModelPipeline, resolveModelPipeline } from './model-manager';
 
 export async function initBiasClassifier(): Promise<ZeroShotClassificationPipeline> {
-  if (!classifierInstance) {
-    classifierInstance = (await pipeline(
-      'zero-shot-classification',
-      'Xenova/bart-large-mnli',
-    )) as ZeroShotClassificationPipeline;
-  }
-  return classifierInstance;
+  return loadModelPipeline<ZeroShotClassificationPipeline>('bias');
 }
 
 /**
@@ -44,9 +38,11 @@ export interface SemanticBiasResult {
 }
 
 /**
- * Detect bias using semantic zero-shot classification.
+ * Detect bias using semantic zero-shot classification. Label scores are cached per sentence in
+ * the model output cache (`src/llm/cache.ts`).
  *
  * @param sentence - Grokipedia sentence to analyze
+ * @param usage - Optional recorder for cache hits and misses of the current run
  * @returns Bias scores and prediction
  *
  * @example
@@ -54,14 +50,34 @@ export interface SemanticBiasResult {
  * // result.predicted_bias_type = "promotional"
  * // result.confidence = 0.87
  */
-export async function detectSemanticBias(sentence: string): Promise<SemanticBiasResult> {
-  const classifier = await initBiasClassifier();
-
-  const rawResult = await classifier(sentence, NPOV_LABELS, {
-    multi_label: false,
-  });
-
-  const result = Array.isArray(rawResult) ? rawResult[0] : rawResult;
+export async function detectSemanticBias(
+  sentence: string,
+  usage?: LlmUsageRecorder,
+): Promise<SemanticBiasResult> {
+  const spec = resolveModelPipeline('bias');
+  const result = await cachedModelCall(
+    {
+      provider: 'transformers',
+      model: spec.model,
+      params: {
+        task: spec.task,
+        quantized: spec.quantized,
+        revision: spec.revision,
+        labels: NPOV_LABELS,
+        multi_label: false,
+      },
+      input: sentence,
+    },
+    async () => {
+      const classifier = await initBiasClassifier();
+      const rawResult = await classifier(sentence, NPOV_LABELS, {
+        multi_label: false,
+      });
+      const first = Array.isArray(rawResult) ? rawResult[0] : rawResult;
+      return { value: { scores: first.scores } };
+    },
+    { recorder: usage, local: true },
+  );
 
   const scores = {
     neutral: result.scores[0] ?? 0,
@@ -95,15 +111,19 @@ export async function detectSemanticBias(sentence: string): Promise<SemanticBias
  * Processes sentences in parallel batches of 5.
  *
  * @param sentences - Array of Grokipedia sentences
+ * @param usage - Optional recorder for cache hits and misses of the current run
  * @returns Array of bias detection results
  */
-export async function detectSemanticBiasBatch(sentences: string[]): Promise<SemanticBiasResult[]> {
+export async function detectSemanticBiasBatch(
+  sentences: string[],
+  usage?: LlmUsageRecorder,
+): Promise<SemanticBiasResult[]> {
   const BATCH_SIZE = 5;
   const results: SemanticBiasResult[] = [];
 
   for (let i = 0; i < sentences.length; i += BATCH_SIZE) {
     const batch = sentences.slice(i, i + BATCH_SIZE);
-    const batchResults = await Promise.all(batch.map((s) => detectSemanticBias(s)));
+    const batchResults = await Promise.all(batch.map((s) => detectSemanticBias(s, usage)));
     results.push(...batchResults);
   }
 
@@ -0,0 +1,141 @@
+/**
+ * @file src/lib/source-overlap.ts
+ * @description Source-level view of the citation comparison. References are grouped into
+ *              distinct sources (by DOI, ISBN, PMID, canonical URL, or label), and the report
+ *              gives the share of sources both articles cite, the per-domain distribution on
+ *              each side, and the sources the candidate dropped or added. Together these show, for
+ *              example, journal sources being replaced by blogs.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { StructuredReference } from '../parsers/shared/types';
+import { canonicalizeUrl, urlDomain } from '../parsers/shared/urls';
+import { citationLabel, type CitationMatchResult } from './citation-matching';
+
+export interface DomainShare {
+  /** Registrable domain, `doi.org` for DOI-only sources, or `(no url)` for offline sources. */
+  domain: string;
+  count: number;
+  /** Share of the side's distinct sources. */
+  share: number;
+}
+
+export interface SourceSummary {
+  label: string;
+  domain: string;
+}
+
+export interface SourceOverlap {
+  reference_source_count: number;
+  candidate_source_count: number;
+  /** Distinct reference sources that the candidate also cites. */
+  shared_source_count: number;
+  /** Shared sources over all distinct sources of both articles (Jaccard). */
+  overlap_ratio: number;
+  /** Share of the reference's sources that the candidate kept. */
+  reference_retained_ratio: number;
+  /** Share of the candidate's sources that the reference also cites. */
+  candidate_shared_ratio: number;
+  domains: {
+    reference: DomainShare[];
+    candidate: DomainShare[];
+  };
+  /** Reference sources with no counterpart on the candidate side. */
+  dropped: SourceSummary[];
+  /** Candidate sources with no counterpart on the reference side. */
+  added: SourceSummary[];
+}
+
+const NO_URL_DOMAIN = '(no url)';
+
+const round = (value: number): number => Number(value.toFixed(3));
+
+const ratio = (part: number, whole: number): number => (whole ? round(part / whole) : 0);
+
+const sourceKey = (reference: StructuredReference): string => {
+  const { normalized } = reference;
+  if (normalized.doi) return `doi:${normalized.doi}`;
+  if (normalized.isbn) return `isbn:${normalized.isbn}`;
+  if (normalized.pmid) return `pmid:${normalized.pmid}`;
+  const url = normalized.canonical_url ?? canonicalizeUrl(normalized.url);
+  return url ? `url:${url}` : `label:${citationLabel(reference).toLowerCase()}`;
+};
+
+const sourceDomain = (reference: StructuredReference): string => {
+  const { normalized } = reference;
+  return (
+    urlDomain(normalized.url) ??
+    urlDomain(normalized.archive_url) ??
+    (normalized.doi ? 'doi.org' : NO_URL_DOMAIN)
+  );
+};
+
+/** One representative reference per distinct source, in first-cited order. */
+const distinctSources = (references: StructuredReference[]): Map<string, StructuredReference> => {
+  const sources = new Map<string, StructuredReference>();
+  references.forEach((reference) => {
+    const key = sourceKey(reference);
+    if (!sources.has(key)) sources.set(key, reference);
+  });
+  return sources;
+};
+
+const domainShares = (sources: StructuredReference[]): DomainShare[] => {
+  const counts = new Map<string, number>();
+  sources.forEach((reference) => {
+    const domain = sourceDomain(reference);
+    counts.set(domain, (counts.get(domain) ?? 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([domain, count]) => ({ domain, count, share: ratio(count, sources.length) }))
+    .sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain));
+};
+
+const summarize = (reference: StructuredReference): SourceSummary => ({
+  label: citationLabel(reference),
+  domain: sourceDomain(reference),
+});
+
+/**
+ * Builds the source-overlap block from the references of both articles and their citation
+ * matches.
+ */
+export const computeSourceOverlap = (
+  wikiReferences: StructuredReference[],
+  grokReferences: StructuredReference[],
+  matching: CitationMatchResult,
+): SourceOverlap => {
+  const matchedWiki = new Set(matching.matches.map((match) => match.reference_citation_id));
+  const matchedGrok = new Set(matching.matches.map((match) => match.candidate_citation_id));
+  const sharedKeys = (references: StructuredReference[], matched: Set<string>) =>
+    new Set(
+      references
+        .filter((reference) => matched.has(reference.citation_id))
+        .map((reference) => sourceKey(reference)),
+    );
+  const wikiShared = sharedKeys(wikiReferences, matchedWiki);
+  const grokShared = sharedKeys(grokReferences, matchedGrok);
+  const wikiSources = distinctSources(wikiReferences);
+  const grokSources = distinctSources(grokReferences);
+  const shared = wikiShared.size;
+  const union = wikiSources.size + grokSources.size - shared;
+
+  return {
+    reference_source_count: wikiSources.size,
+    candidate_source_count: grokSources.size,
+    shared_source_count: shared,
+    overlap_ratio: ratio(shared, union),
+    reference_retained_ratio: ratio(shared, wikiSources.size),
+    candidate_shared_ratio: ratio(grokShared.size, grokSources.size),
+    domains: {
+      reference: domainShares(Array.from(wikiSources.values())),
+      candidate: domainShares(Array.from(grokSources.values())),
+    },
+    dropped: Array.from(wikiSources.entries())
+      .filter(([key]) => !wikiShared.has(key))
+      .map(([, reference]) => summarize(reference)),
+    added: Array.from(grokSources.entries())
+      .filter(([key]) => !grokShared.has(key))
+      .map(([, reference]) => summarize(reference)),
+  };
+};
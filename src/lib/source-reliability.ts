@@ -0,0 +1,298 @@
+/**
+ * @file src/lib/source-reliability.ts
+ * @description Reliability ratings for cited domains, modelled on Wikipedia's perennial sources
+ *              list (WP:RSP). The bundled list covers frequently discussed domains; entries under
+ *              `sourceReliability` in `.gwalnrc.json` add domains or override bundled ratings.
+ *              Every reference on both sides is classified, summarized as `source_quality`, and
+ *              deprecated or blacklisted domains that only the candidate cites become discrepancies.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { StructuredArticle, StructuredReference } from '../parsers/shared/types';
+import { canonicalizeUrl } from '../parsers/shared/urls';
+import { DEFAULT_SOURCE_LABELS } from '../shared/analyzer-config';
+import type { ComparisonSide, DiscrepancyRecord, SourceLabels } from './analyzer';
+import { citationLabel } from './citation-matching';
+
+export type ReliabilityStatus =
+  | 'generally_reliable'
+  | 'no_consensus'
+  | 'generally_unreliable'
+  | 'deprecated'
+  | 'blacklisted';
+
+export interface ReliabilityCategory {
+  id: ReliabilityStatus;
+  label: string;
+  description: string;
+  reference: string;
+}
+
+export const reliabilityCategories: ReliabilityCategory[] = [
+  {
+    id: 'generally_reliable',
+    label: 'Generally reliable',
+    description: 'Editorial oversight and a reputation for fact-checking in its area of expertise.',
+    reference: 'WP:RSP',
+  },
+  {
+    id: 'no_consensus',
+    label: 'No consensus',
+    description: 'Reliability depends on context; attribute claims and prefer a better source.',
+    reference: 'WP:RSP',
+  },
+  {
+    id: 'generally_unreliable',
+    label: 'Generally unreliable',
+    description: 'Self-published, user-generated, or questionable; cite a better source instead.',
+    reference: 'WP:QS',
+  },
+  {
+    id: 'deprecated',
+    label: 'Deprecated',
+    description: 'Community consensus prohibits citing it for facts; an edit filter warns on use.',
+    reference: 'WP:DEPS',
+  },
+  {
+    id: 'blacklisted',
+    label: 'Blacklisted',
+    description: 'On the spam blacklist; links cannot be added without a whitelist exception.',
+    reference: 'WP:BLACKLIST',
+  },
+];
+
+const STATUS_IDS = new Set<string>(reliabilityCategories.map((category) => category.id));
+
+/**
+ * Bundled ratings keyed by registrable domain. Subdomains inherit the rating of their parent
+ * unless they have their own entry.
+ */
+export const PERENNIAL_SOURCES: Record<string, ReliabilityStatus> = {
+  'apnews.com': 'generally_reliable',
+  'reuters.com': 'generally_reliable',
+  'bbc.co.uk': 'generally_reliable',
+  'bbc.com': 'generally_reliable',
+  'nytimes.com': 'generally_reliable',
+  'washingtonpost.com': 'generally_reliable',
+  'theguardian.com': 'generally_reliable',
+  'wsj.com': 'generally_reliable',
+  'ft.com': 'generally_reliable',
+  'economist.com': 'generally_reliable',
+  'bloomberg.com': 'generally_reliable',
+  'npr.org': 'generally_reliable',
+  'pbs.org': 'generally_reliable',
+  'latimes.com': 'generally_reliable',
+  'theatlantic.com': 'generally_reliable',
+  'time.com': 'generally_reliable',
+  'propublica.org': 'generally_reliable',
+  'arstechnica.com': 'generally_reliable',
+  'nature.com': 'generally_reliable',
+  'science.org': 'generally_reliable',
+  'snopes.com': 'generally_reliable',
+  'politifact.com': 'generally_reliable',
+  'factcheck.org': 'generally_reliable',
+  'forbes.com': 'no_consensus',
+  'huffpost.com': 'no_consensus',
+  'salon.com': 'no_consensus',
+  'theblaze.com': 'generally_unreliable',
+  'dailywire.com': 'generally_unreliable',
+  'thecanary.co': 'generally_unreliable',
+  'imdb.com': 'generally_unreliable',
+  'wikipedia.org': 'generally_unreliable',
+  'medium.com': 'generally_unreliable',
+  'blogspot.com': 'generally_unreliable',
+  'wordpress.com': 'generally_unreliable',
+  'substack.com': 'generally_unreliable',
+  'quora.com': 'generally_unreliable',
+  'reddit.com': 'generally_unreliable',
+  'twitter.com': 'generally_unreliable',
+  'x.com': 'generally_unreliable',
+  'facebook.com': 'generally_unreliable',
+  'dailymail.co.uk': 'deprecated',
+  'thesun.co.uk': 'deprecated',
+  'breitbart.com': 'deprecated',
+  'infowars.com': 'deprecated',
+  'rt.com': 'deprecated',
+  'sputniknews.com': 'deprecated',
+  'thegatewaypundit.com': 'deprecated',
+  'occupydemocrats.com': 'deprecated',
+  'mintpressnews.com': 'deprecated',
+  'zerohedge.com': 'deprecated',
+  'theepochtimes.com': 'deprecated',
+  'lifesitenews.com': 'deprecated',
+  'oann.com': 'deprecated',
+  'naturalnews.com': 'blacklisted',
+  'globalresearch.ca': 'blacklisted',
+};
+
+export type ReferenceReliabilityStatus = ReliabilityStatus | 'unknown';
+
+export interface ReferenceReliability {
+  source: ComparisonSide;
+  citation_id: string;
+  label: string;
+  /** Rated domain, or the host when the domain is not in the list; null without a URL. */
+  domain: string | null;
+  status: ReferenceReliabilityStatus;
+}
+
+export interface SourceQualitySide {
+  reference_count: number;
+  counts: Record<ReferenceReliabilityStatus, number>;
+  /** Share of rated references (status other than `unknown`) that are generally reliable. */
+  reliable_share: number;
+  /** Share of rated references that are deprecated or blacklisted. */
+  deprecated_share: number;
+}
+
+export interface SourceQuality {
+  reference: SourceQualitySide;
+  candidate: SourceQualitySide;
+  references: ReferenceReliability[];
+}
+
+export interface SourceQualityResult {
+  quality: SourceQuality;
+  events: DiscrepancyRecord[];
+}
+
+/**
+ * Merges user ratings over the bundled list. Keys are lowercased and stripped of `www.`; an
+ * unknown status is rejected so a typo cannot silently drop a rating.
+ */
+export const buildReliabilityList = (
+  overrides: Record<string, string> = {},
+): Record<string, ReliabilityStatus> => {
+  const list: Record<string, ReliabilityStatus> = { ...PERENNIAL_SOURCES };
+  for (const [domain, status] of Object.entries(overrides)) {
+    if (!STATUS_IDS.has(status)) {
+      throw new Error(
+        `Unknown reliability "${status}" for ${domain} in sourceReliability. Use one of: ${Array.from(STATUS_IDS).join(', ')}.`,
+      );
+    }
+    list[
+      domain
+        .trim()
+        .toLowerCase()
+        .replace(/^www\./, '')
+    ] = status as ReliabilityStatus;
+  }
+  return list;
+};
+
+const referenceHost = (reference: StructuredReference): string | null => {
+  const url =
+    reference.normalized.canonical_url ??
+    canonicalizeUrl(reference.normalized.url) ??
+    canonicalizeUrl(reference.normalized.archive_url);
+  return url ? new URL(url).hostname : null;
+};
+
+/**
+ * Finds the list entry for a host: the host itself, then each parent domain (`news.bbc.co.uk`,
+ * `bbc.co.uk`, `co.uk`).
+ */
+const ratedDomain = (host: string, list: Record<string, ReliabilityStatus>): string | null => {
+  const labels = host.split('.');
+  for (let index = 0; index < labels.length - 1; index += 1) {
+    const domain = labels.slice(index).join('.');
+    if (list[domain]) return domain;
+  }
+  return null;
+};
+
+const round = (value: number): number => Number(value.toFixed(3));
+
+const summarizeSide = (entries: ReferenceReliability[]): SourceQualitySide => {
+  const counts: Record<ReferenceReliabilityStatus, number> = {
+    generally_reliable: 0,
+    no_consensus: 0,
+    generally_unreliable: 0,
+    deprecated: 0,
+    blacklisted: 0,
+    unknown: 0,
+  };
+  entries.forEach((entry) => {
+    counts[entry.status] += 1;
+  });
+  const rated = entries.length - counts.unknown;
+  return {
+    reference_count: entries.length,
+    counts,
+    reliable_share: rated ? round(counts.generally_reliable / rated) : 0,
+    deprecated_share: rated ? round((counts.deprecated + counts.blacklisted) / rated) : 0,
+  };
+};
+
+const classify = (
+  article: StructuredArticle,
+  source: ReferenceReliability['source'],
+  list: Record<string, ReliabilityStatus>,
+): ReferenceReliability[] =>
+  article.references.map((reference) => {
+    const host = referenceHost(reference);
+    const rated = host ? ratedDomain(host, list) : null;
+    return {
+      source,
+      citation_id: reference.citation_id,
+      label: citationLabel(reference),
+      domain: rated ?? host,
+      status: rated ? list[rated] : 'unknown',
+    };
+  });
+
+const categoryFor = (status: ReliabilityStatus): ReliabilityCategory =>
+  reliabilityCategories.find((category) => category.id === status)!;
+
+/**
+ * Classifies every reference of both articles and reports deprecated or blacklisted candidate
+ * sources whose domain the reference never cites. Events name the first claim backed by the
+ * source when the reference is attached to claims; `labels` name the two sources in them.
+ */
+export const assessSourceQuality = (
+  wiki: StructuredArticle,
+  grok: StructuredArticle,
+  overrides: Record<string, string> = {},
+  labels: SourceLabels = DEFAULT_SOURCE_LABELS,
+): SourceQualityResult => {
+  const list = buildReliabilityList(overrides);
+  const wikiEntries = classify(wiki, 'reference', list);
+  const grokEntries = classify(grok, 'candidate', list);
+  const wikiDomains = new Set(wikiEntries.map((entry) => entry.domain));
+
+  const events: DiscrepancyRecord[] = [];
+  const reported = new Set<string>();
+  grokEntries.forEach((entry) => {
+    if (entry.status !== 'deprecated' && entry.status !== 'blacklisted') return;
+    const domain = entry.domain!;
+    if (wikiDomains.has(domain) || reported.has(entry.citation_id)) return;
+    reported.add(entry.citation_id);
+    const claims = (grok.claims ?? []).filter((claim) =>
+      claim.citation_ids.includes(entry.citation_id),
+    );
+    const category = categoryFor(entry.status);
+    events.push({
+      type: 'deprecated_source',
+      description: claims.length
+        ? `${labels.candidate} backs ${claims.length} claim(s) with ${domain}, rated ${category.label.toLowerCase()} (${category.reference}); ${labels.reference} does not cite it.`
+        : `${labels.candidate} cites ${domain}, rated ${category.label.toLowerCase()} (${category.reference}); ${labels.reference} does not cite it.`,
+      evidence: {
+        candidate: claims[0]?.text ?? entry.label,
+        ...(claims[0] ? { candidate_claim_id: claims[0].claim_id } : {}),
+        citation_id: entry.citation_id,
+      },
+      severity: entry.status === 'blacklisted' ? 4 : 3,
+      category: 'citation',
+      tags: ['source_quality', entry.status],
+    });
+  });
+
+  return {
+    quality: {
+      reference: summarizeSide(wikiEntries),
+      candidate: summarizeSide(grokEntries),
+      references: [...wikiEntries, ...grokEntries],
+    },
+    events,
+  };
+};
@@ -0,0 +1,181 @@
+/**
+ * @file src/lib/source-text.ts
+ * @description Readable text from fetched sources, chosen by content type: HTML pages, PDFs,
+ *              plain text, and JSON. For HTML, scripts, navigation, headers, footers, cookie
+ *              banners, share widgets, and comment threads are removed, and the main content
+ *              container is preferred over the page body, so citation checks compare a sentence
+ *              with the article a source publishes rather than with its site chrome.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { load as loadHtml } from 'cheerio';
+import { extractPdfText } from './pdf-text';
+
+export type SourceExtractor = 'html' | 'pdf' | 'text' | 'json';
+
+export interface SourceText {
+  text: string;
+  extractor: SourceExtractor;
+}
+
+const BOILERPLATE_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'iframe',
+  'svg',
+  'form',
+  'button',
+  'header',
+  'nav',
+  'footer',
+  'aside',
+  '[role=navigation]',
+  '[role=banner]',
+  '[role=contentinfo]',
+  '[role=complementary]',
+  '[aria-hidden=true]',
+  '[hidden]',
+];
+
+/** Class or id fragments that mark page furniture rather than content. */
+const BOILERPLATE_NAME =
+  /(?:^|[\s_-])(?:nav|navbar|menu|breadcrumbs?|footer|header|masthead|sidebar|cookies?|consent|banner|advert|ads?|promo|newsletter|subscribe|share|social|comments?|related|recommended|popup|modal)(?:$|[\s_-])/i;
+
+const MAIN_SELECTORS = ['article', 'main', '[role=main]', '#content', '#main-content', '.content'];
+
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, td, th, dd, dt, figcaption';
+
+/** Pages whose blocks hold less than this share of their text (bare `<div>`s) are read whole. */
+const MIN_BLOCK_SHARE = 0.5;
+
+const collapse = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+const looksLikeHtml = (body: string): boolean => /<(?:!doctype|html|body|p|div)\b/i.test(body);
+
+/**
+ * Returns the readable text of a fetched page, one block (paragraph, list item, heading, cell)
+ * per line. Bodies that are not HTML are returned with their whitespace collapsed per line.
+ */
+export const extractReadableText = (body: string): string => {
+  if (!looksLikeHtml(body)) {
+    return body.split(/\n+/).map(collapse).filter(Boolean).join('\n');
+  }
+  const $ = loadHtml(body);
+  $(BOILERPLATE_SELECTORS.join(', ')).remove();
+  $('[class], [id]')
+    .filter((_, element) => {
+      const name = `${$(element).attr('class') ?? ''} ${$(element).attr('id') ?? ''}`;
+      return BOILERPLATE_NAME.test(name) && !$(element).is('body, html, article, main');
+    })
+    .remove();
+
+  const candidates = MAIN_SELECTORS.flatMap((selector) => $(selector).toArray());
+  const root = candidates.length
+    ? $(
+        candidates.reduce((best, element) =>
+          collapse($(element).text()).length > collapse($(best).text()).length ? element : best,
+        ),
+      )
+    : $('body');
+
+  const blocks = root
+    .find(BLOCK_SELECTOR)
+    .filter((_, element) => $(element).find(BLOCK_SELECTOR).length === 0)
+    .toArray()
+    .map((element) => collapse($(element).text()))
+    .filter(Boolean);
+  const text = blocks.join('\n');
+  const whole = collapse(root.text());
+  return text.length >= whole.length * MIN_BLOCK_SHARE ? text : whole;
+};
+
+const TEXT_TYPES = /^(?:text\/|application\/(?:xml|javascript|x-tex|x-bibtex|rtf)\b)/;
+
+const contentTypeOf = (header: string | null | undefined): { type: string; charset: string } => {
+  const [type, ...params] = (header ?? '').toLowerCase().split(';');
+  const charset = params
+    .map((param) => param.trim().match(/^charset="?([^";]+)"?$/)?.[1])
+    .find(Boolean);
+  return { type: type.trim(), charset: charset ?? 'utf-8' };
+};
+
+const decodeBody = (body: Buffer, charset: string): string => {
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return body.toString('utf8');
+  }
+};
+
+/** String values of a JSON document, depth first, one per line. */
+const jsonStrings = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (Array.isArray(value)) return value.flatMap(jsonStrings);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(jsonStrings);
+  return [];
+};
+
+const extractJsonText = (text: string): string => {
+  try {
+    return jsonStrings(JSON.parse(text)).map(collapse).join('\n');
+  } catch {
+    // Truncated or malformed documents: read the string literals that are complete.
+    return Array.from(text.matchAll(/"((?:[^"\\]|\\.)*)"(\s*:)?/g), (match) => {
+      if (match[2]) return '';
+      try {
+        return collapse(JSON.parse(`"${match[1]}"`) as string);
+      } catch {
+        return '';
+      }
+    })
+      .filter(Boolean)
+      .join('\n');
+  }
+};
+
+/**
+ * Picks the extractor for a response. The body is sniffed first (`%PDF-` magic, JSON, markup),
+ * since servers often send PDFs and JSON with a generic or wrong content type; the declared type
+ * decides the rest. Returns null for media the verifier cannot read (images, audio, archives).
+ */
+export const detectExtractor = (
+  body: Buffer,
+  contentType?: string | null,
+): SourceExtractor | null => {
+  const { type } = contentTypeOf(contentType);
+  const head = body.subarray(0, 1024).toString('latin1').trimStart();
+  if (head.startsWith('%PDF-') || type === 'application/pdf') return 'pdf';
+  if (type === 'application/json' || type.endsWith('+json')) return 'json';
+  if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+  if (TEXT_TYPES.test(type)) return looksLikeHtml(head) ? 'html' : 'text';
+  if (type && type !== 'application/octet-stream') return null;
+  if (/^[{[]/.test(head)) return 'json';
+  if (looksLikeHtml(head)) return 'html';
+  const binary = body.subarray(0, 1024).some((byte) => byte < 0x09 || (byte > 0x0d && byte < 0x1b));
+  return binary ? null : 'text';
+};
+
+/**
+ * Extracts readable text from a fetched source with the extractor that suits its content type.
+ * Throws when the content type carries no text the verifier can read.
+ */
+export const extractSourceText = (body: Buffer, contentType?: string | null): SourceText => {
+  const extractor = detectExtractor(body, contentType);
+  if (!extractor) {
+    throw new Error(
+      `Cannot extract text from ${contentTypeOf(contentType).type || 'binary'} content.`,
+    );
+  }
+  if (extractor === 'pdf') {
+    const text = extractPdfText(body)
+      .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+      .replace(/\s*\n\s*/g, ' ')
+      .trim();
+    return { text, extractor };
+  }
+  const decoded = decodeBody(body, contentTypeOf(contentType).charset);
+  if (extractor === 'json') return { text: extractJsonText(decoded), extractor };
+  return { text: extractReadableText(decoded), extractor };
+};
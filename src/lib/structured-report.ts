@@ -2,27 +2,45 @@
  * @file src/lib/structured-report.ts
  * @description Shapes the raw analyzer payload into a topic-aware report schema that is easier
  *              for downstream tooling (CLI renderers, Community Notes, dashboards) to consume.
- *              The schema is intentionally source-agnostic so Grokipedia and Wikipedia stay aligned.
+ *              The schema is source-agnostic: the two sides are the `reference` and the
+ *              `candidate`, and `sources` maps each side to the configured source it came from.
  * @author Doğu Abaris <abaris@null.net>
  */
 
+import { DEFAULT_SOURCE_LABELS } from '../shared/analyzer-config';
 import type { Topic } from '../shared/topics';
-import { topicUrls } from '../shared/topics';
+import { topicLang, topicUrls } from '../shared/topics';
 import type { ClaimAlignmentRecord, SectionAlignmentRecord } from './alignment';
 import type {
   AnalysisMeta,
   AnalysisPayload,
   BiasVerificationRecord,
   CitationVerificationRecord,
+  ComparedSource,
+  ComparisonSide,
   ConfidenceSummary,
   DiscrepancyRecord,
   GeminiSummary,
   HighlightSnippet,
+  LinkHealthRecord,
+  LlmVerificationSummary,
+  RewordedSentence,
 } from './analyzer';
 import type { BiasMetrics } from './bias-metrics';
-import type { EntityDiscrepancy, NumericDiscrepancy } from './discrepancies';
+import type { CitationMatch } from './citation-matching';
+import {
+  summarizeLinkHealth,
+  summarizeVerifiability,
+  type CitationVerifiability,
+  type LinkRot,
+} from './citation-verifier';
+import type { EntityDiscrepancy, NumericDiscrepancy, TemporalDiscrepancy } from './discrepancies';
+import type { InfoboxFieldComparison } from './infobox-comparison';
+import type { SourceOverlap } from './source-overlap';
+import type { SourceQuality } from './source-reliability';
+import type { TableComparison } from './table-comparison';
 
-export const STRUCTURED_ANALYSIS_SCHEMA = 'gwaln.analysis/2';
+export const STRUCTURED_ANALYSIS_SCHEMA = 'gwaln.analysis/3';
 
 export interface StructuredAnalysisSummary {
   similarity_ratio: {
@@ -44,6 +62,13 @@ export interface StructuredAnalysisSummary {
   bias_event_count: number;
   hallucination_count: number;
   factual_error_count: number;
+  contradiction_count: number;
+  temporal_discrepancy_count: number;
+  infobox_mismatch_count: number;
+  table_cell_change_count: number;
+  /** Shared sources over all distinct sources of both articles. */
+  source_overlap_ratio: number;
+  deprecated_source_count: number;
   headline: string;
   confidence: ConfidenceSummary;
 }
@@ -52,7 +77,7 @@ export interface StructuredComparisonBlock {
   sentences: {
     missing: string[];
     extra: string[];
-    reworded: Array<{ wikipedia: string; grokipedia: string; similarity: number }>;
+    reworded: RewordedSentence[];
     truly_missing: string[];
     agreed: string[];
   };
@@ -67,8 +92,14 @@ export interface StructuredComparisonBlock {
   citations: {
     missing: string[];
     extra: string[];
+    matches: CitationMatch[];
   };
   numbers: NumericDiscrepancy[];
+  dates: TemporalDiscrepancy[];
+  infobox: InfoboxFieldComparison[];
+  tables: TableComparison[];
+  sources: SourceOverlap;
+  source_quality: SourceQuality;
   entities: EntityDiscrepancy[];
 }
 
@@ -77,6 +108,7 @@ export interface StructuredDiscrepancyBlock {
   bias: DiscrepancyRecord[];
   hallucinations: DiscrepancyRecord[];
   factual_errors: DiscrepancyRecord[];
+  contradictions: DiscrepancyRecord[];
   highlights: {
     missing: HighlightSnippet[];
     extra: HighlightSnippet[];
@@ -86,7 +118,15 @@ export interface StructuredDiscrepancyBlock {
 export interface StructuredAttachments {
   diff_sample: string[];
   bias_verifications?: BiasVerificationRecord[];
+  /** Totals of the LLM verification run; per-event verdicts sit on each discrepancy. */
+  llm_verification?: LlmVerificationSummary;
   citation_verifications?: CitationVerificationRecord[];
+  /** Per-article support counts for the checked sentences (`--verify-citations`). */
+  citation_verifiability?: CitationVerifiability;
+  /** Health of the reference links fetched during citation verification. */
+  link_health?: LinkHealthRecord[];
+  /** Per-article link-rot rates over `link_health`. */
+  link_rot?: LinkRot;
   gemini_summary?: GeminiSummary | null;
 }
 
@@ -95,16 +135,17 @@ export interface StructuredAnalysisReport {
   topic: {
     id: string;
     title: string;
+    lang: string;
     category?: string | null;
     ual?: string | null;
-    slugs: {
-      wikipedia: string;
-      grokipedia: string;
-    };
-    urls: {
-      wikipedia: string;
-      grokipedia: string;
-    };
+    /** Page slug of the topic on each side's source. */
+    slugs: Record<ComparisonSide, string>;
+    urls: Record<ComparisonSide, string>;
+  };
+  /** Configured source behind each side of the comparison. */
+  sources: {
+    reference: ComparedSource;
+    candidate: ComparedSource;
   };
   meta: AnalysisMeta;
   generated_at: string;
@@ -115,10 +156,38 @@ export interface StructuredAnalysisReport {
   bias_metrics: BiasMetrics;
 }
 
+type ReportSources = StructuredAnalysisReport['sources'];
+
+/**
+ * Sides of a payload without `meta.sources`. Those were written before source adapters existed
+ * and always compare Wikipedia with Grokipedia.
+ */
+const defaultSources = (topic: Topic): ReportSources => {
+  const urls = topicUrls(topic);
+  return {
+    reference: {
+      id: 'wiki',
+      label: DEFAULT_SOURCE_LABELS.reference,
+      slug: topic.wikipedia_slug,
+      url: urls.wikipedia,
+    },
+    candidate: {
+      id: 'grok',
+      label: DEFAULT_SOURCE_LABELS.candidate,
+      slug: topic.grokipedia_slug,
+      url: urls.grokipedia,
+    },
+  };
+};
+
 const formatCount = (count: number, singular: string, plural: string): string =>
   `${count} ${count === 1 ? singular : plural}`;
 
-const buildHeadline = (topic: Topic, summary: StructuredAnalysisSummary): string => {
+const buildHeadline = (
+  topic: Topic,
+  summary: StructuredAnalysisSummary,
+  sources: ReportSources,
+): string => {
   const parts: string[] = [];
   if (summary.discrepancy_count) {
     parts.push(formatCount(summary.discrepancy_count, 'discrepancy', 'discrepancies'));
@@ -132,7 +201,7 @@ const buildHeadline = (topic: Topic, summary: StructuredAnalysisSummary): string
     );
   }
   if (!parts.length) {
-    return `Grokipedia remains aligned with Wikipedia for ${topic.title}.`;
+    return `${sources.candidate.label} remains aligned with ${sources.reference.label} for ${topic.title}.`;
   }
   return `Detected ${parts.join(' + ')} for ${topic.title}.`;
 };
@@ -141,7 +210,7 @@ export const buildStructuredAnalysis = (
   topic: Topic,
   payload: AnalysisPayload,
 ): StructuredAnalysisReport => {
-  const urls = topicUrls(topic);
+  const sources = payload.meta.sources ?? defaultSources(topic);
   const summary: StructuredAnalysisSummary = {
     similarity_ratio: payload.stats.similarity_ratio,
     ngram_overlap: payload.ngram_overlap,
@@ -159,10 +228,23 @@ export const buildStructuredAnalysis = (
     bias_event_count: payload.bias_events.length,
     hallucination_count: payload.hallucination_events.length,
     factual_error_count: payload.factual_errors.length,
+    contradiction_count: payload.contradictions?.length ?? 0,
+    temporal_discrepancy_count: payload.temporal_discrepancies.length,
+    infobox_mismatch_count: payload.infobox_comparisons.filter(
+      (comparison) => comparison.status === 'mismatch',
+    ).length,
+    table_cell_change_count: payload.table_comparisons.reduce(
+      (sum, table) => sum + table.changed_cells.length,
+      0,
+    ),
+    source_overlap_ratio: payload.source_overlap.overlap_ratio,
+    deprecated_source_count: payload.discrepancies.filter(
+      (event) => event.type === 'deprecated_source',
+    ).length,
     headline: '',
     confidence: payload.confidence,
   };
-  summary.headline = buildHeadline(topic, summary);
+  summary.headline = buildHeadline(topic, summary, sources);
 
   const comparison: StructuredComparisonBlock = {
     sentences: {
@@ -182,6 +264,11 @@ export const buildStructuredAnalysis = (
     },
     citations: payload.citations,
     numbers: payload.numeric_discrepancies,
+    dates: payload.temporal_discrepancies,
+    infobox: payload.infobox_comparisons,
+    tables: payload.table_comparisons,
+    sources: payload.source_overlap,
+    source_quality: payload.source_quality,
     entities: payload.entity_discrepancies,
   };
 
@@ -190,13 +277,21 @@ export const buildStructuredAnalysis = (
     bias: payload.bias_events,
     hallucinations: payload.hallucination_events,
     factual_errors: payload.factual_errors,
+    contradictions: payload.contradictions ?? [],
     highlights: payload.highlights,
   };
 
   const attachments: StructuredAttachments = {
     diff_sample: payload.diff_sample,
     bias_verifications: payload.bias_verifications,
+    ...(payload.llm_verification ? { llm_verification: payload.llm_verification } : {}),
     citation_verifications: payload.citation_verifications,
+    ...(payload.citation_verifications
+      ? { citation_verifiability: summarizeVerifiability(payload.citation_verifications) }
+      : {}),
+    ...(payload.link_health
+      ? { link_health: payload.link_health, link_rot: summarizeLinkHealth(payload.link_health) }
+      : {}),
     gemini_summary: payload.gemini_summary,
   };
 
@@ -205,14 +300,13 @@ export const buildStructuredAnalysis = (
     topic: {
       id: topic.id,
       title: topic.title,
+      lang: topicLang(topic),
       category: topic.category ?? null,
       ual: topic.ual ?? null,
-      slugs: {
-        wikipedia: topic.wikipedia_slug,
-        grokipedia: topic.grokipedia_slug,
-      },
-      urls,
+      slugs: { reference: sources.reference.slug, candidate: sources.candidate.slug },
+      urls: { reference: sources.reference.url, candidate: sources.candidate.url },
     },
+    sources,
     meta: payload.meta,
     generated_at: payload.updated_at,
     summary,
@@ -235,5 +329,11 @@ export const coerceStructuredAnalysisReport = (
   if (isStructuredAnalysisReport(payload)) {
     return payload;
   }
+  const schema = (payload as { schema?: unknown }).schema;
+  if (typeof schema === 'string') {
+    throw new Error(
+      `Analysis for topic '${topic.id}' uses schema ${schema}, not ${STRUCTURED_ANALYSIS_SCHEMA}. Run 'gwaln analyse --topic ${topic.id}' to regenerate it.`,
+    );
+  }
   return buildStructuredAnalysis(topic, payload as AnalysisPayload);
 };
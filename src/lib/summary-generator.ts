@@ -4,33 +4,45 @@
  * @author Doğu Abaris <abaris@null.net>
  */
 
-import { pipeline, type SummarizationPipeline } from '@xenova/transformers';
-
-let summarizerInstance: SummarizationPipeline | null = null;
+import type { SummarizationPipeline } from '@xenova/transformers';
+import { cachedModelCall, type LlmUsageRecorder } from '../llm';
+import { loadModelPipeline, resolveModelPipeline } from './model-manager';
 
 export async function initSummarizer(): Promise<SummarizationPipeline> {
-  if (!summarizerInstance) {
-    summarizerInstance = (await pipeline(
-      'summarization',
-      'Xenova/distilbart-cnn-6-6',
-    )) as SummarizationPipeline;
-  }
-  return summarizerInstance;
+  return loadModelPipeline<SummarizationPipeline>('summary');
 }
 
 export interface SummaryOptions {
   maxLength?: number;
   minLength?: number;
+  /** Records cache hits and misses of the current run. */
+  usage?: LlmUsageRecorder;
 }
 
 export async function generateSummary(text: string, options: SummaryOptions = {}): Promise<string> {
-  const summarizer = await initSummarizer();
-
-  const rawResult = await summarizer(text, {
+  const generation = {
     max_new_tokens: options.maxLength ?? 100,
     min_length: options.minLength ?? 30,
-  });
-
-  const result = Array.isArray(rawResult) ? rawResult[0] : rawResult;
-  return (result as { summary_text: string }).summary_text;
+  };
+  const spec = resolveModelPipeline('summary');
+  return cachedModelCall(
+    {
+      provider: 'transformers',
+      model: spec.model,
+      params: {
+        task: spec.task,
+        quantized: spec.quantized,
+        revision: spec.revision,
+        ...generation,
+      },
+      input: text,
+    },
+    async () => {
+      const summarizer = await initSummarizer();
+      const rawResult = await summarizer(text, generation);
+      const result = Array.isArray(rawResult) ? rawResult[0] : rawResult;
+      return { value: (result as { summary_text: string }).summary_text };
+    },
+    { recorder: options.usage, local: true },
+  );
 }
@@ -0,0 +1,312 @@
+/**
+ * @file src/lib/table-comparison.ts
+ * @description Diffs the tables of both articles. Tables are paired by header and row-label
+ *              overlap, columns by header, and rows by their first cell. Paired cells are
+ *              compared as numbers (with the unit-aware numeric check) when both hold quantities
+ *              and as normalized text otherwise, so the result lists missing and extra rows,
+ *              changed cells, and numeric deltas.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import stringSimilarity from 'string-similarity';
+import { extractNumbers } from '../parsers/shared/numbers';
+import type { StructuredArticle, StructuredClaim, StructuredTable } from '../parsers/shared/types';
+import { DEFAULT_SOURCE_LABELS } from '../shared/analyzer-config';
+import type { DiscrepancyRecord, SourceLabels } from './analyzer';
+import { maximumWeightAssignment, sparseWeights } from './assignment';
+import { detectNumericDiscrepancies, numericRole, type NumericTolerances } from './discrepancies';
+
+export interface TableCellChange {
+  row: string;
+  column: string;
+  reference_value: string;
+  candidate_value: string;
+  kind: 'text' | 'numeric';
+  /** Relative difference of the paired numbers (numeric changes only). */
+  relative_difference?: number;
+  description: string;
+}
+
+export interface TableComparison {
+  reference_table_id: string;
+  /** Null when no candidate table resembles the reference one. */
+  candidate_table_id: string | null;
+  caption: string | null;
+  similarity: number;
+  missing_rows: string[];
+  extra_rows: string[];
+  changed_cells: TableCellChange[];
+}
+
+export interface TableComparisonOptions {
+  tolerances?: NumericTolerances;
+  /** Names of the compared sources, used in descriptions. */
+  labels?: SourceLabels;
+}
+
+export interface TableComparisonResult {
+  comparisons: TableComparison[];
+  events: DiscrepancyRecord[];
+}
+
+/** Minimum header/row-label overlap before two tables are treated as the same table. */
+const TABLE_MATCH_THRESHOLD = 0.3;
+/** Minimum header similarity before two columns are paired. */
+const COLUMN_MATCH_THRESHOLD = 0.6;
+
+const normalizeCell = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}.]+/gu, ' ')
+    .trim();
+
+const round = (value: number): number => Number(value.toFixed(3));
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (!a.size || !b.size) return 0;
+  const shared = [...a].filter((value) => b.has(value)).length;
+  return shared / (a.size + b.size - shared);
+};
+
+const rowKey = (row: StructuredTable['rows'][number]): string => normalizeCell(row[0]?.text ?? '');
+
+const rowKeys = (table: StructuredTable): Set<string> =>
+  new Set(table.rows.map(rowKey).filter(Boolean));
+
+const tableSimilarity = (wiki: StructuredTable, grok: StructuredTable): number => {
+  const headers = jaccard(
+    new Set(wiki.headers.map(normalizeCell)),
+    new Set(grok.headers.map(normalizeCell)),
+  );
+  const rows = jaccard(rowKeys(wiki), rowKeys(grok));
+  const caption =
+    wiki.caption && grok.caption
+      ? stringSimilarity.compareTwoStrings(normalizeCell(wiki.caption), normalizeCell(grok.caption))
+      : 0;
+  return round(Math.max(headers, rows, caption) * 0.6 + ((headers + rows) / 2) * 0.4);
+};
+
+/**
+ * Pairs columns by header similarity, or by position when either table has no header row.
+ * Returns, for each reference column, the matching candidate column or -1.
+ */
+const pairColumns = (wiki: StructuredTable, grok: StructuredTable): number[] => {
+  const width = (table: StructuredTable) =>
+    Math.max(table.headers.length, ...table.rows.map((row) => row.length));
+  if (!wiki.headers.length || !grok.headers.length) {
+    return Array.from({ length: width(wiki) }, (_, col) => (col < width(grok) ? col : -1));
+  }
+  const weights = wiki.headers.map((wikiHeader) =>
+    grok.headers.map((grokHeader) => {
+      const score = stringSimilarity.compareTwoStrings(
+        normalizeCell(wikiHeader),
+        normalizeCell(grokHeader),
+      );
+      return normalizeCell(wikiHeader) === normalizeCell(grokHeader)
+        ? 1
+        : score >= COLUMN_MATCH_THRESHOLD
+          ? score
+          : null;
+    }),
+  );
+  const pairs = maximumWeightAssignment(sparseWeights(weights), grok.headers.length);
+  // The first column labels the row; keep it paired even when the headers differ.
+  if (pairs[0] === -1 && !pairs.includes(0)) pairs[0] = 0;
+  return pairs;
+};
+
+const asClaim = (claimId: string, text: string): StructuredClaim => ({
+  claim_id: claimId,
+  text,
+  normalized_text: text.toLowerCase(),
+  entities: [],
+  time: null,
+  temporal: [],
+  numbers: extractNumbers(text),
+  citation_ids: [],
+});
+
+const hasQuantity = (claim: StructuredClaim): boolean =>
+  claim.numbers.some((number) => numericRole(number) !== 'date');
+
+/**
+ * Compares two cells. Returns null when they agree: identical after normalization, or numbers
+ * within tolerance once units are converted.
+ */
+const compareCells = (
+  wikiText: string,
+  grokText: string,
+  tolerances: NumericTolerances | undefined,
+): Pick<TableCellChange, 'kind' | 'relative_difference' | 'description'> | null => {
+  if (normalizeCell(wikiText) === normalizeCell(grokText)) return null;
+  const wiki = asClaim('wiki-cell', wikiText);
+  const grok = asClaim('grok-cell', grokText);
+  if (hasQuantity(wiki) && hasQuantity(grok)) {
+    const [mismatch] = detectNumericDiscrepancies(
+      [{ reference: wiki, candidate: grok, similarity: 1, method: null }],
+      { tolerances },
+    );
+    if (!mismatch) return null;
+    return {
+      kind: 'numeric',
+      relative_difference: mismatch.relative_difference,
+      description: mismatch.description,
+    };
+  }
+  return { kind: 'text', description: `Cell differs ("${wikiText}" vs "${grokText}").` };
+};
+
+const diffTables = (
+  wiki: StructuredTable,
+  grok: StructuredTable,
+  similarity: number,
+  tolerances: NumericTolerances | undefined,
+): TableComparison => {
+  const columns = pairColumns(wiki, grok);
+  const grokRows = new Map<string, StructuredTable['rows'][number]>();
+  grok.rows.forEach((row) => {
+    const key = rowKey(row);
+    if (key && !grokRows.has(key)) grokRows.set(key, row);
+  });
+  const missing: string[] = [];
+  const changed: TableCellChange[] = [];
+  const seen = new Set<string>();
+  for (const row of wiki.rows) {
+    const key = rowKey(row);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    const counterpart = grokRows.get(key);
+    if (!counterpart) {
+      missing.push(row[0].text);
+      continue;
+    }
+    row.forEach((cell, col) => {
+      const grokCol = columns[col] ?? -1;
+      if (col === 0 || grokCol < 0 || !cell.text) return;
+      const grokText = counterpart[grokCol]?.text ?? '';
+      if (!grokText) return;
+      const change = compareCells(cell.text, grokText, tolerances);
+      if (!change) return;
+      changed.push({
+        row: row[0].text,
+        column: wiki.headers[col] || `Column ${col + 1}`,
+        reference_value: cell.text,
+        candidate_value: grokText,
+        ...change,
+      });
+    });
+  }
+  const wikiKeys = rowKeys(wiki);
+  const extra = grok.rows
+    .filter((row) => rowKey(row) && !wikiKeys.has(rowKey(row)))
+    .map((row) => row[0].text);
+  return {
+    reference_table_id: wiki.table_id,
+    candidate_table_id: grok.table_id,
+    caption: wiki.caption ?? grok.caption,
+    similarity,
+    missing_rows: missing,
+    extra_rows: Array.from(new Set(extra)),
+    changed_cells: changed,
+  };
+};
+
+const tableLabel = (table: StructuredTable): string =>
+  table.caption ? `"${table.caption}"` : table.table_id;
+
+const buildEvents = (
+  comparison: TableComparison,
+  wiki: StructuredTable,
+  labels: SourceLabels,
+): DiscrepancyRecord[] => {
+  const label = tableLabel(wiki);
+  const evidence = { table_id: comparison.reference_table_id };
+  if (!comparison.candidate_table_id) {
+    return [
+      {
+        type: 'table_discrepancy',
+        description: `Table ${label} (${wiki.rows.length} rows) has no counterpart on ${labels.candidate}.`,
+        evidence: { ...evidence, reference: wiki.headers.join(' | ') || label },
+        severity: 2,
+        category: 'structure',
+        tags: ['table', 'missing_table'],
+      },
+    ];
+  }
+  const events: DiscrepancyRecord[] = comparison.changed_cells.map((change) => ({
+    type: 'table_discrepancy',
+    description: `Table ${label}, ${change.row} / ${change.column}: ${change.description}`,
+    evidence: {
+      ...evidence,
+      reference: change.reference_value,
+      candidate: change.candidate_value,
+    },
+    severity: change.kind === 'numeric' ? 4 : 3,
+    category: 'factual',
+    tags: ['table', change.kind === 'numeric' ? 'numeric_mismatch' : 'cell_changed'],
+  }));
+  if (comparison.missing_rows.length) {
+    events.push({
+      type: 'table_discrepancy',
+      description: `Table ${label} is missing ${comparison.missing_rows.length} row(s) on ${labels.candidate}.`,
+      evidence: { ...evidence, reference: comparison.missing_rows.join(', ') },
+      severity: 2,
+      category: 'structure',
+      tags: ['table', 'missing_rows'],
+    });
+  }
+  if (comparison.extra_rows.length) {
+    events.push({
+      type: 'table_discrepancy',
+      description: `${labels.candidate} adds ${comparison.extra_rows.length} row(s) to table ${label}.`,
+      evidence: { ...evidence, candidate: comparison.extra_rows.join(', ') },
+      severity: 2,
+      category: 'structure',
+      tags: ['table', 'extra_rows'],
+    });
+  }
+  return events;
+};
+
+/**
+ * Pairs every reference table with at most one candidate table (maximum total similarity) and
+ * diffs each pair. Reference tables without a counterpart are reported as missing.
+ */
+export const compareTables = (
+  wiki: StructuredArticle,
+  grok: StructuredArticle,
+  options: TableComparisonOptions = {},
+): TableComparisonResult => {
+  const wikiTables = wiki.tables ?? [];
+  const grokTables = grok.tables ?? [];
+  const scores = wikiTables.map((wikiTable) =>
+    grokTables.map((grokTable) => tableSimilarity(wikiTable, grokTable)),
+  );
+  const pairs = maximumWeightAssignment(
+    sparseWeights(
+      scores.map((row) => row.map((score) => (score >= TABLE_MATCH_THRESHOLD ? score : null))),
+    ),
+    grokTables.length,
+  );
+  const comparisons: TableComparison[] = [];
+  const events: DiscrepancyRecord[] = [];
+  wikiTables.forEach((wikiTable, idx) => {
+    const grokTable = pairs[idx] >= 0 ? grokTables[pairs[idx]] : null;
+    const comparison: TableComparison = grokTable
+      ? diffTables(wikiTable, grokTable, scores[idx][pairs[idx]], options.tolerances)
+      : {
+          reference_table_id: wikiTable.table_id,
+          candidate_table_id: null,
+          caption: wikiTable.caption,
+          similarity: 0,
+          missing_rows: Array.from(
+            new Set(wikiTable.rows.map((row) => row[0]?.text ?? '').filter(Boolean)),
+          ),
+          extra_rows: [],
+          changed_cells: [],
+        };
+    comparisons.push(comparison);
+    events.push(...buildEvents(comparison, wikiTable, options.labels ?? DEFAULT_SOURCE_LABELS));
+  });
+  return { comparisons, events };
+};
@@ -0,0 +1,346 @@
+/**
+ * @file src/llm/cache.ts
+ * @description Content-addressed cache of model output under `~/.gwaln/cache/llm`. Entries are
+ *              keyed by a SHA-256 of the provider, model, request parameters, and input, so
+ *              `gwaln analyse --force` only pays for prompts that changed. Covers LLM providers
+ *              (`withLlmCache`) and local transformers.js pipelines (`cachedModelCall`). Entries
+ *              expire after `llmCacheTtlHours`; `gwaln cache llm --prune` deletes them.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { readConfig } from '../shared/config';
+import { stableStringify } from '../shared/content-hash';
+import { paths } from '../shared/paths';
+import type { LlmProvider, LlmResponse, LlmUsage } from './types';
+import type { LlmUsageRecorder } from './usage';
+
+export const DEFAULT_LLM_CACHE_TTL_HOURS = 24 * 30;
+
+/** Bumped when the entry layout changes so old entries stop matching. */
+const CACHE_FORMAT = 1;
+
+export interface LlmCacheSettings {
+  enabled: boolean;
+  ttlHours: number;
+  dir: string;
+}
+
+export interface LlmCacheKeyParts {
+  /** Provider id (`gemini`, a named `llmProviders` entry) or `transformers` for local pipelines. */
+  provider: string;
+  model: string;
+  /** Everything besides the input that changes the output: system prompt, temperature, labels. */
+  params?: Record<string, unknown>;
+  input: string;
+}
+
+interface LlmCacheEntry<T> {
+  key: string;
+  provider: string;
+  model: string;
+  stored_at: string;
+  hits: number;
+  last_hit_at: string | null;
+  usage?: LlmUsage;
+  value: T;
+}
+
+/** Hits and misses of the current process. */
+export interface LlmCacheCounters {
+  hits: number;
+  misses: number;
+}
+
+export interface LlmCacheModelStats {
+  provider: string;
+  model: string;
+  entries: number;
+  hits: number;
+}
+
+export interface LlmCacheStats {
+  dir: string;
+  enabled: boolean;
+  ttl_hours: number;
+  entries: number;
+  bytes: number;
+  expired: number;
+  /** Unreadable entry files; `--prune` deletes them. */
+  invalid: number;
+  /** Hits recorded on the stored entries; every entry stands for one miss. */
+  hits: number;
+  hit_rate: number | null;
+  oldest: string | null;
+  newest: string | null;
+  models: LlmCacheModelStats[];
+}
+
+export interface LlmCachePruneResult {
+  removed: number;
+  freed_bytes: number;
+  remaining: number;
+}
+
+export interface CachedCallOptions {
+  recorder?: LlmUsageRecorder;
+  /** Runs on this machine, so usage is recorded without cost. */
+  local?: boolean;
+}
+
+let overrides: Partial<LlmCacheSettings> = {};
+let resolved: LlmCacheSettings | null = null;
+const counters: LlmCacheCounters = { hits: 0, misses: 0 };
+const serverModels = new Map<string, Promise<string | null>>();
+
+const settings = (): LlmCacheSettings => {
+  if (!resolved) {
+    const cfg = readConfig();
+    resolved = {
+      enabled: cfg.llmCache ?? true,
+      ttlHours: cfg.llmCacheTtlHours ?? DEFAULT_LLM_CACHE_TTL_HOURS,
+      dir: paths.LLM_CACHE_DIR,
+      ...overrides,
+    };
+  }
+  return resolved;
+};
+
+/** Overrides cache settings for the current process (tests, one-off commands). */
+export const configureLlmCache = (update: Partial<LlmCacheSettings> = {}): void => {
+  overrides = { ...overrides, ...update };
+  resolved = null;
+};
+
+export const resetLlmCache = (): void => {
+  overrides = {};
+  counters.hits = 0;
+  counters.misses = 0;
+  serverModels.clear();
+  configureLlmCache();
+};
+
+export const getLlmCacheCounters = (): LlmCacheCounters => ({ ...counters });
+
+export const llmCacheKey = (parts: LlmCacheKeyParts): string =>
+  crypto
+    .createHash('sha256')
+    .update(stableStringify({ format: CACHE_FORMAT, ...parts }))
+    .digest('hex');
+
+const entryFile = (dir: string, key: string): string =>
+  path.join(dir, key.slice(0, 2), `${key}.json`);
+
+const readEntry = <T>(file: string): LlmCacheEntry<T> | null => {
+  try {
+    const entry = JSON.parse(fs.readFileSync(file, 'utf8')) as LlmCacheEntry<T>;
+    return typeof entry?.stored_at === 'string' && 'value' in entry ? entry : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeEntry = (file: string, entry: LlmCacheEntry<unknown>): void => {
+  try {
+    paths.ensureDir(path.dirname(file));
+    fs.writeFileSync(file, JSON.stringify(entry), 'utf8');
+  } catch {
+    /* cache writes are best-effort */
+  }
+};
+
+const isExpired = (entry: LlmCacheEntry<unknown>, ttlHours: number, now: number): boolean => {
+  const storedAt = Date.parse(entry.stored_at);
+  return Number.isNaN(storedAt) || now - storedAt > ttlHours * 60 * 60 * 1000;
+};
+
+/**
+ * Returns the cached value for `parts`, or runs `compute` and stores its result. Hits and misses
+ * are counted for the process and, with `options.recorder`, for the current run. Failures of
+ * `compute` propagate and are never cached.
+ */
+export const cachedModelCall = async <T>(
+  parts: LlmCacheKeyParts,
+  compute: () => Promise<{ value: T; usage?: LlmUsage; model?: string }>,
+  options: CachedCallOptions = {},
+): Promise<T> => {
+  const { enabled, ttlHours, dir } = settings();
+  const key = llmCacheKey(parts);
+  const file = entryFile(dir, key);
+  if (enabled) {
+    const entry = readEntry<T>(file);
+    if (entry && !isExpired(entry, ttlHours, Date.now())) {
+      counters.hits += 1;
+      writeEntry(file, { ...entry, hits: entry.hits + 1, last_hit_at: new Date().toISOString() });
+      options.recorder?.record({
+        provider: parts.provider,
+        model: entry.model,
+        cached: true,
+        usage: entry.usage,
+        local: options.local,
+      });
+      return entry.value;
+    }
+    counters.misses += 1;
+  }
+  const result = await compute();
+  const model = result.model ?? parts.model;
+  options.recorder?.record({
+    provider: parts.provider,
+    model,
+    cached: false,
+    usage: result.usage,
+    local: options.local,
+  });
+  if (enabled) {
+    writeEntry(file, {
+      key,
+      provider: parts.provider,
+      model,
+      stored_at: new Date().toISOString(),
+      hits: 0,
+      last_hit_at: null,
+      ...(result.usage ? { usage: result.usage } : {}),
+      value: result.value,
+    });
+  }
+  return result.value;
+};
+
+/** The model a local server reports, asked once per process; null when it cannot tell. */
+const serverModelFor = (provider: LlmProvider): Promise<string | null> => {
+  if (!provider.serverModel) return Promise.resolve(null);
+  const key = `${provider.type}\u0000${provider.endpoint}\u0000${provider.model}`;
+  if (!serverModels.has(key)) {
+    serverModels.set(
+      key,
+      provider.serverModel().catch(() => null),
+    );
+  }
+  return serverModels.get(key)!;
+};
+
+/**
+ * Wraps `provider` so identical requests are answered from the cache. The key covers the provider
+ * id, endpoint, model (for local servers, the model the server reports), prompt, system prompt,
+ * temperature, JSON mode, and token limit.
+ */
+export const withLlmCache = (provider: LlmProvider, recorder?: LlmUsageRecorder): LlmProvider => ({
+  ...provider,
+  complete: async (request) => {
+    let fresh = false;
+    const serverModel = await serverModelFor(provider);
+    const response = await cachedModelCall<LlmResponse>(
+      {
+        provider: provider.id,
+        model: provider.model,
+        params: {
+          type: provider.type,
+          endpoint: provider.endpoint,
+          server_model: serverModel ?? undefined,
+          system: request.system,
+          temperature: request.temperature,
+          json: request.json,
+          maxTokens: request.maxTokens,
+        },
+        input: request.prompt,
+      },
+      async () => {
+        fresh = true;
+        const value = await provider.complete(request);
+        return { value, usage: value.usage, model: value.model };
+      },
+      { recorder, local: provider.type === 'ollama' || provider.type === 'llamacpp' },
+    );
+    return fresh ? response : { ...response, cached: true };
+  },
+});
+
+const listEntryFiles = (dir: string): string[] => {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((shard) => shard.isDirectory())
+    .flatMap((shard) =>
+      fs
+        .readdirSync(path.join(dir, shard.name))
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => path.join(dir, shard.name, name)),
+    );
+};
+
+/** Summarizes the entries on disk: size, age range, expired entries, and hits per model. */
+export const inspectLlmCache = (now = Date.now()): LlmCacheStats => {
+  const { enabled, ttlHours, dir } = settings();
+  const stats: LlmCacheStats = {
+    dir,
+    enabled,
+    ttl_hours: ttlHours,
+    entries: 0,
+    bytes: 0,
+    expired: 0,
+    invalid: 0,
+    hits: 0,
+    hit_rate: null,
+    oldest: null,
+    newest: null,
+    models: [],
+  };
+  const models = new Map<string, LlmCacheModelStats>();
+  listEntryFiles(dir).forEach((file) => {
+    stats.bytes += fs.statSync(file).size;
+    const entry = readEntry<unknown>(file);
+    if (!entry) {
+      stats.invalid += 1;
+      return;
+    }
+    stats.entries += 1;
+    stats.hits += entry.hits ?? 0;
+    if (isExpired(entry, ttlHours, now)) stats.expired += 1;
+    if (!stats.oldest || entry.stored_at < stats.oldest) stats.oldest = entry.stored_at;
+    if (!stats.newest || entry.stored_at > stats.newest) stats.newest = entry.stored_at;
+    const key = `${entry.provider}\u0000${entry.model}`;
+    const model = models.get(key) ?? {
+      provider: entry.provider,
+      model: entry.model,
+      entries: 0,
+      hits: 0,
+    };
+    model.entries += 1;
+    model.hits += entry.hits ?? 0;
+    models.set(key, model);
+  });
+  const lookups = stats.hits + stats.entries;
+  stats.hit_rate = lookups ? Number((stats.hits / lookups).toFixed(3)) : null;
+  stats.models = Array.from(models.values()).sort(
+    (left, right) => right.entries - left.entries || left.model.localeCompare(right.model),
+  );
+  return stats;
+};
+
+/** Deletes expired and unreadable entries, or every entry with `all`. */
+export const pruneLlmCache = ({ all = false, now = Date.now() } = {}): LlmCachePruneResult => {
+  const { ttlHours, dir } = settings();
+  const result: LlmCachePruneResult = { removed: 0, freed_bytes: 0, remaining: 0 };
+  listEntryFiles(dir).forEach((file) => {
+    const entry = readEntry<unknown>(file);
+    if (!all && entry && !isExpired(entry, ttlHours, now)) {
+      result.remaining += 1;
+      return;
+    }
+    result.freed_bytes += fs.statSync(file).size;
+    fs.rmSync(file, { force: true });
+    result.removed += 1;
+  });
+  if (fs.existsSync(dir)) {
+    fs.readdirSync(dir, { withFileTypes: true })
+      .filter((shard) => shard.isDirectory())
+      .forEach((shard) => {
+        const shardDir = path.join(dir, shard.name);
+        if (!fs.readdirSync(shardDir).length) fs.rmdirSync(shardDir);
+      });
+  }
+  return result;
+};
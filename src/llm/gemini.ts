@@ -0,0 +1,73 @@
+/**
+ * @file src/llm/gemini.ts
+ * @description Gemini provider speaking the Generative Language `generateContent` REST API.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { joinUrl, postJson } from './request';
+import type { LlmProvider, LlmProviderConfig } from './types';
+
+export const GEMINI_DEFAULT_ENDPOINT = 'https://generativelanguage.googleapis.com';
+export const GEMINI_DEFAULT_MODEL = 'gemini-1.5-flash';
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{ text?: string }>;
+    };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+  error?: {
+    message?: string;
+  };
+}
+
+export const createGeminiProvider = (config: LlmProviderConfig): LlmProvider => ({
+  id: config.id,
+  type: config.type,
+  endpoint: config.endpoint,
+  model: config.model,
+  complete: async ({ prompt, system, temperature = 0, json, maxTokens }) => {
+    const target = joinUrl(
+      config.endpoint,
+      `/v1beta/models/${encodeURIComponent(config.model)}:generateContent`,
+    );
+    const payload = await postJson<GeminiResponse>(
+      config,
+      target,
+      {
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature,
+          ...(json ? { responseMimeType: 'application/json' } : {}),
+          ...(maxTokens ? { maxOutputTokens: maxTokens } : {}),
+        },
+      },
+      config.apiKey ? { 'x-goog-api-key': config.apiKey } : {},
+    );
+    if (payload.error?.message) {
+      throw new Error(`Gemini API returned an error: ${payload.error.message}`);
+    }
+    const text =
+      payload.candidates?.[0]?.content?.parts
+        ?.map((part) => part.text ?? '')
+        .join('\n')
+        .trim() ?? '';
+    if (!text) {
+      throw new Error('Gemini response contained no text content.');
+    }
+    return {
+      text,
+      model: config.model,
+      usage: {
+        inputTokens: payload.usageMetadata?.promptTokenCount,
+        outputTokens: payload.usageMetadata?.candidatesTokenCount,
+      },
+      raw: payload,
+    };
+  },
+});
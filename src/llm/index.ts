@@ -0,0 +1,71 @@
+/**
+ * @file src/llm/index.ts
+ * @description LLM provider entry point
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+export {
+  createLlmProvider,
+  DEFAULT_LLM_PROVIDER,
+  resolveLlmProviderConfig,
+  type LlmProviderOverrides,
+} from './registry';
+
+export { createGeminiProvider, GEMINI_DEFAULT_ENDPOINT, GEMINI_DEFAULT_MODEL } from './gemini';
+
+export {
+  createOpenAiProvider,
+  LLAMACPP_DEFAULT_ENDPOINT,
+  OPENAI_DEFAULT_ENDPOINT,
+  OPENAI_DEFAULT_MODEL,
+} from './openai';
+
+export { createOllamaProvider, OLLAMA_DEFAULT_ENDPOINT, OLLAMA_DEFAULT_MODEL } from './ollama';
+
+export { DEFAULT_LLM_TIMEOUT_MS } from './request';
+
+export { createPromptFence, defangFenceTags, type PromptFence } from './prompt';
+
+export {
+  completeStructured,
+  DEFAULT_STRUCTURED_ATTEMPTS,
+  extractJson,
+  LlmResponseError,
+  type StructuredRequest,
+  type StructuredResult,
+} from './structured';
+
+export {
+  cachedModelCall,
+  configureLlmCache,
+  DEFAULT_LLM_CACHE_TTL_HOURS,
+  getLlmCacheCounters,
+  inspectLlmCache,
+  llmCacheKey,
+  pruneLlmCache,
+  resetLlmCache,
+  withLlmCache,
+  type LlmCacheKeyParts,
+  type LlmCachePruneResult,
+  type LlmCacheSettings,
+  type LlmCacheStats,
+} from './cache';
+
+export {
+  createLlmUsageRecorder,
+  findLlmPrice,
+  LLM_PRICING,
+  type LlmUsageRecorder,
+  type LlmUsageReport,
+} from './usage';
+
+export type {
+  LlmPrice,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderDefinition,
+  LlmProviderType,
+  LlmRequest,
+  LlmResponse,
+  LlmUsage,
+} from './types';
@@ -0,0 +1,76 @@
+/**
+ * @file src/llm/ollama.ts
+ * @description Provider for a local Ollama server using the non-streaming `/api/chat` endpoint.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { httpRequestJson } from '../shared/http';
+import { joinUrl, postJson, SERVER_LOOKUP_TIMEOUT_MS } from './request';
+import type { LlmProvider, LlmProviderConfig } from './types';
+
+export const OLLAMA_DEFAULT_ENDPOINT = 'http://localhost:11434';
+export const OLLAMA_DEFAULT_MODEL = 'llama3.1';
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+interface OllamaTagsResponse {
+  models?: Array<{ name?: string; digest?: string }>;
+}
+
+/** Names the weights behind the configured tag, which change when the tag is pulled again. */
+const readModelDigest = async (config: LlmProviderConfig): Promise<string | null> => {
+  const tags = await httpRequestJson<OllamaTagsResponse>(joinUrl(config.endpoint, '/api/tags'), {
+    headers: config.headers,
+    timeoutMs: SERVER_LOOKUP_TIMEOUT_MS,
+    maxRetries: 0,
+    cache: false,
+  });
+  const names = config.model.includes(':')
+    ? [config.model]
+    : [config.model, `${config.model}:latest`];
+  const entry = tags.models?.find((model) => model.name && names.includes(model.name));
+  return entry?.digest ? `${entry.name}@${entry.digest}` : null;
+};
+
+export const createOllamaProvider = (config: LlmProviderConfig): LlmProvider => ({
+  id: config.id,
+  type: config.type,
+  endpoint: config.endpoint,
+  model: config.model,
+  serverModel: () => readModelDigest(config),
+  complete: async ({ prompt, system, temperature = 0, json, maxTokens }) => {
+    const payload = await postJson<OllamaChatResponse>(
+      config,
+      joinUrl(config.endpoint, '/api/chat'),
+      {
+        model: config.model,
+        stream: false,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content: prompt },
+        ],
+        ...(json ? { format: 'json' } : {}),
+        options: { temperature, ...(maxTokens ? { num_predict: maxTokens } : {}) },
+      },
+    );
+    if (payload.error) {
+      throw new Error(`Ollama returned an error: ${payload.error}`);
+    }
+    const text = payload.message?.content?.trim() ?? '';
+    if (!text) {
+      throw new Error('Ollama response contained no message content.');
+    }
+    return {
+      text,
+      model: payload.model ?? config.model,
+      usage: { inputTokens: payload.prompt_eval_count, outputTokens: payload.eval_count },
+      raw: payload,
+    };
+  },
+});
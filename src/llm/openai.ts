@@ -0,0 +1,82 @@
+/**
+ * @file src/llm/openai.ts
+ * @description Provider for any OpenAI-compatible `/chat/completions` endpoint: OpenAI itself,
+ *              vLLM, LM Studio, or the llama.cpp server (`llama-server`).
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { httpRequestJson } from '../shared/http';
+import { joinUrl, postJson, SERVER_LOOKUP_TIMEOUT_MS } from './request';
+import type { LlmProvider, LlmProviderConfig } from './types';
+
+export const OPENAI_DEFAULT_ENDPOINT = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+export const LLAMACPP_DEFAULT_ENDPOINT = 'http://localhost:8080/v1';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+  error?: { message?: string };
+}
+
+interface ModelListResponse {
+  data?: Array<{ id?: string }>;
+}
+
+/** llama.cpp serves one model, listed first by `/models`, whatever the request names. */
+const readLoadedModel = async (config: LlmProviderConfig): Promise<string | null> => {
+  const list = await httpRequestJson<ModelListResponse>(joinUrl(config.endpoint, '/models'), {
+    headers: config.headers,
+    timeoutMs: SERVER_LOOKUP_TIMEOUT_MS,
+    maxRetries: 0,
+    cache: false,
+  });
+  return list.data?.[0]?.id ?? null;
+};
+
+export const createOpenAiProvider = (config: LlmProviderConfig): LlmProvider => ({
+  id: config.id,
+  type: config.type,
+  endpoint: config.endpoint,
+  model: config.model,
+  ...(config.type === 'llamacpp' ? { serverModel: () => readLoadedModel(config) } : {}),
+  complete: async ({ prompt, system, temperature = 0, json, maxTokens }) => {
+    const payload = await postJson<ChatCompletionResponse>(
+      config,
+      joinUrl(config.endpoint, '/chat/completions'),
+      {
+        model: config.model,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content: prompt },
+        ],
+        temperature,
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+        ...(maxTokens ? { max_tokens: maxTokens } : {}),
+      },
+      config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+    );
+    if (payload.error?.message) {
+      throw new Error(`${config.id} returned an error: ${payload.error.message}`);
+    }
+    const text = payload.choices?.[0]?.message?.content?.trim() ?? '';
+    if (!text) {
+      throw new Error(`${config.id} response contained no message content.`);
+    }
+    return {
+      text,
+      model: payload.model ?? config.model,
+      usage: {
+        inputTokens: payload.usage?.prompt_tokens,
+        outputTokens: payload.usage?.completion_tokens,
+      },
+      raw: payload,
+    };
+  },
+});
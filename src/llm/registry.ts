@@ -0,0 +1,133 @@
+/**
+ * @file src/llm/registry.ts
+ * @description Resolves a provider name (`--bias-verifier <name>`, `--llm-summary <name>`) into
+ *              a configured {@link LlmProvider}. Built-in names are `gemini`, `openai`, `ollama`,
+ *              and `llamacpp`; `llmProviders` in `.gwalnrc.json` overrides their defaults or adds
+ *              named providers, and `llmProvider` picks the default when no name is given.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { readConfig } from '../shared/config';
+import { createGeminiProvider, GEMINI_DEFAULT_ENDPOINT, GEMINI_DEFAULT_MODEL } from './gemini';
+import { createOllamaProvider, OLLAMA_DEFAULT_ENDPOINT, OLLAMA_DEFAULT_MODEL } from './ollama';
+import {
+  createOpenAiProvider,
+  LLAMACPP_DEFAULT_ENDPOINT,
+  OPENAI_DEFAULT_ENDPOINT,
+  OPENAI_DEFAULT_MODEL,
+} from './openai';
+import type {
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderDefinition,
+  LlmProviderType,
+} from './types';
+
+export const DEFAULT_LLM_PROVIDER = 'gemini';
+
+const PROVIDER_TYPES: LlmProviderType[] = ['gemini', 'openai', 'ollama', 'llamacpp'];
+
+interface ProviderDefaults {
+  endpoint: string;
+  model: string;
+  apiKeyEnv?: string;
+}
+
+const DEFAULTS: Record<LlmProviderType, ProviderDefaults> = {
+  gemini: {
+    endpoint: GEMINI_DEFAULT_ENDPOINT,
+    model: GEMINI_DEFAULT_MODEL,
+    apiKeyEnv: 'GEMINI_API_KEY',
+  },
+  openai: {
+    endpoint: OPENAI_DEFAULT_ENDPOINT,
+    model: OPENAI_DEFAULT_MODEL,
+    apiKeyEnv: 'OPENAI_API_KEY',
+  },
+  ollama: { endpoint: OLLAMA_DEFAULT_ENDPOINT, model: OLLAMA_DEFAULT_MODEL },
+  llamacpp: { endpoint: LLAMACPP_DEFAULT_ENDPOINT, model: 'local' },
+};
+
+/** Command-line overrides; `geminiKey`/`geminiModel` only apply to Gemini providers. */
+export interface LlmProviderOverrides {
+  model?: string;
+  endpoint?: string;
+  geminiKey?: string;
+  geminiModel?: string;
+}
+
+const isProviderType = (value: unknown): value is LlmProviderType =>
+  typeof value === 'string' && PROVIDER_TYPES.includes(value as LlmProviderType);
+
+/** Hosted APIs reject anonymous calls, so their keys are checked before any request is made. */
+const requiresApiKey = (type: LlmProviderType, endpoint: string): boolean =>
+  type === 'gemini' || (type === 'openai' && endpoint === OPENAI_DEFAULT_ENDPOINT);
+
+/**
+ * Applies the `.gwalnrc.json` definition and command-line overrides for provider `name` on top of
+ * the built-in defaults. `flag` names the option that selected the provider in error messages.
+ */
+export const resolveLlmProviderConfig = (
+  name: string | undefined,
+  overrides: LlmProviderOverrides = {},
+  flag = '--bias-verifier',
+): LlmProviderConfig => {
+  const cfg = readConfig();
+  const id = (name ?? cfg.llmProvider ?? DEFAULT_LLM_PROVIDER).trim().toLowerCase();
+  const definition: LlmProviderDefinition = cfg.llmProviders?.[id] ?? {};
+  const type = definition.type ?? (isProviderType(id) ? id : undefined);
+  if (!isProviderType(type)) {
+    const configured = Object.keys(cfg.llmProviders ?? {}).filter((key) => !isProviderType(key));
+    throw new Error(
+      definition.type
+        ? `Unknown type "${String(definition.type)}" for LLM provider "${id}". Use ${PROVIDER_TYPES.join(', ')}.`
+        : `Unknown LLM provider '${id}'. Available: ${[...PROVIDER_TYPES, ...configured].join(', ')}. Add it under "llmProviders" in .gwalnrc.json.`,
+    );
+  }
+  const defaults = DEFAULTS[type];
+  const isGemini = type === 'gemini';
+  const endpoint = (overrides.endpoint ?? definition.endpoint ?? defaults.endpoint).replace(
+    /\/+$/,
+    '',
+  );
+  const model =
+    overrides.model ??
+    (isGemini ? overrides.geminiModel : undefined) ??
+    definition.model ??
+    (isGemini ? cfg.geminiModel : undefined) ??
+    defaults.model;
+  const apiKeyEnv = definition.apiKeyEnv ?? defaults.apiKeyEnv;
+  const apiKey =
+    (isGemini ? overrides.geminiKey : undefined) ??
+    definition.apiKey ??
+    (isGemini ? cfg.geminiApiKey : undefined) ??
+    (apiKeyEnv ? process.env[apiKeyEnv] : undefined);
+  if (!apiKey && requiresApiKey(type, endpoint)) {
+    throw new Error(
+      isGemini && id === 'gemini'
+        ? `Set --gemini-key or configure geminiApiKey in .gwalnrc.json before using ${flag} gemini.`
+        : `Set ${apiKeyEnv ?? 'an API key'} or llmProviders.${id}.apiKey in .gwalnrc.json before using ${flag} ${id}.`,
+    );
+  }
+  return {
+    id,
+    type,
+    endpoint,
+    model,
+    ...(apiKey ? { apiKey } : {}),
+    ...(definition.headers ? { headers: definition.headers } : {}),
+    ...(definition.timeoutMs ? { timeoutMs: definition.timeoutMs } : {}),
+  };
+};
+
+export const createLlmProvider = (config: LlmProviderConfig): LlmProvider => {
+  switch (config.type) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'ollama':
+      return createOllamaProvider(config);
+    case 'openai':
+    case 'llamacpp':
+      return createOpenAiProvider(config);
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * @file src/llm/request.ts
+ * @description JSON POST helper shared by the LLM providers. Failures name the provider and
+ *              endpoint so a misconfigured local server is easy to spot. Completions get a longer
+ *              timeout than other HTTP requests and are never re-sent after a timeout, since the
+ *              provider may still finish (and bill) the first attempt; 429 and 5xx answers are
+ *              retried with backoff.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { httpRequest, HttpTimeoutError } from '../shared/http';
+import type { LlmProviderConfig } from './types';
+
+/** Timeout of one completion request unless the provider sets `timeoutMs`. */
+export const DEFAULT_LLM_TIMEOUT_MS = 120_000;
+
+/** Timeout of the model lookups local servers answer before the first completion. */
+export const SERVER_LOOKUP_TIMEOUT_MS = 5000;
+
+/** Posts `body` as JSON with the provider's headers and returns the parsed response. */
+export const postJson = async <T>(
+  config: LlmProviderConfig,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<T> => {
+  const label = `${config.id} (${config.endpoint})`;
+  let response;
+  try {
+    response = await httpRequest(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers, ...(config.headers ?? {}) },
+      body: JSON.stringify(body),
+      timeoutMs: config.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS,
+      retryTimeouts: false,
+    });
+  } catch (error) {
+    if (error instanceof HttpTimeoutError) {
+      throw new Error(
+        `LLM provider ${label} did not answer within ${error.timeoutMs}ms; raise llmProviders.${config.id}.timeoutMs in .gwalnrc.json for slow models.`,
+      );
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`LLM provider ${label} is unreachable: ${message}`);
+  }
+  if (!response.ok) {
+    throw new Error(
+      `LLM provider ${label} request failed (${response.status}): ${response.text.slice(0, 300)}`,
+    );
+  }
+  try {
+    return JSON.parse(response.text) as T;
+  } catch {
+    throw new Error(`LLM provider ${label} returned a non-JSON response.`);
+  }
+};
+
+export const joinUrl = (base: string, suffix: string): string =>
+  `${base.replace(/\/+$/, '')}${suffix}`;
@@ -0,0 +1,114 @@
+/**
+ * @file src/llm/structured.ts
+ * @description Requests JSON from an LLM provider and validates it against a zod schema. Replies
+ *              that do not parse or validate are sent back once with the validation errors so
+ *              the model can repair them; the last reply is kept on the error for salvage.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { z } from 'zod';
+import { createPromptFence } from './prompt';
+import type { LlmProvider, LlmRequest, LlmResponse } from './types';
+
+export const DEFAULT_STRUCTURED_ATTEMPTS = 2;
+
+const MAX_ECHOED_OUTPUT_CHARS = 2000;
+
+export class LlmResponseError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    /** Text of the last reply, which may still hold usable entries. */
+    public readonly output: string,
+    public readonly attempts: number,
+  ) {
+    super(message);
+    this.name = 'LlmResponseError';
+  }
+}
+
+export interface StructuredRequest<T> extends LlmRequest {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /** Total requests including repairs. Defaults to {@link DEFAULT_STRUCTURED_ATTEMPTS}. */
+  maxAttempts?: number;
+}
+
+export interface StructuredResult<T> {
+  data: T;
+  attempts: number;
+  response: LlmResponse;
+}
+
+/**
+ * Pulls the JSON value out of a reply, tolerating code fences and prose around it. Returns
+ * `undefined` when nothing parses.
+ */
+export const extractJson = (text: string): unknown => {
+  const stripped = text.replace(/```(?:json)?/gi, '').trim();
+  const starts = [stripped.indexOf('{'), stripped.indexOf('[')].filter((index) => index >= 0);
+  if (!starts.length) return undefined;
+  const start = Math.min(...starts);
+  const end = Math.max(stripped.lastIndexOf('}'), stripped.lastIndexOf(']'));
+  if (end <= start) return undefined;
+  try {
+    return JSON.parse(stripped.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+};
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .slice(0, 10)
+    .map((issue) => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n');
+
+const repairPrompt = (prompt: string, output: string, problems: string): string => {
+  const fence = createPromptFence(output);
+  return [
+    prompt,
+    '',
+    'Your previous reply could not be used:',
+    problems,
+    '',
+    fence.notice,
+    fence.wrap('previous-reply', output.slice(0, MAX_ECHOED_OUTPUT_CHARS)),
+    '',
+    'Reply again with only the corrected JSON.',
+  ].join('\n');
+};
+
+/**
+ * Sends `request` in JSON mode and returns the validated value. Throws {@link LlmResponseError}
+ * when no attempt yields schema-valid JSON; provider and network errors propagate unchanged.
+ */
+export const completeStructured = async <T>(
+  provider: LlmProvider,
+  { schema, maxAttempts = DEFAULT_STRUCTURED_ATTEMPTS, ...request }: StructuredRequest<T>,
+): Promise<StructuredResult<T>> => {
+  let prompt = request.prompt;
+  let output = '';
+  let problems = '';
+  const attempts = Math.max(1, maxAttempts);
+  for (let attempt = 1; attempt <= attempts; attempt += 1) {
+    const response = await provider.complete({ ...request, prompt, json: true });
+    output = response.text;
+    const value = extractJson(output);
+    if (value === undefined) {
+      problems = '- the reply did not contain a JSON value';
+    } else {
+      const parsed = schema.safeParse(value);
+      if (parsed.success) {
+        return { data: parsed.data, attempts: attempt, response };
+      }
+      problems = describeIssues(parsed.error);
+    }
+    prompt = repairPrompt(request.prompt, output, problems);
+  }
+  throw new LlmResponseError(
+    `${provider.id} did not return valid JSON after ${attempts} attempt(s):\n${problems}`,
+    provider.id,
+    output,
+    attempts,
+  );
+};
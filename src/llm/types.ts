@@ -0,0 +1,82 @@
+/**
+ * @file src/llm/types.ts
+ * @description Shared types for the LLM providers used by bias verification and comparison
+ *              summaries. A provider turns one prompt into one text completion; prompt building
+ *              and response parsing stay with the callers in `src/lib`.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+/** Wire protocol spoken by a provider. `llamacpp` is the OpenAI protocol with local defaults. */
+export type LlmProviderType = 'gemini' | 'openai' | 'ollama' | 'llamacpp';
+
+/**
+ * One entry under `llmProviders` in `.gwalnrc.json`. Entries named after a built-in provider
+ * (`gemini`, `openai`, `ollama`, `llamacpp`) override its defaults; other names need a `type`.
+ */
+export interface LlmProviderDefinition {
+  type?: LlmProviderType;
+  /** Base URL, e.g. `http://localhost:11434` for Ollama or `http://localhost:8080/v1` for llama.cpp. */
+  endpoint?: string;
+  model?: string;
+  apiKey?: string;
+  /** Environment variable holding the API key, read when `apiKey` is unset. */
+  apiKeyEnv?: string;
+  /** Extra request headers, e.g. for a gateway in front of the model server. */
+  headers?: Record<string, string>;
+  /** Milliseconds to wait for one completion. Defaults to 120000; timed-out calls are not retried. */
+  timeoutMs?: number;
+}
+
+/** A provider definition with every default applied, ready for {@link LlmProvider} creation. */
+export interface LlmProviderConfig {
+  /** Name the provider was selected by (`--bias-verifier <name>`). */
+  id: string;
+  type: LlmProviderType;
+  endpoint: string;
+  model: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+export interface LlmRequest {
+  prompt: string;
+  system?: string;
+  temperature?: number;
+  /** Ask the model for a JSON response where the protocol supports it. */
+  json?: boolean;
+  maxTokens?: number;
+}
+
+export interface LlmUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  usage?: LlmUsage;
+  raw?: unknown;
+  /** Served from the model output cache (see `withLlmCache`) instead of the provider. */
+  cached?: boolean;
+}
+
+/** List price in USD per million tokens. */
+export interface LlmPrice {
+  input: number;
+  output: number;
+}
+
+export interface LlmProvider {
+  id: string;
+  type: LlmProviderType;
+  endpoint: string;
+  model: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  /**
+   * Asks a local server which model it serves (llama.cpp) or which weights a tag points to
+   * (Ollama). Returns null when the server does not say.
+   */
+  serverModel?(): Promise<string | null>;
+}
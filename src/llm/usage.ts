@@ -0,0 +1,153 @@
+/**
+ * @file src/llm/usage.ts
+ * @description Per-run accounting of model calls: calls, cache hits, billed tokens, and the cost
+ *              they add up to. Analyses store the report as `meta.llm_usage`.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { readConfig } from '../shared/config';
+import type { LlmPrice, LlmUsage } from './types';
+
+/**
+ * List prices of the default hosted models, matched by exact name or as a prefix of a dated model
+ * name (`gpt-4o-mini-2024-07-18`). `llmPricing` in `.gwalnrc.json` overrides or extends them.
+ */
+export const LLM_PRICING: Record<string, LlmPrice> = {
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+
+export interface LlmCallRecord {
+  provider: string;
+  model: string;
+  cached: boolean;
+  usage?: LlmUsage;
+  /** Runs on this machine (Ollama, llama.cpp, transformers.js), so it costs nothing. */
+  local?: boolean;
+}
+
+export interface LlmUsageModelRecord {
+  provider: string;
+  model: string;
+  calls: number;
+  cache_hits: number;
+  /** Tokens of uncached calls; cache hits are not billed. */
+  input_tokens: number;
+  output_tokens: number;
+  /** Spend in USD, or null when the model has no known price. */
+  cost_usd: number | null;
+}
+
+export interface LlmUsageReport {
+  calls: number;
+  cache_hits: number;
+  cache_misses: number;
+  input_tokens: number;
+  output_tokens: number;
+  /** Spend of every priced model in USD. */
+  cost_usd: number;
+  /** Models billed without a known price, left out of `cost_usd`; add them to `llmPricing`. */
+  unpriced_models?: string[];
+  models: LlmUsageModelRecord[];
+}
+
+export interface LlmUsageRecorder {
+  record(call: LlmCallRecord): void;
+  /** Adds the rows of a report produced elsewhere (e.g. the analyzer worker). */
+  merge(report: LlmUsageReport | undefined): void;
+  /** Returns `undefined` when nothing was recorded. */
+  report(): LlmUsageReport | undefined;
+}
+
+/** Finds the price of `model`, preferring exact names, then the longest matching prefix. */
+export const findLlmPrice = (
+  model: string,
+  pricing: Record<string, LlmPrice> = LLM_PRICING,
+): LlmPrice | undefined => {
+  if (pricing[model]) return pricing[model];
+  const prefix = Object.keys(pricing)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((left, right) => right.length - left.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+};
+
+const roundCost = (value: number): number => Number(value.toFixed(6));
+
+export const createLlmUsageRecorder = (): LlmUsageRecorder => {
+  const rows = new Map<string, LlmUsageModelRecord>();
+  let pricing: Record<string, LlmPrice> | null = null;
+  const priceFor = (model: string): LlmPrice | undefined => {
+    pricing ??= { ...LLM_PRICING, ...(readConfig().llmPricing ?? {}) };
+    return findLlmPrice(model, pricing);
+  };
+  const rowFor = (provider: string, model: string): LlmUsageModelRecord => {
+    const key = `${provider}\u0000${model}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        provider,
+        model,
+        calls: 0,
+        cache_hits: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        cost_usd: 0,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  return {
+    record: ({ provider, model, cached, usage, local }) => {
+      const row = rowFor(provider, model);
+      row.calls += 1;
+      if (cached) {
+        row.cache_hits += 1;
+        return;
+      }
+      const input = usage?.inputTokens ?? 0;
+      const output = usage?.outputTokens ?? 0;
+      row.input_tokens += input;
+      row.output_tokens += output;
+      if (row.cost_usd === null || local) return;
+      const price = priceFor(model);
+      row.cost_usd = price
+        ? roundCost(row.cost_usd + (input * price.input + output * price.output) / 1_000_000)
+        : null;
+    },
+    merge: (report) => {
+      report?.models.forEach((entry) => {
+        const row = rowFor(entry.provider, entry.model);
+        row.calls += entry.calls;
+        row.cache_hits += entry.cache_hits;
+        row.input_tokens += entry.input_tokens;
+        row.output_tokens += entry.output_tokens;
+        row.cost_usd =
+          row.cost_usd === null || entry.cost_usd === null
+            ? null
+            : roundCost(row.cost_usd + entry.cost_usd);
+      });
+    },
+    report: () => {
+      const models = Array.from(rows.values()).map((row) => ({ ...row }));
+      if (!models.length) return undefined;
+      const sum = (field: 'calls' | 'cache_hits' | 'input_tokens' | 'output_tokens') =>
+        models.reduce((total, row) => total + row[field], 0);
+      const unpriced = models.filter((row) => row.cost_usd === null).map((row) => row.model);
+      return {
+        calls: sum('calls'),
+        cache_hits: sum('cache_hits'),
+        cache_misses: sum('calls') - sum('cache_hits'),
+        input_tokens: sum('input_tokens'),
+        output_tokens: sum('output_tokens'),
+        cost_usd: roundCost(models.reduce((total, row) => total + (row.cost_usd ?? 0), 0)),
+        ...(unpriced.length ? { unpriced_models: unpriced } : {}),
+        models,
+      };
+    },
+  };
+};
@@ -9,16 +9,25 @@
  */
 
 import type { Topic } from '../../shared/topics';
-import { stripInfobox, stripMetaTemplates } from '../wiki';
+import { parseInfobox, parseReferenceMetadata, stripInfobox, stripMetaTemplates } from '../wiki';
 import {
   cleanSentenceText,
   normalizeText,
   tokenize,
   stripHtmlComments,
-  stripTables,
   stripFileLinks,
+  extractWikiTables,
 } from '../wiki';
 import { splitSentences, GROK_BANNER_PATTERNS } from '../wiki/sentence-splitter';
+import {
+  completeCitationMetadata,
+  emptyCitationMetadata,
+  externalCitationMetadata,
+} from '../shared/citations';
+import { extractNumbers } from '../shared/numbers';
+import { canonicalizeUrl } from '../shared/urls';
+import { createTableCellResolver, extractMarkdownTables, TableRegistry } from '../shared/tables';
+import { extractTemporalExpressions } from '../shared/temporal';
 import type {
   ArticleMetadata,
   ExternalCitation,
@@ -31,6 +40,7 @@ import type {
   StructuredReference,
   StructuredClaim,
   StructuredArticle,
+  StructuredInfobox,
 } from '../shared/types';
 
 export type {
@@ -318,9 +328,9 @@ const parseParagraph = (
   media: MediaRegistry,
   sectionId: string | null,
   mode: 'wiki' | 'markdown',
+  lang: string,
 ): StructuredParagraph | null => {
-  const base = mode === 'wiki' ? stripTables(rawParagraph) : rawParagraph;
-  const trimmed = base.trim();
+  const trimmed = rawParagraph.trim();
   if (!trimmed) return null;
   const paraId = `${prefix}-${paragraphIndex + 1}`;
   const mediaStripped =
@@ -331,7 +341,7 @@ const parseParagraph = (
     mode === 'wiki'
       ? stripWikiCitations(mediaStripped.text, references)
       : stripMarkdownReferences(mediaStripped.text, references);
-  const slices = splitSentences(citationStripped.text.replace(/\n+/g, ' ').trim());
+  const slices = splitSentences(citationStripped.text.replace(/\n+/g, ' ').trim(), lang);
   const sentences: StructuredSentence[] = [];
   slices.forEach((slice, idx) => {
     const text = cleanSentenceText(slice.text);
@@ -366,17 +376,42 @@ const parseParagraph = (
   };
 };
 
+/**
+ * Moves the tables of a lead or section into the registry and returns the remaining prose.
+ */
+const extractTables = (
+  text: string,
+  tables: TableRegistry,
+  sectionId: string | null,
+  mode: 'wiki' | 'markdown',
+): string => {
+  const extracted = mode === 'wiki' ? extractWikiTables(text) : extractMarkdownTables(text);
+  extracted.tables.forEach((table) => tables.register(table, sectionId));
+  return extracted.text;
+};
+
 const buildLead = (
   text: string,
   references: ReferenceStore,
   media: MediaRegistry,
+  tables: TableRegistry,
   mode: 'wiki' | 'markdown',
+  lang: string,
 ): { lead: StructuredLead; offsetEnd: number } => {
   const paragraphs: StructuredParagraph[] = [];
-  const blocks = text.split(/\n\s*\n/);
+  const blocks = extractTables(text, tables, null, mode).split(/\n\s*\n/);
   let validIndex = 0;
   blocks.forEach((block) => {
-    const paragraph = parseParagraph(block, 'lead', validIndex, references, media, null, mode);
+    const paragraph = parseParagraph(
+      block,
+      'lead',
+      validIndex,
+      references,
+      media,
+      null,
+      mode,
+      lang,
+    );
     if (paragraph) {
       paragraphs.push(paragraph);
       validIndex += 1;
@@ -396,7 +431,9 @@ const processSections = (
   text: string,
   references: ReferenceStore,
   media: MediaRegistry,
+  tables: TableRegistry,
   mode: 'wiki' | 'markdown',
+  lang: string,
 ): StructuredSection[] => {
   const sections: StructuredSection[] = [];
   if (!matches.length) return sections;
@@ -412,9 +449,18 @@ const processSections = (
     const parent = stack[stack.length - 1]?.id;
     stack.push({ level: current.level, id: sectionId });
     const paragraphs: StructuredParagraph[] = [];
-    const blocks = content.split(/\n\s*\n/);
+    const blocks = extractTables(content, tables, sectionId, mode).split(/\n\s*\n/);
     blocks.forEach((block, idx) => {
-      const paragraph = parseParagraph(block, sectionId, idx, references, media, sectionId, mode);
+      const paragraph = parseParagraph(
+        block,
+        sectionId,
+        idx,
+        references,
+        media,
+        sectionId,
+        mode,
+        lang,
+      );
       if (paragraph) {
         paragraphs.push(paragraph);
       }
@@ -443,6 +489,8 @@ const buildWikiSections = (
   text: string,
   references: ReferenceStore,
   media: MediaRegistry,
+  tables: TableRegistry,
+  lang: string,
 ): StructuredSection[] => {
   const headingRegex = /^={2,6}\s*(.*?)\s*={2,6}\s*$/gm;
   const matches: Array<{ heading: string; level: number; start: number; end: number }> = [];
@@ -456,13 +504,15 @@ const buildWikiSections = (
       end: match.index + match[0].length,
     });
   }
-  return processSections(matches, text, references, media, 'wiki');
+  return processSections(matches, text, references, media, tables, 'wiki', lang);
 };
 
 const buildMarkdownSections = (
   text: string,
   references: ReferenceStore,
   media: MediaRegistry,
+  tables: TableRegistry,
+  lang: string,
 ): StructuredSection[] => {
   const headingRegex = /^#{1,6}\s+(.*?)\s*#*\s*$/gm;
   const matches: Array<{ heading: string; level: number; start: number; end: number }> = [];
@@ -476,7 +526,7 @@ const buildMarkdownSections = (
       end: match.index + match[0].length,
     });
   }
-  return processSections(matches, text, references, media, 'markdown');
+  return processSections(matches, text, references, media, tables, 'markdown', lang);
 };
 
 const fallbackEntities = (text: string): string[] => {
@@ -523,49 +573,6 @@ const detectTime = (text: string): { unit: string; value: number } | null => {
   return null;
 };
 
-const normalizeUnit = (unit: string | null): string | null => {
-  if (!unit) return null;
-  const cleaned = unit.trim().toLowerCase();
-  if (/^kilomet/.test(cleaned) || cleaned === 'km') return 'km';
-  if (cleaned === 'm' || cleaned === 'meter' || cleaned === 'meters') return 'm';
-  if (cleaned === 'mi' || cleaned.includes('mile')) return 'mi';
-  if (cleaned === 'kg' || cleaned.includes('kilogram')) return 'kg';
-  if (cleaned === 'g' || cleaned.includes('gram')) return 'g';
-  if (cleaned === 'percent' || cleaned === 'percentage') return '%';
-  if (cleaned === '%') return '%';
-  if (cleaned === 'days' || cleaned === 'day') return 'day';
-  if (cleaned.includes('year')) return 'year';
-  if (cleaned.includes('c') && cleaned.includes('°')) return '°C';
-  if (cleaned.includes('f') && cleaned.includes('°')) return '°F';
-  return cleaned || null;
-};
-
-const extractNumbers = (
-  text: string,
-): Array<{ raw: string; value: number; unit: string | null }> => {
-  const results: Array<{ raw: string; value: number; unit: string | null }> = [];
-  const numberRegex =
-    /(\d[\d,.\s]*)(?:\s?[×xe]\s?10(?:\^|[-⁻])?(-?\d+))?(?:\s?(km|kilometres?|kilometers?|miles?|mi|m|meters?|metres?|kg|kilograms?|g|grams?|%|percent|degrees?\s?[cf]|°\s?[cf]|days?|years?))?/gi;
-  let match: RegExpExecArray | null;
-  while ((match = numberRegex.exec(text)) !== null) {
-    const raw = match[0].trim();
-    const baseStr = match[1]?.replace(/[\s,]/g, '');
-    if (!baseStr) continue;
-    let value = Number.parseFloat(baseStr);
-    if (Number.isNaN(value)) continue;
-    const exponentStr = match[2];
-    if (exponentStr !== undefined) {
-      const exponent = Number.parseInt(exponentStr, 10);
-      if (!Number.isNaN(exponent)) {
-        value *= 10 ** exponent;
-      }
-    }
-    const unit = normalizeUnit(match[3] ?? null);
-    results.push({ raw, value, unit });
-  }
-  return results;
-};
-
 const buildClaims = (lead: StructuredLead, sections: StructuredSection[]): StructuredClaim[] => {
   const claims: StructuredClaim[] = [];
   let counter = 1;
@@ -580,6 +587,7 @@ const buildClaims = (lead: StructuredLead, sections: StructuredSection[]): Struc
         normalized_text: sentence.normalized_text,
         entities: extractEntities(sentence.text),
         time: detectTime(sentence.text),
+        temporal: extractTemporalExpressions(sentence.text),
         numbers: extractNumbers(sentence.text),
         citation_ids: sentence.citation_ids,
       });
@@ -682,7 +690,7 @@ class ReferenceStore {
     raw: string,
     inner: string | null,
   ): StructuredReference {
-    const normalized = normalizeReference(inner);
+    const normalized = parseReferenceMetadata(inner);
     return {
       citation_id: name ? `r_${citationSlug(name)}` : `r_auto_${this.counter}`,
       name,
@@ -692,7 +700,7 @@ class ReferenceStore {
   }
 
   registerLinkReference(url: string, title?: string | null): string {
-    const key = url.trim();
+    const key = canonicalizeUrl(url) ?? url.trim();
     if (!key) {
       return `r_link_${this.linkCounter++}`;
     }
@@ -703,14 +711,12 @@ class ReferenceStore {
         citation_id,
         name: title ?? null,
         raw: url,
-        normalized: {
+        normalized: completeCitationMetadata({
+          ...emptyCitationMetadata(),
           type: 'web',
           title: normalizedTitle,
-          publisher: null,
-          journal: null,
-          year: null,
           url,
-        },
+        }),
       });
     }
     return this.links.get(key)!.citation_id;
@@ -727,14 +733,7 @@ class ReferenceStore {
         citation_id: citationId,
         name: entry.title ?? null,
         raw: entry.description?.trim() || url,
-        normalized: {
-          type: 'web',
-          title: entry.title ?? entry.description ?? url,
-          publisher: null,
-          journal: null,
-          year: null,
-          url,
-        },
+        normalized: externalCitationMetadata({ ...entry, url }),
       });
     }
   }
@@ -749,65 +748,6 @@ class ReferenceStore {
   }
 }
 
-const normalizeReference = (
-  inner: string | null,
-): {
-  type: string | null;
-  title: string | null;
-  publisher?: string | null;
-  journal?: string | null;
-  year: number | null;
-  url: string | null;
-  doi?: string | null;
-} => {
-  if (!inner) {
-    return {
-      type: null,
-      title: null,
-      publisher: null,
-      journal: null,
-      year: null,
-      url: null,
-      doi: null,
-    };
-  }
-  const citeMatch = inner.match(/{{\s*cite\s+([^\s|}]+)([^}]*)}/i);
-  if (!citeMatch) {
-    return {
-      type: null,
-      title: cleanSentenceText(inner) || null,
-      publisher: null,
-      journal: null,
-      year: null,
-      url: null,
-      doi: null,
-    };
-  }
-  const type = citeMatch[1]?.trim().toLowerCase() ?? null;
-  const fieldsText = citeMatch[2] ?? '';
-  const fieldParts = fieldsText
-    .split('|')
-    .map((part) => part.trim())
-    .filter(Boolean);
-  const fields: Record<string, string> = {};
-  for (const part of fieldParts) {
-    const [key, ...rest] = part.split('=');
-    if (!key || !rest.length) continue;
-    fields[key.trim().toLowerCase()] = rest.join('=').trim();
-  }
-  const yearValue = fields.year ?? fields.date ?? null;
-  const year = yearValue ? Number.parseInt(yearValue.replace(/\D/g, ''), 10) : null;
-  return {
-    type,
-    title: fields.title ?? null,
-    publisher: fields.publisher ?? fields.work ?? null,
-    journal: fields.journal ?? null,
-    year: Number.isNaN(year) ? null : year,
-    url: fields.url ?? null,
-    doi: fields.doi ?? null,
-  };
-};
-
 export const parseWikiArticle = (
   topic: Topic,
   wikitext: string,
@@ -815,7 +755,12 @@ export const parseWikiArticle = (
 ): StructuredArticle => {
   const referenceStore = new ReferenceStore();
   const mediaRegistry = new MediaRegistry();
+  const tableRegistry = new TableRegistry(
+    createTableCellResolver((content) => stripWikiCitations(content, referenceStore), 'wiki'),
+  );
+  const lang = metadata.lang || 'en';
   const trimmed = wikitext.trim();
+  const infobox = parseInfobox(trimmed);
   const remainder = stripInfobox(trimmed);
   const withoutFiles = stripFileLinks(remainder);
   const cleaned = stripMetaTemplates(withoutFiles);
@@ -826,13 +771,13 @@ export const parseWikiArticle = (
       : cleaned.length;
   const leadText = cleaned.slice(0, leadEnd).trim();
   const bodyText = cleaned.slice(leadEnd).trim();
-  const { lead } = buildLead(leadText, referenceStore, mediaRegistry, 'wiki');
-  const sections = buildWikiSections(bodyText, referenceStore, mediaRegistry);
+  const { lead } = buildLead(leadText, referenceStore, mediaRegistry, tableRegistry, 'wiki', lang);
+  const sections = buildWikiSections(bodyText, referenceStore, mediaRegistry, tableRegistry, lang);
   const claims = buildClaims(lead, sections);
   return {
     source: metadata.source,
     page_id: metadata.pageId,
-    lang: metadata.lang || 'en',
+    lang,
     title: metadata.title || topic.title,
     canonical_url: metadata.canonicalUrl,
     revision: {
@@ -844,11 +789,15 @@ export const parseWikiArticle = (
     media: mediaRegistry.toArray(),
     references: referenceStore.toArray(),
     claims,
+    infobox,
+    tables: tableRegistry.toArray(),
   };
 };
 
 interface MarkdownParserOptions {
   citations?: ExternalCitation[];
+  /** Infobox recovered from the source HTML before it was converted to Markdown. */
+  infobox?: StructuredInfobox | null;
 }
 
 export const parseMarkdownStructuredArticle = (
@@ -859,6 +808,13 @@ export const parseMarkdownStructuredArticle = (
 ): StructuredArticle => {
   const referenceStore = new ReferenceStore();
   const mediaRegistry = new MediaRegistry();
+  const tableRegistry = new TableRegistry(
+    createTableCellResolver(
+      (content) => stripMarkdownReferences(content, referenceStore),
+      'markdown',
+    ),
+  );
+  const lang = metadata.lang || 'en';
   const sanitized = stripHtmlComments(markdown);
   const trimmed = sanitized.trim();
   if (options?.citations?.length) {
@@ -866,12 +822,26 @@ export const parseMarkdownStructuredArticle = (
   }
   const headingStripped = stripLeadingTitleHeading(trimmed, metadata.title ?? topic.title);
   const { leadText, bodyText: normalizedBodyText } = splitMarkdownLead(headingStripped);
-  let { lead } = buildLead(leadText, referenceStore, mediaRegistry, 'markdown');
+  let { lead } = buildLead(
+    leadText,
+    referenceStore,
+    mediaRegistry,
+    tableRegistry,
+    'markdown',
+    lang,
+  );
   const sections = normalizedBodyText
-    ? buildMarkdownSections(normalizedBodyText, referenceStore, mediaRegistry)
+    ? buildMarkdownSections(normalizedBodyText, referenceStore, mediaRegistry, tableRegistry, lang)
     : [];
   if (!lead.paragraphs.length && !sections.length && normalizedBodyText.trim().length) {
-    lead = buildLead(normalizedBodyText, referenceStore, mediaRegistry, 'markdown').lead;
+    lead = buildLead(
+      normalizedBodyText,
+      referenceStore,
+      mediaRegistry,
+      tableRegistry,
+      'markdown',
+      lang,
+    ).lead;
   }
   if (!lead.paragraphs.length && sections.length) {
     const candidateParagraph =
@@ -898,7 +868,7 @@ export const parseMarkdownStructuredArticle = (
   return {
     source: metadata.source,
     page_id: metadata.pageId,
-    lang: metadata.lang || 'en',
+    lang,
     title: metadata.title || topic.title,
     canonical_url: metadata.canonicalUrl,
     revision: {
@@ -910,5 +880,7 @@ export const parseMarkdownStructuredArticle = (
     media: mediaRegistry.toArray(),
     references: referenceStore.toArray(),
     claims,
+    infobox: options?.infobox ?? null,
+    tables: tableRegistry.toArray(),
   };
 };
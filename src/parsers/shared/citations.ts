@@ -0,0 +1,151 @@
+/**
+ * @file src/parsers/shared/citations.ts
+ * @description Builds `StructuredReference.normalized` metadata for both parsers: ISBN and PMID
+ *              normalization, identifiers recovered from URLs and free text, archive and
+ *              canonical URLs (see `urls.ts`), and the metadata of Grokipedia API citations.
+ *              Wikitext `{{cite ...}}` templates are read by `wiki/cite-template.ts` and end up
+ *              here for normalization.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { CitationMetadata, ExternalCitation } from './types';
+import { canonicalizeUrl, decodeUrlComponent, normalizeDoi, unwrapArchiveUrl } from './urls';
+
+const ISBN_PATTERN = /\bISBN(?:-1[03])?:?\s*((?:97[89][\s-]?)?(?:\d[\s-]?){9}[\dX])\b/i;
+const PMID_PATTERN = /\bPMID:?\s*(\d{1,9})\b/i;
+
+export const emptyCitationMetadata = (): CitationMetadata => ({
+  type: null,
+  title: null,
+  publisher: null,
+  journal: null,
+  year: null,
+  url: null,
+  canonical_url: null,
+  doi: null,
+  authors: [],
+  date: null,
+  access_date: null,
+  archive_url: null,
+  archive_date: null,
+  isbn: null,
+  pmid: null,
+  pages: null,
+  volume: null,
+  issue: null,
+});
+
+const isbn13CheckDigit = (first12: string): string => {
+  const sum = first12
+    .split('')
+    .reduce((total, digit, idx) => total + Number(digit) * (idx % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * Normalizes an ISBN to its 13-digit form so ISBN-10 and ISBN-13 spellings of the same book
+ * compare equal. Returns null for values that are not ISBNs.
+ */
+export const normalizeIsbn = (value: string | null | undefined): string | null => {
+  const compact = value?.replace(/[\s-]/g, '').toUpperCase() ?? '';
+  if (/^\d{9}[\dX]$/.test(compact)) {
+    const first12 = `978${compact.slice(0, 9)}`;
+    return `${first12}${isbn13CheckDigit(first12)}`;
+  }
+  return /^97[89]\d{10}$/.test(compact) ? compact : null;
+};
+
+export const normalizePmid = (value: string | null | undefined): string | null => {
+  const match = value?.trim().match(/^\d{1,9}$/);
+  return match ? String(Number(match[0])) : null;
+};
+
+/** First four-digit year in a date string (`14 March 2020`, `2020-03-14`). */
+export const yearFromDate = (value: string | null | undefined): number | null => {
+  const match = value?.match(/\b(\d{4})\b/);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Reads identifiers that a URL carries: DOIs behind doi.org, PubMed ids, and ISBNs in common
+ * book-catalogue URLs.
+ */
+export const identifiersFromUrl = (
+  url: string | null | undefined,
+): Pick<CitationMetadata, 'doi' | 'isbn' | 'pmid'> => {
+  const value = url ?? '';
+  const doi = /doi\.org\/|\/doi\/(?:abs\/|full\/|pdf\/)?10\./i.test(value)
+    ? normalizeDoi(decodeUrlComponent(value))
+    : null;
+  const pmid = value.match(
+    /pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)|ncbi\.nlm\.nih\.gov\/pubmed\/(\d+)/i,
+  );
+  const isbn = value.match(/(?:isbn[=/:]|\/isbn\/)([\dX-]{10,17})/i);
+  return {
+    doi,
+    pmid: pmid ? normalizePmid(pmid[1] ?? pmid[2]) : null,
+    isbn: isbn ? normalizeIsbn(isbn[1]) : null,
+  };
+};
+
+/**
+ * Reads `doi:`, `ISBN` and `PMID` mentions from free text such as a citation description.
+ */
+export const identifiersFromText = (
+  text: string | null | undefined,
+): Pick<CitationMetadata, 'doi' | 'isbn' | 'pmid'> => {
+  const value = text ?? '';
+  return {
+    doi: normalizeDoi(value),
+    isbn: normalizeIsbn(value.match(ISBN_PATTERN)?.[1]),
+    pmid: normalizePmid(value.match(PMID_PATTERN)?.[1]),
+  };
+};
+
+/**
+ * Fills identifiers and archive fields that can be derived from the URL and free text without
+ * overwriting values the source already gave.
+ */
+export const completeCitationMetadata = (
+  metadata: CitationMetadata,
+  text?: string | null,
+): CitationMetadata => {
+  const result = { ...metadata };
+  const archived = result.url ? unwrapArchiveUrl(result.url) : null;
+  if (archived) {
+    result.url = archived.original;
+    result.archive_url = result.archive_url ?? archived.archive_url;
+    result.archive_date = result.archive_date ?? archived.archive_date;
+  }
+  const fromUrl = identifiersFromUrl(result.url);
+  const fromText = identifiersFromText(text);
+  result.doi = normalizeDoi(result.doi) ?? fromUrl.doi ?? fromText.doi;
+  result.isbn = normalizeIsbn(result.isbn) ?? fromUrl.isbn ?? fromText.isbn;
+  result.pmid = normalizePmid(result.pmid) ?? fromUrl.pmid ?? fromText.pmid;
+  result.year = result.year ?? yearFromDate(result.date);
+  result.canonical_url =
+    canonicalizeUrl(result.url) ?? (result.doi ? `https://doi.org/${result.doi}` : null);
+  return result;
+};
+
+/**
+ * Builds metadata for a Grokipedia API citation. Optional fields are only present on some
+ * payloads, so identifiers are also read from the URL and description.
+ */
+export const externalCitationMetadata = (entry: ExternalCitation): CitationMetadata =>
+  completeCitationMetadata(
+    {
+      ...emptyCitationMetadata(),
+      type: 'web',
+      title: entry.title ?? entry.description ?? entry.url,
+      publisher: entry.publisher ?? null,
+      url: entry.url,
+      doi: entry.doi ?? null,
+      isbn: entry.isbn ?? null,
+      pmid: entry.pmid ?? null,
+      authors: entry.authors ?? [],
+      date: entry.published ?? null,
+      archive_url: entry.archive_url ?? null,
+    },
+    [entry.title, entry.description].filter(Boolean).join(' '),
+  );
@@ -0,0 +1,48 @@
+/**
+ * @file src/parsers/shared/infobox.ts
+ * @description Builds the structured infobox shared by the wikitext and HTML ingestion paths.
+ *              Callers supply cleaned key/value pairs; numbers and temporal expressions are
+ *              extracted here so the analyzer can compare fields with claims.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { extractNumbers } from './numbers';
+import { extractTemporalExpressions } from './temporal';
+import type { StructuredInfobox, StructuredInfoboxField } from './types';
+
+/** Presentation-only parameters that never carry a checkable fact. */
+const IGNORED_FIELDS =
+  /^(image|logo|caption|alt|signature|map|pushpin|coordinates|coor|module|embed|footnotes|website|url|qid|onlysourced)/;
+
+export const normalizeInfoboxKey = (key: string): string =>
+  key
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_')
+    .replace(/[^\p{L}\p{N}_]/gu, '');
+
+/**
+ * Turns cleaned `[key, value]` pairs into infobox fields. Empty values, presentation
+ * parameters, and repeated keys are dropped; returns null when nothing checkable remains.
+ */
+export const buildInfobox = (
+  template: string,
+  entries: Array<[string, string]>,
+): StructuredInfobox | null => {
+  const fields: StructuredInfoboxField[] = [];
+  const seen = new Set<string>();
+  for (const [rawKey, rawValue] of entries) {
+    const key = normalizeInfoboxKey(rawKey);
+    const value = rawValue.replace(/\s+/g, ' ').trim();
+    if (!key || !value || seen.has(key) || IGNORED_FIELDS.test(key)) continue;
+    seen.add(key);
+    fields.push({
+      key,
+      label: key.replace(/_/g, ' '),
+      value,
+      numbers: extractNumbers(value),
+      temporal: extractTemporalExpressions(value),
+    });
+  }
+  return fields.length ? { template, fields } : null;
+};
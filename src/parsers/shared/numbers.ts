@@ -0,0 +1,71 @@
+/**
+ * @file src/parsers/shared/numbers.ts
+ * @description Number and unit extraction shared by the Wikipedia and Grokipedia parsers.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+const SCALE_WORDS: Record<string, number> = {
+  thousand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+  trillion: 1e12,
+};
+
+const normalizeUnit = (unit: string | null): string | null => {
+  if (!unit) return null;
+  const cleaned = unit.trim().toLowerCase();
+  if (cleaned === 'km/h') return 'km/h';
+  if (/^kilomet/.test(cleaned) || cleaned === 'km') return 'km';
+  if (/^(m|meters?|metres?)$/.test(cleaned)) return 'm';
+  if (cleaned === 'cm' || cleaned === 'mm') return cleaned;
+  if (cleaned === 'ft' || cleaned === 'feet' || cleaned === 'foot') return 'ft';
+  if (cleaned === 'mph') return 'mph';
+  if (cleaned === 'mi' || cleaned.includes('mile')) return 'mi';
+  if (cleaned === 'kg' || cleaned.includes('kilogram')) return 'kg';
+  if (cleaned === 'g' || cleaned.includes('gram')) return 'g';
+  if (/^(lbs?|pounds?)$/.test(cleaned)) return 'lb';
+  if (/^tonnes?$/.test(cleaned)) return 't';
+  if (cleaned === 'percent' || cleaned === 'percentage') return '%';
+  if (cleaned === '%') return '%';
+  if (cleaned === 'days' || cleaned === 'day') return 'day';
+  if (cleaned.includes('year')) return 'year';
+  const isDegree = cleaned.includes('°') || cleaned.startsWith('degree');
+  if (isDegree && cleaned.endsWith('c')) return '°C';
+  if (isDegree && cleaned.endsWith('f')) return '°F';
+  return cleaned || null;
+};
+
+/**
+ * Extracts numbers with their unit (normalized to a convert-table key where one applies) from
+ * claim or infobox text. Scientific notation and `thousand`/`million`/`billion`/`trillion`
+ * multipliers are folded into the value.
+ */
+export const extractNumbers = (
+  text: string,
+): Array<{ raw: string; value: number; unit: string | null }> => {
+  const results: Array<{ raw: string; value: number; unit: string | null }> = [];
+  const numberRegex =
+    /(\d[\d,.\s]*)(?:\s?[×xe]\s?10(?:\^|[-⁻])?(-?\d+))?(?:\s?(thousand|million|billion|trillion)(?![a-z]))?(?:\s?(km\/h|km|kilometres?|kilometers?|miles?|mph|mi|mm|cm|m|meters?|metres?|ft|feet|foot|kg|kilograms?|g|grams?|lbs?|pounds?|tonnes?|%|percent|degrees?\s?[cf]|°\s?[cf]|days?|years?)(?![a-z]))?/gi;
+  let match: RegExpExecArray | null;
+  while ((match = numberRegex.exec(text)) !== null) {
+    const raw = match[0].trim();
+    const baseStr = match[1]?.replace(/[\s,]/g, '');
+    if (!baseStr) continue;
+    let value = Number.parseFloat(baseStr);
+    if (Number.isNaN(value)) continue;
+    const exponentStr = match[2];
+    if (exponentStr !== undefined) {
+      const exponent = Number.parseInt(exponentStr, 10);
+      if (!Number.isNaN(exponent)) {
+        value *= 10 ** exponent;
+      }
+    }
+    const scale = match[3]?.toLowerCase();
+    if (scale) {
+      value *= SCALE_WORDS[scale] ?? 1;
+    }
+    const unit = normalizeUnit(match[4] ?? null);
+    results.push({ raw, value, unit });
+  }
+  return results;
+};
@@ -0,0 +1,227 @@
+/**
+ * @file src/parsers/shared/tables.ts
+ * @description Table structures shared by the wikitext, Markdown, and HTML ingestion paths.
+ *              Source-specific readers produce `RawTable`s (cell markup plus spans); the
+ *              `TableRegistry` expands spans, resolves cell markup to text and citation ids, and
+ *              assigns table ids. Markdown pipe tables are read here as well, since both the
+ *              Grokipedia API and the HTML fallback end up as Markdown.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { stripFootnoteTemplates, stripNonCiteTemplates } from '../wiki/template-handler';
+import { cleanSentenceText, cleanWikiLinks, stripTables } from '../wiki/text-cleaner';
+import type { StructuredTable, StructuredTableCell } from './types';
+
+export interface RawTableCell {
+  /** Cell markup, resolved to text by `createTableCellResolver`. */
+  content: string;
+  header: boolean;
+  colspan: number;
+  rowspan: number;
+}
+
+export interface RawTable {
+  caption: string | null;
+  rows: RawTableCell[][];
+}
+
+export type TableCellResolver = (content: string) => StructuredTableCell;
+
+/** Registers the references in a cell and returns the remaining markup with their citation ids. */
+export type TableCellCitationStripper = (content: string) => {
+  text: string;
+  matches: Array<{ citationId: string }>;
+};
+
+/** Upper bound for a single span so malformed markup cannot blow up the grid. */
+const MAX_SPAN = 50;
+
+const MARKDOWN_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?$/;
+const MARKDOWN_CAPTION = /^Table:\s*(.+)$/;
+
+export const toSpan = (value: string | undefined): number => {
+  const parsed = value ? Number.parseInt(value, 10) : 1;
+  return Number.isFinite(parsed) && parsed > 1 ? Math.min(parsed, MAX_SPAN) : 1;
+};
+
+export const parseSpan = (attributes: string, name: 'colspan' | 'rowspan'): number =>
+  toSpan(attributes.match(new RegExp(`${name}\\s*=\\s*["']?(\\d+)`, 'i'))?.[1]);
+
+/**
+ * Copies cells spanning several columns or rows into every grid position they cover, so each row
+ * lines up with the header row.
+ */
+export const expandTableSpans = (rows: RawTableCell[][]): RawTableCell[][] => {
+  const pending: Array<{ cell: RawTableCell; remaining: number } | undefined> = [];
+  return rows.map((row) => {
+    const output: RawTableCell[] = [];
+    const fillPending = () => {
+      let carried = pending[output.length];
+      while (carried && carried.remaining > 0) {
+        output.push(carried.cell);
+        carried.remaining -= 1;
+        carried = pending[output.length];
+      }
+    };
+    for (const cell of row) {
+      fillPending();
+      for (let span = 0; span < cell.colspan; span += 1) {
+        if (cell.rowspan > 1) pending[output.length] = { cell, remaining: cell.rowspan - 1 };
+        output.push(cell);
+      }
+    }
+    fillPending();
+    return output;
+  });
+};
+
+/**
+ * Resolves cell markup the way prose is handled. The parser passes its own citation stripper,
+ * since it owns the reference store; wikitext cells then lose nested tables, line breaks and
+ * templates, and links are reduced to their labels.
+ */
+export const createTableCellResolver =
+  (stripCitations: TableCellCitationStripper, mode: 'wiki' | 'markdown'): TableCellResolver =>
+  (content) => {
+    if (mode === 'markdown') {
+      const linked = stripCitations(content);
+      return {
+        text: cleanSentenceText(linked.text),
+        citation_ids: Array.from(new Set(linked.matches.map((match) => match.citationId))),
+      };
+    }
+    const cited = stripCitations(stripTables(content).replace(/<br\s*\/?>/gi, ' '));
+    return {
+      text: cleanSentenceText(
+        cleanWikiLinks(stripFootnoteTemplates(stripNonCiteTemplates(cited.text))),
+      ),
+      citation_ids: Array.from(new Set(cited.matches.map((match) => match.citationId))),
+    };
+  };
+
+const escapeMarkdownCell = (value: string): string =>
+  value.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+
+/**
+ * Renders a table as a Markdown pipe table, preceded by a `Table: <caption>` line when it has a
+ * caption. Tables without a header row get an empty one so the output stays valid Markdown.
+ */
+export const renderMarkdownTable = (table: RawTable): string => {
+  const grid = expandTableSpans(table.rows).filter((row) => row.length);
+  if (!grid.length) return '';
+  const width = Math.max(...grid.map((row) => row.length));
+  const hasHeader = grid[0].every((cell) => cell.header);
+  const header = hasHeader ? grid[0].map((cell) => cell.content) : [];
+  const body = hasHeader ? grid.slice(1) : grid;
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, idx) => escapeMarkdownCell(cells[idx] ?? '')).join(' | ')} |`;
+  return [
+    ...(table.caption ? [`Table: ${escapeMarkdownCell(table.caption)}`] : []),
+    line(header),
+    `|${' --- |'.repeat(width)}`,
+    ...body.map((row) => line(row.map((cell) => cell.content))),
+  ].join('\n');
+};
+
+const splitMarkdownRow = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.replace(/\\\|/g, '|').trim());
+
+const isMarkdownRow = (line: string | undefined, leadingPipe = false): boolean =>
+  line !== undefined && (leadingPipe ? line.trim().startsWith('|') : line.includes('|'));
+
+/**
+ * Removes Markdown pipe tables (and their `Table:` caption lines) from a block of text and
+ * returns them as raw tables.
+ */
+export const extractMarkdownTables = (text: string): { text: string; tables: RawTable[] } => {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  const tables: RawTable[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!isMarkdownRow(line) || !MARKDOWN_SEPARATOR.test(lines[index + 1]?.trim() ?? '')) {
+      kept.push(line);
+      index += 1;
+      continue;
+    }
+    const captionMatch = kept.length ? kept[kept.length - 1].trim().match(MARKDOWN_CAPTION) : null;
+    if (captionMatch) kept.pop();
+    const rows: RawTableCell[][] = [
+      splitMarkdownRow(line).map((content) => ({ content, header: true, colspan: 1, rowspan: 1 })),
+    ];
+    const leadingPipe = line.trim().startsWith('|');
+    index += 2;
+    while (isMarkdownRow(lines[index], leadingPipe)) {
+      rows.push(
+        splitMarkdownRow(lines[index]).map((content) => ({
+          content,
+          header: false,
+          colspan: 1,
+          rowspan: 1,
+        })),
+      );
+      index += 1;
+    }
+    tables.push({ caption: captionMatch?.[1].trim() ?? null, rows });
+  }
+  return { text: kept.join('\n'), tables };
+};
+
+/**
+ * Collects the tables of one article. Leading rows made only of header cells become the column
+ * headers (stacked header rows are joined per column); empty rows are dropped.
+ */
+export class TableRegistry {
+  private tables: StructuredTable[] = [];
+
+  constructor(private readonly resolveCell: TableCellResolver) {}
+
+  register(raw: RawTable, sectionId: string | null): void {
+    // Spanned cells appear several times in the grid but are resolved (and their references
+    // registered) once.
+    const resolved = new Map<RawTableCell, StructuredTableCell>();
+    const resolve = (cell: RawTableCell): StructuredTableCell => {
+      const known = resolved.get(cell) ?? this.resolveCell(cell.content);
+      resolved.set(cell, known);
+      return known;
+    };
+    const grid = expandTableSpans(raw.rows)
+      .map((row) => row.map((cell) => ({ header: cell.header, ...resolve(cell) })))
+      .filter((row) => row.some((cell) => cell.text));
+    if (!grid.length) return;
+    let headerRows = 0;
+    while (headerRows < grid.length - 1 && grid[headerRows].every((cell) => cell.header)) {
+      headerRows += 1;
+    }
+    const width = Math.max(...grid.map((row) => row.length));
+    const headers = headerRows
+      ? Array.from({ length: width }, (_, col) =>
+          Array.from(new Set(grid.slice(0, headerRows).map((row) => row[col]?.text ?? '')))
+            .filter(Boolean)
+            .join(' '),
+        )
+      : [];
+    const caption = raw.caption ? this.resolveCell(raw.caption).text || null : null;
+    this.tables.push({
+      table_id: `t${this.tables.length + 1}`,
+      section_id: sectionId,
+      caption,
+      headers,
+      rows: grid
+        .slice(headerRows)
+        .map((row) =>
+          row.map(({ text, citation_ids }) => ({ text, citation_ids: [...citation_ids] })),
+        ),
+    });
+  }
+
+  toArray(): StructuredTable[] {
+    return this.tables;
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * @file src/parsers/shared/temporal.ts
+ * @description Extracts dates and temporal expressions from claim text for both parsers: full
+ *              dates, month/year pairs, bare years, decades, BCE/CE years, ranges, and circa
+ *              qualifiers. Wikipedia date templates are rendered to prose by `template-handler.ts`
+ *              before sentences reach this extractor.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { TemporalExpression, TemporalPoint } from './types';
+
+export const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const MONTH =
+  '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const ERA = '(b\\.?c\\.?(?:e\\.?)?|c\\.?e\\.?|a\\.?d\\.?)(?![a-z])';
+const AD_PREFIX = '(a\\.?d\\.?)\\s*';
+const RANGE_SEPARATOR = '(?:\\s*[–—-]\\s*|\\s+(?:to|until|and)\\s+)';
+const MEASUREMENT_UNIT =
+  '(?:%|percent|km|kilomet|kg|kilogram|mi\\b|miles?|m\\b|metres?|meters?|ft|feet|g\\b|grams?|lbs?|pounds?|tonnes?|°)';
+const CIRCA_PREFIX = /(?:\b(?:c|ca)\.|\bcirca|\baround|\babout|\bapproximately)\s*$/i;
+
+/** Earliest and latest bare four-digit numbers treated as years rather than quantities. */
+const MIN_BARE_YEAR = 1000;
+const MAX_BARE_YEAR = 2100;
+
+const monthIndex = (label: string): number =>
+  MONTH_NAMES.findIndex((name) => name.toLowerCase().startsWith(label.slice(0, 3).toLowerCase())) +
+  1;
+
+const isBce = (era: string | undefined): boolean => Boolean(era && /^b/i.test(era));
+
+const applyEra = (year: number, era: string | undefined): number => (isBce(era) ? -year : year);
+
+const point = (year: number, month: number | null = null, day: number | null = null) => ({
+  year,
+  month,
+  day,
+});
+
+interface Candidate {
+  index: number;
+  length: number;
+  expression: Omit<TemporalExpression, 'raw' | 'approximate'>;
+}
+
+type Matcher = (match: RegExpExecArray) => Candidate['expression'] | null;
+
+const isValidDay = (month: number, day: number): boolean => month >= 1 && day >= 1 && day <= 31;
+
+/**
+ * Expands an abbreviated range end (`1939–45`) against its start year.
+ */
+const expandRangeEnd = (start: number, end: number, endDigits: number): number => {
+  if (endDigits !== 2 || start < 100) return end;
+  const century = start - (start % 100);
+  const expanded = century + end;
+  return expanded < start ? expanded + 100 : expanded;
+};
+
+const MATCHERS: Array<[RegExp, Matcher]> = [
+  [
+    /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+    (match) => {
+      const [year, month, day] = match.slice(1, 4).map(Number);
+      if (!isValidDay(month, day) || month > 12) return null;
+      const at = point(year, month, day);
+      return { kind: 'date', precision: 'day', start: at, end: at };
+    },
+  ],
+  [
+    new RegExp(`\\b(\\d{1,2})\\s+${MONTH}\\s+(\\d{1,4})(?:\\s*${ERA})?(?![\\d])`, 'gi'),
+    (match) => {
+      const day = Number(match[1]);
+      const month = monthIndex(match[2]);
+      if (!isValidDay(month, day)) return null;
+      const at = point(applyEra(Number(match[3]), match[4]), month, day);
+      return { kind: 'date', precision: 'day', start: at, end: at };
+    },
+  ],
+  [
+    new RegExp(`\\b${MONTH}\\s+(\\d{1,2}),?\\s+(\\d{1,4})(?:\\s*${ERA})?(?![\\d])`, 'gi'),
+    (match) => {
+      const month = monthIndex(match[1]);
+      const day = Number(match[2]);
+      if (!isValidDay(month, day)) return null;
+      const at = point(applyEra(Number(match[3]), match[4]), month, day);
+      return { kind: 'date', precision: 'day', start: at, end: at };
+    },
+  ],
+  [
+    new RegExp(`\\b${MONTH}\\s+(\\d{3,4})(?:\\s*${ERA})?(?![\\d])`, 'gi'),
+    (match) => {
+      const at = point(applyEra(Number(match[2]), match[3]), monthIndex(match[1]));
+      return { kind: 'date', precision: 'month', start: at, end: at };
+    },
+  ],
+  [
+    new RegExp(
+      `(?<![\\d,.])(?:${AD_PREFIX})?(\\d{1,4})${RANGE_SEPARATOR}(\\d{1,4})(?:\\s*${ERA})?(?![\\d]|[,.]\\d|\\s*${MEASUREMENT_UNIT})`,
+      'gi',
+    ),
+    (match) => {
+      const [, prefixAd, startRaw, endRaw, era] = match;
+      const hasEra = Boolean(prefixAd || era);
+      let start = Number(startRaw);
+      let end = expandRangeEnd(start, Number(endRaw), endRaw.length);
+      if (!hasEra && (start < MIN_BARE_YEAR || start > MAX_BARE_YEAR)) return null;
+      if (!hasEra && (end < MIN_BARE_YEAR || end > MAX_BARE_YEAR)) return null;
+      if (/\band\b/i.test(match[0]) && !/\bbetween\s+$/i.test(match.input.slice(0, match.index))) {
+        return null;
+      }
+      if (isBce(era)) {
+        start = -start;
+        end = -end;
+      }
+      if (end < start) return null;
+      return { kind: 'range', precision: 'year', start: point(start), end: point(end) };
+    },
+  ],
+  [
+    /(?<![\d,.])(\d{2,3}0)'?s\b/g,
+    (match) => {
+      const start = Number(match[1]);
+      return { kind: 'decade', precision: 'decade', start: point(start), end: point(start + 9) };
+    },
+  ],
+  [
+    new RegExp(`(?<![\\d,.])(?:${AD_PREFIX}(\\d{1,4})|(\\d{1,4})\\s*${ERA})(?![\\d])`, 'gi'),
+    (match) => {
+      const year = match[2] ? Number(match[2]) : applyEra(Number(match[3]), match[4]);
+      const at = point(year);
+      return { kind: 'year', precision: 'year', start: at, end: at };
+    },
+  ],
+  [
+    new RegExp(`(?<![\\d,.$£€])\\b(\\d{4})\\b(?![,.]\\d|\\s*${MEASUREMENT_UNIT})`, 'gi'),
+    (match) => {
+      const year = Number(match[1]);
+      if (year < MIN_BARE_YEAR || year > MAX_BARE_YEAR) return null;
+      const at = point(year);
+      return { kind: 'year', precision: 'year', start: at, end: at };
+    },
+  ],
+];
+
+/**
+ * Finds temporal expressions in a sentence, most specific first. Text claimed by an earlier
+ * matcher (e.g. the year inside a full date) is masked so it is not reported again.
+ */
+export const extractTemporalExpressions = (text: string): TemporalExpression[] => {
+  let masked = text;
+  const found: Candidate[] = [];
+  for (const [pattern, matcher] of MATCHERS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    const source = masked;
+    while ((match = pattern.exec(source)) !== null) {
+      const expression = matcher(match);
+      if (!expression) continue;
+      found.push({ index: match.index, length: match[0].length, expression });
+      masked =
+        masked.slice(0, match.index) +
+        ' '.repeat(match[0].length) +
+        masked.slice(match.index + match[0].length);
+    }
+  }
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ index, length, expression }) => {
+      const circa = text.slice(0, index).match(CIRCA_PREFIX);
+      const rawStart = circa?.index ?? index;
+      return {
+        raw: text.slice(rawStart, index + length).trim(),
+        ...expression,
+        approximate: Boolean(circa),
+      };
+    });
+};
+
+const pointKey = (value: TemporalPoint, edge: 'start' | 'end'): number =>
+  value.year * 10000 +
+  (value.month ?? (edge === 'start' ? 1 : 12)) * 100 +
+  (value.day ?? (edge === 'start' ? 1 : 31));
+
+/**
+ * Returns true when two expressions can describe the same moment: their intervals overlap once
+ * approximate (`circa`) expressions are widened by `slackYears`.
+ */
+export const temporalOverlap = (
+  a: TemporalExpression,
+  b: TemporalExpression,
+  slackYears = 0,
+): boolean => {
+  const slack = (expression: TemporalExpression) => (expression.approximate ? slackYears : 0);
+  const widen = slack(a) + slack(b);
+  return (
+    pointKey(a.start, 'start') - widen * 10000 <= pointKey(b.end, 'end') &&
+    pointKey(b.start, 'start') <= pointKey(a.end, 'end') + widen * 10000
+  );
+};
+
+/**
+ * Formats a temporal point for discrepancy descriptions (`14 March 1879`, `500 BCE`).
+ */
+export const formatTemporalPoint = (value: TemporalPoint): string => {
+  const year = value.year < 0 ? `${-value.year} BCE` : String(value.year);
+  const month = value.month ? MONTH_NAMES[value.month - 1] : null;
+  return [value.day, month, year].filter((part) => part !== null).join(' ');
+};
@@ -4,8 +4,14 @@
  * @author Doğu Abaris <abaris@null.net>
  */
 
+/**
+ * Name of the source an article was read from: `wikipedia` and `grokipedia` for the built-in
+ * adapters, or the id of a source configured under `sources` in `.gwalnrc.json`.
+ */
+export type ArticleSource = 'wikipedia' | 'grokipedia' | (string & {});
+
 export interface ArticleMetadata {
-  source: 'wikipedia' | 'grokipedia';
+  source: ArticleSource;
   pageId: string;
   lang: string;
   title: string;
@@ -20,6 +26,14 @@ export interface ExternalCitation {
   description?: string;
   url: string;
   favicon?: string | null;
+  authors?: string[];
+  /** Publication date as given by the source. */
+  published?: string;
+  publisher?: string;
+  doi?: string;
+  isbn?: string;
+  pmid?: string;
+  archive_url?: string;
 }
 
 export interface StructuredSentence {
@@ -73,19 +87,63 @@ export interface StructuredMedia {
   usage: StructuredMediaUsage[];
 }
 
+/**
+ * Citation metadata read from `{{cite ...}}` templates, links, and Grokipedia API citations.
+ * Fields after `doi` are absent on snapshots written before full template parsing.
+ */
+export interface CitationMetadata {
+  type: string | null;
+  title: string | null;
+  publisher?: string | null;
+  journal?: string | null;
+  year: number | null;
+  url: string | null;
+  /** `url` in canonical form (see `shared/urls.ts`), or the DOI resolver URL when only a DOI is known. */
+  canonical_url?: string | null;
+  /** Lowercase DOI without resolver prefix (`10.1000/xyz`). */
+  doi?: string | null;
+  /** Author names as written (`Last, First` when given separately). */
+  authors?: string[];
+  date?: string | null;
+  access_date?: string | null;
+  archive_url?: string | null;
+  archive_date?: string | null;
+  /** ISBN normalized to 13 digits. */
+  isbn?: string | null;
+  pmid?: string | null;
+  pages?: string | null;
+  volume?: string | null;
+  issue?: string | null;
+}
+
 export interface StructuredReference {
   citation_id: string;
   name: string | null;
   raw: string;
-  normalized: {
-    type: string | null;
-    title: string | null;
-    publisher?: string | null;
-    journal?: string | null;
-    year: number | null;
-    url: string | null;
-    doi?: string | null;
-  };
+  normalized: CitationMetadata;
+  /** Bibliography entry a short citation (`{{sfn}}`, `{{harvnb}}`) resolves to. */
+  full_citation_id?: string | null;
+  /** Pages cited at the point of use, from short citations and `{{rp}}`. */
+  cited_pages?: string[];
+}
+
+/**
+ * A calendar point at the precision it was written. BCE years are negative (`500 BC` → -500).
+ */
+export interface TemporalPoint {
+  year: number;
+  month: number | null;
+  day: number | null;
+}
+
+export interface TemporalExpression {
+  raw: string;
+  kind: 'date' | 'year' | 'decade' | 'range';
+  precision: 'day' | 'month' | 'year' | 'decade';
+  start: TemporalPoint;
+  end: TemporalPoint;
+  /** Qualified with `c.`, `circa`, `around`, or similar. */
+  approximate: boolean;
 }
 
 export interface StructuredClaim {
@@ -94,12 +152,45 @@ export interface StructuredClaim {
   normalized_text: string;
   entities: Array<{ label: string; type: string | null; qid: string | null }>;
   time: { unit: string; value: number } | null;
+  temporal: TemporalExpression[];
   numbers: Array<{ raw: string; value: number; unit: string | null }>;
   citation_ids: string[];
 }
 
+export interface StructuredInfoboxField {
+  /** Parameter name, lowercased with underscores (`birth_date`, `population_total`). */
+  key: string;
+  label: string;
+  /** Display text after templates, links, and references are resolved. */
+  value: string;
+  numbers: Array<{ raw: string; value: number; unit: string | null }>;
+  temporal: TemporalExpression[];
+}
+
+export interface StructuredInfobox {
+  /** Template name as written, e.g. `Infobox scientist`. */
+  template: string;
+  fields: StructuredInfoboxField[];
+}
+
+export interface StructuredTableCell {
+  text: string;
+  citation_ids: string[];
+}
+
+export interface StructuredTable {
+  table_id: string;
+  /** Section the table appears in; null for the lead. */
+  section_id: string | null;
+  caption: string | null;
+  /** Column headers; empty when the table has no header row. */
+  headers: string[];
+  /** Body rows with row/column spans already expanded, so every row is aligned to `headers`. */
+  rows: StructuredTableCell[][];
+}
+
 export interface StructuredArticle {
-  source: 'wikipedia' | 'grokipedia';
+  source: ArticleSource;
   page_id: string;
   lang: string;
   title: string;
@@ -110,6 +201,10 @@ export interface StructuredArticle {
   media: StructuredMedia[];
   references: StructuredReference[];
   claims: StructuredClaim[];
+  /** Parsed infobox, when the source has one. Absent on snapshots written before extraction. */
+  infobox?: StructuredInfobox | null;
+  /** Tables from the article body. Absent on snapshots written before extraction. */
+  tables?: StructuredTable[];
 }
 
 export interface ParsedTemplate {
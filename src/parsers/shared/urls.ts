@@ -0,0 +1,149 @@
+/**
+ * @file src/parsers/shared/urls.ts
+ * @description Canonical forms for cited URLs so that spellings of the same source compare
+ *              equal: scheme and `www.`/mobile/AMP host variants, tracking parameters, AMP paths
+ *              and caches, Wayback Machine wrappers, and DOI resolver hosts. DOIs themselves are
+ *              normalized here too. Both parsers store the result as `normalized.canonical_url`;
+ *              the analyzer matches citations on it and groups sources by domain.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+/** Query parameters that only track the visit and never select content. */
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'mc_cid',
+  'mc_eid',
+  'igshid',
+  'ref_src',
+  'cmpid',
+  'ito',
+  'amp',
+  'outputtype',
+]);
+
+const DOI_HOSTS = new Set(['doi.org', 'dx.doi.org']);
+
+/** Second-level labels under which the registrable domain has three labels (`bbc.co.uk`). */
+const SECOND_LEVEL_SUFFIXES = new Set([
+  'co',
+  'com',
+  'ac',
+  'gov',
+  'org',
+  'net',
+  'edu',
+  'gob',
+  'nic',
+]);
+
+const HOST_PREFIXES = /^(?:www\d*|m|mobile|amp)\./;
+
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"<>|\]]+)/i;
+const WAYBACK_PATTERN = /^https?:\/\/(?:web\.)?archive\.org\/web\/(\d{4,14})[a-z_]*\/(.+)$/i;
+
+/**
+ * Lowercases a DOI and drops resolver prefixes and trailing punctuation.
+ */
+export const normalizeDoi = (value: string | null | undefined): string | null => {
+  const match = value?.trim().match(DOI_PATTERN);
+  return match ? match[1].replace(/[.,;)]+$/, '').toLowerCase() : null;
+};
+
+/**
+ * Splits a Wayback Machine URL into the archived original and the snapshot date.
+ */
+export const unwrapArchiveUrl = (
+  url: string,
+): { original: string; archive_url: string; archive_date: string | null } | null => {
+  const match = url.trim().match(WAYBACK_PATTERN);
+  if (!match) return null;
+  const stamp = match[1];
+  const archiveDate =
+    stamp.length >= 8 ? `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}` : null;
+  const original = /^https?:\/\//i.test(match[2]) ? match[2] : `http://${match[2]}`;
+  return { original, archive_url: url.trim(), archive_date: archiveDate };
+};
+
+/** `decodeURIComponent` that leaves malformed escapes as they are. */
+export const decodeUrlComponent = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const isTrackingParam = (name: string): boolean =>
+  name.startsWith('utm_') || TRACKING_PARAMS.has(name);
+
+/**
+ * Unwraps Google AMP cache URLs (`google.com/amp/s/...`, `*.cdn.ampproject.org/c/s/...`) to the
+ * page they serve.
+ */
+const unwrapAmpCache = (url: URL): string | null => {
+  const host = url.hostname.toLowerCase();
+  const google =
+    host.match(/(?:^|\.)google\.[a-z.]+$/) && url.pathname.match(/^\/amp\/(s\/)?(.+)$/);
+  if (google) return `${google[1] ? 'https' : 'http'}://${google[2]}`;
+  const cache = host.endsWith('.cdn.ampproject.org') && url.pathname.match(/^\/[a-z]\/(s\/)?(.+)$/);
+  if (cache) return `${cache[1] ? 'https' : 'http'}://${cache[2]}`;
+  return null;
+};
+
+const parseUrl = (value: string): URL | null => {
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:(?!\d)/i.test(value) ? value : `http://${value}`);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns the canonical form of a cited URL, or null when the value is not an http(s) URL.
+ * The canonical form always uses `https`, drops `www.`/`m.`/`amp.` host prefixes, default
+ * ports, fragments, tracking parameters, AMP path segments, and trailing slashes, and sorts the
+ * remaining query parameters. Archive snapshots canonicalize to the archived page and DOI
+ * resolver links to `https://doi.org/<doi>`.
+ */
+export const canonicalizeUrl = (value: string | null | undefined): string | null => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  const archived = unwrapArchiveUrl(trimmed);
+  if (archived) return canonicalizeUrl(archived.original);
+  const url = parseUrl(trimmed);
+  if (!url || !/^https?:$/.test(url.protocol)) return null;
+  const cached = unwrapAmpCache(url);
+  if (cached) return canonicalizeUrl(cached);
+
+  const host = url.hostname.toLowerCase().replace(HOST_PREFIXES, '');
+  if (DOI_HOSTS.has(host)) {
+    const doi = normalizeDoi(decodeUrlComponent(url.pathname.slice(1)));
+    if (doi) return `https://doi.org/${doi}`;
+  }
+  const path = url.pathname
+    .replace(/\/amp(?=\/|$)/gi, '')
+    .replace(/\.amp(?=\.html?$|$)/i, '')
+    .replace(/\/+$/, '');
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length ? `?${new URLSearchParams(params).toString()}` : '';
+  return `https://${host}${path}${query}`;
+};
+
+/**
+ * The registrable domain of a URL (`news.bbc.co.uk` → `bbc.co.uk`). This is a heuristic, not a
+ * public-suffix lookup: country-code domains with a generic second level keep three labels.
+ */
+export const urlDomain = (value: string | null | undefined): string | null => {
+  const canonical = canonicalizeUrl(value);
+  if (!canonical) return null;
+  const labels = new URL(canonical).hostname.split('.');
+  if (labels.length <= 2) return labels.join('.');
+  const secondLevel = labels[labels.length - 2];
+  const keep = labels[labels.length - 1].length === 2 && SECOND_LEVEL_SUFFIXES.has(secondLevel);
+  return labels.slice(keep ? -3 : -2).join('.');
+};
@@ -0,0 +1,169 @@
+/**
+ * @file src/parsers/wiki/cite-template.ts
+ * @description Reads `{{cite web}}`, `{{cite journal}}`, `{{cite book}}`, `{{citation}}` and the
+ *              other Citation Style 1/2 templates into `CitationMetadata`: authors, dates,
+ *              identifiers, archive links, and locators. References without a cite template fall
+ *              back to their text and first external link.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { completeCitationMetadata, emptyCitationMetadata } from '../shared/citations';
+import type { CitationMetadata, ParsedTemplate } from '../shared/types';
+import { parseTemplate } from './template-handler';
+import { cleanSentenceText } from './text-cleaner';
+
+const CITE_TEMPLATE = /{{\s*(?:cite\s+[^|}]+|citation|vcite\s+[^|}]+)\s*(?:\||}})/i;
+
+/** Parameter aliases, first match wins. CS1 accepts both `access-date` and `accessdate`. */
+const FIELD_ALIASES: Record<
+  Exclude<keyof CitationMetadata, 'type' | 'year' | 'authors' | 'canonical_url'>,
+  string[]
+> = {
+  title: ['title', 'script-title', 'trans-title', 'chapter'],
+  publisher: ['publisher', 'work', 'website', 'newspaper', 'magazine', 'agency'],
+  journal: ['journal'],
+  url: ['url', 'chapter-url', 'chapterurl'],
+  doi: ['doi'],
+  date: ['date', 'publication-date'],
+  access_date: ['access-date', 'accessdate'],
+  archive_url: ['archive-url', 'archiveurl'],
+  archive_date: ['archive-date', 'archivedate'],
+  isbn: ['isbn', 'isbn13'],
+  pmid: ['pmid'],
+  pages: ['pages', 'page', 'pp', 'p', 'at'],
+  volume: ['volume'],
+  issue: ['issue', 'number'],
+};
+
+const readParams = (params: string[]): Map<string, string> => {
+  const fields = new Map<string, string>();
+  for (const param of params) {
+    const separator = param.indexOf('=');
+    if (separator <= 0) continue;
+    const key = param.slice(0, separator).trim().toLowerCase();
+    const value = cleanSentenceText(param.slice(separator + 1));
+    if (key && value && !fields.has(key)) fields.set(key, value);
+  }
+  return fields;
+};
+
+/**
+ * Collects authors from `last1`/`first1` pairs, numbered `author` parameters, and the list
+ * forms `authors` and `vauthors`.
+ */
+const readAuthors = (fields: Map<string, string>): string[] => {
+  const authors: string[] = [];
+  for (let index = 0; index <= 20; index += 1) {
+    const suffixes = index === 0 ? [''] : [String(index)];
+    for (const suffix of suffixes) {
+      const last = fields.get(`last${suffix}`) ?? fields.get(`surname${suffix}`);
+      const first = fields.get(`first${suffix}`) ?? fields.get(`given${suffix}`);
+      const author = fields.get(`author${suffix}`);
+      if (last) authors.push(first ? `${last}, ${first}` : last);
+      else if (author) authors.push(author);
+    }
+  }
+  const list = fields.get('vauthors') ?? fields.get('authors');
+  if (list) {
+    authors.push(
+      ...list
+        .split(fields.has('vauthors') ? /\s*,\s*/ : /\s*;\s*/)
+        .map((name) => name.trim())
+        .filter(Boolean),
+    );
+  }
+  return Array.from(new Set(authors));
+};
+
+/** Normalized anchor key shared by cite templates and short citations (`smithjones2001`). */
+export const citationAnchorKey = (parts: string[]): string =>
+  parts
+    .join('')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '');
+
+const surnameOf = (author: string): string =>
+  author.includes(',') ? author.split(',')[0] : author.trim().split(/\s+/)[0];
+
+/**
+ * The `CITEREF` anchor a cite template exposes to `{{sfn}}`/`{{harvnb}}`: up to four author (or
+ * editor) surnames plus the year, or the explicit `ref={{sfnref|...}}` value. `ref=none` opts out.
+ */
+const citationAnchor = (
+  template: ParsedTemplate,
+  fields: Map<string, string>,
+  authors: string[],
+): string | null => {
+  const refParam = template.params.find((param) => /^\s*ref\s*=/i.test(param));
+  const ref = refParam?.slice(refParam.indexOf('=') + 1).trim() ?? '';
+  if (/^none$/i.test(ref)) return null;
+  const refTemplate = ref.match(/^{{\s*(?:sfnref|harvid)\s*\|([^{}]*)}}$/i);
+  if (refTemplate) return citationAnchorKey(refTemplate[1].split('|')) || null;
+  if (ref && !/^harv$/i.test(ref)) return citationAnchorKey([ref.replace(/^CITEREF/, '')]) || null;
+  const editors = [1, 2, 3, 4]
+    .map(
+      (index) =>
+        fields.get(`editor${index}-last`) ??
+        (index === 1 ? (fields.get('editor-last') ?? fields.get('editor')) : undefined),
+    )
+    .filter((name): name is string => Boolean(name));
+  const names = (authors.length ? authors : editors).slice(0, 4).map(surnameOf);
+  const year = fields.get('year') ?? fields.get('date')?.match(/\d{4}[a-z]?/)?.[0] ?? '';
+  return names.length || year ? citationAnchorKey([...names, year]) : null;
+};
+
+/**
+ * Reads an already parsed cite template into metadata plus its short-citation anchor.
+ */
+export const readCiteTemplate = (
+  template: ParsedTemplate,
+): { metadata: CitationMetadata; anchor: string | null } => {
+  const fields = readParams(template.params);
+  const metadata = emptyCitationMetadata();
+  const type = template.name.replace(/^(?:cite|vcite)\s+/, '').trim();
+  metadata.type = type || null;
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as Array<
+    [keyof typeof FIELD_ALIASES, string[]]
+  >) {
+    const value = aliases.map((alias) => fields.get(alias)).find(Boolean);
+    if (value) metadata[field] = value;
+  }
+  metadata.authors = readAuthors(fields);
+  const year = fields.get('year');
+  metadata.year = year ? Number.parseInt(year, 10) || null : null;
+  return {
+    metadata: completeCitationMetadata(metadata),
+    anchor: citationAnchor(template, fields, metadata.authors),
+  };
+};
+
+/**
+ * Parses the first cite template in a reference body. Returns null when there is none.
+ */
+export const parseCiteTemplate = (text: string): CitationMetadata | null => {
+  const match = CITE_TEMPLATE.exec(text);
+  if (!match || match.index === undefined) return null;
+  const template = parseTemplate(text, match.index);
+  return template ? readCiteTemplate(template).metadata : null;
+};
+
+/**
+ * Builds metadata for a `<ref>` body: the cite template when present, otherwise the text and
+ * the first external link of a hand-written reference.
+ */
+export const parseReferenceMetadata = (inner: string | null): CitationMetadata => {
+  if (!inner) return emptyCitationMetadata();
+  const cited = parseCiteTemplate(inner);
+  if (cited) return cited;
+  const link = inner.match(/\[(https?:\/\/[^\s\]]+)(?:\s+([^\]]+))?]/i);
+  const bareUrl = link ? null : inner.match(/https?:\/\/[^\s<>|\]]+/i);
+  const text = cleanSentenceText(inner);
+  return completeCitationMetadata(
+    {
+      ...emptyCitationMetadata(),
+      title: text || null,
+      url: link?.[1] ?? bareUrl?.[0] ?? null,
+    },
+    text,
+  );
+};
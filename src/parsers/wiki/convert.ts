@@ -8,7 +8,7 @@
  * Data extracted from: https://en.wikipedia.org/wiki/Module:Convert/data
  */
 
-interface UnitDefinition {
+export interface UnitDefinition {
   name1: string;
   // Singular form
   name2: string;
@@ -1133,7 +1133,11 @@ function convertTemperature(value: number, fromUnit: string, toUnit: string): nu
   return value;
 }
 
-function convertValue(value: number, fromUnit: UnitDefinition, toUnit: UnitDefinition): number {
+export function convertValue(
+  value: number,
+  fromUnit: UnitDefinition,
+  toUnit: UnitDefinition,
+): number {
   if (fromUnit.utype === 'temperature') {
     return convertTemperature(value, fromUnit.symbol, toUnit.symbol);
   }
@@ -1142,6 +1146,60 @@ function convertValue(value: number, fromUnit: UnitDefinition, toUnit: UnitDefin
   return baseValue / toUnit.scale;
 }
 
+let unitAliases: Map<string, UnitDefinition> | null = null;
+
+/**
+ * Builds a case-insensitive lookup from unit keys, symbols, and singular/plural names (British
+ * and US spellings). Earlier entries win so the canonical key keeps precedence over aliases.
+ */
+function getUnitAliases(): Map<string, UnitDefinition> {
+  if (unitAliases) {
+    return unitAliases;
+  }
+  const aliases = new Map<string, UnitDefinition>();
+  const register = (alias: string | undefined, unit: UnitDefinition) => {
+    const key = alias?.trim().toLowerCase();
+    if (key && !aliases.has(key)) {
+      aliases.set(key, unit);
+    }
+  };
+  for (const [key, unit] of Object.entries(UNITS)) {
+    register(key, unit);
+  }
+  for (const unit of Object.values(UNITS)) {
+    register(unit.symbol, unit);
+    register(unit.name1, unit);
+    register(unit.name2, unit);
+    register(unit.name1_us, unit);
+    register(unit.name2_us, unit);
+  }
+  unitAliases = aliases;
+  return aliases;
+}
+
+/**
+ * Resolves a unit label as written in prose or template parameters (`km`, `miles`, `°F`,
+ * `kilometers`) to its definition in the convert table.
+ */
+export function resolveUnit(label: string | null | undefined): UnitDefinition | null {
+  if (!label) {
+    return null;
+  }
+  const trimmed = label.trim();
+  return UNITS[trimmed] ?? getUnitAliases().get(trimmed.toLowerCase()) ?? null;
+}
+
+/**
+ * Expresses a value in the base unit of its type (metres, kilograms, seconds, ...). Temperatures
+ * are converted to kelvin.
+ */
+export function toBaseUnit(value: number, unit: UnitDefinition): number {
+  if (unit.utype === 'temperature') {
+    return convertValue(value, unit, UNITS.K);
+  }
+  return value * unit.scale;
+}
+
 function getUnitName(unit: UnitDefinition, count: number, useUsSpelling: boolean): string {
   if (count === 1) {
     return useUsSpelling && unit.name1_us ? unit.name1_us : unit.name1;
@@ -20,6 +20,12 @@ export type {
 
 export { stripInfobox, stripMetaTemplates } from './template-handler';
 
+export { parseInfobox } from './infobox';
+
+export { parseCiteTemplate, parseReferenceMetadata } from './cite-template';
+
+export { extractWikiTables } from './table-parser';
+
 export {
   cleanSentenceText,
   normalizeText,
@@ -31,3 +37,5 @@ export {
 } from './text-cleaner';
 
 export { splitSentences } from './sentence-splitter';
+
+export { parseWikiDumpPage, readWikiXmlDump, type WikiDumpPage } from './xml-dump';
@@ -0,0 +1,34 @@
+/**
+ * @file src/parsers/wiki/infobox.ts
+ * @description Parses the article infobox from wikitext before `stripInfobox` removes it. Field
+ *              values go through the same template handling as body text, so `{{convert}}`,
+ *              currency, and date templates come out as readable, comparable prose.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { buildInfobox } from '../shared/infobox';
+import type { StructuredInfobox } from '../shared/types';
+import { extractInfoboxTemplate, stripNonCiteTemplates } from './template-handler';
+import { cleanSentenceText } from './text-cleaner';
+
+const cleanInfoboxValue = (value: string): string =>
+  cleanSentenceText(
+    stripNonCiteTemplates(
+      value
+        .replace(/<ref[^>]*\/>/gi, '')
+        .replace(/<ref[^>]*>[\s\S]*?<\/ref>/gi, '')
+        .replace(/<br\s*\/?>/gi, ', ')
+        .replace(/\n\s*\*+\s*/g, ', '),
+    ),
+  ).replace(/^[,\s]+|[,\s]+$/g, '');
+
+export const parseInfobox = (wikitext: string): StructuredInfobox | null => {
+  const extracted = extractInfoboxTemplate(wikitext);
+  if (!extracted) {
+    return null;
+  }
+  return buildInfobox(
+    extracted.template,
+    extracted.entries.map(([key, value]) => [key, cleanInfoboxValue(value)]),
+  );
+};
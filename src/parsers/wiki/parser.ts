@@ -20,10 +20,25 @@ import {
   cleanWikiLinks,
   normalizeText,
   tokenize,
-  stripTables,
   stripFileLinks,
 } from './text-cleaner';
+import { parseReferenceMetadata } from './cite-template';
+import { parseInfobox } from './infobox';
+import {
+  extractBibliography,
+  parseShortCitation,
+  readPageLocator,
+  wrapShortCitations,
+  type BibliographyEntry,
+  type ShortCitation,
+} from './short-citations';
+import { extractWikiTables } from './table-parser';
 import { splitSentences, GROK_BANNER_PATTERNS } from './sentence-splitter';
+import { completeCitationMetadata, emptyCitationMetadata } from '../shared/citations';
+import { extractNumbers } from '../shared/numbers';
+import { canonicalizeUrl } from '../shared/urls';
+import { createTableCellResolver, extractMarkdownTables, TableRegistry } from '../shared/tables';
+import { extractTemporalExpressions } from '../shared/temporal';
 import type {
   ArticleMetadata,
   ExternalCitation,
@@ -241,18 +256,27 @@ const stripWikiCitations = (
 ): { text: string; matches: ReferenceMatch[] } => {
   let output = '';
   const matches: ReferenceMatch[] = [];
+  const source = wrapShortCitations(text);
+  // An `{{rp}}` right after a reference adds its page locator to that reference.
+  const skipPageLocator = (regex: RegExp, rest: string, citationId: string) => {
+    const locator = readPageLocator(rest);
+    if (!locator) return;
+    references.addCitedPages(citationId, locator.pages);
+    regex.lastIndex += locator.length;
+  };
   const fullRegex = /<ref\b((?:[^/>]|\/(?!>))*)>([\s\S]*?)<\/ref>/gi;
   let lastIndex = 0;
   let match: RegExpExecArray | null;
-  while ((match = fullRegex.exec(text)) !== null) {
-    output += text.slice(lastIndex, match.index);
+  while ((match = fullRegex.exec(source)) !== null) {
+    output += source.slice(lastIndex, match.index);
     const attrs = match[1];
     const inner = match[2];
     const citationId = references.registerReference(attrs, inner, match[0]);
     matches.push({ citationId, offset: output.length });
+    skipPageLocator(fullRegex, source.slice(fullRegex.lastIndex), citationId);
     lastIndex = fullRegex.lastIndex;
   }
-  output += text.slice(lastIndex);
+  output += source.slice(lastIndex);
   const selfRegex = /<ref\b([^>]*)\/>/gi;
   let finalOutput = '';
   lastIndex = 0;
@@ -260,6 +284,7 @@ const stripWikiCitations = (
     finalOutput += output.slice(lastIndex, match.index);
     const citationId = references.registerReference(match[1], null, match[0]);
     matches.push({ citationId, offset: finalOutput.length });
+    skipPageLocator(selfRegex, output.slice(selfRegex.lastIndex), citationId);
     lastIndex = selfRegex.lastIndex;
   }
   finalOutput += output.slice(lastIndex);
@@ -296,9 +321,9 @@ const parseParagraph = (
   media: MediaRegistry,
   sectionId: string | null,
   mode: 'wiki' | 'markdown',
+  lang: string,
 ): StructuredParagraph | null => {
-  const base = mode === 'wiki' ? stripTables(rawParagraph) : rawParagraph;
-  const trimmed = base.trim();
+  const trimmed = rawParagraph.trim();
   if (!trimmed) return null;
   const paraId = `${prefix}-${paragraphIndex + 1}`;
   const mediaStripped =
@@ -314,7 +339,7 @@ const parseParagraph = (
   const footnoteStripped =
     mode === 'wiki' ? stripFootnoteTemplates(templateStripped) : templateStripped;
   const wikilinksStripped = mode === 'wiki' ? cleanWikiLinks(footnoteStripped) : footnoteStripped;
-  const slices = splitSentences(wikilinksStripped.replace(/\n+/g, ' ').trim());
+  const slices = splitSentences(wikilinksStripped.replace(/\n+/g, ' ').trim(), lang);
   const sentences: StructuredSentence[] = [];
   slices.forEach((slice, idx) => {
     const text = cleanSentenceText(slice.text);
@@ -349,17 +374,42 @@ const parseParagraph = (
   };
 };
 
+/**
+ * Moves the tables of a lead or section into the registry and returns the remaining prose.
+ */
+const extractTables = (
+  text: string,
+  tables: TableRegistry,
+  sectionId: string | null,
+  mode: 'wiki' | 'markdown',
+): string => {
+  const extracted = mode === 'wiki' ? extractWikiTables(text) : extractMarkdownTables(text);
+  extracted.tables.forEach((table) => tables.register(table, sectionId));
+  return extracted.text;
+};
+
 const buildLead = (
   text: string,
   references: ReferenceStore,
   media: MediaRegistry,
+  tables: TableRegistry,
   mode: 'wiki' | 'markdown',
+  lang: string,
 ): { lead: StructuredLead; offsetEnd: number } => {
   const paragraphs: StructuredParagraph[] = [];
-  const blocks = text.split(/\n\s*\n/);
+  const blocks = extractTables(text, tables, null, mode).split(/\n\s*\n/);
   let validIndex = 0;
   blocks.forEach((block) => {
-    const paragraph = parseParagraph(block, 'lead', validIndex, references, media, null, mode);
+    const paragraph = parseParagraph(
+      block,
+      'lead',
+      validIndex,
+      references,
+      media,
+      null,
+      mode,
+      lang,
+    );
     if (paragraph) {
       paragraphs.push(paragraph);
       validIndex += 1;
@@ -379,7 +429,9 @@ const processSections = (
   text: string,
   references: ReferenceStore,
   media: MediaRegistry,
+  tables: TableRegistry,
   mode: 'wiki' | 'markdown',
+  lang: string,
 ): StructuredSection[] => {
   const sections: StructuredSection[] = [];
   if (!matches.length) return sections;
@@ -395,9 +447,18 @@ const processSections = (
     const parent = stack[stack.length - 1]?.id;
     stack.push({ level: current.level, id: sectionId });
     const paragraphs: StructuredParagraph[] = [];
-    const blocks = content.split(/\n\s*\n/);
+    const blocks = extractTables(content, tables, sectionId, mode).split(/\n\s*\n/);
     blocks.forEach((block, idx) => {
-      const paragraph = parseParagraph(block, sectionId, idx, references, media, sectionId, mode);
+      const paragraph = parseParagraph(
+        block,
+        sectionId,
+        idx,
+        references,
+        media,
+        sectionId,
+        mode,
+        lang,
+      );
       if (paragraph) {
         paragraphs.push(paragraph);
       }
@@ -426,6 +487,8 @@ const buildWikiSections = (
   text: string,
   references: ReferenceStore,
   media: MediaRegistry,
+  tables: TableRegistry,
+  lang: string,
 ): StructuredSection[] => {
   const headingRegex = /^={2,6}\s*(.*?)\s*={2,6}\s*$/gm;
   const matches: Array<{ heading: string; level: number; start: number; end: number }> = [];
@@ -439,7 +502,7 @@ const buildWikiSections = (
       end: match.index + match[0].length,
     });
   }
-  return processSections(matches, text, references, media, 'wiki');
+  return processSections(matches, text, references, media, tables, 'wiki', lang);
 };
 
 const fallbackEntities = (text: string): string[] => {
@@ -486,49 +549,6 @@ const detectTime = (text: string): { unit: string; value: number } | null => {
   return null;
 };
 
-const normalizeUnit = (unit: string | null): string | null => {
-  if (!unit) return null;
-  const cleaned = unit.trim().toLowerCase();
-  if (/^kilomet/.test(cleaned) || cleaned === 'km') return 'km';
-  if (cleaned === 'm' || cleaned === 'meter' || cleaned === 'meters') return 'm';
-  if (cleaned === 'mi' || cleaned.includes('mile')) return 'mi';
-  if (cleaned === 'kg' || cleaned.includes('kilogram')) return 'kg';
-  if (cleaned === 'g' || cleaned.includes('gram')) return 'g';
-  if (cleaned === 'percent' || cleaned === 'percentage') return '%';
-  if (cleaned === '%') return '%';
-  if (cleaned === 'days' || cleaned === 'day') return 'day';
-  if (cleaned.includes('year')) return 'year';
-  if (cleaned.includes('c') && cleaned.includes('°')) return '°C';
-  if (cleaned.includes('f') && cleaned.includes('°')) return '°F';
-  return cleaned || null;
-};
-
-const extractNumbers = (
-  text: string,
-): Array<{ raw: string; value: number; unit: string | null }> => {
-  const results: Array<{ raw: string; value: number; unit: string | null }> = [];
-  const numberRegex =
-    /(\d[\d,.\s]*)(?:\s?[×xe]\s?10(?:\^|[-⁻])?(-?\d+))?(?:\s?(km|kilometres?|kilometers?|miles?|mi|m|meters?|metres?|kg|kilograms?|g|grams?|%|percent|degrees?\s?[cf]|°\s?[cf]|days?|years?))?/gi;
-  let match: RegExpExecArray | null;
-  while ((match = numberRegex.exec(text)) !== null) {
-    const raw = match[0].trim();
-    const baseStr = match[1]?.replace(/[\s,]/g, '');
-    if (!baseStr) continue;
-    let value = Number.parseFloat(baseStr);
-    if (Number.isNaN(value)) continue;
-    const exponentStr = match[2];
-    if (exponentStr !== undefined) {
-      const exponent = Number.parseInt(exponentStr, 10);
-      if (!Number.isNaN(exponent)) {
-        value *= 10 ** exponent;
-      }
-    }
-    const unit = normalizeUnit(match[3] ?? null);
-    results.push({ raw, value, unit });
-  }
-  return results;
-};
-
 const buildClaims = (lead: StructuredLead, sections: StructuredSection[]): StructuredClaim[] => {
   const claims: StructuredClaim[] = [];
   let counter = 1;
@@ -543,6 +563,7 @@ const buildClaims = (lead: StructuredLead, sections: StructuredSection[]): Struc
         normalized_text: sentence.normalized_text,
         entities: extractEntities(sentence.text),
         time: detectTime(sentence.text),
+        temporal: extractTemporalExpressions(sentence.text),
         numbers: extractNumbers(sentence.text),
         citation_ids: sentence.citation_ids,
       });
@@ -618,6 +639,14 @@ class ReferenceStore {
   private anon = new Map<string, StructuredReference>();
   private links = new Map<string, StructuredReference>();
   private external = new Map<string, StructuredReference>();
+  private short = new Map<string, StructuredReference>();
+  private bibliography = new Map<string, BibliographyEntry>();
+  private citedEntries = new Map<string, StructuredReference>();
+
+  /** Bibliography entries that short citations can resolve to; set before any prose is read. */
+  setBibliography(entries: Map<string, BibliographyEntry>): void {
+    this.bibliography = entries;
+  }
 
   registerReference(attrsRaw: string, inner: string | null, raw: string): string {
     const nameMatch = attrsRaw?.match(/name\s*=\s*(?:"([^"]+)"|'([^']+)'|([^\s>]+))/i);
@@ -632,6 +661,15 @@ class ReferenceStore {
       }
       return existing.citation_id;
     }
+    const short = parseShortCitation(inner);
+    if (short) {
+      // Identical short citations are one footnote on Wikipedia; keep them as one reference.
+      const shortId = `r_sfn_${citationSlug([short.anchor, short.pages ?? ''].join(' '))}`;
+      if (!this.short.has(shortId)) {
+        this.short.set(shortId, this.shortReference(shortId, null, raw, short));
+      }
+      return shortId;
+    }
     const anonId = `r_auto_${this.counter}`;
     if (!this.anon.has(anonId)) {
       this.anon.set(anonId, this.createReference(null, raw, inner));
@@ -645,17 +683,62 @@ class ReferenceStore {
     raw: string,
     inner: string | null,
   ): StructuredReference {
-    const normalized = normalizeReference(inner);
+    const citationId = name ? `r_${citationSlug(name)}` : `r_auto_${this.counter}`;
+    const short = parseShortCitation(inner);
+    if (short) return this.shortReference(citationId, name, raw, short);
+    const normalized = parseReferenceMetadata(inner);
     return {
-      citation_id: name ? `r_${citationSlug(name)}` : `r_auto_${this.counter}`,
+      citation_id: citationId,
       name,
       raw: raw.trim(),
       normalized,
     };
   }
 
+  /**
+   * Builds the reference for a short citation. A resolved citation copies the metadata of its
+   * bibliography entry, with the cited pages, and links to the entry through `full_citation_id`.
+   */
+  private shortReference(
+    citationId: string,
+    name: string | null,
+    raw: string,
+    short: ShortCitation,
+  ): StructuredReference {
+    const entry = this.bibliography.get(short.anchor);
+    return {
+      citation_id: citationId,
+      name,
+      raw: raw.trim(),
+      normalized: entry
+        ? { ...entry.metadata, pages: short.pages ?? entry.metadata.pages ?? null }
+        : { ...emptyCitationMetadata(), title: short.label },
+      full_citation_id: entry ? this.registerBibliographyEntry(entry) : null,
+      cited_pages: short.pages ? [short.pages] : [],
+    };
+  }
+
+  private registerBibliographyEntry(entry: BibliographyEntry): string {
+    const citationId = `r_bib_${citationSlug(entry.anchor)}`;
+    if (!this.citedEntries.has(citationId)) {
+      this.citedEntries.set(citationId, {
+        citation_id: citationId,
+        name: null,
+        raw: entry.raw,
+        normalized: entry.metadata,
+      });
+    }
+    return citationId;
+  }
+
+  addCitedPages(citationId: string, pages: string): void {
+    const reference = this.toArray().find((entry) => entry.citation_id === citationId);
+    if (!reference) return;
+    reference.cited_pages = Array.from(new Set([...(reference.cited_pages ?? []), pages]));
+  }
+
   registerLinkReference(url: string, title?: string | null): string {
-    const key = url.trim();
+    const key = canonicalizeUrl(url) ?? url.trim();
     if (!key) {
       return `r_link_${this.linkCounter++}`;
     }
@@ -666,14 +749,12 @@ class ReferenceStore {
         citation_id,
         name: title ?? null,
         raw: url,
-        normalized: {
+        normalized: completeCitationMetadata({
+          ...emptyCitationMetadata(),
           type: 'web',
           title: normalizedTitle,
-          publisher: null,
-          journal: null,
-          year: null,
           url,
-        },
+        }),
       });
     }
     return this.links.get(key)!.citation_id;
@@ -683,71 +764,14 @@ class ReferenceStore {
     return [
       ...this.byName.values(),
       ...this.anon.values(),
+      ...this.short.values(),
+      ...this.citedEntries.values(),
       ...this.links.values(),
       ...this.external.values(),
     ];
   }
 }
 
-const normalizeReference = (
-  inner: string | null,
-): {
-  type: string | null;
-  title: string | null;
-  publisher?: string | null;
-  journal?: string | null;
-  year: number | null;
-  url: string | null;
-  doi?: string | null;
-} => {
-  if (!inner) {
-    return {
-      type: null,
-      title: null,
-      publisher: null,
-      journal: null,
-      year: null,
-      url: null,
-      doi: null,
-    };
-  }
-  const citeMatch = inner.match(/{{\s*cite\s+([^\s|}]+)([^}]*)}/i);
-  if (!citeMatch) {
-    return {
-      type: null,
-      title: cleanSentenceText(inner) || null,
-      publisher: null,
-      journal: null,
-      year: null,
-      url: null,
-      doi: null,
-    };
-  }
-  const type = citeMatch[1]?.trim().toLowerCase() ?? null;
-  const fieldsText = citeMatch[2] ?? '';
-  const fieldParts = fieldsText
-    .split('|')
-    .map((part) => part.trim())
-    .filter(Boolean);
-  const fields: Record<string, string> = {};
-  for (const part of fieldParts) {
-    const [key, ...rest] = part.split('=');
-    if (!key || !rest.length) continue;
-    fields[key.trim().toLowerCase()] = rest.join('=').trim();
-  }
-  const yearValue = fields.year ?? fields.date ?? null;
-  const year = yearValue ? Number.parseInt(yearValue.replace(/\D/g, ''), 10) : null;
-  return {
-    type,
-    title: fields.title ?? null,
-    publisher: fields.publisher ?? fields.work ?? null,
-    journal: fields.journal ?? null,
-    year: Number.isNaN(year) ? null : year,
-    url: fields.url ?? null,
-    doi: fields.doi ?? null,
-  };
-};
-
 export const parseWikiArticle = (
   topic: Topic,
   wikitext: string,
@@ -755,10 +779,16 @@ export const parseWikiArticle = (
 ): StructuredArticle => {
   const referenceStore = new ReferenceStore();
   const mediaRegistry = new MediaRegistry();
+  const tableRegistry = new TableRegistry(
+    createTableCellResolver((content) => stripWikiCitations(content, referenceStore), 'wiki'),
+  );
+  const lang = metadata.lang || 'en';
   let cleaned = wikitext.trim();
+  const infobox = parseInfobox(cleaned);
   cleaned = stripInfobox(cleaned);
   cleaned = stripFileLinks(cleaned);
   cleaned = stripMetaTemplates(cleaned);
+  referenceStore.setBibliography(extractBibliography(cleaned));
 
   cleaned = cleaned.replace(/^'''[^']+'''\s*/m, '');
 
@@ -769,13 +799,13 @@ export const parseWikiArticle = (
       : cleaned.length;
   const leadText = cleaned.slice(0, leadEnd).trim();
   const bodyText = cleaned.slice(leadEnd).trim();
-  const { lead } = buildLead(leadText, referenceStore, mediaRegistry, 'wiki');
-  const sections = buildWikiSections(bodyText, referenceStore, mediaRegistry);
+  const { lead } = buildLead(leadText, referenceStore, mediaRegistry, tableRegistry, 'wiki', lang);
+  const sections = buildWikiSections(bodyText, referenceStore, mediaRegistry, tableRegistry, lang);
   const claims = buildClaims(lead, sections);
   return {
     source: metadata.source,
     page_id: metadata.pageId,
-    lang: metadata.lang || 'en',
+    lang,
     title: metadata.title || topic.title,
     canonical_url: metadata.canonicalUrl,
     revision: {
@@ -787,5 +817,7 @@ export const parseWikiArticle = (
     media: mediaRegistry.toArray(),
     references: referenceStore.toArray(),
     claims,
+    infobox,
+    tables: tableRegistry.toArray(),
   };
 };
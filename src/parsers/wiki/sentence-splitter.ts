@@ -6,20 +6,34 @@
 
 import type { SentenceSlice } from '../shared/types';
 
-export const splitSentences = (text: string): SentenceSlice[] => {
+/**
+ * Languages written without spaces between words. Sentences end with full-width punctuation
+ * (。！？) that is not followed by whitespace, and word-count filters do not apply.
+ */
+const UNSPACED_LANGUAGES = new Set(['ja', 'zh', 'th', 'lo', 'km', 'my']);
+
+const SPACED_BOUNDARY = /(?<=[.!?])(?=\s+[\p{Lu}¿¡«„])|(?<=[.!?])\s*$/u;
+const UNSPACED_BOUNDARY = /(?<=[。！？])|(?<=[.!?])(?=\s+\S)|(?<=[.!?])\s*$/u;
+
+const baseLanguage = (lang: string): string => lang.toLowerCase().split(/[-_]/)[0];
+
+export const splitSentences = (text: string, lang = 'en'): SentenceSlice[] => {
   const sentences: SentenceSlice[] = [];
-  const parts = text.split(/(?<=[.!?])(?=\s+[A-Z])|(?<=[.!?])\s*$/);
+  const unspaced = UNSPACED_LANGUAGES.has(baseLanguage(lang));
+  const parts = text.split(unspaced ? UNSPACED_BOUNDARY : SPACED_BOUNDARY);
 
   for (const part of parts) {
     const trimmed = part.trim();
     if (!trimmed) continue;
     if (trimmed.length < 5) continue;
-    if (/^[,;:\s.!?]+$/.test(trimmed)) continue;
+    if (/^[,;:\s.!?、，。！？]+$/.test(trimmed)) continue;
 
-    const words = trimmed.split(/\s+/).filter((w) => /[a-zA-Z0-9]/.test(w));
-    if (words.length < 2) continue;
+    if (!unspaced) {
+      const words = trimmed.split(/\s+/).filter((w) => /[\p{L}\p{N}]/u.test(w));
+      if (words.length < 2) continue;
+    }
 
-    const alphanumericCount = trimmed.replace(/[^a-zA-Z0-9\s]/g, '').length;
+    const alphanumericCount = trimmed.replace(/[^\p{L}\p{N}\s]/gu, '').length;
     if (alphanumericCount < trimmed.length * 0.5) continue;
 
     if (/^(until|from|and|or|but)\s+/i.test(trimmed)) continue;
@@ -28,7 +42,9 @@ export const splitSentences = (text: string): SentenceSlice[] => {
 
     if (/^(ogg|jpg|png|svg|gif|webm|mp4)\s*[,;.]/i.test(trimmed)) continue;
 
-    if (trimmed === trimmed.toUpperCase() && trimmed.length > 3) continue;
+    if (trimmed === trimmed.toUpperCase() && trimmed.length > 3 && !/\p{Lo}/u.test(trimmed)) {
+      continue;
+    }
 
     if (/^(Retrieved|Archived|Accessed)\s+/i.test(trimmed)) continue;
     if (/^\w+,\s+\w+\s+\(\w+\s+\d+,\s+\d{4}\)/i.test(trimmed)) continue;
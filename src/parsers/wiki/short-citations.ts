@@ -0,0 +1,145 @@
+/**
+ * @file src/parsers/wiki/short-citations.ts
+ * @description Harvard-style short citations. `{{sfn}}`, `{{harvnb}}` and related templates cite
+ *              a full `{{cite ...}}` entry in the bibliography by author surnames and year, and
+ *              `{{rp}}` adds a page locator to the reference before it. This module collects the
+ *              bibliography anchors, reads short citations, and turns inline ones into `<ref>` tags
+ *              so the reference store registers them like any other footnote.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { CitationMetadata } from '../shared/types';
+import { citationAnchorKey, readCiteTemplate } from './cite-template';
+import { parseTemplate } from './template-handler';
+import { cleanSentenceText } from './text-cleaner';
+
+/**
+ * Short citations rendered in the prose: `(Smith 2001)` or `Smith (2001)`. The others (`sfn`,
+ * `sfnp`, `harvnb`) only produce a footnote.
+ */
+const INLINE_SHORT_TEMPLATES = new Set(['harv', 'harvp', 'harvtxt', 'harvcoltxt']);
+
+const SHORT_TEMPLATE_START = /{{\s*(sfnp?|harvnb|harvp?|harvtxt|harvcoltxt)\s*\|/i;
+const SCAN_PATTERN =
+  /<ref\b(?:[^/>]|\/(?!>))*>[\s\S]*?<\/ref>|{{\s*(sfnp?|harvnb|harvp?|harvtxt|harvcoltxt)\s*\|/gi;
+const CITE_START = /{{\s*(?:cite\s+[^|}]+|citation|vcite\s+[^|}]+)\s*(?:\||}})/gi;
+const RP_PATTERN = /^\s*{{\s*rp\s*\|([^{}]*)}}/i;
+
+/** Positional parameters that name the cited work: up to four surnames and the year. */
+const MAX_ANCHOR_PARTS = 5;
+
+export interface ShortCitation {
+  /** Anchor key shared with the bibliography entry (`smith2001`). */
+  anchor: string;
+  /** Page, page range, or location cited. */
+  pages: string | null;
+  /** Human-readable form, e.g. `Smith & Jones 2001, p. 5`. */
+  label: string;
+}
+
+export interface BibliographyEntry {
+  anchor: string;
+  raw: string;
+  metadata: CitationMetadata;
+}
+
+const readShortTemplate = (params: string[]): ShortCitation | null => {
+  const positional: string[] = [];
+  const named = new Map<string, string>();
+  for (const param of params) {
+    const separator = param.indexOf('=');
+    if (separator > 0) {
+      named.set(param.slice(0, separator).trim().toLowerCase(), param.slice(separator + 1).trim());
+    } else if (param.trim()) {
+      positional.push(param.trim());
+    }
+  }
+  const parts = positional.slice(0, MAX_ANCHOR_PARTS);
+  const anchor = citationAnchorKey(parts);
+  if (!anchor) return null;
+  const pages = named.get('pp') || named.get('p') || named.get('loc') || null;
+  const names = parts.slice(0, -1);
+  const year = parts[parts.length - 1];
+  const author =
+    names.length > 1 ? `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}` : names[0];
+  const locator = named.get('pp') ? `pp. ${pages}` : named.get('p') ? `p. ${pages}` : pages;
+  return {
+    anchor,
+    pages: pages ? cleanSentenceText(pages) || pages : null,
+    label: [[author, year].filter(Boolean).join(' '), locator].filter(Boolean).join(', '),
+  };
+};
+
+/**
+ * Reads a `<ref>` body that consists of a short citation, e.g.
+ * `<ref>{{harvnb|Smith|2001|p=5}}</ref>`. Returns null for any other body.
+ */
+export const parseShortCitation = (inner: string | null): ShortCitation | null => {
+  const trimmed = inner?.trim() ?? '';
+  const match = trimmed.match(SHORT_TEMPLATE_START);
+  if (!match || match.index !== 0) return null;
+  const template = parseTemplate(trimmed, 0);
+  return template ? readShortTemplate(template.params) : null;
+};
+
+/**
+ * Collects every cite template outside `<ref>` tags that exposes an anchor. These are the
+ * bibliography entries short citations point to; the first entry wins for duplicate anchors.
+ */
+export const extractBibliography = (wikitext: string): Map<string, BibliographyEntry> => {
+  const text = wikitext.replace(/<ref\b(?:[^/>]|\/(?!>))*>[\s\S]*?<\/ref>/gi, '');
+  const entries = new Map<string, BibliographyEntry>();
+  for (const match of text.matchAll(CITE_START)) {
+    const template = parseTemplate(text, match.index ?? 0);
+    if (!template) continue;
+    const { metadata, anchor } = readCiteTemplate(template);
+    if (anchor && !entries.has(anchor)) {
+      entries.set(anchor, { anchor, raw: template.raw, metadata });
+    }
+  }
+  return entries;
+};
+
+/**
+ * Wraps short citations that appear in the prose in `<ref>` tags. Footnote templates (`{{sfn}}`)
+ * leave no text behind; in-text templates keep their rendered author and year.
+ */
+export const wrapShortCitations = (text: string): string => {
+  let output = '';
+  let lastIndex = 0;
+  SCAN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SCAN_PATTERN.exec(text)) !== null) {
+    if (!match[1]) continue;
+    const template = parseTemplate(text, match.index);
+    if (!template) continue;
+    const short = readShortTemplate(template.params);
+    output += text.slice(lastIndex, match.index);
+    if (short && INLINE_SHORT_TEMPLATES.has(template.name)) {
+      const positional = template.params
+        .filter((param) => !param.includes('='))
+        .map((param) => param.trim());
+      const names = positional.slice(0, -1).join(' & ');
+      const year = positional[positional.length - 1] ?? '';
+      output += template.name.endsWith('txt') ? `${names} (${year})` : `(${names} ${year})`;
+    }
+    if (short) output += `<ref>${template.raw}</ref>`;
+    lastIndex = template.endIndex;
+    SCAN_PATTERN.lastIndex = template.endIndex;
+  }
+  return output + text.slice(lastIndex);
+};
+
+/**
+ * Reads an `{{rp|...}}` page locator at the start of `text`. Returns the pages and the length of
+ * the template so the caller can skip it.
+ */
+export const readPageLocator = (text: string): { pages: string; length: number } | null => {
+  const match = text.match(RP_PATTERN);
+  if (!match) return null;
+  const value = match[1]
+    .split('|')
+    .map((param) => param.replace(/^\s*(?:p|pp|page|pages|at)\s*=/i, '').trim())
+    .find(Boolean);
+  return value ? { pages: value, length: match[0].length } : null;
+};
@@ -0,0 +1,151 @@
+/**
+ * @file src/parsers/wiki/table-parser.ts
+ * @description Reads wikitext tables (`{| ... |}`) into raw tables: caption, header and data
+ *              cells with their row/column spans. Cell markup is kept as-is so the parser can
+ *              register references and render templates the same way it does for prose.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { parseSpan, type RawTable, type RawTableCell } from '../shared/tables';
+
+const TABLE_OPEN = /^\s*\{\|/;
+const TABLE_CLOSE = /^\s*\|\}(?!\})/;
+
+/**
+ * Splits on any of the separators while ignoring those inside links or templates.
+ */
+const splitOutsideMarkup = (text: string, separators: string[]): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  let index = 0;
+  while (index < text.length) {
+    const pair = text.slice(index, index + 2);
+    if (pair === '[[' || pair === '{{') {
+      depth += 1;
+      current += pair;
+      index += 2;
+      continue;
+    }
+    if ((pair === ']]' || pair === '}}') && depth > 0) {
+      depth -= 1;
+      current += pair;
+      index += 2;
+      continue;
+    }
+    const separator = depth === 0 ? separators.find((sep) => text.startsWith(sep, index)) : null;
+    if (separator) {
+      parts.push(current);
+      current = '';
+      index += separator.length;
+      continue;
+    }
+    current += text[index];
+    index += 1;
+  }
+  parts.push(current);
+  return parts;
+};
+
+/**
+ * Separates `attr="x" | content` cell syntax. A prefix is only treated as attributes when it
+ * looks like `name=value` pairs, so piped links and templates stay intact.
+ */
+const splitAttributes = (raw: string): { attributes: string; content: string } => {
+  const [first, ...rest] = splitOutsideMarkup(raw, ['|']);
+  if (rest.length && /^\s*(?:[\w-]+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"']+)\s*)+$/.test(first)) {
+    return { attributes: first, content: rest.join('|') };
+  }
+  return { attributes: '', content: raw };
+};
+
+const toCell = (raw: string, header: boolean): RawTableCell => {
+  const { attributes, content } = splitAttributes(raw);
+  return {
+    content: content.trim(),
+    header,
+    colspan: parseSpan(attributes, 'colspan'),
+    rowspan: parseSpan(attributes, 'rowspan'),
+  };
+};
+
+/**
+ * Parses the lines of one table, from its `{|` line up to the matching `|}`. Nested tables are
+ * kept inside the cell they appear in.
+ */
+const parseWikiTable = (lines: string[]): RawTable => {
+  let caption: string | null = null;
+  const rows: RawTableCell[][] = [];
+  let current: RawTableCell[] | null = null;
+  let lastCell: RawTableCell | null = null;
+  let nested = 0;
+
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trim();
+    if (nested > 0 || TABLE_OPEN.test(line)) {
+      if (TABLE_OPEN.test(line)) nested += 1;
+      if (TABLE_CLOSE.test(line)) nested -= 1;
+      if (lastCell) lastCell.content += `\n${line}`;
+      continue;
+    }
+    if (TABLE_CLOSE.test(line)) break;
+    if (trimmed.startsWith('|+')) {
+      caption = splitAttributes(trimmed.slice(2)).content.trim() || null;
+      lastCell = null;
+      continue;
+    }
+    if (trimmed.startsWith('|-')) {
+      current = [];
+      rows.push(current);
+      lastCell = null;
+      continue;
+    }
+    const header = trimmed.startsWith('!');
+    if (!header && !trimmed.startsWith('|')) {
+      if (lastCell && trimmed) lastCell.content += `\n${trimmed}`;
+      continue;
+    }
+    // `! Name || 1 || 2` is a row header followed by data cells.
+    const [lead, ...data] = splitOutsideMarkup(trimmed.slice(1), ['||']);
+    const cells = [
+      ...(header ? splitOutsideMarkup(lead, ['!!']) : [lead]).map((raw) => toCell(raw, header)),
+      ...data.map((raw) => toCell(raw, false)),
+    ];
+    if (!current) {
+      current = [];
+      rows.push(current);
+    }
+    current.push(...cells);
+    lastCell = cells[cells.length - 1] ?? null;
+  }
+  return { caption, rows: rows.filter((row) => row.length) };
+};
+
+/**
+ * Removes every top-level wikitext table from the text and returns them parsed.
+ */
+export const extractWikiTables = (text: string): { text: string; tables: RawTable[] } => {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  const tables: RawTable[] = [];
+  let block: string[] | null = null;
+  let depth = 0;
+  for (const line of lines) {
+    if (!block) {
+      if (!TABLE_OPEN.test(line)) {
+        kept.push(line);
+        continue;
+      }
+      block = [];
+    }
+    block.push(line);
+    if (TABLE_OPEN.test(line)) depth += 1;
+    if (TABLE_CLOSE.test(line)) depth -= 1;
+    if (depth === 0) {
+      tables.push(parseWikiTable(block));
+      block = null;
+    }
+  }
+  if (block) tables.push(parseWikiTable(block));
+  return { text: kept.join('\n'), tables };
+};
@@ -5,11 +5,10 @@
  */
 
 import type { ParsedTemplate } from '../shared/types';
+import { MONTH_NAMES } from '../shared/temporal';
 import { convertUnits } from './convert';
 
 const STRIP_TEMPLATES = new Set([
-  'circa',
-  'c',
   'nowrap',
   'ipac-en',
   'respell',
@@ -65,6 +64,55 @@ function processCurrencyTemplate(params: string[], templateName: string): string
   return `${symbol}${amount}`;
 }
 
+/**
+ * Date templates rendered as prose so the temporal extractor sees them. Templates that carry two
+ * dates (`death date and age`) render only the first.
+ */
+const DATE_TEMPLATES = new Set([
+  'birth date',
+  'birth date and age',
+  'bda',
+  'birth year and age',
+  'death date',
+  'death date and age',
+  'dda',
+  'death year and age',
+  'start date',
+  'start date and age',
+  'end date',
+  'film date',
+  'dts',
+]);
+
+const CIRCA_TEMPLATES = new Set(['circa', 'c.', 'c']);
+
+function processDateTemplate(params: string[]): string {
+  const named = new Map<string, string>();
+  const positional: string[] = [];
+  params.forEach((param) => {
+    const match = param.match(/^\s*([a-z_]+)\s*=(.*)$/i);
+    if (match) {
+      named.set(match[1].toLowerCase(), match[2].trim());
+    } else {
+      positional.push(param.trim());
+    }
+  });
+  const [yearRaw, monthRaw, dayRaw] = positional;
+  if (!yearRaw || !/^-?\d{1,4}$/.test(yearRaw)) return yearRaw ?? '';
+
+  const yearValue = Number(yearRaw);
+  const year = yearValue < 0 ? `${-yearValue} BC` : String(yearValue);
+  const monthNumber = monthRaw && /^\d{1,2}$/.test(monthRaw) ? Number(monthRaw) : null;
+  const month = monthNumber
+    ? MONTH_NAMES[monthNumber - 1]
+    : MONTH_NAMES.find((name) => name.toLowerCase() === monthRaw?.toLowerCase());
+  if (!month) return year;
+  const day = dayRaw && /^\d{1,2}$/.test(dayRaw) ? Number(dayRaw) : null;
+  if (!day) return `${month} ${year}`;
+  const dayFirst = /^(y|yes|true|1)$/i.test(named.get('df') ?? '');
+  return dayFirst ? `${day} ${month} ${year}` : `${month} ${day}, ${year}`;
+}
+
 const CURRENCY_TEMPLATES = new Set([
   'usd',
   'gbp',
@@ -333,6 +381,10 @@ export const stripNonCiteTemplates = (text: string): string => {
     let replacement = '';
     if (SEPARATOR_TEMPLATES.has(templateName)) {
       replacement = '—';
+    } else if (DATE_TEMPLATES.has(templateName)) {
+      replacement = processDateTemplate(parsed.params);
+    } else if (CIRCA_TEMPLATES.has(templateName)) {
+      replacement = `c. ${parsed.params[0]?.trim() ?? ''}`.trim();
     } else if (STRIP_TEMPLATES.has(templateName)) {
       replacement = parsed.params.join('\n');
     } else if (templateName === 'convert' || templateName === 'cvt') {
@@ -390,6 +442,31 @@ export const stripFootnoteTemplates = (text: string): string => {
   return result;
 };
 
+/**
+ * Locates the first `{{Infobox …}}` template and returns its name as written together with its
+ * named parameters (values are raw wikitext). Positional parameters are ignored.
+ */
+export const extractInfoboxTemplate = (
+  text: string,
+): { template: string; entries: Array<[string, string]> } | null => {
+  const start = text.match(/{{\s*Infobox[^{]*/i);
+  if (!start || start.index === undefined) {
+    return null;
+  }
+  const parsed = parseTemplate(text, start.index);
+  if (!parsed) {
+    return null;
+  }
+  const template = parsed.raw.slice(2).split(/[|}]/, 1)[0].replace(/\s+/g, ' ').trim();
+  const entries: Array<[string, string]> = [];
+  parsed.params.forEach((param) => {
+    const separator = param.indexOf('=');
+    if (separator <= 0) return;
+    entries.push([param.slice(0, separator).trim(), param.slice(separator + 1).trim()]);
+  });
+  return { template, entries };
+};
+
 export const stripInfobox = (text: string): string => {
   const start = text.match(/{{\s*Infobox[^{]*/i);
   if (!start || start.index === undefined) {
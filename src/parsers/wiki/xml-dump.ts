@@ -0,0 +1,92 @@
+/**
+ * @file src/parsers/wiki/xml-dump.ts
+ * @description Streaming reader for MediaWiki XML export/dump files (`Special:Export` or
+ *              `pages-articles.xml`). Pages are yielded one at a time so large dumps never have to
+ *              be loaded into memory; each page carries the latest revision's wikitext.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+
+export interface WikiDumpPage {
+  title: string;
+  namespace: number;
+  pageId: string | null;
+  revisionId: string | null;
+  revisionTimestamp: string | null;
+  lang: string | null;
+  wikitext: string;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export const decodeXmlEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const readTag = (xml: string, tag: string): string | null => {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXmlEntities(match[1]) : null;
+};
+
+const lastRevision = (pageXml: string): string | null => {
+  const revisions = pageXml.match(/<revision>[\s\S]*?<\/revision>/g);
+  return revisions ? revisions[revisions.length - 1] : null;
+};
+
+export const parseWikiDumpPage = (pageXml: string, lang: string | null = null): WikiDumpPage => {
+  const revision = lastRevision(pageXml) ?? '';
+  const header = revision ? pageXml.slice(0, pageXml.indexOf(revision)) : pageXml;
+  const namespace = Number.parseInt(readTag(header, 'ns') ?? '0', 10);
+  return {
+    title: readTag(header, 'title') ?? '',
+    namespace: Number.isNaN(namespace) ? 0 : namespace,
+    pageId: readTag(header, 'id'),
+    revisionId: readTag(revision, 'id'),
+    revisionTimestamp: readTag(revision, 'timestamp'),
+    lang,
+    wikitext: readTag(revision, 'text') ?? '',
+  };
+};
+
+/**
+ * Streams `<page>` elements from a MediaWiki XML dump. The dump language is taken from the
+ * `xml:lang` attribute on the root `<mediawiki>` element when present.
+ */
+export async function* readWikiXmlDump(filePath: string): AsyncGenerator<WikiDumpPage> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+  let buffer = '';
+  let lang: string | null = null;
+  for await (const chunk of stream) {
+    buffer += chunk as string;
+    if (lang === null) {
+      const root = buffer.match(/<mediawiki\b[^>]*\bxml:lang="([^"]+)"/);
+      if (root) lang = root[1];
+    }
+    let end = buffer.indexOf('</page>');
+    while (end >= 0) {
+      const start = buffer.lastIndexOf('<page>', end);
+      const pageXml = buffer.slice(start >= 0 ? start : 0, end + '</page>'.length);
+      buffer = buffer.slice(end + '</page>'.length);
+      yield parseWikiDumpPage(pageXml, lang);
+      end = buffer.indexOf('</page>');
+    }
+    const pending = buffer.lastIndexOf('<page>');
+    if (pending > 0) {
+      buffer = buffer.slice(pending);
+    }
+  }
+}
@@ -55,6 +55,10 @@ export const probeCachedAnalysis = (filePath: string, expectedHash: string): Cac
 
   try {
     const parsed = JSON.parse(fs.readFileSync(absolutePath, 'utf8')) as CachedFile;
+    const schema = (parsed as { schema?: unknown }).schema;
+    if (typeof schema === 'string' && schema !== STRUCTURED_ANALYSIS_SCHEMA) {
+      return { status: 'mismatch', reason: `report schema ${schema} is outdated` };
+    }
     const { hash: metaHash, timestamp } = extractHashAndTimestamp(parsed);
     if (!metaHash || !timestamp) {
       return { status: 'invalid', reason: 'missing metadata', analysis: parsed };
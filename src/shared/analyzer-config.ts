@@ -45,3 +45,35 @@ export const SEMANTIC_BIAS_CONFIDENCE_THRESHOLD = 0.5;
  * mark as potential false positive.
  */
 export const SEMANTIC_NEUTRAL_THRESHOLD = 0.7;
+
+/**
+ * Minimum NLI contradiction probability (averaged over both directions) before an aligned claim
+ * pair is reported as a `contradiction` discrepancy.
+ */
+export const NLI_CONTRADICTION_THRESHOLD = 0.75;
+
+/**
+ * Relative difference tolerated between paired numbers before a numeric discrepancy is reported.
+ * Keys are unit keys/symbols, roles (`length`, `mass`, `percent`, `count`, ...), or
+ * `default`; `numericTolerances` in `.gwalnrc.json` overrides individual entries. Temperatures
+ * are the exception: their tolerance is an absolute difference in kelvin (degrees Celsius).
+ */
+export const NUMERIC_TOLERANCES: Record<string, number> = {
+  default: 0.05,
+  temperature: 1,
+};
+
+/**
+ * Years of slack applied on each side of a `circa` date before it is considered to disagree with
+ * its counterpart (`c. 1500` matches 1495–1505).
+ */
+export const TEMPORAL_CIRCA_SLACK_YEARS = 5;
+
+/**
+ * Source names used in descriptions when an analysis does not record the compared sources
+ * (`meta.sources`); such analyses always compared Wikipedia with Grokipedia.
+ */
+export const DEFAULT_SOURCE_LABELS: { reference: string; candidate: string } = {
+  reference: 'Wikipedia',
+  candidate: 'Grokipedia',
+};
@@ -7,6 +7,9 @@
 import { BLOCKCHAIN_IDS } from 'dkg.js/constants';
 import fs from 'node:fs';
 import path from 'node:path';
+import type { ModelDefinition, ModelPipelineId } from '../lib/model-manager';
+import type { LlmPrice, LlmProviderDefinition } from '../llm/types';
+import type { SourceDefinition } from '../sources/types';
 import { paths } from './paths';
 
 export type GWALNConfig = {
@@ -24,6 +27,32 @@ export type GWALNConfig = {
   publishPollFrequencySeconds?: number;
   geminiApiKey?: string;
   geminiModel?: string;
+  /** Provider used when `--bias-verifier` or `--llm-summary` is given without a name. */
+  llmProvider?: string;
+  llmProviders?: Record<string, LlmProviderDefinition>;
+  /** Enables the model output cache under `~/.gwaln/cache/llm` (default `true`). */
+  llmCache?: boolean;
+  llmCacheTtlHours?: number;
+  /** USD per million tokens by model name, merged over the built-in price list. */
+  llmPricing?: Record<string, LlmPrice>;
+  /** Directory for downloaded transformer models (default `~/.gwaln/models`). */
+  modelCacheDir?: string;
+  /** Never download models; a pipeline whose model is missing fails immediately. */
+  modelOffline?: boolean;
+  /** Per-pipeline model overrides, e.g. a multilingual `embedding` model. */
+  models?: Partial<Record<ModelPipelineId, ModelDefinition>>;
+  httpMaxRetries?: number;
+  httpTimeoutMs?: number;
+  httpCache?: boolean;
+  /** Age after which cached HTTP responses are deleted (default 720 hours). */
+  httpCacheMaxAgeHours?: number;
+  /** Size cap of the HTTP response cache in MiB (default 512). */
+  httpCacheMaxMb?: number;
+  httpRateLimits?: Record<string, number>;
+  numericTolerances?: Record<string, number>;
+  sourceReliability?: Record<string, string>;
+  archiveEndpoint?: string | null;
+  sources?: Record<string, SourceDefinition>;
 };
 
 export const CONFIG_PATH = path.join(paths.ROOT, '.gwalnrc.json');
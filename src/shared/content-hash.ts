@@ -9,10 +9,29 @@
 import crypto from 'node:crypto';
 import { ANALYZER_VERSION } from './analyzer-config';
 
-export const computeContentHash = (wikiRaw: string, grokRaw: string): string =>
-  crypto
-    .createHash('sha256')
-    .update(wikiRaw)
-    .update(grokRaw)
-    .update(ANALYZER_VERSION)
-    .digest('hex');
+/** JSON with sorted keys and without `undefined` members, so equal parameters hash equally. */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Hashes both article texts with the analyzer version and, when given, the analysis options that
+ * change the output (enabled pipelines, tolerances, model ids), so a cached analysis is only
+ * reused for the same inputs and settings.
+ */
+export const computeContentHash = (wikiRaw: string, grokRaw: string, options?: object): string => {
+  const hash = crypto.createHash('sha256').update(wikiRaw).update(grokRaw).update(ANALYZER_VERSION);
+  if (options) hash.update(stableStringify(options));
+  return hash.digest('hex');
+};
@@ -0,0 +1,560 @@
+/**
+ * @file src/shared/http.ts
+ * @description Shared HTTP client for every outbound request made by the CLI. Adds exponential
+ *              backoff with `Retry-After` support, per-host politeness intervals (Wikipedia and
+ *              Grokipedia are crawled serially with a minimum gap between requests), request
+ *              timeouts, and an on-disk response cache under `~/.gwaln/cache/http` that
+ *              revalidates with `ETag` / `If-Modified-Since` and is pruned by age and size.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fetch from 'node-fetch';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { readConfig } from './config';
+import { paths } from './paths';
+
+export const USER_AGENT = 'GWALN-MVP/0.2 (+https://origintrail.io)';
+
+export interface HttpClientSettings {
+  /** Retries after the first attempt for network errors, 429 and 5xx responses. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+  /** Enables the on-disk GET response cache. */
+  cache: boolean;
+  /** Cache entries not written or revalidated for this long are deleted. */
+  cacheMaxAgeMs: number;
+  /** Oldest cache entries are deleted once the cache grows past this size. */
+  cacheMaxBytes: number;
+  /** Minimum delay between requests per host suffix (e.g. `wikipedia.org`), in milliseconds. */
+  rateLimits: Record<string, number>;
+}
+
+export interface HttpRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  /**
+   * Retry attempts that timed out. Defaults to true; turn it off for requests that are not safe to
+   * repeat while the server may still be processing the first one (LLM completions).
+   */
+  retryTimeouts?: boolean;
+  /**
+   * Cache GET responses on disk. Defaults to the client setting; requests with a body are never
+   * cached.
+   */
+  cache?: boolean;
+  /** Serve cached responses younger than this without revalidating. Defaults to 0. */
+  cacheTtlMs?: number;
+}
+
+export interface HttpResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: Record<string, string>;
+  text: string;
+  fromCache: boolean;
+}
+
+export interface HttpBufferOptions {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  maxRetries?: number;
+  /** Stop reading the body after this many bytes. Defaults to 10 MiB. */
+  maxBytes?: number;
+}
+
+export interface HttpBufferResponse {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+  /** True when the body was cut off at `maxBytes`. */
+  truncated: boolean;
+}
+
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly url: string,
+    public readonly body: string,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/** Raised when a request gets no complete answer within its timeout. */
+export class HttpTimeoutError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = 'HttpTimeoutError';
+  }
+}
+
+/** Raised when every attempt failed without a usable response; `cause` is the last error. */
+export class HttpRequestError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly attempts: number,
+    public readonly cause: unknown,
+  ) {
+    super(
+      `Request to ${url} failed after ${attempts} attempt(s): ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.name = 'HttpRequestError';
+  }
+}
+
+interface CachedResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  etag: string | null;
+  last_modified: string | null;
+  stored_at: string;
+  text: string;
+}
+
+const DEFAULT_SETTINGS: HttpClientSettings = {
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  timeoutMs: 20_000,
+  cache: true,
+  cacheMaxAgeMs: 30 * 24 * 60 * 60 * 1000,
+  cacheMaxBytes: 512 * 1024 * 1024,
+  rateLimits: {
+    'wikipedia.org': 200,
+    'wikimedia.org': 200,
+    'grokipedia.com': 500,
+  },
+};
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+let overrides: Partial<HttpClientSettings> = {};
+let resolved: HttpClientSettings | null = null;
+
+const hostQueues = new Map<string, Promise<void>>();
+const hostNextSlot = new Map<string, number>();
+let cachePruned = false;
+
+const sleep = (ms: number): Promise<void> =>
+  ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+
+const settings = (): HttpClientSettings => {
+  if (!resolved) {
+    const cfg = readConfig();
+    resolved = {
+      ...DEFAULT_SETTINGS,
+      ...(cfg.httpMaxRetries !== undefined ? { maxRetries: cfg.httpMaxRetries } : {}),
+      ...(cfg.httpTimeoutMs !== undefined ? { timeoutMs: cfg.httpTimeoutMs } : {}),
+      ...(cfg.httpCache !== undefined ? { cache: cfg.httpCache } : {}),
+      ...(cfg.httpCacheMaxAgeHours !== undefined
+        ? { cacheMaxAgeMs: cfg.httpCacheMaxAgeHours * 60 * 60 * 1000 }
+        : {}),
+      ...(cfg.httpCacheMaxMb !== undefined
+        ? { cacheMaxBytes: cfg.httpCacheMaxMb * 1024 * 1024 }
+        : {}),
+      ...overrides,
+      rateLimits: {
+        ...DEFAULT_SETTINGS.rateLimits,
+        ...(cfg.httpRateLimits ?? {}),
+        ...(overrides.rateLimits ?? {}),
+      },
+    };
+  }
+  return resolved;
+};
+
+/**
+ * Overrides client settings for the current process (tests, batch commands). Clears per-host
+ * scheduling state.
+ */
+export const configureHttpClient = (update: Partial<HttpClientSettings> = {}): void => {
+  overrides = { ...overrides, ...update };
+  resolved = null;
+  hostQueues.clear();
+  hostNextSlot.clear();
+  cachePruned = false;
+};
+
+export const resetHttpClient = (): void => {
+  overrides = {};
+  configureHttpClient();
+};
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+const intervalFor = (host: string): number => {
+  const limits = settings().rateLimits;
+  const match = Object.keys(limits)
+    .filter((suffix) => host === suffix || host.endsWith(`.${suffix}`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? limits[match] : 0;
+};
+
+/**
+ * Waits for the host's next free slot. Requests to the same host are serialized through a
+ * promise chain so the politeness interval holds even when callers run in parallel.
+ */
+const acquireHostSlot = (host: string): Promise<void> => {
+  const interval = intervalFor(host);
+  const previous = hostQueues.get(host) ?? Promise.resolve();
+  const slot = previous.then(async () => {
+    const wait = (hostNextSlot.get(host) ?? 0) - Date.now();
+    await sleep(wait);
+    hostNextSlot.set(host, Math.max(Date.now() + interval, hostNextSlot.get(host) ?? 0));
+  });
+  hostQueues.set(
+    host,
+    slot.catch(() => undefined),
+  );
+  return slot;
+};
+
+const deferHost = (host: string, delayMs: number): void => {
+  hostNextSlot.set(host, Math.max(hostNextSlot.get(host) ?? 0, Date.now() + delayMs));
+};
+
+export const parseRetryAfter = (
+  value: string | null | undefined,
+  now = Date.now(),
+): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+const backoffDelay = (attempt: number): number => {
+  const { baseDelayMs, maxDelayMs } = settings();
+  const exponential = baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * baseDelayMs;
+  return Math.min(maxDelayMs, exponential + jitter);
+};
+
+const cacheFile = (method: string, url: string, headers: Record<string, string>): string => {
+  const vary = headers['Accept-Language'] ?? headers['accept-language'] ?? '';
+  const key = crypto.createHash('sha256').update(`${method} ${url} ${vary}`).digest('hex');
+  return path.join(paths.HTTP_CACHE_DIR, key.slice(0, 2), `${key}.json`);
+};
+
+const readCached = (file: string): CachedResponse | null => {
+  if (!fs.existsSync(file)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as CachedResponse;
+  } catch {
+    return null;
+  }
+};
+
+export interface HttpCachePruneResult {
+  removed: number;
+  freed_bytes: number;
+  remaining: number;
+}
+
+/**
+ * Deletes cache entries older than `cacheMaxAgeMs`, then the least recently stored entries until
+ * the cache fits in `cacheMaxBytes`. Runs once per process before the first cache write.
+ */
+export const pruneHttpCache = (now = Date.now()): HttpCachePruneResult => {
+  const { cacheMaxAgeMs, cacheMaxBytes } = settings();
+  const result: HttpCachePruneResult = { removed: 0, freed_bytes: 0, remaining: 0 };
+  const dir = paths.HTTP_CACHE_DIR;
+  if (!fs.existsSync(dir)) return result;
+  const entries = fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((shard) => shard.isDirectory())
+    .flatMap((shard) =>
+      fs
+        .readdirSync(path.join(dir, shard.name))
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => {
+          const file = path.join(dir, shard.name, name);
+          const stat = fs.statSync(file);
+          return { file, size: stat.size, storedAt: stat.mtimeMs };
+        }),
+    )
+    .sort((left, right) => right.storedAt - left.storedAt);
+  let kept = 0;
+  entries.forEach((entry) => {
+    if (now - entry.storedAt <= cacheMaxAgeMs && kept + entry.size <= cacheMaxBytes) {
+      kept += entry.size;
+      result.remaining += 1;
+      return;
+    }
+    fs.rmSync(entry.file, { force: true });
+    result.removed += 1;
+    result.freed_bytes += entry.size;
+  });
+  return result;
+};
+
+const writeCached = (file: string, entry: CachedResponse): void => {
+  try {
+    if (!cachePruned) {
+      cachePruned = true;
+      pruneHttpCache();
+    }
+    paths.ensureDir(path.dirname(file));
+    fs.writeFileSync(file, JSON.stringify(entry), 'utf8');
+  } catch {
+    /* cache writes are best-effort */
+  }
+};
+
+const fromCachedEntry = (entry: CachedResponse): HttpResponse => ({
+  url: entry.url,
+  status: entry.status,
+  statusText: entry.statusText,
+  ok: entry.status >= 200 && entry.status < 300,
+  headers: entry.headers,
+  text: entry.text,
+  fromCache: true,
+});
+
+const headersToRecord = (headers: {
+  forEach: (cb: (value: string, key: string) => void) => void;
+}): Record<string, string> => {
+  const record: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    record[key.toLowerCase()] = value;
+  });
+  return record;
+};
+
+const performRequest = async (
+  url: string,
+  method: string,
+  headers: Record<string, string>,
+  body: string | undefined,
+  timeoutMs: number,
+): Promise<HttpResponse> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, { method, headers, body, signal: controller.signal });
+    const text = await response.text();
+    return {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      ok: response.ok,
+      headers: headersToRecord(response.headers),
+      text,
+      fromCache: false,
+    };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new HttpTimeoutError(url, timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Issues a request through the shared client. Non-2xx responses are returned (not thrown) once
+ * retries are exhausted so callers can inspect the status; use {@link httpGetText} or
+ * {@link httpRequestJson} when a failure should raise an {@link HttpError}.
+ */
+export const httpRequest = async (
+  url: string,
+  options: HttpRequestOptions = {},
+): Promise<HttpResponse> => {
+  const config = settings();
+  const method = (options.method ?? 'GET').toUpperCase();
+  const headers: Record<string, string> = { 'User-Agent': USER_AGENT, ...(options.headers ?? {}) };
+  const cacheable = method === 'GET' && !options.body && (options.cache ?? config.cache);
+  const file = cacheable ? cacheFile(method, url, headers) : null;
+  const cached = file ? readCached(file) : null;
+
+  if (cached && options.cacheTtlMs) {
+    const age = Date.now() - Date.parse(cached.stored_at);
+    if (age >= 0 && age < options.cacheTtlMs) {
+      return fromCachedEntry(cached);
+    }
+  }
+  if (cached?.etag) headers['If-None-Match'] = cached.etag;
+  if (cached?.last_modified) headers['If-Modified-Since'] = cached.last_modified;
+
+  const host = hostOf(url);
+  const maxRetries = options.maxRetries ?? config.maxRetries;
+  const timeoutMs = options.timeoutMs ?? config.timeoutMs;
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt += 1) {
+    await acquireHostSlot(host);
+    let response: HttpResponse;
+    try {
+      response = await performRequest(url, method, headers, options.body, timeoutMs);
+    } catch (error) {
+      if (error instanceof HttpTimeoutError && options.retryTimeouts === false) throw error;
+      lastError = error;
+      if (attempt < maxRetries) {
+        await sleep(backoffDelay(attempt));
+      }
+      continue;
+    }
+
+    if (response.status === 304 && cached && file) {
+      const refreshed = { ...cached, stored_at: new Date().toISOString() };
+      writeCached(file, refreshed);
+      return fromCachedEntry(refreshed);
+    }
+
+    if (RETRYABLE_STATUS.has(response.status) && attempt < maxRetries) {
+      const retryAfter = parseRetryAfter(response.headers['retry-after']);
+      const delay = Math.min(config.maxDelayMs, retryAfter ?? backoffDelay(attempt));
+      deferHost(host, delay);
+      await sleep(delay);
+      continue;
+    }
+
+    const noStore = /no-store/i.test(response.headers['cache-control'] ?? '');
+    if (file && response.ok && !noStore) {
+      writeCached(file, {
+        url,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        etag: response.headers['etag'] ?? null,
+        last_modified: response.headers['last-modified'] ?? null,
+        stored_at: new Date().toISOString(),
+        text: response.text,
+      });
+    }
+    return response;
+  }
+
+  throw new HttpRequestError(url, maxRetries + 1, lastError);
+};
+
+const ensureOk = (response: HttpResponse): HttpResponse => {
+  if (!response.ok) {
+    throw new HttpError(
+      `HTTP ${response.status} ${response.statusText} (${response.text.slice(0, 200)})`,
+      response.status,
+      response.url,
+      response.text,
+    );
+  }
+  return response;
+};
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const ERROR_BODY_BYTES = 64 * 1024;
+
+const readCapped = async (
+  body: AsyncIterable<unknown> | null | undefined,
+  maxBytes: number,
+): Promise<{ body: Buffer; truncated: boolean }> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body ?? []) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array);
+    if (size + buffer.length > maxBytes) {
+      chunks.push(buffer.subarray(0, maxBytes - size));
+      return { body: Buffer.concat(chunks), truncated: true };
+    }
+    chunks.push(buffer);
+    size += buffer.length;
+  }
+  return { body: Buffer.concat(chunks), truncated: false };
+};
+
+/**
+ * Streams a GET response body into memory, stopping at `maxBytes` so a large download cannot
+ * exhaust memory. Binary responses are not cached on disk. Network errors and retryable statuses
+ * are retried like {@link httpRequest}; other non-2xx responses raise an {@link HttpError} whose
+ * body is read up to 64 KiB. Unread bodies are released by aborting the request.
+ */
+export const httpGetBuffer = async (
+  url: string,
+  options: HttpBufferOptions = {},
+): Promise<HttpBufferResponse> => {
+  const config = settings();
+  const headers: Record<string, string> = { 'User-Agent': USER_AGENT, ...(options.headers ?? {}) };
+  const host = hostOf(url);
+  const maxRetries = options.maxRetries ?? config.maxRetries;
+  const timeoutMs = options.timeoutMs ?? config.timeoutMs;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt += 1) {
+    await acquireHostSlot(host);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, { headers, signal: controller.signal });
+      const responseHeaders = headersToRecord(response.headers);
+      if (RETRYABLE_STATUS.has(response.status) && attempt < maxRetries) {
+        const retryAfter = parseRetryAfter(responseHeaders['retry-after']);
+        const delay = Math.min(config.maxDelayMs, retryAfter ?? backoffDelay(attempt));
+        deferHost(host, delay);
+        controller.abort();
+        await sleep(delay);
+        continue;
+      }
+      if (!response.ok) {
+        const errorBody = await readCapped(response.body, Math.min(maxBytes, ERROR_BODY_BYTES));
+        controller.abort();
+        const text = errorBody.body.toString('utf8');
+        throw new HttpError(
+          `HTTP ${response.status} ${response.statusText} (${text.slice(0, 200)})`,
+          response.status,
+          url,
+          text,
+        );
+      }
+      const { body, truncated } = await readCapped(response.body, maxBytes);
+      if (truncated) controller.abort();
+      return { url, status: response.status, headers: responseHeaders, body, truncated };
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      lastError = controller.signal.aborted ? new HttpTimeoutError(url, timeoutMs) : error;
+      if (attempt < maxRetries) {
+        await sleep(backoffDelay(attempt));
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw new HttpRequestError(url, maxRetries + 1, lastError);
+};
+
+export const httpGetText = async (url: string, options: HttpRequestOptions = {}): Promise<string> =>
+  ensureOk(await httpRequest(url, { ...options, method: 'GET' })).text;
+
+export const httpRequestJson = async <T>(
+  url: string,
+  options: HttpRequestOptions = {},
+): Promise<T> => JSON.parse(ensureOk(await httpRequest(url, options)).text) as T;
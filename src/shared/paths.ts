@@ -13,8 +13,11 @@ const PACKAGE_ROOT = path.resolve(__dirname, '..', '..');
 const DATA_DIR = path.join(ROOT, 'data');
 const WIKI_DIR = path.join(DATA_DIR, 'wiki');
 const GROK_DIR = path.join(DATA_DIR, 'grok');
+const HISTORY_DIR = path.join(DATA_DIR, 'history');
 const ANALYSIS_DIR = path.join(ROOT, 'analysis');
 const NOTES_DIR = path.join(ROOT, 'notes');
+const CACHE_DIR = path.join(ROOT, 'cache');
+const MODELS_DIR = path.join(ROOT, 'models');
 
 const ensureDir = (target: string): void => {
   fs.mkdirSync(target, { recursive: true });
@@ -39,9 +42,14 @@ export const paths = {
   DATA_DIR,
   WIKI_DIR,
   GROK_DIR,
+  HISTORY_DIR,
   ANALYSIS_DIR,
   NOTES_DIR,
   NOTES_INDEX: path.join(NOTES_DIR, 'index.json'),
+  CACHE_DIR,
+  HTTP_CACHE_DIR: path.join(CACHE_DIR, 'http'),
+  LLM_CACHE_DIR: path.join(CACHE_DIR, 'llm'),
+  MODELS_DIR,
   ensureDir,
   ensureTopics,
 };
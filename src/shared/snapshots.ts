@@ -0,0 +1,239 @@
+/**
+ * @file src/shared/snapshots.ts
+ * @description Versioned storage for structured snapshots. The latest fetch still lives at
+ *              `data/<source>/<topic>.parsed.json`, while every distinct revision is archived under
+ *              `data/history/<source>/<topic>/` together with an index keyed by revision id and
+ *              timestamp so analyses can be pinned to any stored revision.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { StructuredArticle } from '../parsers/shared/types';
+import { paths } from './paths';
+import type { Topic } from './topics';
+
+/** Source adapter id: `wiki`, `grok`, or a source configured under `sources`. */
+export type SnapshotSource = string;
+
+export const LATEST_REVISION = 'latest';
+
+export interface SnapshotRevisionEntry {
+  source: SnapshotSource;
+  topic_id: string;
+  revision_id: string;
+  revision_timestamp: string;
+  file: string;
+  content_hash: string;
+  stored_at: string;
+}
+
+export interface SnapshotHistoryIndex {
+  source: SnapshotSource;
+  topic_id: string;
+  revisions: SnapshotRevisionEntry[];
+  updated_at: string | null;
+}
+
+export interface SnapshotRef {
+  source: SnapshotSource;
+  revision: string;
+}
+
+export interface WriteSnapshotResult {
+  path: string;
+  revision: SnapshotRevisionEntry;
+  archived: boolean;
+}
+
+const SOURCE_ALIASES: Record<string, SnapshotSource> = {
+  wikipedia: 'wiki',
+  grokipedia: 'grok',
+};
+
+const SOURCE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** Built-in sources keep their historical directories; configured sources get `data/<id>/`. */
+const sourceDir = (source: SnapshotSource): string => {
+  if (source === 'wiki') return paths.WIKI_DIR;
+  if (source === 'grok') return paths.GROK_DIR;
+  return path.join(paths.DATA_DIR, source);
+};
+
+const historyDir = (source: SnapshotSource, topicId: string): string =>
+  path.join(paths.HISTORY_DIR, source, topicId);
+
+const historyIndexPath = (source: SnapshotSource, topicId: string): string =>
+  path.join(historyDir(source, topicId), 'index.json');
+
+const revisionFileName = (revisionId: string): string =>
+  `${revisionId.replace(/[^a-zA-Z0-9._-]+/g, '_')}.parsed.json`;
+
+export const snapshotPath = (source: SnapshotSource, topicId: string): string =>
+  path.join(sourceDir(source), `${topicId}.parsed.json`);
+
+/**
+ * Hashes the article body (lead, sections, media, references) so repeated fetches of an
+ * unchanged page do not create a new history entry even when the revision id differs.
+ */
+export const computeSnapshotHash = (article: StructuredArticle): string =>
+  crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify({
+        lead: article.lead,
+        sections: article.sections,
+        media: article.media,
+        references: article.references,
+      }),
+    )
+    .digest('hex');
+
+const emptyIndex = (source: SnapshotSource, topicId: string): SnapshotHistoryIndex => ({
+  source,
+  topic_id: topicId,
+  revisions: [],
+  updated_at: null,
+});
+
+const loadHistoryIndex = (source: SnapshotSource, topicId: string): SnapshotHistoryIndex => {
+  const target = historyIndexPath(source, topicId);
+  if (!fs.existsSync(target)) {
+    return emptyIndex(source, topicId);
+  }
+  try {
+    return JSON.parse(fs.readFileSync(target, 'utf8')) as SnapshotHistoryIndex;
+  } catch {
+    return emptyIndex(source, topicId);
+  }
+};
+
+const writeHistoryIndex = (index: SnapshotHistoryIndex): void => {
+  const target = historyIndexPath(index.source, index.topic_id);
+  paths.ensureDir(path.dirname(target));
+  fs.writeFileSync(target, JSON.stringify(index, null, 2), 'utf8');
+};
+
+const byTimestamp = (a: SnapshotRevisionEntry, b: SnapshotRevisionEntry): number =>
+  a.revision_timestamp.localeCompare(b.revision_timestamp);
+
+/**
+ * Writes the latest snapshot and archives it in the revision history. Revisions with an id that
+ * is already stored are overwritten in place; revisions whose content matches the newest stored
+ * entry are skipped.
+ */
+export const writeSnapshot = (
+  source: SnapshotSource,
+  topic: Topic,
+  article: StructuredArticle,
+): WriteSnapshotResult => {
+  const latestPath = snapshotPath(source, topic.id);
+  paths.ensureDir(path.dirname(latestPath));
+  fs.writeFileSync(latestPath, JSON.stringify(article, null, 2), 'utf8');
+
+  const index = loadHistoryIndex(source, topic.id);
+  const contentHash = computeSnapshotHash(article);
+  const existing = index.revisions.find((entry) => entry.revision_id === article.revision.id);
+  const newest = [...index.revisions].sort(byTimestamp).pop();
+  if (!existing && newest && newest.content_hash === contentHash) {
+    return { path: latestPath, revision: newest, archived: false };
+  }
+
+  const entry: SnapshotRevisionEntry = {
+    source,
+    topic_id: topic.id,
+    revision_id: article.revision.id,
+    revision_timestamp: article.revision.timestamp,
+    file: revisionFileName(article.revision.id),
+    content_hash: contentHash,
+    stored_at: new Date().toISOString(),
+  };
+  const dir = historyDir(source, topic.id);
+  paths.ensureDir(dir);
+  fs.writeFileSync(path.join(dir, entry.file), JSON.stringify(article, null, 2), 'utf8');
+
+  index.revisions = [
+    ...index.revisions.filter((revision) => revision.revision_id !== entry.revision_id),
+    entry,
+  ].sort(byTimestamp);
+  index.updated_at = entry.stored_at;
+  writeHistoryIndex(index);
+  return { path: latestPath, revision: entry, archived: true };
+};
+
+export const listSnapshotRevisions = (
+  source: SnapshotSource,
+  topicId: string,
+): SnapshotRevisionEntry[] => [...loadHistoryIndex(source, topicId).revisions].sort(byTimestamp);
+
+/**
+ * Resolves a revision reference against the stored history. Accepts an exact revision id, a
+ * timestamp prefix (e.g. `2025-11-20`), or any date string, in which case the newest revision
+ * captured at or before that instant is returned.
+ */
+export const resolveSnapshotRevision = (
+  source: SnapshotSource,
+  topicId: string,
+  revision: string,
+): SnapshotRevisionEntry | null => {
+  const revisions = listSnapshotRevisions(source, topicId);
+  if (!revisions.length) return null;
+  const needle = revision.trim();
+  if (needle === LATEST_REVISION) {
+    return revisions[revisions.length - 1];
+  }
+  const exact = revisions.find(
+    (entry) => entry.revision_id === needle || entry.file === revisionFileName(needle),
+  );
+  if (exact) return exact;
+  const prefixed = revisions.filter((entry) => entry.revision_timestamp.startsWith(needle));
+  if (prefixed.length) return prefixed[prefixed.length - 1];
+  // Bare numbers are revision ids; Date.parse would read `12345` as a year.
+  if (/^\d+$/.test(needle)) return null;
+  const instant = Date.parse(needle);
+  if (Number.isNaN(instant)) return null;
+  const asOf = revisions.filter((entry) => Date.parse(entry.revision_timestamp) <= instant);
+  return asOf.length ? asOf[asOf.length - 1] : null;
+};
+
+export const parseSnapshotRef = (value: string): SnapshotRef => {
+  const trimmed = value.trim();
+  const separator = trimmed.indexOf('@');
+  const sourceLabel = (separator >= 0 ? trimmed.slice(0, separator) : trimmed).toLowerCase();
+  const revision = separator >= 0 ? trimmed.slice(separator + 1).trim() : '';
+  const source = SOURCE_ALIASES[sourceLabel] ?? sourceLabel;
+  if (!SOURCE_ID_PATTERN.test(source) || source === 'history') {
+    throw new Error(
+      `Invalid snapshot reference '${value}'. Use <source>@<revision>, e.g. wiki@latest or grok@2025-11-20.`,
+    );
+  }
+  return { source, revision: revision || LATEST_REVISION };
+};
+
+export const formatSnapshotRef = (ref: SnapshotRef): string => `${ref.source}@${ref.revision}`;
+
+export const isLatestRef = (ref: SnapshotRef): boolean => ref.revision === LATEST_REVISION;
+
+export const readSnapshot = (topic: Topic, ref: SnapshotRef): StructuredArticle => {
+  if (isLatestRef(ref)) {
+    const target = snapshotPath(ref.source, topic.id);
+    if (!fs.existsSync(target)) {
+      throw new Error(
+        `Missing structured snapshot ${target}. Run 'gwaln fetch ${ref.source} --topic ${topic.id}' first.`,
+      );
+    }
+    return JSON.parse(fs.readFileSync(target, 'utf8')) as StructuredArticle;
+  }
+  const entry = resolveSnapshotRevision(ref.source, topic.id, ref.revision);
+  if (!entry) {
+    throw new Error(
+      `No ${ref.source} revision matches '${ref.revision}' for topic '${topic.id}'. Run 'gwaln history ${topic.id}' to list stored revisions.`,
+    );
+  }
+  const target = path.join(historyDir(ref.source, topic.id), entry.file);
+  if (!fs.existsSync(target)) {
+    throw new Error(`Snapshot file ${target} is missing from the revision history.`);
+  }
+  return JSON.parse(fs.readFileSync(target, 'utf8')) as StructuredArticle;
+};
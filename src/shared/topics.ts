@@ -12,18 +12,38 @@ export interface Topic {
   title: string;
   wikipedia_slug: string;
   grokipedia_slug: string;
+  /** BCP 47 language code of the Wikipedia edition (e.g. `de`, `es`, `ja`). Defaults to `en`. */
+  lang?: string;
   ual?: string;
   category?: string;
+  /**
+   * Page slugs for sources configured under `sources` in `.gwalnrc.json`, keyed by source id.
+   * Sources without an entry use `wikipedia_slug`; Grokipedia uses `grokipedia_slug`.
+   */
+  slugs?: Record<string, string>;
 }
 
+export const DEFAULT_TOPIC_LANG = 'en';
+
 export type TopicMap = Record<string, Topic>;
 
+/** Normalizes a stored `lang` once, so URL builders never see an invalid code later. */
+const checkTopicLang = (topic: Topic): Topic => {
+  if (topic.lang === undefined) return topic;
+  try {
+    return { ...topic, lang: normalizeWikipediaLang(String(topic.lang)) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Topic "${topic.id}" in ${paths.TOPICS}: ${message}`);
+  }
+};
+
 export const loadTopics = (): TopicMap => {
   paths.ensureTopics();
 
   const raw = fs.readFileSync(paths.TOPICS, 'utf8');
   const list = JSON.parse(raw) as Topic[];
-  return Object.fromEntries(list.map((topic) => [topic.id, topic]));
+  return Object.fromEntries(list.map((topic) => [topic.id, checkTopicLang(topic)]));
 };
 
 export const selectTopics = (topics: TopicMap, targetId?: string): Topic[] => {
@@ -39,8 +59,28 @@ export const selectTopics = (topics: TopicMap, targetId?: string): Topic[] => {
   return Object.values(topics);
 };
 
+export const topicLang = (topic: Pick<Topic, 'lang'>): string =>
+  topic.lang?.trim().toLowerCase() || DEFAULT_TOPIC_LANG;
+
+// Edition subdomains: two- or three-letter codes plus variants such as `zh-min-nan`, and `simple`.
+const WIKIPEDIA_LANG_PATTERN = /^(?:[a-z]{2,3}|simple)(?:-[a-z0-9]+)*$/;
+
+/** Lowercases a Wikipedia language code and throws when it is not a valid edition subdomain. */
+export const normalizeWikipediaLang = (lang: string): string => {
+  const code = lang.trim().toLowerCase();
+  if (!WIKIPEDIA_LANG_PATTERN.test(code)) {
+    throw new Error(
+      `Invalid Wikipedia language code "${lang}". Use an edition code such as en, de, or zh-min-nan.`,
+    );
+  }
+  return code;
+};
+
+export const wikipediaBaseUrl = (lang: string = DEFAULT_TOPIC_LANG): string =>
+  `https://${normalizeWikipediaLang(lang)}.wikipedia.org`;
+
 export const topicUrls = (topic: Topic): { wikipedia: string; grokipedia: string } => ({
-  wikipedia: `https://en.wikipedia.org/wiki/${topic.wikipedia_slug}`,
+  wikipedia: `${wikipediaBaseUrl(topicLang(topic))}/wiki/${topic.wikipedia_slug}`,
   grokipedia: `https://grokipedia.com/${topic.grokipedia_slug.replace(/^\/+/, '')}`,
 });
 
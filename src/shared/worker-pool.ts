@@ -0,0 +1,116 @@
+/**
+ * @file src/shared/worker-pool.ts
+ * @description Minimal `worker_threads` pool used to run CPU-heavy analysis off the main thread.
+ *              Each worker handles one task at a time; tasks queue until a worker is free and a
+ *              crashed worker is replaced so the remaining queue keeps draining.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { Worker } from 'node:worker_threads';
+
+export interface WorkerTaskMessage<TPayload> {
+  taskId: number;
+  payload: TPayload;
+}
+
+export type WorkerResultMessage<TResult> =
+  | { taskId: number; ok: true; result: TResult }
+  | { taskId: number; ok: false; error: string };
+
+export interface WorkerPool<TPayload, TResult> {
+  size: number;
+  run: (payload: TPayload) => Promise<TResult>;
+  close: () => Promise<void>;
+}
+
+interface PendingTask<TPayload, TResult> {
+  taskId: number;
+  payload: TPayload;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolSlot<TPayload, TResult> {
+  worker: Worker;
+  task: PendingTask<TPayload, TResult> | null;
+}
+
+/**
+ * Spawns a worker for `scriptPath`. When running from TypeScript sources (tests, `ts-node`), the
+ * worker registers `ts-node` in transpile-only mode so the same entry file can be used.
+ */
+const spawnWorker = (scriptPath: string): Worker =>
+  scriptPath.endsWith('.ts')
+    ? new Worker(scriptPath, { execArgv: ['-r', 'ts-node/register/transpile-only'] })
+    : new Worker(scriptPath);
+
+export const createWorkerPool = <TPayload, TResult>(
+  scriptPath: string,
+  size: number,
+): WorkerPool<TPayload, TResult> => {
+  const queue: PendingTask<TPayload, TResult>[] = [];
+  const slots: PoolSlot<TPayload, TResult>[] = [];
+  let nextTaskId = 1;
+  let closed = false;
+
+  const dispatch = (): void => {
+    for (const slot of slots) {
+      if (slot.task || !queue.length) continue;
+      const task = queue.shift()!;
+      slot.task = task;
+      const message: WorkerTaskMessage<TPayload> = { taskId: task.taskId, payload: task.payload };
+      slot.worker.postMessage(message);
+    }
+  };
+
+  const attach = (slot: PoolSlot<TPayload, TResult>): void => {
+    slot.worker.on('message', (message: WorkerResultMessage<TResult>) => {
+      const task = slot.task;
+      if (!task || task.taskId !== message.taskId) return;
+      slot.task = null;
+      if (message.ok) {
+        task.resolve(message.result);
+      } else {
+        task.reject(new Error(message.error));
+      }
+      dispatch();
+    });
+    slot.worker.on('error', (error) => {
+      slot.task?.reject(error instanceof Error ? error : new Error(String(error)));
+      slot.task = null;
+    });
+    slot.worker.on('exit', (code) => {
+      if (closed) return;
+      slot.task?.reject(new Error(`Analysis worker exited with code ${code}`));
+      slot.task = null;
+      slot.worker = spawnWorker(scriptPath);
+      attach(slot);
+      dispatch();
+    });
+  };
+
+  const workerCount = Math.max(1, Math.floor(size));
+  for (let i = 0; i < workerCount; i += 1) {
+    const slot: PoolSlot<TPayload, TResult> = { worker: spawnWorker(scriptPath), task: null };
+    attach(slot);
+    slots.push(slot);
+  }
+
+  return {
+    size: workerCount,
+    run: (payload) =>
+      new Promise<TResult>((resolve, reject) => {
+        if (closed) {
+          reject(new Error('Worker pool is closed.'));
+          return;
+        }
+        queue.push({ taskId: nextTaskId++, payload, resolve, reject });
+        dispatch();
+      }),
+    close: async () => {
+      closed = true;
+      queue.splice(0).forEach((task) => task.reject(new Error('Worker pool is closed.')));
+      await Promise.all(slots.map((slot) => slot.worker.terminate()));
+    },
+  };
+};
@@ -0,0 +1,108 @@
+/**
+ * @file src/sources/grokipedia.ts
+ * @description Built-in Grokipedia source: a page source whose citations come from the
+ *              `/api/page` endpoint (with the stored snapshot as a fallback when the API is down)
+ *              and whose pages carry a "fact-checked by Grok" banner that is dropped before parsing.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+import type { CitationMetadata, ExternalCitation } from '../parsers/shared/types';
+import { httpGetText } from '../shared/http';
+import { snapshotPath } from '../shared/snapshots';
+import { type Topic, topicLang } from '../shared/topics';
+import { createPageAdapter, normalizeCitations, type PageCitation } from './page';
+import type { SourceAdapter } from './types';
+
+export const GROKIPEDIA_SOURCE_ID = 'grok';
+
+const GROK_ENDPOINT = 'https://grokipedia.com/{slug}';
+const GROK_API_ENDPOINT = 'https://grokipedia.com/api/page';
+const GROK_SEARCH_ENDPOINT = 'https://grokipedia.com/api/typeahead?query={query}&limit={limit}';
+
+interface GrokApiResponse {
+  page?: {
+    citations?: PageCitation[];
+  };
+}
+
+export const stripGrokBanner = (markdown: string): string => {
+  const lines = markdown.split(/\n+/).filter((line) => {
+    const normalized = line.trim().toLowerCase();
+    if (!normalized) return false;
+    if (normalized.includes('fact-checked by grok')) return false;
+    return !(normalized.includes('search ⌘k') || normalized.includes('search cmd+k'));
+  });
+  return lines.join('\n').trim();
+};
+
+const grokSlug = (topic: Topic): string =>
+  topic.slugs?.[GROKIPEDIA_SOURCE_ID] ?? topic.grokipedia_slug.replace(/^\/+/, '');
+
+const readLocalGrokCitations = (topic: Topic): ExternalCitation[] => {
+  const filePath = snapshotPath(GROKIPEDIA_SOURCE_ID, topic.id);
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    const raw = fs.readFileSync(filePath, 'utf8');
+    const payload = JSON.parse(raw) as {
+      references?: Array<{
+        citation_id: string;
+        raw?: string;
+        normalized?: Partial<CitationMetadata>;
+      }>;
+    };
+    const restored: ExternalCitation[] = [];
+    for (const reference of payload.references ?? []) {
+      const url = reference.normalized?.url ?? null;
+      if (!url) continue;
+      restored.push({
+        id: reference.citation_id,
+        title: reference.normalized?.title ?? undefined,
+        description: reference.raw ?? undefined,
+        url,
+        authors: reference.normalized?.authors?.length ? reference.normalized.authors : undefined,
+        published: reference.normalized?.date ?? undefined,
+        publisher: reference.normalized?.publisher ?? undefined,
+        doi: reference.normalized?.doi ?? undefined,
+        isbn: reference.normalized?.isbn ?? undefined,
+        pmid: reference.normalized?.pmid ?? undefined,
+        archive_url: reference.normalized?.archive_url ?? undefined,
+      });
+    }
+    return restored;
+  } catch {
+    return [];
+  }
+};
+
+const fetchGrokCitations = async (topic: Topic): Promise<ExternalCitation[]> => {
+  const slug = grokSlug(topic).replace(/^page\//i, '');
+  if (!slug) return [];
+  const params = new URLSearchParams({
+    slug,
+    includeContent: 'false',
+    validateLinks: 'true',
+  });
+  const apiUrl = `${GROK_API_ENDPOINT}?${params.toString()}`;
+  try {
+    const raw = await httpGetText(apiUrl, { headers: { 'Accept-Language': topicLang(topic) } });
+    const payload = JSON.parse(raw) as GrokApiResponse;
+    return normalizeCitations(payload.page?.citations);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[grok] unable to load citations for ${topic.id}: ${message}`);
+    return readLocalGrokCitations(topic);
+  }
+};
+
+export const createGrokipediaAdapter = (): SourceAdapter =>
+  createPageAdapter({
+    id: GROKIPEDIA_SOURCE_ID,
+    name: 'grokipedia',
+    label: 'Grokipedia',
+    pageUrl: GROK_ENDPOINT,
+    searchUrl: GROK_SEARCH_ENDPOINT,
+    slugFor: grokSlug,
+    fetchCitations: fetchGrokCitations,
+    cleanMarkdown: stripGrokBanner,
+  });
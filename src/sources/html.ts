@@ -0,0 +1,225 @@
+/**
+ * @file src/sources/html.ts
+ * @description HTML to Markdown conversion for page sources. Strips site chrome, edit links, and
+ *              reference markers, keeps infobox rows and tables (rendered as Markdown pipe tables),
+ *              and lists images under a trailing `## Files` block for the Markdown parser.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { type CheerioAPI, load as loadHtml } from 'cheerio';
+import TurndownService from 'turndown';
+import { buildInfobox } from '../parsers/shared/infobox';
+import {
+  renderMarkdownTable,
+  toSpan,
+  type RawTable,
+  type RawTableCell,
+} from '../parsers/shared/tables';
+import type { StructuredInfobox } from '../parsers/shared/types';
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  bulletListMarker: '-',
+  codeBlockStyle: 'fenced',
+});
+
+const normalizeMediaUrl = (src: string, baseUrl: string): string => {
+  if (!src) return '';
+  if (src.startsWith('http://') || src.startsWith('https://')) {
+    return src;
+  }
+  if (src.startsWith('//')) {
+    return `https:${src}`;
+  }
+  if (src.startsWith('/')) {
+    return new URL(src, baseUrl).toString();
+  }
+  return new URL(src, baseUrl).toString();
+};
+
+/**
+ * Reads label/value rows from the first `table.infobox` before the table is stripped from the
+ * article body.
+ */
+const extractHtmlInfobox = ($: CheerioAPI): StructuredInfobox | null => {
+  const table = $('table.infobox').first();
+  if (!table.length) return null;
+  const entries: Array<[string, string]> = [];
+  table.find('tr').each((_, row) => {
+    const label = $(row).children('th').first().text().trim();
+    const value = $(row).children('td').first();
+    if (!label || !value.length) return;
+    value.find('sup.reference, .reference, style').remove();
+    value.find('br').replaceWith(', ');
+    value.find('li').each((_, item) => {
+      $(item).append(', ');
+    });
+    entries.push([label, value.text().replace(/[,\s]+$/, '')]);
+  });
+  return buildInfobox('Infobox', entries);
+};
+
+/** Marks where a converted table goes back once Turndown has run. */
+const TABLE_PLACEHOLDER = 'GWALNTABLE';
+
+const readHtmlTable = ($: CheerioAPI, table: ReturnType<CheerioAPI>): RawTable => {
+  const collapse = (value: string) => value.replace(/\s+/g, ' ').trim();
+  const rows: RawTableCell[][] = [];
+  table.find('tr').each((_, row) => {
+    if ($(row).closest('table')[0] !== table[0]) return;
+    const cells: RawTableCell[] = [];
+    $(row)
+      .children('th, td')
+      .each((_, cell) => {
+        cells.push({
+          content: collapse($(cell).text()),
+          header: cell.tagName === 'th',
+          colspan: toSpan($(cell).attr('colspan')),
+          rowspan: toSpan($(cell).attr('rowspan')),
+        });
+      });
+    if (cells.length) rows.push(cells);
+  });
+  return { caption: collapse(table.children('caption').first().text()) || null, rows };
+};
+
+interface SanitizedHtml {
+  html: string;
+  media: string[];
+  infobox: StructuredInfobox | null;
+  /** Markdown pipe tables, in placeholder order. */
+  tables: string[];
+}
+
+const sanitizeArticleHtml = (html: string, baseUrl: string): SanitizedHtml => {
+  try {
+    const $ = loadHtml(html);
+    const mediaLinks = new Set<string>();
+    $("style, script, noscript, link[rel='stylesheet']").remove();
+    const infobox = extractHtmlInfobox($);
+    $(
+      [
+        '.mw-editsection',
+        '.reference',
+        'sup.reference',
+        '.mw-empty-elt',
+        '.mw-jump-link',
+        'table.infobox',
+        'table.vertical-navbox',
+        'table.navbox',
+        'table.metadata',
+        'div#toc',
+        '#toc',
+        'div.shortdescription',
+        'div.hatnote',
+        'div.stub',
+        'div.portal',
+        'div.navbox',
+        'header',
+        'nav',
+        'footer',
+        'aside',
+        '.sidebar',
+        '.drawer',
+        '.site-header',
+        '.site-footer',
+      ].join(', '),
+    ).remove();
+    $('a').each((_, element) => {
+      const text = $(element).text();
+      const href = $(element).attr('href');
+      if (href && /#cite_note-/.test(href) && text?.trim().startsWith('[')) {
+        $(element).replaceWith(text ?? '');
+      } else {
+        $(element).replaceWith(text ?? '');
+      }
+    });
+    $('strong, b, em, i').each((_, element) => {
+      const text = $(element).text();
+      $(element).replaceWith(text ?? '');
+    });
+    $('img').each((_, element) => {
+      const src = $(element).attr('src') ?? $(element).attr('data-src');
+      if (src) {
+        mediaLinks.add(normalizeMediaUrl(src, baseUrl));
+      }
+      $(element).remove();
+    });
+    $('*')
+      .contents()
+      .filter((_, node) => node.type === 'comment')
+      .remove();
+    // Turndown has no table support and would flatten cells into prose, so tables are rendered
+    // as Markdown here and swapped back in after conversion.
+    const tables: string[] = [];
+    $('table')
+      .filter((_, element) => $(element).parents('table').length === 0)
+      .each((_, element) => {
+        const markdown = renderMarkdownTable(readHtmlTable($, $(element)));
+        if (!markdown) {
+          $(element).remove();
+          return;
+        }
+        $(element).replaceWith(`<p>${TABLE_PLACEHOLDER}${tables.length}</p>`);
+        tables.push(markdown);
+      });
+    const root = $('.mw-parser-output');
+    const inner = root.length ? root.html() : $.root().html();
+    if (!inner || !inner.trim()) {
+      return { html, media: Array.from(mediaLinks), infobox, tables: [] };
+    }
+    return {
+      html: `<div>${inner.trim()}</div>`,
+      media: Array.from(mediaLinks),
+      infobox,
+      tables,
+    };
+  } catch {
+    return { html, media: [], infobox: null, tables: [] };
+  }
+};
+
+const normalizeMarkdown = (markdown: string): string => {
+  let output = markdown;
+  output = output.replace(/\*{2}([^*]+)\*{2}/g, '$1');
+  output = output.replace(/__([^_]+)__/g, '$1');
+  output = output.replace(/\*([^*]+)\*/g, '$1');
+  output = output.replace(/_([^_]+)_/g, '$1');
+  output = output.replace(/`([^`]+)`/g, '$1');
+  output = output.replace(/\{\{([^}]+)\}\}/g, '$1');
+  output = output.replace(/!\[[^\]]*\]\([^)]*\)/g, '');
+  output = output.replace(/Portals:\n(?:-.*\n)+/g, '');
+  output = output.replace(/\s+\n/g, '\n');
+  output = output.replace(/\n{3,}/g, '\n\n');
+  output = output.replace(/\[([^\]]+)]\(([^)\s]+(?:\s"[^"]+")?)\)/g, (_, text) => text);
+  output = output.replace(/\\\[(\d+)\\\]/g, '');
+  output = output.replace(/\[(\d+)\]/g, '');
+
+  return output.trim();
+};
+
+export interface ConvertedContent {
+  markdown: string;
+  infobox: StructuredInfobox | null;
+}
+
+export const htmlToMarkdown = (html: string, baseUrl: string): ConvertedContent => {
+  const { html: sanitized, media, infobox, tables } = sanitizeArticleHtml(html, baseUrl);
+  let markdown = turndown
+    .turndown(sanitized)
+    .trim()
+    .replace(
+      new RegExp(`${TABLE_PLACEHOLDER}(\\d+)`, 'g'),
+      (_, index) => tables[Number(index)] ?? '',
+    );
+  markdown = normalizeMarkdown(markdown);
+  if (media.length) {
+    const uniqueMedia = Array.from(new Set(media));
+    const filesBlock = ['## Files', ...uniqueMedia.map((url) => `- ${url}`)].join('\n');
+    return { markdown: `${markdown}\n\n${filesBlock}`.trim(), infobox };
+  }
+  return { markdown, infobox };
+};
+
+export const looksLikeHtml = (value: string): boolean =>
+  /^<[^>]+>/.test(value.replace(/^(?:\s*<!--[\s\S]*?-->)+/, '').trim());
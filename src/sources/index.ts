@@ -0,0 +1,30 @@
+/**
+ * @file src/sources/index.ts
+ * @description Source adapter entry point
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+export {
+  createSourceAdapter,
+  createSourceRegistry,
+  loadSourceRegistry,
+  resolveSourceId,
+  WIKIPEDIA_SOURCE_ID,
+  type SourceRegistry,
+} from './registry';
+
+export { createMediaWikiAdapter, type MediaWikiAdapterOptions } from './mediawiki';
+
+export { createPageAdapter, type PageAdapterOptions } from './page';
+
+export { createGrokipediaAdapter, GROKIPEDIA_SOURCE_ID, stripGrokBanner } from './grokipedia';
+
+export type {
+  LocalRevision,
+  MediaWikiSourceDefinition,
+  PageSourceDefinition,
+  SourceAdapter,
+  SourceDefinition,
+  SourceKind,
+  SourceSearchResult,
+} from './types';
@@ -0,0 +1,137 @@
+/**
+ * @file src/sources/mediawiki.ts
+ * @description Source adapter for MediaWiki installations. Wikipedia is the built-in instance;
+ *              other language editions, other wikis, and local test servers are configured with a
+ *              `baseUrl` (and a `scriptPath`/`articlePath` when they differ from Wikipedia's).
+ *              Pages are read as raw wikitext plus `action=query` revision metadata.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { ArticleMetadata, ArticleSource } from '../parsers/shared/types';
+import { parseWikiArticle } from '../parsers/wiki';
+import { httpGetText } from '../shared/http';
+import { DEFAULT_TOPIC_LANG, type Topic, topicLang, wikipediaBaseUrl } from '../shared/topics';
+import type { LocalRevision, MediaWikiSourceDefinition, SourceAdapter } from './types';
+
+const DEFAULT_SCRIPT_PATH = '/w';
+const DEFAULT_ARTICLE_PATH = '/wiki/{slug}';
+
+export interface MediaWikiAdapterOptions extends Omit<MediaWikiSourceDefinition, 'type'> {
+  id: string;
+  name?: ArticleSource;
+  label: string;
+}
+
+interface QueryPage {
+  pageid?: number;
+  title?: string;
+  canonicalurl?: string;
+  fullurl?: string;
+  pagelanguage?: string;
+  revisions?: Array<{ revid?: number; timestamp?: string }>;
+}
+
+type OpenSearchResponse = [string, string[], string[], string[]];
+
+const trimPath = (value: string): string => value.trim().replace(/\/+$/, '');
+
+export const createMediaWikiAdapter = (options: MediaWikiAdapterOptions): SourceAdapter => {
+  const scriptPath = trimPath(options.scriptPath ?? DEFAULT_SCRIPT_PATH);
+  const articlePath = options.articlePath ?? DEFAULT_ARTICLE_PATH;
+  const name = options.name ?? options.id;
+
+  /** Wikipedia editions follow the topic language unless the source pins a site or language. */
+  const siteFor = (lang: string) => {
+    const baseUrl = trimPath(options.baseUrl ?? wikipediaBaseUrl(lang));
+    return { lang, baseUrl, scriptUrl: `${baseUrl}${scriptPath}` };
+  };
+  const langFor = (topic: Topic): string => options.lang ?? topicLang(topic);
+  const slugFor = (topic: Topic): string => topic.slugs?.[options.id] ?? topic.wikipedia_slug;
+  const articleUrl = (baseUrl: string, slug: string): string =>
+    `${baseUrl}${articlePath.replace('{slug}', slug)}`;
+
+  const fetchMetadata = async (topic: Topic): Promise<ArticleMetadata> => {
+    const slug = slugFor(topic);
+    const site = siteFor(langFor(topic));
+    const params = new URLSearchParams({
+      action: 'query',
+      prop: 'info|revisions',
+      inprop: 'url',
+      rvprop: 'ids|timestamp',
+      rvlimit: '1',
+      titles: slug,
+      format: 'json',
+      formatversion: '2',
+    });
+    const raw = await httpGetText(`${site.scriptUrl}/api.php?${params.toString()}`);
+    const payload = JSON.parse(raw) as { query?: { pages?: QueryPage[] } };
+    const page = payload.query?.pages?.[0];
+    if (!page) {
+      throw new Error(`Unable to load metadata for ${options.label} page '${slug}'`);
+    }
+    const revision = page.revisions?.[0];
+    const lang = page.pagelanguage ?? site.lang;
+    return {
+      source: name,
+      pageId: `${lang}:${slug}`,
+      lang,
+      title: page.title ?? topic.title,
+      canonicalUrl: page.canonicalurl ?? page.fullurl ?? articleUrl(site.baseUrl, slug),
+      revisionId: revision?.revid ? String(revision.revid) : `${slug}-unknown`,
+      revisionTimestamp: revision?.timestamp ?? new Date().toISOString(),
+    };
+  };
+
+  const fetchWikitext = (topic: Topic): Promise<string> => {
+    const title = slugFor(topic).replace(/\s+/g, '_');
+    const { scriptUrl } = siteFor(langFor(topic));
+    return httpGetText(`${scriptUrl}/index.php?title=${encodeURIComponent(title)}&action=raw`);
+  };
+
+  const localMetadata = (topic: Topic, revision: LocalRevision): ArticleMetadata => {
+    const slug = slugFor(topic);
+    const lang = revision.lang ?? langFor(topic);
+    return {
+      source: name,
+      pageId: `${lang}:${slug}`,
+      lang,
+      title: topic.title,
+      canonicalUrl: articleUrl(siteFor(lang).baseUrl, slug),
+      revisionId: revision.revisionId,
+      revisionTimestamp: revision.revisionTimestamp,
+    };
+  };
+
+  return {
+    id: options.id,
+    name,
+    label: options.label,
+    kind: 'mediawiki',
+    fileExtensions: ['.wiki', '.wikitext', '.raw', '.txt'],
+    slugFor,
+    canonicalUrl: (topic) => articleUrl(siteFor(langFor(topic)).baseUrl, slugFor(topic)),
+    fetch: async (topic) => {
+      const [wikitext, metadata] = await Promise.all([fetchWikitext(topic), fetchMetadata(topic)]);
+      return parseWikiArticle(topic, wikitext, metadata);
+    },
+    parse: (topic, raw, revision) => parseWikiArticle(topic, raw, localMetadata(topic, revision)),
+    search: async (query, limit = 5) => {
+      const site = siteFor(options.lang ?? DEFAULT_TOPIC_LANG);
+      const params = new URLSearchParams({
+        action: 'opensearch',
+        search: query,
+        limit: String(limit),
+        namespace: '0',
+        format: 'json',
+      });
+      const raw = await httpGetText(`${site.scriptUrl}/api.php?${params.toString()}`);
+      const [, titles = [], descriptions = [], urls = []] = JSON.parse(raw) as OpenSearchResponse;
+      return titles.map((title, index) => ({
+        title,
+        slug: title.replace(/\s+/g, '_'),
+        url: urls[index] ?? articleUrl(site.baseUrl, title.replace(/\s+/g, '_')),
+        ...(descriptions[index] ? { description: descriptions[index] } : {}),
+      }));
+    },
+  };
+};
@@ -0,0 +1,238 @@
+/**
+ * @file src/sources/page.ts
+ * @description Source adapter for sites that serve one page per topic, such as AI-written
+ *              encyclopedias. The page may be HTML, Markdown, or a JSON payload with the body in
+ *              `content`/`body`/`text`/`html` and an optional `citations` array; all of them are
+ *              converted to Markdown and parsed with the Markdown parser.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { parseMarkdownStructuredArticle } from '../parsers/grok';
+import type { ArticleMetadata, ArticleSource, ExternalCitation } from '../parsers/shared/types';
+import { httpGetText, httpRequestJson } from '../shared/http';
+import { type Topic, topicLang } from '../shared/topics';
+import { type ConvertedContent, htmlToMarkdown, looksLikeHtml } from './html';
+import type {
+  LocalRevision,
+  PageSourceDefinition,
+  SourceAdapter,
+  SourceSearchResult,
+} from './types';
+
+export interface PageCitation {
+  id?: string;
+  title?: string;
+  description?: string;
+  url?: string;
+  favicon?: string;
+  /** Optional metadata; present on some citation payloads only. */
+  authors?: string[] | string;
+  author?: string;
+  publishedDate?: string;
+  date?: string;
+  siteName?: string;
+  publisher?: string;
+  doi?: string;
+  isbn?: string;
+  pmid?: string | number;
+  archiveUrl?: string;
+}
+
+interface PageContentPayload {
+  content?: string;
+  body?: string;
+  text?: string;
+  html?: string;
+  citations?: PageCitation[];
+}
+
+interface PageSearchEntry {
+  title?: string;
+  slug?: string;
+  key?: string;
+  url?: string;
+  description?: string;
+}
+
+export interface PageAdapterOptions extends Omit<PageSourceDefinition, 'type'> {
+  id: string;
+  name?: ArticleSource;
+  label: string;
+  slugFor?: (topic: Topic) => string;
+  /** Loads citations the page body does not carry, e.g. from a separate API. */
+  fetchCitations?: (topic: Topic) => Promise<ExternalCitation[]>;
+  /** Removes site furniture (banners, search hints) from the converted Markdown. */
+  cleanMarkdown?: (markdown: string) => string;
+}
+
+const citationAuthors = (entry: PageCitation): string[] | undefined => {
+  const raw = entry.authors ?? entry.author;
+  const list = Array.isArray(raw) ? raw : raw ? raw.split(/\s*;\s*/) : [];
+  const authors = list.map((name) => name.trim()).filter(Boolean);
+  return authors.length ? authors : undefined;
+};
+
+export const normalizeCitations = (entries: PageCitation[] | undefined): ExternalCitation[] => {
+  const normalized: ExternalCitation[] = [];
+  if (!entries) return normalized;
+  for (const entry of entries) {
+    if (!entry?.url) continue;
+    normalized.push({
+      id: entry.id,
+      title: entry.title ?? undefined,
+      description: entry.description ?? undefined,
+      url: entry.url,
+      favicon: entry.favicon ?? undefined,
+      authors: citationAuthors(entry),
+      published: entry.publishedDate ?? entry.date ?? undefined,
+      publisher: entry.siteName ?? entry.publisher ?? undefined,
+      doi: entry.doi ?? undefined,
+      isbn: entry.isbn ?? undefined,
+      pmid: entry.pmid === undefined ? undefined : String(entry.pmid),
+      archive_url: entry.archiveUrl ?? undefined,
+    });
+  }
+  return normalized;
+};
+
+const readEmbeddedCitations = (raw: string): ExternalCitation[] => {
+  try {
+    const parsed = JSON.parse(raw) as PageContentPayload & { page?: PageContentPayload };
+    return normalizeCitations((parsed.page ?? parsed).citations);
+  } catch {
+    return [];
+  }
+};
+
+const extractPageContent = (raw: string, baseUrl: string): ConvertedContent => {
+  const trimmed = raw.trim();
+  if (!trimmed) return { markdown: '', infobox: null };
+  try {
+    const parsed = JSON.parse(trimmed) as PageContentPayload & { page?: PageContentPayload };
+    const data = parsed.page ?? parsed;
+    const candidate = data.content ?? data.body ?? data.text ?? data.html;
+    if (candidate) {
+      return looksLikeHtml(candidate)
+        ? htmlToMarkdown(candidate, baseUrl)
+        : { markdown: candidate, infobox: null };
+    }
+  } catch {
+    /* not JSON – fall back to HTML */
+  }
+
+  if (looksLikeHtml(trimmed)) {
+    return htmlToMarkdown(trimmed, baseUrl);
+  }
+
+  return { markdown: trimmed, infobox: null };
+};
+
+const searchEntries = (payload: unknown): PageSearchEntry[] => {
+  if (Array.isArray(payload)) return payload as PageSearchEntry[];
+  const record = (payload ?? {}) as Record<string, unknown>;
+  const list = record.results ?? record.pages ?? record.items;
+  return Array.isArray(list) ? (list as PageSearchEntry[]) : [];
+};
+
+export const createPageAdapter = (options: PageAdapterOptions): SourceAdapter => {
+  const name = options.name ?? options.id;
+  const siteOrigin = new URL(options.pageUrl.replace('{slug}', '')).origin;
+  const slugFor =
+    options.slugFor ?? ((topic: Topic) => topic.slugs?.[options.id] ?? topic.wikipedia_slug);
+  const langFor = (topic: Topic): string => options.lang ?? topicLang(topic);
+  const pageUrl = (slug: string): string =>
+    options.pageUrl.replace('{slug}', slug.replace(/^\/+/, ''));
+
+  const metadataFor = (
+    topic: Topic,
+    revision: Pick<ArticleMetadata, 'revisionId' | 'revisionTimestamp'>,
+  ): ArticleMetadata => ({
+    source: name,
+    pageId: `${options.id}:${topic.id}`,
+    lang: langFor(topic),
+    title: topic.title,
+    canonicalUrl: pageUrl(slugFor(topic)),
+    revisionId: revision.revisionId,
+    revisionTimestamp: revision.revisionTimestamp,
+  });
+
+  const parsePage = (
+    topic: Topic,
+    raw: string,
+    citations: ExternalCitation[],
+    metadata: ArticleMetadata,
+  ) => {
+    const baseUrl = (() => {
+      try {
+        return new URL(metadata.canonicalUrl).origin;
+      } catch {
+        return siteOrigin;
+      }
+    })();
+    const { markdown: extracted, infobox } = extractPageContent(raw, baseUrl);
+    const content = (options.cleanMarkdown ? options.cleanMarkdown(extracted) : extracted)
+      .replace(/^(?:\s*<!--[\s\S]*?-->)+/, '')
+      .trim();
+    const hasTitle = content.split('\n', 1)[0].trim() === `# ${topic.title}`;
+    const markdown = hasTitle ? content : `# ${topic.title}\n\n${content}`;
+    return parseMarkdownStructuredArticle(topic, markdown, metadata, { citations, infobox });
+  };
+
+  const search = async (query: string, limit = 5): Promise<SourceSearchResult[]> => {
+    if (!options.searchUrl) {
+      throw new Error(
+        `${options.label} has no search endpoint. Set "searchUrl" for "${options.id}" under sources in .gwalnrc.json.`,
+      );
+    }
+    const url = options.searchUrl
+      .replace('{query}', encodeURIComponent(query))
+      .replace('{limit}', String(limit));
+    const payload = await httpRequestJson<unknown>(url, {
+      headers: { Accept: 'application/json' },
+      cache: false,
+    });
+    return searchEntries(payload)
+      .filter((entry): entry is PageSearchEntry & { title: string } => Boolean(entry?.title))
+      .slice(0, limit)
+      .map((entry) => {
+        const link = entry.url ? new URL(entry.url, siteOrigin) : null;
+        const slug =
+          entry.slug ??
+          entry.key ??
+          link?.pathname.replace(/^\/+/, '') ??
+          entry.title.replace(/\s+/g, '_');
+        return {
+          title: entry.title,
+          slug,
+          url: link?.toString() ?? pageUrl(slug),
+          ...(entry.description ? { description: entry.description } : {}),
+        };
+      });
+  };
+
+  return {
+    id: options.id,
+    name,
+    label: options.label,
+    kind: 'page',
+    fileExtensions: ['.md', '.markdown', '.html', '.htm', '.json', '.txt'],
+    slugFor,
+    canonicalUrl: (topic) => pageUrl(slugFor(topic)),
+    fetch: async (topic) => {
+      const url = pageUrl(slugFor(topic));
+      const raw = await httpGetText(url, { headers: { 'Accept-Language': langFor(topic) } });
+      const citations = options.fetchCitations
+        ? await options.fetchCitations(topic)
+        : readEmbeddedCitations(raw);
+      const fetchedAt = new Date().toISOString();
+      const metadata = metadataFor(topic, {
+        revisionId: `${options.id}-${fetchedAt}`,
+        revisionTimestamp: fetchedAt,
+      });
+      return parsePage(topic, raw, citations, metadata);
+    },
+    parse: (topic, raw, revision: LocalRevision) =>
+      parsePage(topic, raw, readEmbeddedCitations(raw), metadataFor(topic, revision)),
+    search,
+  };
+};
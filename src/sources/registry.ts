@@ -0,0 +1,131 @@
+/**
+ * @file src/sources/registry.ts
+ * @description Registry of source adapters. Wikipedia (`wiki`) and Grokipedia (`grok`) are
+ *              built in; entries under `sources` in `.gwalnrc.json` add MediaWiki instances and
+ *              page sites, or replace a built-in (e.g. pointing `wiki` at a local test server).
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { readConfig } from '../shared/config';
+import { normalizeWikipediaLang } from '../shared/topics';
+import { createGrokipediaAdapter, GROKIPEDIA_SOURCE_ID } from './grokipedia';
+import { createMediaWikiAdapter } from './mediawiki';
+import { createPageAdapter } from './page';
+import type { SourceAdapter, SourceDefinition } from './types';
+
+export const WIKIPEDIA_SOURCE_ID = 'wiki';
+
+const SOURCE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** `both` is a fetch mode and `history` a data directory, so neither can name a source. */
+const RESERVED_IDS = new Set(['both', 'history']);
+
+const SOURCE_ALIASES: Record<string, string> = {
+  wikipedia: WIKIPEDIA_SOURCE_ID,
+  grokipedia: GROKIPEDIA_SOURCE_ID,
+};
+
+const BUILTIN_NAMES: Record<string, string> = {
+  [WIKIPEDIA_SOURCE_ID]: 'wikipedia',
+  [GROKIPEDIA_SOURCE_ID]: 'grokipedia',
+};
+
+const BUILTIN_LABELS: Record<string, string> = {
+  [WIKIPEDIA_SOURCE_ID]: 'Wikipedia',
+  [GROKIPEDIA_SOURCE_ID]: 'Grokipedia',
+};
+
+export interface SourceRegistry {
+  /** Looks up an adapter by id or alias (`wikipedia`, `grokipedia`); throws when unknown. */
+  get(id: string): SourceAdapter;
+  has(id: string): boolean;
+  list(): SourceAdapter[];
+}
+
+/** Maps the long built-in names onto their ids; other labels are lowercased and returned. */
+export const resolveSourceId = (value: string): string => {
+  const id = value.trim().toLowerCase();
+  return SOURCE_ALIASES[id] ?? id;
+};
+
+const assertUrl = (id: string, field: string, value: string): void => {
+  try {
+    new URL(value);
+  } catch {
+    throw new Error(`Source "${id}" has an invalid ${field} "${value}" in .gwalnrc.json.`);
+  }
+};
+
+/**
+ * Builds the adapter for one `sources` entry. The entry is validated first so a typo fails with
+ * the offending field instead of an error during the first fetch.
+ */
+export const createSourceAdapter = (id: string, definition: SourceDefinition): SourceAdapter => {
+  if (!SOURCE_ID_PATTERN.test(id)) {
+    throw new Error(
+      `Invalid source id "${id}" in .gwalnrc.json. Use lowercase letters, digits, "-" or "_".`,
+    );
+  }
+  if (RESERVED_IDS.has(id) || SOURCE_ALIASES[id]) {
+    throw new Error(`Source id "${id}" is reserved. Pick another name under sources.`);
+  }
+  const name = BUILTIN_NAMES[id] ?? id;
+  if (definition?.type === 'mediawiki') {
+    if (definition.baseUrl) assertUrl(id, 'baseUrl', definition.baseUrl);
+    if (definition.lang) {
+      try {
+        normalizeWikipediaLang(definition.lang);
+      } catch (error) {
+        throw new Error(`Source "${id}": ${(error as Error).message}`);
+      }
+    }
+    const label =
+      definition.label ??
+      BUILTIN_LABELS[id] ??
+      (definition.lang && !definition.baseUrl ? `Wikipedia (${definition.lang})` : id);
+    return createMediaWikiAdapter({ ...definition, id, name, label });
+  }
+  if (definition?.type === 'page') {
+    if (!definition.pageUrl?.includes('{slug}')) {
+      throw new Error(`Source "${id}" needs a "pageUrl" with a {slug} placeholder.`);
+    }
+    assertUrl(id, 'pageUrl', definition.pageUrl.replace('{slug}', ''));
+    const label = definition.label ?? BUILTIN_LABELS[id] ?? id;
+    return createPageAdapter({ ...definition, id, name, label });
+  }
+  const type = (definition as { type?: unknown } | undefined)?.type;
+  throw new Error(`Unknown type "${String(type)}" for source "${id}". Use "mediawiki" or "page".`);
+};
+
+export const createSourceRegistry = (
+  definitions: Record<string, SourceDefinition> = {},
+): SourceRegistry => {
+  const adapters = new Map<string, SourceAdapter>([
+    [
+      WIKIPEDIA_SOURCE_ID,
+      createMediaWikiAdapter({ id: WIKIPEDIA_SOURCE_ID, name: 'wikipedia', label: 'Wikipedia' }),
+    ],
+    [GROKIPEDIA_SOURCE_ID, createGrokipediaAdapter()],
+  ]);
+  Object.entries(definitions).forEach(([id, definition]) => {
+    adapters.set(id, createSourceAdapter(id, definition));
+  });
+
+  return {
+    get: (value) => {
+      const adapter = adapters.get(resolveSourceId(value));
+      if (!adapter) {
+        throw new Error(
+          `Unknown source '${value}'. Available: ${Array.from(adapters.keys()).join(', ')}. Add it under "sources" in .gwalnrc.json.`,
+        );
+      }
+      return adapter;
+    },
+    has: (value) => adapters.has(resolveSourceId(value)),
+    list: () => Array.from(adapters.values()),
+  };
+};
+
+/** Registry with the built-in sources plus the `sources` configured in `.gwalnrc.json`. */
+export const loadSourceRegistry = (): SourceRegistry =>
+  createSourceRegistry(readConfig().sources ?? {});
@@ -0,0 +1,74 @@
+/**
+ * @file src/sources/types.ts
+ * @description Contracts for source adapters. An adapter knows how to fetch a topic's page from
+ *              one encyclopedia, parse it into a `StructuredArticle`, build its canonical URL,
+ *              and search the site for new topics. `gwaln fetch` and `gwaln analyse` only talk to
+ *              adapters, so any two registered sources can be compared.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { ArticleSource, StructuredArticle } from '../parsers/shared/types';
+import type { Topic } from '../shared/topics';
+
+export type SourceKind = 'mediawiki' | 'page';
+
+export interface SourceSearchResult {
+  title: string;
+  /** Slug to store under `slugs.<source>` (or the built-in slug fields) of a topic. */
+  slug: string;
+  url: string;
+  description?: string;
+}
+
+/** Revision metadata for content read from disk instead of a live endpoint. */
+export interface LocalRevision {
+  revisionId: string;
+  revisionTimestamp: string;
+  /** Language of the content when the input declares it (MediaWiki XML dumps). */
+  lang?: string;
+}
+
+export interface SourceAdapter {
+  /** Registry key used by `gwaln fetch <id>`, snapshot refs (`<id>@<revision>`), and storage. */
+  id: string;
+  /** Value written to `StructuredArticle.source`. */
+  name: ArticleSource;
+  /** Display name used in reports. */
+  label: string;
+  kind: SourceKind;
+  /** File extensions picked up when a directory is passed to `--from-file`. */
+  fileExtensions: string[];
+  slugFor(topic: Topic): string;
+  canonicalUrl(topic: Topic): string;
+  fetch(topic: Topic): Promise<StructuredArticle>;
+  /** Parses page content read from disk (wikitext, HTML, Markdown, or API JSON). */
+  parse(topic: Topic, raw: string, revision: LocalRevision): StructuredArticle;
+  search(query: string, limit?: number): Promise<SourceSearchResult[]>;
+}
+
+/** A MediaWiki installation: a Wikipedia edition, another wiki, or a local test server. */
+export interface MediaWikiSourceDefinition {
+  type: 'mediawiki';
+  label?: string;
+  /** Site root, e.g. `https://de.wikipedia.org` or `http://localhost:8080`. */
+  baseUrl?: string;
+  /** Content language; without `baseUrl` it also selects the Wikipedia edition. */
+  lang?: string;
+  /** Directory holding `api.php` and `index.php`. Defaults to `/w`. */
+  scriptPath?: string;
+  /** Article URL pattern with a `{slug}` placeholder. Defaults to `/wiki/{slug}`. */
+  articlePath?: string;
+}
+
+/** Any site that serves one HTML, Markdown, or JSON page per topic (e.g. an AI encyclopedia). */
+export interface PageSourceDefinition {
+  type: 'page';
+  label?: string;
+  /** Page URL with a `{slug}` placeholder. */
+  pageUrl: string;
+  /** JSON search endpoint with `{query}` and optional `{limit}` placeholders. */
+  searchUrl?: string;
+  lang?: string;
+}
+
+export type SourceDefinition = MediaWikiSourceDefinition | PageSourceDefinition;
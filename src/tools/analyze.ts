@@ -6,7 +6,8 @@
 import { z } from 'zod';
 import {
   resolveBiasVerifierOptions,
-  resolveGeminiSummaryOptions,
+  resolveLlmVerifierOptions,
+  resolveSummaryOptions,
   runAnalyzeWorkflow,
 } from '../workflows/analyze-workflow';
 import { textContent } from './utils';
@@ -14,18 +15,29 @@ import { textContent } from './utils';
 export const AnalyzeInputSchema = z.object({
   topicId: z.string().optional(),
   force: z.boolean().optional(),
-  biasVerifier: z.enum(['gemini']).optional(),
+  /** `gemini`, `openai`, `ollama`, `llamacpp`, or a provider configured under `llmProviders`. */
+  biasVerifier: z.string().optional(),
+  /** Like `biasVerifier`, but verifies every verifiable discrepancy type. */
+  llmVerify: z.string().optional(),
+  llmSummary: z.string().optional(),
+  llmModel: z.string().optional(),
+  llmEndpoint: z.string().optional(),
   geminiKey: z.string().optional(),
   geminiModel: z.string().optional(),
   geminiSummary: z.boolean().optional(),
   verifyCitations: z.boolean().optional(),
   semanticBias: z.boolean().optional(),
+  semanticAlign: z.boolean().optional(),
+  nli: z.boolean().optional(),
+  base: z.string().optional(),
+  target: z.string().optional(),
+  concurrency: z.number().int().min(1).optional(),
 });
 
 export const analyzeTool = {
   title: 'Analyze and Compare Grokipedia vs Wikipedia Content',
   description:
-    'Performs comprehensive analysis comparing Grokipedia and Wikipedia content for specified topics. Generates structured comparison reports including bias detection, citation verification, and discrepancy analysis. Returns analysis results with metrics, summaries, and structured data that can be used for further processing or reporting. Supports optional Gemini-based bias verification and AI-generated summaries. Results are cached and can be regenerated with the force option.',
+    'Performs comprehensive analysis comparing Grokipedia and Wikipedia content for specified topics. Generates structured comparison reports including bias detection, citation verification, and discrepancy analysis. Returns analysis results with metrics, summaries, and structured data that can be used for further processing or reporting. Supports optional LLM-based bias verification and summaries through Gemini, OpenAI-compatible endpoints, or a local Ollama/llama.cpp server. Results are cached and can be regenerated with the force option.',
   inputSchema: AnalyzeInputSchema,
 };
 
@@ -33,27 +45,32 @@ export const analyzeHandler = async (
   input: z.infer<typeof AnalyzeInputSchema>,
   logger: Pick<Console, 'log' | 'warn' | 'error'>,
 ) => {
-  const verifier = input.biasVerifier
-    ? resolveBiasVerifierOptions({
-        biasVerifier: input.biasVerifier,
-        geminiKey: input.geminiKey,
-        geminiModel: input.geminiModel,
-      })
-    : null;
-  const summary =
-    input.geminiSummary === true
-      ? resolveGeminiSummaryOptions({
-          geminiKey: input.geminiKey,
-          geminiModel: input.geminiModel,
-        })
-      : null;
+  const overrides = {
+    model: input.llmModel,
+    endpoint: input.llmEndpoint,
+    geminiKey: input.geminiKey,
+    geminiModel: input.geminiModel,
+  };
+  const verifier = resolveBiasVerifierOptions({ ...overrides, biasVerifier: input.biasVerifier });
+  const llmVerifier = resolveLlmVerifierOptions({ ...overrides, llmVerify: input.llmVerify });
+  const summary = resolveSummaryOptions({
+    ...overrides,
+    llmSummary: input.llmSummary,
+    geminiSummary: input.geminiSummary,
+  });
   const results = await runAnalyzeWorkflow({
     topicId: input.topicId,
     force: input.force,
     biasVerifier: verifier,
+    llmVerifier,
     summary,
     verifyCitations: input.verifyCitations,
     semanticBias: input.semanticBias,
+    semanticAlign: input.semanticAlign,
+    nli: input.nli,
+    base: input.base,
+    target: input.target,
+    concurrency: input.concurrency,
     logger,
   });
   return {
@@ -8,24 +8,31 @@ import { type FetchSource, runFetchWorkflow } from '../workflows/fetch-workflow'
 import { textContent } from './utils';
 
 export const FetchInputSchema = z.object({
-  source: z.enum(['wiki', 'grok', 'both']).optional(),
+  /** `wiki`, `grok`, `both`, or the id of a source configured under `sources`. */
+  source: z.string().optional(),
   topicId: z.string().optional(),
+  fromFile: z.string().optional(),
 });
 
 export const fetchTool = {
   title: 'Fetch Structured Content Snapshots from Grokipedia and Wikipedia',
   description:
-    'Downloads and stores structured content snapshots from Grokipedia (X.AI) and/or Wikipedia for one or more topics. Returns parsed, structured data ready for analysis. Content is cached locally to avoid redundant downloads. Use this tool to gather source material before running analysis. Returns structured payloads containing the fetched content organized by source (wiki/grok) and topic.',
+    'Downloads and stores structured content snapshots from Grokipedia (X.AI) and/or Wikipedia for one or more topics. Returns parsed, structured data ready for analysis. Content is cached locally to avoid redundant downloads. Use this tool to gather source material before running analysis. Returns structured payloads containing the fetched content organized by source (wiki/grok, or any source id configured under sources in .gwalnrc.json) and topic.',
   inputSchema: FetchInputSchema,
 };
 
 export const fetchHandler = async (input: z.infer<typeof FetchInputSchema>) => {
-  const { source, topicId } = input;
+  const { source, topicId, fromFile } = input;
   const selectedSource = source ?? 'both';
+  if (fromFile && selectedSource === 'both') {
+    throw new Error(
+      "fromFile requires a single source: set source to 'wiki', 'grok', or a configured source id.",
+    );
+  }
   const sources: FetchSource[] = selectedSource === 'both' ? ['wiki', 'grok'] : [selectedSource];
   const payload = [];
   for (const selected of sources) {
-    const results = await runFetchWorkflow(selected, topicId);
+    const results = await runFetchWorkflow(selected, topicId, { fromFile });
     payload.push({ source: selected, results });
   }
   return {
@@ -16,6 +16,7 @@ export const LookupInputSchema = z
     title: z.string().optional(),
     wikipediaSlug: z.string().optional(),
     grokipediaSlug: z.string().optional(),
+    lang: z.string().optional(),
   })
   .refine(
     (value) => {
@@ -59,6 +60,7 @@ export const lookupHandler = async (input: z.infer<typeof LookupInputSchema>) =>
       title: input.title,
       wikipediaSlug: input.wikipediaSlug,
       grokipediaSlug: grokSlug,
+      lang: input.lang,
     });
 
     return {
@@ -77,6 +79,7 @@ export const lookupHandler = async (input: z.infer<typeof LookupInputSchema>) =>
     query,
     searchApis: searchApis ?? false,
     limit,
+    lang: input.lang,
   });
 
   if (result.found && result.topic) {
@@ -0,0 +1,57 @@
+/**
+ * @file src/workflows/analyze-worker.ts
+ * @description `worker_threads` entry point for concurrent batch analysis. Receives prepared
+ *              analyzer sources from `runAnalyzeWorkflow` and runs the CPU-bound comparison
+ *              (`analyzeContent`) off the main thread. Snapshot loading, cache probing, external
+ *              verifiers, and writes stay on the main thread.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { parentPort } from 'node:worker_threads';
+import {
+  type AnalysisPayload,
+  analyzeContent,
+  type AnalyzerSource,
+  type ComparedSource,
+} from '../lib/analyzer';
+import type { NumericTolerances } from '../lib/discrepancies';
+import type { Topic } from '../shared/topics';
+import type { WorkerResultMessage, WorkerTaskMessage } from '../shared/worker-pool';
+
+export interface AnalyzeWorkerTask {
+  topic: Topic;
+  wikiSource: AnalyzerSource;
+  grokSource: AnalyzerSource;
+  contentHash: string;
+  semanticBias?: boolean;
+  semanticAlign?: boolean;
+  nli?: boolean;
+  numericTolerances?: NumericTolerances;
+  sourceReliability?: Record<string, string>;
+  sources?: { reference: ComparedSource; candidate: ComparedSource };
+}
+
+/**
+ * Path handed to `createWorkerPool`; `.js` from `dist/`, `.ts` under ts-node or vitest.
+ */
+export const ANALYZE_WORKER_PATH = __filename;
+
+parentPort?.on('message', async (message: WorkerTaskMessage<AnalyzeWorkerTask>) => {
+  const { taskId, payload } = message;
+  let response: WorkerResultMessage<AnalysisPayload>;
+  try {
+    const result = await analyzeContent(payload.topic, payload.wikiSource, payload.grokSource, {
+      contentHash: payload.contentHash,
+      semanticBias: payload.semanticBias,
+      semanticAlign: payload.semanticAlign,
+      nli: payload.nli,
+      numericTolerances: payload.numericTolerances,
+      sourceReliability: payload.sourceReliability,
+      sources: payload.sources,
+    });
+    response = { taskId, ok: true, result };
+  } catch (error) {
+    response = { taskId, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
@@ -9,29 +9,55 @@ import {
   AnalysisPayload,
   analyzeContent,
   type AnalyzerSource,
+  type ComparedSource,
   prepareAnalyzerSource,
+  sourceLabels,
 } from '../lib/analyzer';
-import { GEMINI_DEFAULT_MODEL, verifyBiasWithGemini } from '../lib/bias-verifier';
-import { verifySentencesAgainstCitations } from '../lib/citation-verifier';
-import { generateGeminiComparisonSummary } from '../lib/gemini-summary';
+import {
+  DEFAULT_ARCHIVE_ENDPOINT,
+  verifySentencesAgainstCitations,
+} from '../lib/citation-verifier';
+import type { NumericTolerances } from '../lib/discrepancies';
+import { generateComparisonSummary } from '../lib/llm-summary';
+import {
+  biasVerificationRecords,
+  LLM_VERIFIABLE_TYPES,
+  verifyDiscrepancies,
+} from '../lib/llm-verifier';
+import { type ModelPipelineId, resolveModelPipeline } from '../lib/model-manager';
 import { buildStructuredAnalysis } from '../lib/structured-report';
-import type { StructuredArticle } from '../parsers/shared/types';
+import {
+  createLlmProvider,
+  createLlmUsageRecorder,
+  type LlmProviderConfig,
+  type LlmProviderOverrides,
+  resolveLlmProviderConfig,
+  withLlmCache,
+} from '../llm';
 import { probeCachedAnalysis } from '../shared/analysis-cache';
 import { readConfig } from '../shared/config';
 import { computeContentHash } from '../shared/content-hash';
 import { paths } from '../shared/paths';
+import {
+  formatSnapshotRef,
+  isLatestRef,
+  parseSnapshotRef,
+  readSnapshot,
+  type SnapshotRef,
+} from '../shared/snapshots';
 import { loadTopics, selectTopics, Topic } from '../shared/topics';
+import { loadSourceRegistry, type SourceRegistry } from '../sources';
+import { createWorkerPool, type WorkerPool } from '../shared/worker-pool';
+import { ANALYZE_WORKER_PATH, type AnalyzeWorkerTask } from './analyze-worker';
 
-export interface BiasVerifierConfig {
-  provider: 'gemini';
-  apiKey: string;
-  model: string;
-}
+/** Resolved LLM provider that double-checks bias events (`--bias-verifier`). */
+export type BiasVerifierConfig = LlmProviderConfig;
 
-export interface GeminiSummaryConfig {
-  apiKey: string;
-  model: string;
-}
+/** Resolved LLM provider that verifies every verifiable discrepancy type (`--llm-verify`). */
+export type LlmVerifierConfig = LlmProviderConfig;
+
+/** Resolved LLM provider that writes the comparison summary (`--llm-summary`). */
+export type SummaryConfig = LlmProviderConfig;
 
 export type AnalyzeTopicStatus = 'cached' | 'error' | 'written' | 'skipped';
 
@@ -42,6 +68,8 @@ export interface AnalyzeTopicResult {
   analysisPath?: string;
   detail?: string;
   error?: string;
+  /** Wall-clock time spent on the topic, including external verifiers and writes. */
+  durationMs?: number;
 }
 
 export interface AnalyzeWorkflowHooks {
@@ -53,11 +81,29 @@ export interface AnalyzeWorkflowOptions {
   topicId?: string;
   force?: boolean;
   biasVerifier?: BiasVerifierConfig | null;
-  summary?: GeminiSummaryConfig | null;
+  /** Verifies all discrepancy types; takes precedence over `biasVerifier`. */
+  llmVerifier?: LlmVerifierConfig | null;
+  summary?: SummaryConfig | null;
   verifyCitations?: boolean;
   logger?: Pick<Console, 'log' | 'warn' | 'error'>;
   hooks?: AnalyzeWorkflowHooks;
   semanticBias?: boolean;
+  /** Align sentences, claims, and sections with a local sentence-embedding model. */
+  semanticAlign?: boolean;
+  /** Classify aligned claim pairs with a local NLI model and report contradictions. */
+  nli?: boolean;
+  /**
+   * Snapshot reference for the reference side, e.g. `wiki@latest`, `grok@2025-11-20`, or a
+   * configured source such as `dewiki@latest`.
+   */
+  base?: string;
+  /** Snapshot reference for the candidate side, e.g. `grok@latest`. */
+  target?: string;
+  /**
+   * Number of topics analysed in parallel. Values above 1 run the comparison in a
+   * `worker_threads` pool; the default of 1 keeps everything on the main thread.
+   */
+  concurrency?: number;
 }
 
 type WorkflowLogger = Pick<Console, 'log' | 'warn' | 'error'>;
@@ -69,244 +115,475 @@ interface TopicContext {
   grokSource: AnalyzerSource;
   contentHash: string;
   analysisPath: string;
+  sources: { reference: ComparedSource; candidate: ComparedSource };
+  semanticBias?: boolean;
+  semanticAlign?: boolean;
+  nli?: boolean;
+  numericTolerances?: NumericTolerances;
+  sourceReliability?: Record<string, string>;
 }
 
-const readStructuredArticle = (
-  dir: string,
-  topic: Topic,
-  source: 'wiki' | 'grok',
-): StructuredArticle => {
-  const target = path.join(dir, `${topic.id}.parsed.json`);
-  if (!fs.existsSync(target)) {
-    const label = source === 'wiki' ? 'wiki' : 'grok';
-    throw new Error(
-      `Missing structured snapshot ${target}. Run 'gwaln fetch ${label} --topic ${topic.id}' first.`,
-    );
+const DEFAULT_BASE_REF = 'wiki@latest';
+const DEFAULT_TARGET_REF = 'grok@latest';
+
+const resolveAnalysisPath = (topic: Topic, base: SnapshotRef, target: SnapshotRef): string => {
+  if (
+    base.source === 'wiki' &&
+    target.source === 'grok' &&
+    isLatestRef(base) &&
+    isLatestRef(target)
+  ) {
+    return path.join(paths.ANALYSIS_DIR, `${topic.id}.json`);
   }
-  const raw = fs.readFileSync(target, 'utf8');
-  return JSON.parse(raw) as StructuredArticle;
+  const label = `${formatSnapshotRef(base)}--${formatSnapshotRef(target)}`.replace(
+    /[^a-zA-Z0-9@._-]+/g,
+    '_',
+  );
+  return path.join(paths.ANALYSIS_DIR, 'history', topic.id, `${label}.json`);
+};
+
+const describeSource = (
+  topic: Topic,
+  registry: SourceRegistry,
+  ref: SnapshotRef,
+  source: AnalyzerSource,
+): ComparedSource => {
+  const adapter = registry.get(ref.source);
+  return {
+    id: ref.source,
+    label: adapter.label,
+    slug: adapter.slugFor(topic),
+    url: source.article.canonical_url,
+  };
 };
 
-const buildTopicContext = (topic: Topic): TopicContext => {
-  const wikiArticle = readStructuredArticle(paths.WIKI_DIR, topic, 'wiki');
-  const grokArticle = readStructuredArticle(paths.GROK_DIR, topic, 'grok');
+const buildTopicContext = (
+  topic: Topic,
+  base: SnapshotRef,
+  target: SnapshotRef,
+  registry: SourceRegistry,
+  fingerprint: AnalysisFingerprint,
+): TopicContext => {
+  const wikiArticle = readSnapshot(topic, base);
+  const grokArticle = readSnapshot(topic, target);
   const wikiSource = prepareAnalyzerSource(wikiArticle);
   const grokSource = prepareAnalyzerSource(grokArticle);
-  const contentHash = computeContentHash(wikiSource.text, grokSource.text);
+  const contentHash = computeContentHash(wikiSource.text, grokSource.text, fingerprint);
   return {
     wikiSource,
     grokSource,
     contentHash,
-    analysisPath: path.join(paths.ANALYSIS_DIR, `${topic.id}.json`),
+    analysisPath: resolveAnalysisPath(topic, base, target),
+    sources: {
+      reference: describeSource(topic, registry, base, wikiSource),
+      candidate: describeSource(topic, registry, target, grokSource),
+    },
   };
 };
 
-const analyzeTopicSync = async (
-  topic: Topic,
-  force: boolean | undefined,
-  semanticBias: boolean | undefined,
-  context: TopicContext,
-  logger: WorkflowLogger,
-): Promise<AnalysisPayload | null> => {
-  if (!force) {
-    const cached = probeCachedAnalysis(context.analysisPath, context.contentHash);
-    if (cached.status === 'fresh' && cached.analysis) {
-      const cachedTimestamp =
-        (cached.analysis as { generated_at?: string }).generated_at ??
-        (cached.analysis as { updated_at?: string }).updated_at ??
-        'cached';
-      logger.log(`[analyse] ${topic.id}: reused cached analysis (${cachedTimestamp})`);
-      return null;
-    }
-    if (cached.status !== 'missing' && cached.status !== 'fresh' && cached.reason) {
-      logger.log(`[analyse] ${topic.id}: regenerating analysis (${cached.reason})`);
-    }
-  }
+type ContentAnalyzer = (topic: Topic, context: TopicContext) => Promise<AnalysisPayload>;
 
-  return await analyzeContent(topic, context.wikiSource, context.grokSource, {
-    contentHash: context.contentHash,
-    semanticBias,
-  });
-};
-
-const analyzeTopicAsync = (
-  topic: Topic,
-  force: boolean | undefined,
-  semanticBias: boolean | undefined,
-  context: TopicContext,
-  logger: WorkflowLogger,
-): Promise<AnalysisPayload | null> =>
+const analyzeInProcess: ContentAnalyzer = (topic, context) =>
   new Promise((resolve, reject) => {
     setImmediate(async () => {
       try {
-        resolve(await analyzeTopicSync(topic, force, semanticBias, context, logger));
+        resolve(
+          await analyzeContent(topic, context.wikiSource, context.grokSource, {
+            contentHash: context.contentHash,
+            semanticBias: context.semanticBias,
+            semanticAlign: context.semanticAlign,
+            nli: context.nli,
+            numericTolerances: context.numericTolerances,
+            sourceReliability: context.sourceReliability,
+            sources: context.sources,
+          }),
+        );
       } catch (error) {
         reject(error);
       }
     });
   });
 
+const analyzeInWorker =
+  (pool: WorkerPool<AnalyzeWorkerTask, AnalysisPayload>): ContentAnalyzer =>
+  (topic, context) =>
+    pool.run({
+      topic,
+      wikiSource: context.wikiSource,
+      grokSource: context.grokSource,
+      contentHash: context.contentHash,
+      semanticBias: context.semanticBias,
+      semanticAlign: context.semanticAlign,
+      nli: context.nli,
+      numericTolerances: context.numericTolerances,
+      sourceReliability: context.sourceReliability,
+      sources: context.sources,
+    });
+
+/**
+ * Returns true when a fresh cached analysis exists for the topic and should be reused.
+ */
+const reuseCachedAnalysis = (
+  topic: Topic,
+  force: boolean | undefined,
+  context: TopicContext,
+  logger: WorkflowLogger,
+): boolean => {
+  if (force) {
+    return false;
+  }
+  const cached = probeCachedAnalysis(context.analysisPath, context.contentHash);
+  if (cached.status === 'fresh' && cached.analysis) {
+    const cachedTimestamp =
+      (cached.analysis as { generated_at?: string }).generated_at ??
+      (cached.analysis as { updated_at?: string }).updated_at ??
+      'cached';
+    logger.log(`[analyse] ${topic.id}: reused cached analysis (${cachedTimestamp})`);
+    return true;
+  }
+  if (cached.status !== 'missing' && cached.status !== 'fresh' && cached.reason) {
+    logger.log(`[analyse] ${topic.id}: regenerating analysis (${cached.reason})`);
+  }
+  return false;
+};
+
+interface TopicRunSettings {
+  baseRef: SnapshotRef;
+  targetRef: SnapshotRef;
+  sources: SourceRegistry;
+  force?: boolean;
+  semanticBias?: boolean;
+  semanticAlign?: boolean;
+  nli?: boolean;
+  numericTolerances?: NumericTolerances;
+  sourceReliability?: Record<string, string>;
+  biasVerifier?: BiasVerifierConfig | null;
+  llmVerifier?: LlmVerifierConfig | null;
+  summary?: SummaryConfig | null;
+  verifyCitations?: boolean;
+  /** Archive lookup for dead citation links (`archiveEndpoint`); null disables it. */
+  archiveEndpoint?: string | null;
+  logger: WorkflowLogger;
+  analyze: ContentAnalyzer;
+  fingerprint: AnalysisFingerprint;
+}
+
+/**
+ * Resolved settings besides the two snapshots that change the written analysis. It is part of the
+ * content hash, so changing an option, a configured tolerance, or the model behind an enabled
+ * pipeline regenerates the analysis instead of reusing the cached one.
+ */
+interface AnalysisFingerprint {
+  semanticBias: boolean;
+  semanticAlign: boolean;
+  nli: boolean;
+  numericTolerances: NumericTolerances | null;
+  sourceReliability: Record<string, string> | null;
+  /** Models of the enabled transformers.js pipelines. */
+  models: Partial<Record<ModelPipelineId, { model: string; quantized: boolean; revision: string }>>;
+  verifyCitations: boolean;
+  archiveEndpoint: string | null;
+  verifier: { scope: 'all' | 'bias'; provider: LlmProviderIdentity } | null;
+  summary: LlmProviderIdentity | null;
+}
+
+type LlmProviderIdentity = Pick<LlmProviderConfig, 'id' | 'type' | 'endpoint' | 'model'>;
+
+const providerIdentity = (config: LlmProviderConfig): LlmProviderIdentity => ({
+  id: config.id,
+  type: config.type,
+  endpoint: config.endpoint,
+  model: config.model,
+});
+
+const resolveFingerprint = (
+  settings: Omit<TopicRunSettings, 'fingerprint' | 'logger' | 'analyze'>,
+): AnalysisFingerprint => {
+  const models: AnalysisFingerprint['models'] = {};
+  const enabled: Array<[ModelPipelineId, boolean | undefined]> = [
+    ['bias', settings.semanticBias],
+    ['nli', settings.nli],
+    ['embedding', settings.semanticAlign],
+  ];
+  enabled
+    .filter(([, on]) => on)
+    .forEach(([id]) => {
+      const { model, quantized, revision } = resolveModelPipeline(id);
+      models[id] = { model, quantized, revision };
+    });
+  const verifier = settings.llmVerifier ?? settings.biasVerifier;
+  return {
+    semanticBias: Boolean(settings.semanticBias),
+    semanticAlign: Boolean(settings.semanticAlign),
+    nli: Boolean(settings.nli),
+    numericTolerances: settings.numericTolerances ?? null,
+    sourceReliability: settings.sourceReliability ?? null,
+    models,
+    verifyCitations: Boolean(settings.verifyCitations),
+    archiveEndpoint: settings.verifyCitations
+      ? settings.archiveEndpoint === undefined
+        ? DEFAULT_ARCHIVE_ENDPOINT
+        : settings.archiveEndpoint
+      : null,
+    verifier: verifier
+      ? { scope: settings.llmVerifier ? 'all' : 'bias', provider: providerIdentity(verifier) }
+      : null,
+    summary: settings.summary ? providerIdentity(settings.summary) : null,
+  };
+};
+
+const analyzeTopic = async (
+  topic: Topic,
+  settings: TopicRunSettings,
+): Promise<Omit<AnalyzeTopicResult, 'durationMs'>> => {
+  const { logger, biasVerifier, llmVerifier, summary, verifyCitations } = settings;
+  let context: TopicContext;
+  try {
+    context = {
+      ...buildTopicContext(
+        topic,
+        settings.baseRef,
+        settings.targetRef,
+        settings.sources,
+        settings.fingerprint,
+      ),
+      semanticBias: settings.semanticBias,
+      semanticAlign: settings.semanticAlign,
+      nli: settings.nli,
+      numericTolerances: settings.numericTolerances,
+      sourceReliability: settings.sourceReliability,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[analyse] ${topic.id}: ${message}`);
+    return { topicId: topic.id, topicTitle: topic.title, status: 'error', error: message };
+  }
+
+  try {
+    if (reuseCachedAnalysis(topic, settings.force, context, logger)) {
+      return {
+        topicId: topic.id,
+        topicTitle: topic.title,
+        status: 'cached',
+        analysisPath: context.analysisPath,
+        detail: 'reused cached analysis',
+      };
+    }
+    const analysis = await settings.analyze(topic, context);
+    analysis.meta.sources = context.sources;
+    const usage = createLlmUsageRecorder();
+    usage.merge(analysis.meta.llm_usage);
+    const providerFor = (config: LlmProviderConfig) =>
+      withLlmCache(createLlmProvider(config), usage);
+    if (summary) {
+      analysis.gemini_summary = await generateComparisonSummary({
+        provider: providerFor(summary),
+        wikiText: context.wikiSource.text,
+        grokText: context.grokSource.text,
+        labels: sourceLabels(context.sources),
+      });
+    }
+    if (verifyCitations) {
+      const { records: citationResults, links } = await verifySentencesAgainstCitations(
+        { reference: context.wikiSource.article, candidate: context.grokSource.article },
+        {
+          priority: [...analysis.missing_sentences, ...analysis.extra_sentences],
+          archiveEndpoint: settings.archiveEndpoint,
+        },
+      );
+      analysis.citation_verifications = citationResults;
+      analysis.link_health = links;
+      analysis.hallucination_events = analysis.hallucination_events ?? [];
+      const extra = new Set(analysis.extra_sentences.map((sentence) => sentence.trim()));
+      citationResults
+        .filter(
+          (entry) =>
+            entry.source === 'candidate' &&
+            entry.status === 'unsupported' &&
+            extra.has(entry.sentence.trim()),
+        )
+        .forEach((entry) => {
+          analysis.hallucination_events.push({
+            type: 'hallucination',
+            description: 'Sentence is not supported by the sources it cites (auto-check).',
+            evidence: { candidate: entry.sentence, citation_id: entry.citation_ids[0] },
+            category: 'hallucination',
+            severity: 4,
+            tags: ['unsupported_citation'],
+          });
+        });
+    }
+    const verifier = llmVerifier ?? biasVerifier;
+    if (verifier) {
+      analysis.llm_verification = await verifyDiscrepancies(
+        analysis,
+        { reference: context.wikiSource.article, candidate: context.grokSource.article },
+        {
+          provider: providerFor(verifier),
+          types: llmVerifier ? LLM_VERIFIABLE_TYPES : ['bias_shift'],
+        },
+      );
+      analysis.bias_verifications = biasVerificationRecords(analysis);
+    }
+    const usageReport = usage.report();
+    if (usageReport) {
+      analysis.meta.llm_usage = usageReport;
+      logger.log(
+        `[analyse] ${topic.id}: ${usageReport.calls} model call(s), ${usageReport.cache_hits} from cache, $${usageReport.cost_usd.toFixed(4)}`,
+      );
+    }
+    const structured = buildStructuredAnalysis(topic, analysis);
+    paths.ensureDir(path.dirname(context.analysisPath));
+    fs.writeFileSync(context.analysisPath, JSON.stringify(structured, null, 2), 'utf8');
+    logger.log(`[analyse] ${topic.id}: wrote ${context.analysisPath}`);
+    return {
+      topicId: topic.id,
+      topicTitle: topic.title,
+      status: 'written',
+      analysisPath: context.analysisPath,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[analyse] ${topic.id}: ${message}`);
+    return { topicId: topic.id, topicTitle: topic.title, status: 'error', error: message };
+  }
+};
+
+const normalizeConcurrency = (value: number | undefined): number => {
+  if (value === undefined) return 1;
+  if (!Number.isFinite(value) || value < 1) {
+    throw new Error(`Invalid concurrency '${value}'. Use a positive integer.`);
+  }
+  return Math.floor(value);
+};
+
 export const runAnalyzeWorkflow = async ({
   topicId,
   force,
   biasVerifier,
+  llmVerifier,
   summary,
   verifyCitations,
   logger,
   hooks,
   semanticBias,
+  semanticAlign,
+  nli,
+  base,
+  target,
+  concurrency,
 }: AnalyzeWorkflowOptions): Promise<AnalyzeTopicResult[]> => {
   const topics = loadTopics();
   const selection = selectTopics(topics, topicId);
+  const baseRef = parseSnapshotRef(base ?? DEFAULT_BASE_REF);
+  const targetRef = parseSnapshotRef(target ?? DEFAULT_TARGET_REF);
+  const sources = loadSourceRegistry();
+  const workerCount = Math.min(normalizeConcurrency(concurrency), selection.length);
   paths.ensureDir(paths.ANALYSIS_DIR);
-  const activeLogger = getLogger(logger);
-  const results: AnalyzeTopicResult[] = [];
-
-  for (const topic of selection) {
-    hooks?.onTopicStart?.(topic);
-    let context: TopicContext;
-    try {
-      context = buildTopicContext(topic);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      activeLogger.error(`[analyse] ${topic.id}: ${message}`);
-      const result: AnalyzeTopicResult = {
-        topicId: topic.id,
-        topicTitle: topic.title,
-        status: 'error',
-        error: message,
-      };
-      hooks?.onTopicComplete?.(result);
-      results.push(result);
-      continue;
-    }
 
-    try {
-      const analysis = await analyzeTopicAsync(topic, force, semanticBias, context, activeLogger);
-      if (!analysis) {
-        const result: AnalyzeTopicResult = {
-          topicId: topic.id,
-          topicTitle: topic.title,
-          status: 'cached',
-          analysisPath: context.analysisPath,
-          detail: 'reused cached analysis',
-        };
-        hooks?.onTopicComplete?.(result);
-        results.push(result);
-        continue;
-      }
-      if (biasVerifier?.provider === 'gemini' && analysis.bias_events.length > 0) {
-        analysis.bias_verifications = await verifyBiasWithGemini({
-          apiKey: biasVerifier.apiKey,
-          model: biasVerifier.model ?? GEMINI_DEFAULT_MODEL,
-          events: analysis.bias_events,
-          wikiText: context.wikiSource.text,
-          grokText: context.grokSource.text,
-        });
-      }
-      if (summary) {
-        analysis.gemini_summary = await generateGeminiComparisonSummary({
-          apiKey: summary.apiKey,
-          model: summary.model,
-          wikiText: context.wikiSource.text,
-          grokText: context.grokSource.text,
-        });
-      }
-      if (verifyCitations && analysis.extra_sentences.length) {
-        const citationResults = await verifySentencesAgainstCitations(
-          analysis.extra_sentences,
-          context.grokSource.content.citations ?? [],
-        );
-        analysis.citation_verifications = citationResults;
-        analysis.hallucination_events = analysis.hallucination_events ?? [];
-        citationResults
-          .filter((entry) => entry.status === 'unsupported')
-          .forEach((entry) => {
-            analysis.hallucination_events.push({
-              type: 'hallucination',
-              description: 'Sentence is not supported by cited sources (auto-check).',
-              evidence: { grokipedia: entry.sentence },
-              category: 'hallucination',
-              severity: 4,
-              tags: ['unsupported_citation'],
-            });
-          });
-      }
-      const structured = buildStructuredAnalysis(topic, analysis);
-      fs.writeFileSync(context.analysisPath, JSON.stringify(structured, null, 2), 'utf8');
-      activeLogger.log(`[analyse] ${topic.id}: wrote ${context.analysisPath}`);
-      const result: AnalyzeTopicResult = {
-        topicId: topic.id,
-        topicTitle: topic.title,
-        status: 'written',
-        analysisPath: context.analysisPath,
-      };
-      hooks?.onTopicComplete?.(result);
-      results.push(result);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      activeLogger.error(`[analyse] ${topic.id}: ${message}`);
+  const pool =
+    workerCount > 1
+      ? createWorkerPool<AnalyzeWorkerTask, AnalysisPayload>(ANALYZE_WORKER_PATH, workerCount)
+      : null;
+  const options = {
+    baseRef,
+    targetRef,
+    sources,
+    force,
+    semanticBias,
+    semanticAlign,
+    nli,
+    numericTolerances: readConfig().numericTolerances,
+    sourceReliability: readConfig().sourceReliability,
+    biasVerifier,
+    llmVerifier,
+    summary,
+    verifyCitations,
+    archiveEndpoint: readConfig().archiveEndpoint,
+  };
+  const settings: TopicRunSettings = {
+    ...options,
+    fingerprint: resolveFingerprint(options),
+    logger: getLogger(logger),
+    analyze: pool ? analyzeInWorker(pool) : analyzeInProcess,
+  };
+
+  const results: AnalyzeTopicResult[] = new Array(selection.length);
+  let nextIndex = 0;
+  const drain = async (): Promise<void> => {
+    while (nextIndex < selection.length) {
+      const index = nextIndex++;
+      const topic = selection[index];
+      const startedAt = Date.now();
+      hooks?.onTopicStart?.(topic);
       const result: AnalyzeTopicResult = {
-        topicId: topic.id,
-        topicTitle: topic.title,
-        status: 'error',
-        error: message,
+        ...(await analyzeTopic(topic, settings)),
+        durationMs: Date.now() - startedAt,
       };
       hooks?.onTopicComplete?.(result);
-      results.push(result);
+      results[index] = result;
     }
-  }
+  };
 
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, workerCount) }, () => drain()));
+  } finally {
+    await pool?.close();
+  }
   return results;
 };
 
-export interface BiasVerifierOptionInput {
-  biasVerifier?: string;
-  geminiKey?: string;
-  geminiModel?: string;
+export interface BiasVerifierOptionInput extends LlmProviderOverrides {
+  /** Provider name, or `true` for the `llmProvider` configured in `.gwalnrc.json`. */
+  biasVerifier?: string | boolean;
 }
 
+const llmOverrides = (options: LlmProviderOverrides): LlmProviderOverrides => ({
+  model: options.model,
+  endpoint: options.endpoint,
+  geminiKey: options.geminiKey,
+  geminiModel: options.geminiModel,
+});
+
 export const resolveBiasVerifierOptions = (
   options: BiasVerifierOptionInput,
 ): BiasVerifierConfig | null => {
   if (!options.biasVerifier) {
     return null;
   }
-  const provider = options.biasVerifier.toLowerCase();
-  if (provider !== 'gemini') {
-    throw new Error(`Unsupported bias verifier '${options.biasVerifier}'.`);
-  }
-  const cfg = readConfig();
-  const apiKey = options.geminiKey ?? cfg.geminiApiKey;
-  if (!apiKey) {
-    throw new Error(
-      'Set --gemini-key or configure geminiApiKey in .gwalnrc.json before using --bias-verifier gemini.',
-    );
+  const name = typeof options.biasVerifier === 'string' ? options.biasVerifier : undefined;
+  return resolveLlmProviderConfig(name, llmOverrides(options), '--bias-verifier');
+};
+
+export interface LlmVerifierOptionInput extends LlmProviderOverrides {
+  /** Provider name, or `true` for the `llmProvider` configured in `.gwalnrc.json`. */
+  llmVerify?: string | boolean;
+}
+
+export const resolveLlmVerifierOptions = (
+  options: LlmVerifierOptionInput,
+): LlmVerifierConfig | null => {
+  if (!options.llmVerify) {
+    return null;
   }
-  return {
-    provider: 'gemini',
-    apiKey,
-    model: options.geminiModel ?? cfg.geminiModel ?? GEMINI_DEFAULT_MODEL,
-  };
+  const name = typeof options.llmVerify === 'string' ? options.llmVerify : undefined;
+  return resolveLlmProviderConfig(name, llmOverrides(options), '--llm-verify');
 };
 
-export interface GeminiSummaryOptionInput {
-  geminiKey?: string;
-  geminiModel?: string;
+export interface SummaryOptionInput extends LlmProviderOverrides {
+  /** Provider name, or `true` for the `llmProvider` configured in `.gwalnrc.json`. */
+  llmSummary?: string | boolean;
+  /** Shorthand for `llmSummary: 'gemini'`, kept from earlier releases. */
+  geminiSummary?: boolean;
 }
 
-export const resolveGeminiSummaryOptions = (
-  options: GeminiSummaryOptionInput,
-): GeminiSummaryConfig => {
-  const cfg = readConfig();
-  const apiKey = options.geminiKey ?? cfg.geminiApiKey;
-  if (!apiKey) {
-    throw new Error(
-      'Set --gemini-key or configure geminiApiKey in .gwalnrc.json before enabling --gemini-summary.',
-    );
+export const resolveSummaryOptions = (options: SummaryOptionInput): SummaryConfig | null => {
+  if (!options.llmSummary && !options.geminiSummary) {
+    return null;
   }
-  return {
-    apiKey,
-    model: options.geminiModel ?? cfg.geminiModel ?? GEMINI_DEFAULT_MODEL,
-  };
+  if (!options.llmSummary) {
+    return resolveLlmProviderConfig('gemini', llmOverrides(options), '--gemini-summary');
+  }
+  const name = typeof options.llmSummary === 'string' ? options.llmSummary : undefined;
+  return resolveLlmProviderConfig(name, llmOverrides(options), '--llm-summary');
 };
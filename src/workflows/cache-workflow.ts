@@ -0,0 +1,35 @@
+/**
+ * @file src/workflows/cache-workflow.ts
+ * @description Reports on and prunes the model output cache under `~/.gwaln/cache/llm`.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import {
+  inspectLlmCache,
+  type LlmCachePruneResult,
+  type LlmCacheStats,
+  pruneLlmCache,
+} from '../llm';
+
+export interface LlmCacheWorkflowOptions {
+  /** Delete expired and unreadable entries before reporting. */
+  prune?: boolean;
+  /** With `prune`, delete every entry. */
+  all?: boolean;
+}
+
+export interface LlmCacheWorkflowResult {
+  pruned?: LlmCachePruneResult;
+  stats: LlmCacheStats;
+}
+
+export const runLlmCacheWorkflow = ({
+  prune = false,
+  all = false,
+}: LlmCacheWorkflowOptions = {}): LlmCacheWorkflowResult => {
+  if (all && !prune) {
+    throw new Error('--all only applies with --prune. Run `gwaln cache llm --prune --all`.');
+  }
+  const pruned = prune ? pruneLlmCache({ all }) : undefined;
+  return { ...(pruned ? { pruned } : {}), stats: inspectLlmCache() };
+};
@@ -1,385 +1,244 @@
 /**
  * @file src/workflows/fetch-workflow.ts
- * @description Downloads Grokipedia and Wikipedia articles, normalizes them into structured JSON,
- *              and stores the snapshots under `data/wiki|grok/<topic>.parsed.json`. These files
- *              become the canonical inputs for `gwaln analyse`.
+ * @description Downloads articles through the source adapters (Wikipedia, Grokipedia, and any
+ *              source configured under `sources`), normalizes them into structured JSON, and
+ *              stores the snapshots under `data/<source>/<topic>.parsed.json`. These files become
+ *              the canonical inputs for `gwaln analyse`; every distinct revision is also archived
+ *              in the snapshot history (`data/history/<source>/<topic>/`).
  * @author Doğu Abaris <abaris@null.net>
  */
 
-import { load as loadHtml } from 'cheerio';
-import fetch from 'node-fetch';
+import crypto from 'node:crypto';
 import fs from 'node:fs';
 import path from 'node:path';
-import TurndownService from 'turndown';
-import { parseMarkdownStructuredArticle } from '../parsers/grok';
-import { ArticleMetadata, ExternalCitation } from '../parsers/shared/types';
-import { parseWikiArticle } from '../parsers/wiki';
-import { paths } from '../shared/paths';
+import type { StructuredArticle } from '../parsers/shared/types';
+import { readWikiXmlDump } from '../parsers/wiki';
+import { writeSnapshot } from '../shared/snapshots';
 import { loadTopics, selectTopics, Topic } from '../shared/topics';
-
-export type FetchSource = 'wiki' | 'grok' | 'both';
-
-const WIKI_BASE_URL = 'https://en.wikipedia.org';
-const WIKI_API = `${WIKI_BASE_URL}/w/api.php`;
-const GROK_ENDPOINT = 'https://grokipedia.com/{slug}';
-const GROK_API_ENDPOINT = 'https://grokipedia.com/api/page';
-const USER_AGENT = 'GWALN-MVP/0.2 (+https://origintrail.io)';
-const turndown = new TurndownService({
-  headingStyle: 'atx',
-  bulletListMarker: '-',
-  codeBlockStyle: 'fenced',
-});
-
-const normalizeMediaUrl = (src: string, baseUrl: string): string => {
-  if (!src) return '';
-  if (src.startsWith('http://') || src.startsWith('https://')) {
-    return src;
-  }
-  if (src.startsWith('//')) {
-    return `https:${src}`;
-  }
-  if (src.startsWith('/')) {
-    return new URL(src, baseUrl).toString();
-  }
-  return new URL(src, baseUrl).toString();
-};
-
-const sanitizeArticleHtml = (html: string, baseUrl: string): { html: string; media: string[] } => {
-  try {
-    const $ = loadHtml(html);
-    const mediaLinks = new Set<string>();
-    $("style, script, noscript, link[rel='stylesheet']").remove();
-    $(
-      [
-        '.mw-editsection',
-        '.reference',
-        'sup.reference',
-        '.mw-empty-elt',
-        '.mw-jump-link',
-        'table.infobox',
-        'table.vertical-navbox',
-        'table.navbox',
-        'table.metadata',
-        'div#toc',
-        '#toc',
-        'div.shortdescription',
-        'div.hatnote',
-        'div.stub',
-        'div.portal',
-        'div.navbox',
-        'header',
-        'nav',
-        'footer',
-        'aside',
-        '.sidebar',
-        '.drawer',
-        '.site-header',
-        '.site-footer',
-      ].join(', '),
-    ).remove();
-    $('a').each((_, element) => {
-      const text = $(element).text();
-      const href = $(element).attr('href');
-      if (href && /#cite_note-/.test(href) && text?.trim().startsWith('[')) {
-        $(element).replaceWith(text ?? '');
-      } else {
-        $(element).replaceWith(text ?? '');
-      }
-    });
-    $('strong, b, em, i').each((_, element) => {
-      const text = $(element).text();
-      $(element).replaceWith(text ?? '');
-    });
-    $('img').each((_, element) => {
-      const src = $(element).attr('src') ?? $(element).attr('data-src');
-      if (src) {
-        mediaLinks.add(normalizeMediaUrl(src, baseUrl));
-      }
-      $(element).remove();
-    });
-    $('*')
-      .contents()
-      .filter((_, node) => node.type === 'comment')
-      .remove();
-    const root = $('.mw-parser-output');
-    const inner = root.length ? root.html() : $.root().html();
-    if (!inner || !inner.trim()) {
-      return { html, media: Array.from(mediaLinks) };
-    }
-    return { html: `<div>${inner.trim()}</div>`, media: Array.from(mediaLinks) };
-  } catch {
-    return { html, media: [] };
-  }
-};
-
-const normalizeMarkdown = (markdown: string): string => {
-  let output = markdown;
-  output = output.replace(/\*{2}([^*]+)\*{2}/g, '$1');
-  output = output.replace(/__([^_]+)__/g, '$1');
-  output = output.replace(/\*([^*]+)\*/g, '$1');
-  output = output.replace(/_([^_]+)_/g, '$1');
-  output = output.replace(/`([^`]+)`/g, '$1');
-  output = output.replace(/\{\{([^}]+)\}\}/g, '$1');
-  output = output.replace(/!\[[^\]]*\]\([^)]*\)/g, '');
-  output = output.replace(/Portals:\n(?:-.*\n)+/g, '');
-  output = output.replace(/\s+\n/g, '\n');
-  output = output.replace(/\n{3,}/g, '\n\n');
-  output = output.replace(/\[([^\]]+)]\(([^)\s]+(?:\s"[^"]+")?)\)/g, (_, text) => text);
-  output = output.replace(/\\\[(\d+)\\\]/g, '');
-  output = output.replace(/\[(\d+)\]/g, '');
-
-  return output.trim();
-};
-
-const htmlToMarkdown = (html: string, baseUrl: string): string => {
-  const { html: sanitized, media } = sanitizeArticleHtml(html, baseUrl);
-  let markdown = turndown.turndown(sanitized).trim();
-  markdown = normalizeMarkdown(markdown);
-  if (media.length) {
-    const uniqueMedia = Array.from(new Set(media));
-    const filesBlock = ['## Files', ...uniqueMedia.map((url) => `- ${url}`)].join('\n');
-    return `${markdown}\n\n${filesBlock}`.trim();
-  }
-  return markdown;
-};
-
-const looksLikeHtml = (value: string): boolean => /^<[^>]+>/.test(value.trim());
-
-const writeParsedSnapshot = (dir: string, topic: Topic, payload: unknown): string => {
-  paths.ensureDir(dir);
-  const target = path.join(dir, `${topic.id}.parsed.json`);
-  fs.writeFileSync(target, JSON.stringify(payload, null, 2), 'utf8');
-  return target;
-};
-
-const fetchWithRetry = async (url: string): Promise<string> => {
-  const response = await fetch(url, {
-    headers: { 'User-Agent': USER_AGENT },
-  });
-  if (!response.ok) {
-    const snippet = (await response.text()).slice(0, 200);
-    throw new Error(`HTTP ${response.status} ${response.statusText} (${snippet})`);
-  }
-  return await response.text();
+import {
+  GROKIPEDIA_SOURCE_ID,
+  loadSourceRegistry,
+  type LocalRevision,
+  type SourceAdapter,
+  WIKIPEDIA_SOURCE_ID,
+} from '../sources';
+
+export { stripGrokBanner } from '../sources';
+
+/** A source adapter id (`wiki`, `grok`, or a configured source), or `both` for the built-ins. */
+export type FetchSource = 'wiki' | 'grok' | 'both' | (string & {});
+
+const writeParsedSnapshot = (
+  adapter: SourceAdapter,
+  topic: Topic,
+  payload: StructuredArticle,
+  origin?: string,
+): void => {
+  const { path: target, revision, archived } = writeSnapshot(adapter.id, topic, payload);
+  const label = archived ? 'archived revision' : 'unchanged since revision';
+  console.log(`[${adapter.id}] ${label} ${revision.revision_id} (${revision.revision_timestamp})`);
+  console.log(`[${adapter.id}] saved ${topic.id}${origin ? ` from ${origin}` : ''} -> ${target}`);
 };
 
-const fetchWikiMetadata = async (topic: Topic): Promise<ArticleMetadata> => {
-  const params = new URLSearchParams({
-    action: 'query',
-    prop: 'info|revisions',
-    inprop: 'url',
-    rvprop: 'ids|timestamp',
-    rvlimit: '1',
-    titles: topic.wikipedia_slug,
-    format: 'json',
-    formatversion: '2',
-  });
-  const url = `${WIKI_API}?${params.toString()}`;
-  const raw = await fetchWithRetry(url);
-  const payload = JSON.parse(raw) as {
-    query?: {
-      pages?: Array<{
-        pageid?: number;
-        title?: string;
-        canonicalurl?: string;
-        fullurl?: string;
-        pagelanguage?: string;
-        revisions?: Array<{ revid?: number; timestamp?: string }>;
-      }>;
-    };
-  };
-  const page = payload.query?.pages?.[0];
-  if (!page) {
-    throw new Error(`Unable to load metadata for Wikipedia page '${topic.wikipedia_slug}'`);
-  }
-  const revision = page.revisions?.[0];
-  const lang = page.pagelanguage ?? 'en';
+/**
+ * Local files have no revision metadata, so the revision id is derived from the content hash
+ * (re-ingesting an unchanged file is a no-op in the snapshot history) and the timestamp from
+ * the file's modification time. Wikipedia keeps the bare `local-` prefix of earlier releases.
+ */
+const localRevision = (adapter: SourceAdapter, filePath: string, content: string) => {
+  const prefix = adapter.id === WIKIPEDIA_SOURCE_ID ? 'local' : `${adapter.id}-local`;
+  const hash = crypto.createHash('sha256').update(content).digest('hex').slice(0, 12);
   return {
-    source: 'wikipedia',
-    pageId: `${lang}:${topic.wikipedia_slug}`,
-    lang,
-    title: page.title ?? topic.title,
-    canonicalUrl:
-      page.canonicalurl ?? page.fullurl ?? `https://en.wikipedia.org/wiki/${topic.wikipedia_slug}`,
-    revisionId: revision?.revid ? String(revision.revid) : `${topic.wikipedia_slug}-unknown`,
-    revisionTimestamp: revision?.timestamp ?? new Date().toISOString(),
+    revisionId: `${prefix}-${hash}`,
+    revisionTimestamp: fs.statSync(filePath).mtime.toISOString(),
   };
 };
 
-const fetchWikiWikitext = async (topic: Topic): Promise<{ url: string; wikitext: string }> => {
-  const slug = topic.wikipedia_slug.replace(/\s+/g, '_');
-  const url = `${WIKI_BASE_URL}/wiki/${encodeURIComponent(slug)}?action=raw`;
-  const wikitext = await fetchWithRetry(url);
-  return { url, wikitext };
+const ingest = (
+  adapter: SourceAdapter,
+  topic: Topic,
+  raw: string,
+  revision: LocalRevision,
+  origin: string,
+): void => {
+  writeParsedSnapshot(adapter, topic, adapter.parse(topic, raw, revision), origin);
 };
 
-interface GrokApiCitation {
-  id?: string;
-  title?: string;
-  description?: string;
-  url?: string;
-  favicon?: string;
-}
+const ingestLocalFile = (adapter: SourceAdapter, topic: Topic, filePath: string): void => {
+  const raw = fs.readFileSync(filePath, 'utf8');
+  ingest(adapter, topic, raw, localRevision(adapter, filePath, raw), filePath);
+};
 
-interface GrokApiResponse {
-  page?: {
-    citations?: GrokApiCitation[];
-  };
-}
+const normalizeTitleKey = (value: string): string =>
+  value.trim().replace(/\s+/g, '_').toLowerCase();
 
-const normalizeCitations = (entries: GrokApiCitation[] | undefined): ExternalCitation[] => {
-  const normalized: ExternalCitation[] = [];
-  if (!entries) return normalized;
-  for (const entry of entries) {
-    if (!entry?.url) continue;
-    normalized.push({
-      id: entry.id,
-      title: entry.title ?? undefined,
-      description: entry.description ?? undefined,
-      url: entry.url,
-      favicon: entry.favicon ?? undefined,
-    });
+/**
+ * Matches `<topic-id>.<ext>`, `<source>-<topic-id>.<ext>` (the layout used by `tests/fixtures`),
+ * or a file named after one of the topic's slugs.
+ */
+const matchTopicForFile = (
+  filePath: string,
+  adapter: SourceAdapter,
+  topics: Topic[],
+): Topic | null => {
+  const stem = path.basename(filePath, path.extname(filePath));
+  const candidates = [stem, stem.replace(new RegExp(`^${adapter.id}[-_.]`, 'i'), '')].map(
+    normalizeTitleKey,
+  );
+  return (
+    topics.find((topic) => {
+      const keys = [
+        topic.id,
+        topic.wikipedia_slug,
+        topic.grokipedia_slug.replace(/^\/*(page\/)?/i, ''),
+        adapter.slugFor(topic).replace(/^\/*(page\/)?/i, ''),
+      ].map(normalizeTitleKey);
+      return candidates.some((candidate) => keys.includes(candidate));
+    }) ?? null
+  );
+};
+
+const ingestDirectory = (adapter: SourceAdapter, topics: Topic[], dir: string): void => {
+  const extensions = new Set(adapter.fileExtensions);
+  const files = fs
+    .readdirSync(dir)
+    .filter((name) => extensions.has(path.extname(name).toLowerCase()))
+    .sort()
+    .map((name) => path.join(dir, name))
+    .filter((filePath) => fs.statSync(filePath).isFile());
+  let matched = 0;
+  for (const filePath of files) {
+    const topic = matchTopicForFile(filePath, adapter, topics);
+    if (!topic) continue;
+    matched += 1;
+    try {
+      ingestLocalFile(adapter, topic, filePath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[${adapter.id}] failed ${topic.id} from ${filePath}: ${message}`);
+    }
+  }
+  if (!matched) {
+    console.warn(`[${adapter.id}] no files in ${dir} matched the selected topic(s).`);
   }
-  return normalized;
 };
 
-const readLocalGrokCitations = (topic: Topic): ExternalCitation[] => {
-  const filePath = path.join(paths.GROK_DIR, `${topic.id}.parsed.json`);
-  if (!fs.existsSync(filePath)) return [];
-  try {
-    const raw = fs.readFileSync(filePath, 'utf8');
-    const payload = JSON.parse(raw) as {
-      references?: Array<{
-        citation_id: string;
-        raw?: string;
-        normalized?: { title?: string | null; url?: string | null };
-      }>;
-    };
-    const restored: ExternalCitation[] = [];
-    for (const reference of payload.references ?? []) {
-      const url = reference.normalized?.url ?? null;
-      if (!url) continue;
-      restored.push({
-        id: reference.citation_id,
-        title: reference.normalized?.title ?? undefined,
-        description: reference.raw ?? undefined,
-        url,
-      });
+const ingestWikiDump = async (
+  adapter: SourceAdapter,
+  topics: Topic[],
+  dumpPath: string,
+): Promise<void> => {
+  const pending = new Map(
+    topics.map((topic) => [normalizeTitleKey(adapter.slugFor(topic)), topic]),
+  );
+  for await (const page of readWikiXmlDump(dumpPath)) {
+    if (page.namespace !== 0) continue;
+    const topic = pending.get(normalizeTitleKey(page.title));
+    if (!topic) continue;
+    pending.delete(normalizeTitleKey(page.title));
+    try {
+      const revision = page.revisionId
+        ? {
+            revisionId: page.revisionId,
+            revisionTimestamp: page.revisionTimestamp ?? new Date().toISOString(),
+          }
+        : localRevision(adapter, dumpPath, page.wikitext);
+      ingest(
+        adapter,
+        topic,
+        page.wikitext,
+        { ...revision, ...(page.lang ? { lang: page.lang } : {}) },
+        `${dumpPath}#${page.title}`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[${adapter.id}] failed ${topic.id} from ${dumpPath}: ${message}`);
     }
-    return restored;
-  } catch {
-    return [];
+    if (!pending.size) break;
   }
+  pending.forEach((topic) => {
+    console.warn(
+      `[${adapter.id}] ${topic.id}: page '${adapter.slugFor(topic)}' not found in ${dumpPath}`,
+    );
+  });
 };
 
-const fetchGrokCitations = async (topic: Topic): Promise<ExternalCitation[]> => {
-  const slug = topic.grokipedia_slug.replace(/^\/+/, '').replace(/^page\//i, '');
-  if (!slug) return [];
-  const params = new URLSearchParams({
-    slug,
-    includeContent: 'false',
-    validateLinks: 'true',
-  });
-  const apiUrl = `${GROK_API_ENDPOINT}?${params.toString()}`;
+const isWikiXmlDump = (filePath: string): boolean => {
+  if (path.extname(filePath).toLowerCase() !== '.xml') return false;
+  const handle = fs.openSync(filePath, 'r');
   try {
-    const raw = await fetchWithRetry(apiUrl);
-    const payload = JSON.parse(raw) as GrokApiResponse;
-    return normalizeCitations(payload.page?.citations);
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    console.warn(`[grok] unable to load citations for ${topic.id}: ${message}`);
-    return readLocalGrokCitations(topic);
+    const sample = Buffer.alloc(4096);
+    const bytes = fs.readSync(handle, sample, 0, sample.length, 0);
+    return /<mediawiki\b/.test(sample.subarray(0, bytes).toString('utf8'));
+  } finally {
+    fs.closeSync(handle);
   }
 };
 
-const fetchWiki = async (topic: Topic): Promise<void> => {
-  const [wikitextPayload, metadata] = await Promise.all([
-    fetchWikiWikitext(topic),
-    fetchWikiMetadata(topic),
-  ]);
-  const structured = parseWikiArticle(topic, wikitextPayload.wikitext, metadata);
-  const target = writeParsedSnapshot(paths.WIKI_DIR, topic, structured);
-  console.log(`[wiki] saved ${topic.id} -> ${target}`);
-};
-
-export const stripGrokBanner = (markdown: string): string => {
-  const lines = markdown.split(/\n+/).filter((line) => {
-    const normalized = line.trim().toLowerCase();
-    if (!normalized) return false;
-    if (normalized.includes('fact-checked by grok')) return false;
-    return !(normalized.includes('search ⌘k') || normalized.includes('search cmd+k'));
-  });
-  return lines.join('\n').trim();
-};
-
-const extractGrokContent = (raw: string, baseUrl: string): string => {
-  const trimmed = raw.trim();
-  if (!trimmed) return '';
-  try {
-    const data = JSON.parse(trimmed) as {
-      content?: string;
-      body?: string;
-      text?: string;
-      html?: string;
-    };
-    const candidate = data.content ?? data.body ?? data.text ?? data.html;
-    if (candidate) {
-      return looksLikeHtml(candidate) ? htmlToMarkdown(candidate, baseUrl) : candidate;
+/**
+ * Offline counterpart of the HTTP fetchers. `input` may be a single file (wikitext for MediaWiki
+ * sources; HTML, Markdown, or API JSON for page sources such as `grok`), a directory of such
+ * files, or a MediaWiki XML dump. Parsed output goes through the same parsers and snapshot store.
+ */
+const runOfflineFetch = async (
+  adapters: SourceAdapter[],
+  selection: Topic[],
+  topicId: string | undefined,
+  input: string,
+): Promise<void> => {
+  if (adapters.length !== 1) {
+    throw new Error("--from-file requires a single source: use 'fetch wiki' or 'fetch grok'.");
+  }
+  const [adapter] = adapters;
+  const target = path.resolve(input);
+  if (!fs.existsSync(target)) {
+    throw new Error(`Input ${target} does not exist.`);
+  }
+  if (fs.statSync(target).isDirectory()) {
+    ingestDirectory(adapter, selection, target);
+    return;
+  }
+  if (isWikiXmlDump(target)) {
+    if (adapter.kind !== 'mediawiki') {
+      throw new Error(
+        'MediaWiki XML dumps can only be loaded into a MediaWiki source (`fetch wiki`).',
+      );
     }
-  } catch {
-    /* not JSON – fall back to HTML */
+    await ingestWikiDump(adapter, selection, target);
+    return;
   }
-
-  if (looksLikeHtml(trimmed)) {
-    return htmlToMarkdown(trimmed, baseUrl);
+  const topic = topicId ? selection[0] : matchTopicForFile(target, adapter, selection);
+  if (!topic) {
+    throw new Error(`Cannot infer the topic for ${target}. Pass --topic <id>.`);
   }
-
-  return trimmed;
+  ingestLocalFile(adapter, topic, target);
 };
 
-const fetchGrok = async (topic: Topic): Promise<void> => {
-  const slug = topic.grokipedia_slug.replace(/^\/+/, '');
-  const url = GROK_ENDPOINT.replace('{slug}', slug);
-  const raw = await fetchWithRetry(url);
-  const citations = await fetchGrokCitations(topic);
-  const baseUrl = (() => {
-    try {
-      return new URL(url).origin;
-    } catch {
-      return 'https://grokipedia.com';
-    }
-  })();
-  const content = stripGrokBanner(extractGrokContent(raw, baseUrl));
-  const markdown = `# ${topic.title}\n\n${content.trim()}`;
-  const fetchedAt = new Date().toISOString();
-  const metadata: ArticleMetadata = {
-    source: 'grokipedia',
-    pageId: `grok:${topic.id}`,
-    lang: 'en',
-    title: topic.title,
-    canonicalUrl: url,
-    revisionId: `grok-${fetchedAt}`,
-    revisionTimestamp: fetchedAt,
-  };
-  const structured = parseMarkdownStructuredArticle(topic, markdown, metadata, {
-    citations,
-  });
-  const target = writeParsedSnapshot(paths.GROK_DIR, topic, structured);
-  console.log(`[grok] saved ${topic.id} -> ${target}`);
-};
+export interface FetchWorkflowOptions {
+  /** Local file, directory, or MediaWiki XML dump to parse instead of calling live endpoints. */
+  fromFile?: string;
+}
 
-export const runFetchWorkflow = async (source: FetchSource, topicId?: string): Promise<void> => {
+export const runFetchWorkflow = async (
+  source: FetchSource,
+  topicId?: string,
+  options: FetchWorkflowOptions = {},
+): Promise<void> => {
+  const registry = loadSourceRegistry();
+  const adapters =
+    source === 'both'
+      ? [registry.get(WIKIPEDIA_SOURCE_ID), registry.get(GROKIPEDIA_SOURCE_ID)]
+      : [registry.get(source)];
   const topics = loadTopics();
   const selection = selectTopics(topics, topicId);
+  if (options.fromFile) {
+    await runOfflineFetch(adapters, selection, topicId, options.fromFile);
+    return;
+  }
   for (const topic of selection) {
     try {
-      if (source === 'wiki') {
-        await fetchWiki(topic);
-      } else if (source === 'grok') {
-        await fetchGrok(topic);
-      } else if (source === 'both') {
-        await fetchWiki(topic);
-        await fetchGrok(topic);
+      for (const adapter of adapters) {
+        writeParsedSnapshot(adapter, topic, await adapter.fetch(topic));
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
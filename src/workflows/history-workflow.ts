@@ -0,0 +1,42 @@
+/**
+ * @file src/workflows/history-workflow.ts
+ * @description Lists the archived snapshot revisions stored for a topic so analyses can be pinned
+ *              to a specific Wikipedia or Grokipedia revision.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import {
+  listSnapshotRevisions,
+  type SnapshotRevisionEntry,
+  type SnapshotSource,
+} from '../shared/snapshots';
+import { loadTopics, Topic } from '../shared/topics';
+
+export type HistorySourceOption = SnapshotSource | 'both';
+
+export interface HistoryWorkflowOptions {
+  topicId: string;
+  source?: HistorySourceOption;
+}
+
+export interface HistoryWorkflowResult {
+  topic: Topic;
+  wiki: SnapshotRevisionEntry[];
+  grok: SnapshotRevisionEntry[];
+}
+
+export const runHistoryWorkflow = ({
+  topicId,
+  source = 'both',
+}: HistoryWorkflowOptions): HistoryWorkflowResult => {
+  const topics = loadTopics();
+  const topic = topics[topicId];
+  if (!topic) {
+    throw new Error(`Unknown topic '${topicId}'. Run 'gwaln topics sync' or check the id.`);
+  }
+  return {
+    topic,
+    wiki: source === 'grok' ? [] : listSnapshotRevisions('wiki', topic.id),
+    grok: source === 'wiki' ? [] : listSnapshotRevisions('grok', topic.id),
+  };
+};
@@ -5,8 +5,15 @@
  * @author Doğu Abaris <abaris@null.net>
  */
 
-import fetch from 'node-fetch';
-import { loadTopics, Topic, writeTopics } from '../shared/topics';
+import { httpRequest } from '../shared/http';
+import {
+  DEFAULT_TOPIC_LANG,
+  loadTopics,
+  normalizeWikipediaLang,
+  Topic,
+  wikipediaBaseUrl,
+  writeTopics,
+} from '../shared/topics';
 
 export interface GrokipediaSearchResult {
   title: string;
@@ -24,6 +31,7 @@ export interface LookupWorkflowOptions {
   query: string;
   searchApis?: boolean;
   limit?: number;
+  lang?: string;
 }
 
 export interface LookupWorkflowResult {
@@ -39,6 +47,7 @@ export interface AddTopicOptions {
   title: string;
   wikipediaSlug: string;
   grokipediaSlug: string;
+  lang?: string;
 }
 
 export const searchGrokipedia = async (
@@ -48,10 +57,11 @@ export const searchGrokipedia = async (
   const url = `https://grokipedia.com/api/typeahead?query=${encodeURIComponent(query)}&limit=${limit}`;
 
   try {
-    const response = await fetch(url, {
+    const response = await httpRequest(url, {
       headers: {
         Accept: 'application/json',
       },
+      cache: false,
     });
 
     if (!response.ok) {
@@ -60,7 +70,7 @@ export const searchGrokipedia = async (
       return [];
     }
 
-    const data = (await response.json()) as
+    const data = JSON.parse(response.text) as
       | GrokipediaSearchResult[]
       | { results: GrokipediaSearchResult[] };
     if (data && typeof data === 'object' && 'results' in data && Array.isArray(data.results)) {
@@ -77,14 +87,16 @@ export const searchGrokipedia = async (
 export const searchWikipedia = async (
   query: string,
   limit = 5,
+  lang = DEFAULT_TOPIC_LANG,
 ): Promise<WikipediaSearchResult[]> => {
-  const url = `https://en.wikipedia.org/w/rest.php/v1/search/title?q=${encodeURIComponent(query)}&limit=${limit}`;
+  const url = `${wikipediaBaseUrl(lang)}/w/rest.php/v1/search/title?q=${encodeURIComponent(query)}&limit=${limit}`;
 
   try {
-    const response = await fetch(url, {
+    const response = await httpRequest(url, {
       headers: {
         Accept: 'application/json',
       },
+      cache: false,
     });
 
     if (!response.ok) {
@@ -93,7 +105,7 @@ export const searchWikipedia = async (
       return [];
     }
 
-    const data = (await response.json()) as { pages?: WikipediaSearchResult[] };
+    const data = JSON.parse(response.text) as { pages?: WikipediaSearchResult[] };
     return Array.isArray(data.pages) ? data.pages : [];
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -127,7 +139,9 @@ const slugify = (value: string): string =>
 
 export const addTopicToCatalog = (options: AddTopicOptions): Topic => {
   const topics = loadTopics();
-  const id = slugify(options.wikipediaSlug);
+  const lang = normalizeWikipediaLang(options.lang ?? DEFAULT_TOPIC_LANG);
+  const baseId = slugify(options.wikipediaSlug);
+  const id = lang === DEFAULT_TOPIC_LANG ? baseId : `${baseId}-${lang}`;
 
   const newTopic: Topic = {
     id,
@@ -135,6 +149,7 @@ export const addTopicToCatalog = (options: AddTopicOptions): Topic => {
     ual: `did:ot:dkg:topic:${id}`,
     wikipedia_slug: options.wikipediaSlug,
     grokipedia_slug: options.grokipediaSlug,
+    ...(lang === DEFAULT_TOPIC_LANG ? {} : { lang }),
   };
 
   const allTopics = [...Object.values(topics), newTopic];
@@ -165,7 +180,7 @@ export const runLookupWorkflow = async (
   const limit = options.limit ?? 5;
   const [grokResults, wikiResults] = await Promise.all([
     searchGrokipedia(options.query, limit),
-    searchWikipedia(options.query, limit),
+    searchWikipedia(options.query, limit, options.lang),
   ]);
 
   return {
@@ -0,0 +1,114 @@
+/**
+ * @file src/workflows/models-workflow.ts
+ * @description Lists, downloads, verifies, and locates the local transformer models used by the
+ *              semantic pipelines. Pipelines that share a model (`bias` and `nli` by default) are
+ *              downloaded and hashed once.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import {
+  isModelPipelineId,
+  listModels,
+  MODEL_PIPELINES,
+  modelDirectory,
+  type ModelPipelineId,
+  type ModelProgressEvent,
+  type ModelSettings,
+  type ModelStatus,
+  type ModelVerification,
+  pullModel,
+  resolveModelPipeline,
+  resolveModelSettings,
+  verifyModel,
+} from '../lib/model-manager';
+
+export interface ModelPullRecord {
+  pipeline: ModelPipelineId;
+  model: string;
+  dir: string;
+  files: number;
+  bytes: number;
+  /** Set when another pipeline in the same run already pulled this model. */
+  sharedWith?: ModelPipelineId;
+}
+
+/** Maps pipeline names from the command line to ids; no names selects every pipeline. */
+export const parseModelPipelines = (names: string[] = []): ModelPipelineId[] => {
+  if (!names.length) return MODEL_PIPELINES;
+  const unknown = names.filter((name) => !isModelPipelineId(name));
+  if (unknown.length) {
+    throw new Error(
+      `Unknown model pipeline '${unknown[0]}'. Use ${MODEL_PIPELINES.join(', ')}, or omit it for all.`,
+    );
+  }
+  return Array.from(new Set(names as ModelPipelineId[]));
+};
+
+/** Groups pipelines by model directory, keeping the first pipeline of each as the owner. */
+const firstOwners = (pipelines: ModelPipelineId[], settings: ModelSettings) => {
+  const owners = new Map<string, ModelPipelineId>();
+  return pipelines.map((pipeline) => {
+    const dir = modelDirectory(resolveModelPipeline(pipeline), settings);
+    const owner = owners.get(dir);
+    if (!owner) owners.set(dir, pipeline);
+    return { pipeline, owner };
+  });
+};
+
+export const runModelsListWorkflow = (): { settings: ModelSettings; models: ModelStatus[] } => ({
+  settings: resolveModelSettings(),
+  models: listModels(),
+});
+
+export const runModelsPullWorkflow = async ({
+  pipelines,
+  onProgress,
+}: {
+  pipelines: ModelPipelineId[];
+  onProgress?: (pipeline: ModelPipelineId, event: ModelProgressEvent) => void;
+}): Promise<ModelPullRecord[]> => {
+  const records: ModelPullRecord[] = [];
+  for (const { pipeline, owner } of firstOwners(pipelines, resolveModelSettings())) {
+    const previous = owner ? records.find((record) => record.pipeline === owner) : undefined;
+    if (previous) {
+      records.push({ ...previous, pipeline, sharedWith: owner });
+      continue;
+    }
+    const { spec, dir, manifest } = await pullModel(pipeline, (event) =>
+      onProgress?.(pipeline, event),
+    );
+    records.push({
+      pipeline,
+      model: spec.model,
+      dir,
+      files: manifest.files.length,
+      bytes: manifest.files.reduce((total, file) => total + file.bytes, 0),
+    });
+  }
+  return records;
+};
+
+export const runModelsVerifyWorkflow = async ({
+  pipelines,
+}: {
+  pipelines: ModelPipelineId[];
+}): Promise<ModelVerification[]> => {
+  const results: ModelVerification[] = [];
+  for (const { pipeline, owner } of firstOwners(pipelines, resolveModelSettings())) {
+    const previous = owner ? results.find((result) => result.spec.id === owner) : undefined;
+    results.push(
+      previous
+        ? { ...previous, spec: resolveModelPipeline(pipeline) }
+        : await verifyModel(pipeline),
+    );
+  }
+  return results;
+};
+
+/** The model cache directory, or the directory of one pipeline's model. */
+export const runModelsPathWorkflow = (pipeline?: string): string => {
+  const settings = resolveModelSettings();
+  if (!pipeline) return settings.cacheDir;
+  const [id] = parseModelPipelines([pipeline]);
+  return modelDirectory(resolveModelPipeline(id), settings);
+};
@@ -0,0 +1,106 @@
+/**
+ * @file tests/alignment.test.ts
+ * @description Unit tests for optimal one-to-one claim/section assignment, the section-aware
+ *              position prior, and runner-up/margin reporting.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from 'vitest';
+import { alignClaims } from '../src/lib/alignment';
+import { maximumWeightAssignment, sparseWeights as sparse } from '../src/lib/assignment';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import type { StructuredArticle } from '../src/parsers/shared/types';
+
+const topic = {
+  id: 'moon',
+  title: 'Moon',
+  wikipedia_slug: 'Moon',
+  grokipedia_slug: 'page/Moon',
+};
+
+const toStructured = (markdown: string, source: 'wikipedia' | 'grokipedia'): StructuredArticle =>
+  parseMarkdownStructuredArticle(
+    topic,
+    markdown,
+    {
+      source,
+      pageId: `${source}:${topic.id}`,
+      lang: 'en',
+      title: topic.title,
+      canonicalUrl: `https://example.org/${topic.id}/${source}`,
+      revisionId: `${source}-test`,
+      revisionTimestamp: '2025-01-01T00:00:00Z',
+    },
+    { citations: [] },
+  );
+
+/** Similarity index over fixed pairs so the test controls every score. */
+const fixedIndex = (pairs: Record<string, number>) => ({
+  similarity: (a: string, b: string): number | null =>
+    pairs[`${a}|${b}`] ?? pairs[`${b}|${a}`] ?? 0.05,
+});
+
+describe('maximumWeightAssignment', () => {
+  it('finds the globally optimal matching and leaves ineligible rows unassigned', () => {
+    const weights = sparse([
+      [0.9, 0.85, null],
+      [0.88, null, null],
+      [null, null, null],
+    ]);
+    expect(maximumWeightAssignment(weights, 3)).toEqual([1, 0, -1]);
+  });
+
+  it('handles more rows than columns', () => {
+    expect(maximumWeightAssignment(sparse([[0.7], [0.9], [0.8]]), 1)).toEqual([-1, 0, -1]);
+  });
+
+  it('matches components larger than the cell limit greedily', () => {
+    const weights = sparse([
+      [0.9, 0.85],
+      [0.88, null],
+    ]);
+    expect(maximumWeightAssignment(weights, 2)).toEqual([1, 0]);
+    expect(maximumWeightAssignment(weights, 2, 3)).toEqual([0, -1]);
+  });
+});
+
+describe('alignClaims', () => {
+  const W1 = 'Lunar craters record an ancient bombardment.';
+  const W2 = 'Apollo astronauts returned rock samples.';
+  const G1 = 'Crewed missions brought back geological specimens.';
+  const G2 = 'Impact scars preserve a violent early history.';
+
+  it('does not let an early weak match steal a later claim’s only partner', () => {
+    const wiki = toStructured(`# Moon\n\n${W1} ${W2}`, 'wikipedia');
+    const grok = toStructured(`# Moon\n\n${G1} ${G2}`, 'grokipedia');
+    const index = fixedIndex({
+      [`${W1}|${G1}`]: 0.9,
+      [`${W1}|${G2}`]: 0.85,
+      [`${W2}|${G1}`]: 0.88,
+    });
+
+    const alignments = alignClaims(wiki, grok, { index });
+    const byWiki = new Map(alignments.map((record) => [record.reference?.text, record]));
+
+    expect(byWiki.get(W1)?.candidate?.text).toBe(G2);
+    expect(byWiki.get(W2)?.candidate?.text).toBe(G1);
+    expect(byWiki.get(W1)?.runner_up).toMatchObject({ text: G1, similarity: 0.9 });
+    expect(byWiki.get(W1)?.margin).toBeCloseTo(-0.05);
+    expect(alignments.filter((record) => !record.reference)).toHaveLength(0);
+  });
+
+  it('prefers candidates in the aligned section when similarities tie', () => {
+    const wiki = toStructured(
+      `# Moon\n\nThe Moon is a natural satellite.\n\n## Geology\n\n${W1}`,
+      'wikipedia',
+    );
+    const grok = toStructured(`# Moon\n\n${G1}\n\n## Geology\n\n${G2}`, 'grokipedia');
+    const index = fixedIndex({ [`${W1}|${G1}`]: 0.9, [`${W1}|${G2}`]: 0.9 });
+
+    const record = alignClaims(wiki, grok, { index }).find((entry) => entry.reference?.text === W1);
+
+    expect(record?.candidate?.text).toBe(G2);
+    expect(record?.runner_up?.text).toBe(G1);
+    expect(record?.margin).toBe(0);
+  });
+});
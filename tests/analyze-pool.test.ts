@@ -0,0 +1,206 @@
+/**
+ * @file tests/analyze-pool.test.ts
+ * @description Covers the worker pool and concurrent `runAnalyzeWorkflow` batches, checking that
+ *              worker-thread results and progress hooks match the sequential path.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/shared/paths', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'gwaln-pool-'));
+  const dataDir = path.join(root, 'data');
+  return {
+    paths: {
+      ROOT: root,
+      DATA_DIR: dataDir,
+      WIKI_DIR: path.join(dataDir, 'wiki'),
+      GROK_DIR: path.join(dataDir, 'grok'),
+      HISTORY_DIR: path.join(dataDir, 'history'),
+      ANALYSIS_DIR: path.join(root, 'analysis'),
+      ensureDir: (target: string) => fs.mkdirSync(target, { recursive: true }),
+    },
+  };
+});
+
+vi.mock('../src/shared/topics', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/topics')>()),
+  loadTopics: () => ({
+    moon: { id: 'moon', title: 'Moon', wikipedia_slug: 'Moon', grokipedia_slug: 'page/Moon' },
+    venus: { id: 'venus', title: 'Venus', wikipedia_slug: 'Venus', grokipedia_slug: 'page/Venus' },
+    mars: { id: 'mars', title: 'Mars', wikipedia_slug: 'Mars', grokipedia_slug: 'page/Mars' },
+  }),
+}));
+
+vi.mock('../src/shared/config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/config')>()),
+  readConfig: vi.fn(() => ({})),
+}));
+
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import { readConfig } from '../src/shared/config';
+import { paths } from '../src/shared/paths';
+import { writeSnapshot } from '../src/shared/snapshots';
+import type { Topic } from '../src/shared/topics';
+import { createWorkerPool } from '../src/shared/worker-pool';
+import { type AnalyzeTopicResult, runAnalyzeWorkflow } from '../src/workflows/analyze-workflow';
+
+const tempRoot = paths.ROOT;
+const mockConfig = readConfig as unknown as ReturnType<typeof vi.fn>;
+
+const topics: Topic[] = ['Moon', 'Venus', 'Mars'].map((title) => ({
+  id: title.toLowerCase(),
+  title,
+  wikipedia_slug: title,
+  grokipedia_slug: `page/${title}`,
+}));
+
+const storeSnapshot = (topic: Topic, source: 'wiki' | 'grok', body: string): void => {
+  const sourceName = source === 'wiki' ? 'wikipedia' : 'grokipedia';
+  const article = parseMarkdownStructuredArticle(
+    topic,
+    `# ${topic.title}\n\n${body}`,
+    {
+      source: sourceName,
+      pageId: `${sourceName}:${topic.id}`,
+      lang: 'en',
+      title: topic.title,
+      canonicalUrl: `https://example.org/${source}/${topic.id}`,
+      revisionId: `${source}-1`,
+      revisionTimestamp: '2025-01-01T00:00:00Z',
+    },
+    { citations: [] },
+  );
+  writeSnapshot(source, topic, article);
+};
+
+const readAnalysis = (topicId: string): Record<string, unknown> =>
+  JSON.parse(fs.readFileSync(path.join(paths.ANALYSIS_DIR, `${topicId}.json`), 'utf8'));
+
+const comparable = (analysis: Record<string, unknown>): unknown =>
+  JSON.parse(
+    JSON.stringify(analysis, (key, value) =>
+      key === 'generated_at' || key === 'updated_at' ? undefined : value,
+    ),
+  );
+
+describe('createWorkerPool', () => {
+  const scriptDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gwaln-pool-worker-'));
+  const script = path.join(scriptDir, 'double.js');
+  fs.writeFileSync(
+    script,
+    `const { parentPort } = require('node:worker_threads');
+parentPort.on('message', ({ taskId, payload }) => {
+  if (payload === 'crash') process.exit(3);
+  if (payload < 0) return parentPort.postMessage({ taskId, ok: false, error: 'negative input' });
+  parentPort.postMessage({ taskId, ok: true, result: payload * 2 });
+});`,
+    'utf8',
+  );
+
+  afterAll(() => {
+    fs.rmSync(scriptDir, { recursive: true, force: true });
+  });
+
+  it('runs queued tasks, surfaces task errors, and replaces crashed workers', async () => {
+    const pool = createWorkerPool<number | string, number>(script, 2);
+    try {
+      await expect(Promise.all([1, 2, 3, 4, 5].map((value) => pool.run(value)))).resolves.toEqual([
+        2, 4, 6, 8, 10,
+      ]);
+      await expect(pool.run(-1)).rejects.toThrow('negative input');
+      await expect(pool.run('crash')).rejects.toThrow(/exited with code 3/);
+      await expect(pool.run(21)).resolves.toBe(42);
+    } finally {
+      await pool.close();
+    }
+  });
+});
+
+describe('runAnalyzeWorkflow concurrency', () => {
+  const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+  beforeEach(() => {
+    fs.rmSync(tempRoot, { recursive: true, force: true });
+    mockConfig.mockReturnValue({});
+    topics.forEach((topic) => {
+      storeSnapshot(
+        topic,
+        'wiki',
+        `${topic.title} is a body in the Solar System. It was observed by early astronomers. Its surface has been mapped by several missions.`,
+      );
+      storeSnapshot(
+        topic,
+        'grok',
+        `${topic.title} is a celestial body in the Solar System. It was first observed by ancient astronomers. Critics argue the missions were a controversial waste of money.`,
+      );
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempRoot, { recursive: true, force: true });
+  });
+
+  it('produces the same analyses and hook calls in worker threads as sequentially', async () => {
+    const sequential = await runAnalyzeWorkflow({ force: true, logger });
+    const sequentialOutputs = topics.map((topic) => comparable(readAnalysis(topic.id)));
+
+    const started: string[] = [];
+    const completed: AnalyzeTopicResult[] = [];
+    const concurrent = await runAnalyzeWorkflow({
+      force: true,
+      concurrency: 2,
+      logger,
+      hooks: {
+        onTopicStart: (topic) => started.push(topic.id),
+        onTopicComplete: (result) => completed.push(result),
+      },
+    });
+
+    expect(concurrent.map((result) => [result.topicId, result.status])).toEqual(
+      sequential.map((result) => [result.topicId, result.status]),
+    );
+    expect(concurrent.every((result) => result.status === 'written')).toBe(true);
+    expect(concurrent.every((result) => typeof result.durationMs === 'number')).toBe(true);
+    expect([...started].sort()).toEqual(['mars', 'moon', 'venus']);
+    expect(completed.map((result) => result.topicId).sort()).toEqual(['mars', 'moon', 'venus']);
+    expect(topics.map((topic) => comparable(readAnalysis(topic.id)))).toEqual(sequentialOutputs);
+  }, 60_000);
+
+  it('reports per-topic errors without stopping the batch', async () => {
+    fs.rmSync(path.join(paths.GROK_DIR, 'venus.parsed.json'));
+    const results = await runAnalyzeWorkflow({ force: true, concurrency: 3, logger });
+    const byTopic = Object.fromEntries(results.map((result) => [result.topicId, result]));
+    expect(byTopic.venus.status).toBe('error');
+    expect(byTopic.venus.error).toMatch(/Missing structured snapshot/);
+    expect(byTopic.moon.status).toBe('written');
+    expect(byTopic.mars.status).toBe('written');
+  }, 60_000);
+
+  it('reuses cached analyses only while the analysis options match', async () => {
+    const statuses = async () =>
+      (await runAnalyzeWorkflow({ topicId: 'moon', logger })).map((result) => result.status);
+
+    expect(await statuses()).toEqual(['written']);
+    expect(await statuses()).toEqual(['cached']);
+
+    mockConfig.mockReturnValue({ models: { bias: { model: 'Xenova/other-mnli' } } });
+    expect(await statuses()).toEqual(['cached']);
+
+    mockConfig.mockReturnValue({ numericTolerances: { default: 0.2 } });
+    expect(await statuses()).toEqual(['written']);
+    expect(await statuses()).toEqual(['cached']);
+
+    mockConfig.mockReturnValue({ sourceReliability: { 'example.org': 'deprecated' } });
+    expect(await statuses()).toEqual(['written']);
+  }, 60_000);
+
+  it('rejects invalid concurrency values', async () => {
+    await expect(runAnalyzeWorkflow({ concurrency: 0, logger })).rejects.toThrow(
+      /Invalid concurrency/,
+    );
+  });
+});
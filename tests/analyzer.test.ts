@@ -151,6 +151,39 @@ For more info see [NASA](https://nasa.gov/moon).`;
     expect(result.section_alignment.some((record) => record.similarity === 0)).toBe(true);
   });
 
+  it('names the compared sources in descriptions and evidence keys', async () => {
+    const wiki = `# Moon
+## History
+${paragraph('Historical overview of lunar exploration.')}`;
+    const grok = '# Moon\nHistory overview. The Moon reportedly hides a secret base.';
+    const source = (id: string, label: string) => ({
+      id,
+      label,
+      slug: 'Moon',
+      url: `https://example.org/moon/${id}`,
+    });
+    const sources = {
+      reference: source('dewiki', 'German Wikipedia'),
+      candidate: source('moonpedia', 'Moonpedia'),
+    };
+    const result = await analyzeContent(
+      topic,
+      prepareAnalyzerSource(toStructured(wiki, 'wikipedia')),
+      prepareAnalyzerSource(toStructured(grok, 'grokipedia')),
+      { sources },
+    );
+    expect(result.meta.sources).toEqual(sources);
+    expect(result.discrepancies.find((d) => d.type === 'section_missing')).toMatchObject({
+      description: 'Section "History" exists on German Wikipedia but not on Moonpedia.',
+      evidence: { reference: 'History' },
+    });
+    expect(result.hallucination_events[0]).toMatchObject({
+      description: 'Moonpedia uses speculative or unverified language.',
+      evidence: { candidate: expect.stringContaining('secret base') },
+    });
+    expect(JSON.stringify(result.discrepancies)).not.toMatch(/Grokipedia|"(wikipedia|grokipedia)"/);
+  });
+
   it('flags bias and hallucination cues in extra sentences', async () => {
     const wiki = '# Moon The Moon is the only natural satellite orbiting Earth.';
     const grok = `${wiki} This conspiracy proves scientists lied about the Moon, and reportedly it reflects secret signals.`;
@@ -219,6 +252,20 @@ For more info see [NASA](https://nasa.gov/moon).`;
     expect(result.numeric_discrepancies.length).toBeGreaterThan(0);
   });
 
+  it('reports temporal discrepancies between aligned claims', async () => {
+    const wiki = '# Moon Apollo 11 landed on the Moon on July 20, 1969.';
+    const grok = '# Moon Apollo 11 landed on the Moon on July 20, 1968.';
+    const result = await analyzeContent(
+      topic,
+      prepareAnalyzerSource(toStructured(wiki, 'wikipedia')),
+      prepareAnalyzerSource(toStructured(grok, 'grokipedia')),
+    );
+    expect(result.temporal_discrepancies.length).toBeGreaterThan(0);
+    expect(result.discrepancies).toContainEqual(
+      expect.objectContaining({ type: 'temporal_discrepancy', category: 'factual' }),
+    );
+  });
+
   it('detects entity discrepancies when prominent names shift', async () => {
     const wiki = '# Moon The giant impact hypothesis describes Theia striking Earth.';
     const grok = '# Moon The giant impact hypothesis describes Mars colliding with Earth.';
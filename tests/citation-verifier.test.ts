@@ -0,0 +1,440 @@
+/**
+ * @file tests/citation-verifier.test.ts
+ * @description Covers content-type aware text extraction (HTML, PDF, JSON) and per-sentence
+ *              citation verification against each sentence's own sources.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import zlib from 'node:zlib';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  httpGetBuffer,
+  HttpError,
+  HttpRequestError,
+  httpRequestJson,
+  HttpTimeoutError,
+} from '../src/shared/http';
+import {
+  summarizeLinkHealth,
+  summarizeVerifiability,
+  verifySentencesAgainstCitations,
+} from '../src/lib/citation-verifier';
+import { extractPdfText } from '../src/lib/pdf-text';
+import { detectExtractor, extractReadableText, extractSourceText } from '../src/lib/source-text';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import { parseWikiArticle } from '../src/parsers/wiki';
+
+vi.mock('../src/shared/http', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/http')>()),
+  httpGetBuffer: vi.fn(),
+  httpRequestJson: vi.fn(),
+}));
+
+const mockGet = httpGetBuffer as unknown as ReturnType<typeof vi.fn>;
+const mockJson = httpRequestJson as unknown as ReturnType<typeof vi.fn>;
+
+/** Builds a minimal PDF whose objects are given as strings or Flate-compressed streams. */
+const buildPdf = (objects: Array<string | { dict: string; content: string }>): Buffer =>
+  Buffer.concat([
+    Buffer.from('%PDF-1.7\n', 'latin1'),
+    ...objects.flatMap((object, index) => {
+      if (typeof object === 'string') {
+        return [Buffer.from(`${index + 1} 0 obj\n${object}\nendobj\n`, 'latin1')];
+      }
+      const data = zlib.deflateSync(Buffer.from(object.content, 'latin1'));
+      return [
+        Buffer.from(
+          `${index + 1} 0 obj\n<< ${object.dict} /Length ${data.length} /Filter /FlateDecode >>\nstream\n`,
+          'latin1',
+        ),
+        data,
+        Buffer.from('\nendstream\nendobj\n', 'latin1'),
+      ];
+    }),
+    Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'),
+  ]);
+
+const REPORT_PDF = buildPdf([
+  '<< /Type /Page /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents 2 0 R >>',
+  {
+    dict: '',
+    content:
+      'BT /F1 12 Tf 72 720 Td (The Saturn V rocket stood 110.6 metres tall.) Tj 0 -14 Td [(Its first stage burned) -300 (for 168 seconds.)] TJ ET\nBT /F2 12 Tf 72 690 Td <0001000200020004> Tj ET',
+  },
+  '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  '<< /Type /Font /Subtype /Type0 /BaseFont /Custom /ToUnicode 5 0 R >>',
+  {
+    dict: '',
+    content:
+      'begincmap 1 begincodespacerange <0000> <FFFF> endcodespacerange 2 beginbfchar <0001> <004D> <0004> <006E> endbfchar 1 beginbfrange <0002> <0003> <006F> endbfrange endcmap',
+  },
+]);
+
+const topic = {
+  id: 'apollo-11',
+  title: 'Apollo 11',
+  wikipedia_slug: 'Apollo_11',
+  grokipedia_slug: 'page/Apollo_11',
+};
+
+const metadata = (source: 'wikipedia' | 'grokipedia') => ({
+  source,
+  pageId: `${source}:${topic.id}`,
+  lang: 'en',
+  title: topic.title,
+  canonicalUrl: `https://example.org/${topic.id}/${source}`,
+  revisionId: `${source}-test`,
+  revisionTimestamp: '2025-01-01T00:00:00Z',
+});
+
+const page = (body: string) => `<!doctype html><html><body>
+<header class="site-header"><nav><a href="/">Home</a> Apollo 11 landed on the Moon</nav></header>
+<div class="cookie-banner">We use cookies to improve your experience.</div>
+<article>${body}</article>
+<footer>Copyright 2024 Space News. All rights reserved.</footer>
+</body></html>`;
+
+const SOURCES: Record<string, { type: string; body: string | Buffer; truncated?: boolean }> = {
+  'https://space.example/landing': {
+    type: 'text/html; charset=utf-8',
+    body: page(
+      '<h1>The landing</h1><p>On July 20, 1969, the lunar module Eagle touched down in the Sea of Tranquility. Neil Armstrong and Buzz Aldrin spent about two hours outside.</p><p>The crew returned to Earth on July 24.</p>',
+    ),
+  },
+  'https://space.example/crew': {
+    type: 'text/html',
+    body: page(
+      '<p>Michael Collins stayed in lunar orbit aboard the command module Columbia while his crewmates explored the surface.</p>',
+    ),
+  },
+  'https://space.example/saturn-v.pdf': {
+    type: 'application/octet-stream',
+    body: REPORT_PDF,
+    truncated: true,
+  },
+  'https://web.archive.org/web/20190101000000id_/https://old.example/eagle': {
+    type: 'text/html',
+    body: page('<p>The lunar module Eagle landed in the Sea of Tranquility on July 20, 1969.</p>'),
+  },
+  'https://web.archive.org/web/20200101000000id_/https://gone.example/columbia': {
+    type: 'text/html',
+    body: page('<p>Columbia orbited the Moon with Michael Collins aboard.</p>'),
+  },
+  'https://blocked.example/report': { type: 'text/html', body: '' },
+  'https://space.example/diagram': { type: 'image/png', body: Buffer.from([0x89, 0x50]) },
+};
+
+/** Stand-in for the archive availability endpoint: only `gone.example` has a snapshot. */
+const ARCHIVE_ENDPOINT = 'http://archive.test/available?url={url}';
+
+mockJson.mockImplementation(async (url: string) => {
+  const original = decodeURIComponent(url.split('url=')[1]);
+  return original === 'https://gone.example/columbia'
+    ? {
+        archived_snapshots: {
+          closest: {
+            available: true,
+            status: '200',
+            url: 'http://web.archive.org/web/20200101000000/https://gone.example/columbia',
+          },
+        },
+      }
+    : { archived_snapshots: {} };
+});
+
+mockGet.mockImplementation(async (url: string) => {
+  if (url.startsWith('https://slow.example/')) {
+    throw new HttpRequestError(url, 2, new HttpTimeoutError(url, 8000));
+  }
+  const network = /^https:\/\/(\w+)\.network\.example\//.exec(url);
+  if (network) {
+    throw new HttpRequestError(
+      url,
+      2,
+      Object.assign(new Error(`request to ${url} failed`), { code: network[1].toUpperCase() }),
+    );
+  }
+  const status = /^https:\/\/status\.example\/(\d{3})$/.exec(url);
+  if (status) {
+    throw new HttpError(`HTTP ${status[1]}`, Number(status[1]), url, '');
+  }
+  if (url === 'https://blocked.example/report') {
+    throw new HttpError('HTTP 403 Forbidden', 403, url, '');
+  }
+  if (url === 'https://busy.example/status') {
+    throw new HttpError('HTTP 503 Service Unavailable', 503, url, '');
+  }
+  const source = SOURCES[url];
+  if (!source) throw new HttpError('HTTP 404 Not Found', 404, url, '');
+  return {
+    url,
+    status: 200,
+    headers: { 'content-type': source.type },
+    body: Buffer.isBuffer(source.body) ? source.body : Buffer.from(source.body),
+    truncated: source.truncated ?? false,
+  };
+});
+
+describe('extractReadableText', () => {
+  it('keeps the article body and drops navigation, banners, and footers', () => {
+    const text = extractReadableText(SOURCES['https://space.example/landing'].body as string);
+    expect(text.split('\n')[0]).toBe('The landing');
+    expect(text).toContain('touched down in the Sea of Tranquility');
+    expect(text).not.toMatch(/cookies|Copyright|Home/);
+  });
+});
+
+describe('extractSourceText', () => {
+  it('reads the text layer of PDFs, including fonts with a ToUnicode map', () => {
+    expect(extractPdfText(REPORT_PDF).split('\n')).toEqual([
+      'The Saturn V rocket stood 110.6 metres tall.',
+      'Its first stage burned for 168 seconds.',
+      'Moon',
+    ]);
+    expect(extractSourceText(REPORT_PDF, 'application/octet-stream')).toEqual({
+      extractor: 'pdf',
+      text: 'The Saturn V rocket stood 110.6 metres tall. Its first stage burned for 168 seconds. Moon',
+    });
+  });
+
+  it('keeps what a truncated PDF still contains', () => {
+    const cut = REPORT_PDF.subarray(0, REPORT_PDF.indexOf('3 0 obj'));
+    expect(extractPdfText(cut)).toContain('110.6 metres');
+  });
+
+  it('skips image and font streams and caps the inflated size of the rest', () => {
+    const bomb = 'BT (x) Tj ET\n'.padEnd(256 * 1024, ' ');
+    const pdf = buildPdf([
+      { dict: '/Subtype /Image /Width 512 /Height 512', content: bomb },
+      { dict: '/Length1 262144', content: bomb },
+      { dict: '', content: 'BT /F1 12 Tf 72 720 Td (Small page.) Tj ET' },
+      { dict: '', content: bomb },
+      { dict: '', content: 'BT /F1 12 Tf 72 700 Td (After the bomb.) Tj ET' },
+    ]);
+
+    expect(extractPdfText(pdf, { maxInflatedBytes: 64 * 1024 }).split('\n')).toEqual([
+      'Small page.',
+      'After the bomb.',
+    ]);
+    expect(extractPdfText(pdf, { maxInflatedBytes: 10 })).toBe('');
+    expect(extractPdfText(pdf).split('\n')).toEqual(['Small page.', 'x', 'After the bomb.']);
+  });
+
+  it('picks extractors by sniffing the body before trusting the content type', () => {
+    expect(detectExtractor(REPORT_PDF, 'text/html')).toBe('pdf');
+    expect(detectExtractor(Buffer.from('{"a":1}'), 'application/ld+json')).toBe('json');
+    expect(detectExtractor(Buffer.from('Plain notes.'), 'text/plain')).toBe('text');
+    expect(detectExtractor(Buffer.from('<html><p>x</p></html>'), null)).toBe('html');
+    expect(detectExtractor(Buffer.from([0x89, 0x50, 0x4e, 0x47]), 'image/png')).toBeNull();
+    expect(() => extractSourceText(Buffer.from([0xff, 0xd8]), 'image/jpeg')).toThrow(
+      'Cannot extract text from image/jpeg content.',
+    );
+  });
+
+  it('reads string values from JSON, even when the document is cut off', () => {
+    const json = '{"title":"Apollo 11","body":{"paragraphs":["Eagle landed.","Crew returned."]}}';
+    expect(extractSourceText(Buffer.from(json), 'application/json').text).toBe(
+      'Apollo 11\nEagle landed.\nCrew returned.',
+    );
+    expect(extractSourceText(Buffer.from(json.slice(0, 60)), 'application/json').text).toBe(
+      'Apollo 11\nEagle landed.',
+    );
+  });
+});
+
+describe('verifySentencesAgainstCitations', () => {
+  it('checks each sentence against its own sources on both sides', async () => {
+    const wiki = parseWikiArticle(
+      topic,
+      `The lunar module Eagle landed in the Sea of Tranquility on July 20, 1969.<ref>{{cite web|url=https://space.example/landing|title=The landing}}</ref> Collins remained in orbit aboard Columbia.<ref>{{cite web|url=https://space.example/crew|title=Crew}}</ref> The flight was watched on television.<ref>{{cite book|title=Moonshot|year=1994}}</ref> Its Saturn V rocket stood 110.6 metres tall.<ref>{{cite report|url=https://space.example/saturn-v.pdf|title=Saturn V}}</ref>`,
+      metadata('wikipedia'),
+    );
+    const grok = parseMarkdownStructuredArticle(
+      topic,
+      [
+        '# Apollo 11',
+        '',
+        'Eagle touched down in the Sea of Tranquility on July 21, 1969 [landing](https://space.example/landing).',
+        '',
+        'The astronauts planted a gold flag on the summit of Olympus Mons [landing](https://space.example/landing).',
+        '',
+        'The mission ended with a splashdown [report](https://space.example/missing).',
+      ].join('\n'),
+      metadata('grokipedia'),
+    );
+
+    const { records } = await verifySentencesAgainstCitations(
+      { reference: wiki, candidate: grok },
+      {
+        priority: ['The astronauts planted a gold flag on the summit of Olympus Mons landing.'],
+        archiveEndpoint: null,
+      },
+    );
+    const byText = (fragment: string) =>
+      records.find((record) => record.sentence.includes(fragment));
+
+    expect(byText('Eagle landed')).toMatchObject({
+      source: 'reference',
+      status: 'supported',
+      supporting_url: 'https://space.example/landing',
+      passage: expect.stringContaining('Sea of Tranquility'),
+      extractor: 'html',
+      truncated: false,
+    });
+    expect(byText('Saturn V')).toMatchObject({
+      status: 'supported',
+      extractor: 'pdf',
+      truncated: true,
+    });
+    expect(byText('Collins remained')).toMatchObject({ status: 'partially_supported' });
+    expect(byText('watched on television')).toMatchObject({
+      status: 'error',
+      message: 'None of the cited references has a fetchable URL.',
+    });
+    expect(byText('July 21')).toMatchObject({
+      source: 'candidate',
+      status: 'partially_supported',
+      message: expect.stringContaining('every number'),
+    });
+    expect(byText('Olympus Mons')).toMatchObject({ status: 'unsupported', supporting_url: null });
+    expect(byText('splashdown')).toMatchObject({
+      status: 'error',
+      message: expect.stringContaining('404'),
+    });
+    expect(mockGet).toHaveBeenCalledTimes(4);
+
+    expect(summarizeVerifiability(records)).toEqual({
+      reference: {
+        checked: 4,
+        supported: 2,
+        partially_supported: 1,
+        unsupported: 0,
+        error: 1,
+        supported_share: 0.667,
+      },
+      candidate: {
+        checked: 3,
+        supported: 0,
+        partially_supported: 1,
+        unsupported: 1,
+        error: 1,
+        supported_share: 0,
+      },
+    });
+  });
+});
+
+describe('link health', () => {
+  it('falls back to archived copies and reports link rot per article', async () => {
+    const wiki = parseWikiArticle(
+      topic,
+      `Eagle landed in the Sea of Tranquility on July 20, 1969.<ref>{{cite web|url=https://old.example/eagle|archive-url=https://web.archive.org/web/20190101000000/https://old.example/eagle|title=Eagle}}</ref> Collins orbited the Moon aboard Columbia.<ref>{{cite web|url=https://space.example/crew|title=Crew}}</ref> The descent path is shown in a diagram.<ref>{{cite web|url=https://space.example/diagram|title=Diagram}}</ref>`,
+      metadata('wikipedia'),
+    );
+    const grok = parseMarkdownStructuredArticle(
+      topic,
+      [
+        '# Apollo 11',
+        '',
+        'Columbia orbited the Moon with Collins aboard [orbit](https://gone.example/columbia).',
+        '',
+        'The crew trained for years [training](https://slow.example/training).',
+      ].join('\n'),
+      metadata('grokipedia'),
+      {
+        citations: [
+          { id: '1', title: 'Vanished page', url: 'https://vanished.example/apollo' },
+          { id: '2', title: 'Report', url: 'https://blocked.example/report' },
+          { id: '3', title: 'Status', url: 'https://busy.example/status' },
+        ],
+      },
+    );
+
+    const { records, links } = await verifySentencesAgainstCitations(
+      { reference: wiki, candidate: grok },
+      {
+        archiveEndpoint: ARCHIVE_ENDPOINT,
+      },
+    );
+    const linkFor = (url: string) => links.find((link) => link.url === url);
+
+    expect(linkFor('https://old.example/eagle')).toMatchObject({
+      source: 'reference',
+      status: 'archived',
+      http_status: 404,
+      archive_url: 'https://web.archive.org/web/20190101000000/https://old.example/eagle',
+    });
+    expect(linkFor('https://space.example/crew')).toMatchObject({ status: 'live' });
+    expect(linkFor('https://gone.example/columbia')).toMatchObject({
+      source: 'candidate',
+      status: 'archived',
+      archive_url: 'http://web.archive.org/web/20200101000000/https://gone.example/columbia',
+    });
+    expect(linkFor('https://slow.example/training')).toMatchObject({
+      status: 'dead',
+      http_status: null,
+      message: expect.stringContaining('timed out'),
+    });
+    expect(linkFor('https://vanished.example/apollo')).toMatchObject({ status: 'dead' });
+    expect(linkFor('https://blocked.example/report')).toMatchObject({
+      status: 'unreachable',
+      http_status: 403,
+    });
+    expect(linkFor('https://busy.example/status')).toMatchObject({
+      status: 'unreachable',
+      http_status: 503,
+    });
+    expect(linkFor('https://space.example/diagram')).toMatchObject({ status: 'live' });
+    expect(mockJson).not.toHaveBeenCalledWith(
+      expect.stringMatching(/blocked\.example|busy\.example|space\.example/),
+      expect.anything(),
+    );
+
+    expect(records.find((record) => record.sentence.startsWith('Eagle'))).toMatchObject({
+      status: 'supported',
+      supporting_url: 'https://old.example/eagle',
+      archive_url: 'https://web.archive.org/web/20190101000000/https://old.example/eagle',
+    });
+    expect(records.find((record) => record.sentence.startsWith('The crew'))).toMatchObject({
+      status: 'error',
+      message: expect.stringContaining('no archived copy could be read'),
+    });
+
+    expect(summarizeLinkHealth(links)).toEqual({
+      reference: { checked: 3, live: 2, dead: 0, archived: 1, unreachable: 0, rot_rate: 0.333 },
+      candidate: { checked: 5, live: 0, dead: 2, archived: 1, unreachable: 2, rot_rate: 1 },
+    });
+  });
+
+  it('reports only 404, 410, timeouts, and unknown hosts as dead', async () => {
+    const urls = {
+      'https://status.example/404': 'dead',
+      'https://status.example/410': 'dead',
+      'https://slow.example/launch': 'dead',
+      'https://enotfound.network.example/launch': 'dead',
+      'https://status.example/400': 'unreachable',
+      'https://status.example/401': 'unreachable',
+      'https://status.example/451': 'unreachable',
+      'https://econnreset.network.example/launch': 'unreachable',
+      'https://econnrefused.network.example/launch': 'unreachable',
+      'https://cert_has_expired.network.example/launch': 'unreachable',
+    };
+    const wiki = parseWikiArticle(
+      topic,
+      Object.keys(urls)
+        .map(
+          (url, index) =>
+            `Apollo 11 fact number ${index + 1} was recorded.<ref>{{cite web|url=${url}|title=Fact}}</ref>`,
+        )
+        .join(' '),
+      metadata('wikipedia'),
+    );
+
+    const { links } = await verifySentencesAgainstCitations(
+      { reference: wiki },
+      { archiveEndpoint: null },
+    );
+
+    expect(Object.fromEntries(links.map((link) => [link.url, link.status]))).toEqual(urls);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * @file tests/citations.test.ts
+ * @description Covers citation template parsing (authors, dates, identifiers, archive links),
+ *              Grokipedia citation metadata, and identifier-based citation matching.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from 'vitest';
+import { analyzeContent, prepareAnalyzerSource } from '../src/lib/analyzer';
+import { matchCitations } from '../src/lib/citation-matching';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import { externalCitationMetadata, normalizeIsbn } from '../src/parsers/shared/citations';
+import { unwrapArchiveUrl } from '../src/parsers/shared/urls';
+import { parseCiteTemplate, parseReferenceMetadata, parseWikiArticle } from '../src/parsers/wiki';
+
+const topic = {
+  id: 'moon',
+  title: 'Moon',
+  wikipedia_slug: 'Moon',
+  grokipedia_slug: 'page/Moon',
+};
+
+const metadata = (source: 'wikipedia' | 'grokipedia') => ({
+  source,
+  pageId: `${source}:${topic.id}`,
+  lang: 'en',
+  title: topic.title,
+  canonicalUrl: `https://example.org/${topic.id}/${source}`,
+  revisionId: `${source}-test`,
+  revisionTimestamp: '2025-01-01T00:00:00Z',
+});
+
+describe('parseCiteTemplate', () => {
+  it('reads authors, dates, identifiers, and locators', () => {
+    const parsed = parseCiteTemplate(
+      `{{Cite journal |last1=Canup |first1=Robin M. |last2=Asphaug |first2=Erik
+        |title=Origin of the Moon in a giant impact |journal=[[Nature (journal)|Nature]]
+        |date=16 August 2001 |access-date=2024-01-05 |volume=412 |issue=6848 |pages=708–712
+        |doi=10.1038/35089010 |pmid=11507633 |isbn=0-306-40615-2}}`,
+    );
+    expect(parsed).toMatchObject({
+      type: 'journal',
+      title: 'Origin of the Moon in a giant impact',
+      journal: 'Nature',
+      authors: ['Canup, Robin M.', 'Asphaug, Erik'],
+      date: '16 August 2001',
+      year: 2001,
+      access_date: '2024-01-05',
+      volume: '412',
+      issue: '6848',
+      pages: '708–712',
+      doi: '10.1038/35089010',
+      pmid: '11507633',
+      isbn: '9780306406157',
+    });
+  });
+
+  it('accepts legacy parameter names and vauthors', () => {
+    const parsed = parseCiteTemplate(
+      '{{cite web|vauthors=Smith J, Doe A|title=Lunar data|website=NASA|accessdate=5 May 2020|archiveurl=https://web.archive.org/web/20200505/https://nasa.gov/moon|archive-date=5 May 2020|url=https://nasa.gov/moon}}',
+    );
+    expect(parsed).toMatchObject({
+      authors: ['Smith J', 'Doe A'],
+      publisher: 'NASA',
+      access_date: '5 May 2020',
+      archive_url: 'https://web.archive.org/web/20200505/https://nasa.gov/moon',
+      archive_date: '5 May 2020',
+      url: 'https://nasa.gov/moon',
+    });
+  });
+
+  it('unwraps archive links given as the main URL', () => {
+    expect(
+      parseReferenceMetadata(
+        '[https://web.archive.org/web/20190102030405/http://example.org/a Page]',
+      ),
+    ).toMatchObject({
+      url: 'http://example.org/a',
+      archive_url: 'https://web.archive.org/web/20190102030405/http://example.org/a',
+      archive_date: '2019-01-02',
+    });
+    expect(unwrapArchiveUrl('https://example.org')).toBeNull();
+  });
+
+  it('normalizes ISBN-10 and ISBN-13 to the same value', () => {
+    expect(normalizeIsbn('0-306-40615-2')).toBe(normalizeIsbn('978-0-306-40615-7'));
+    expect(normalizeIsbn('12345')).toBeNull();
+  });
+});
+
+describe('Grokipedia citation metadata', () => {
+  it('reads optional API fields and identifiers in URLs', () => {
+    expect(
+      externalCitationMetadata({
+        title: 'Giant impact',
+        url: 'https://doi.org/10.1038/35089010',
+        authors: ['Robin M. Canup'],
+        published: '2001-08-16',
+      }),
+    ).toMatchObject({ doi: '10.1038/35089010', year: 2001, authors: ['Robin M. Canup'] });
+  });
+});
+
+describe('matchCitations', () => {
+  const wiki = parseWikiArticle(
+    topic,
+    `The Moon formed in a giant impact.<ref name="canup">{{cite journal|last=Canup|first=Robin|title=Origin of the Moon in a giant impact|journal=Nature|doi=10.1038/35089010}}</ref> It is tidally locked.<ref>{{cite book|title=The Moon Book|isbn=0-306-40615-2}}</ref> It has no atmosphere.<ref>{{cite web|url=https://www.nasa.gov/moon/|title=Moon facts}}</ref> Its crust is old.<ref>{{cite web|url=https://example.org/crust|title=Crust}}</ref>`,
+    metadata('wikipedia'),
+  );
+  const grok = parseMarkdownStructuredArticle(
+    topic,
+    '# Moon\n\nThe Moon formed in a giant impact. It is tidally locked. It has no atmosphere.',
+    metadata('grokipedia'),
+    {
+      citations: [
+        { id: '1', title: 'Giant impact', url: 'https://doi.org/10.1038/35089010' },
+        { id: '2', title: 'Book', url: 'https://books.example/isbn/9780306406157' },
+        { id: '3', title: 'NASA', url: 'http://nasa.gov/moon#facts' },
+        { id: '4', title: 'Blog', url: 'https://blog.example/moon' },
+      ],
+    },
+  );
+
+  it('matches by DOI, ISBN, and normalized URL', () => {
+    const result = matchCitations(wiki.references, grok.references);
+    expect(result.matches.map((match) => match.method)).toEqual(['doi', 'isbn', 'url']);
+    expect(result.missing).toEqual(['https://example.org/crust']);
+    expect(result.extra).toEqual(['https://blog.example/moon']);
+  });
+
+  it('reports only unmatched sources as missing citations', async () => {
+    const payload = await analyzeContent(
+      topic,
+      prepareAnalyzerSource(wiki),
+      prepareAnalyzerSource(grok),
+    );
+    expect(payload.citations.missing).toEqual(['https://example.org/crust']);
+    expect(payload.citations.matches).toHaveLength(3);
+  });
+
+  it('falls back to title and first-author surname', () => {
+    const book = parseWikiArticle(
+      topic,
+      'Text.<ref>{{cite book|last=Wilhelms|first=Don|title=The Geologic History of the Moon}}</ref>',
+      metadata('wikipedia'),
+    );
+    const grokBook = parseMarkdownStructuredArticle(
+      topic,
+      '# Moon\n\nText.',
+      metadata('grokipedia'),
+      {
+        citations: [
+          {
+            title: 'The geologic history of the Moon',
+            url: 'https://pubs.usgs.gov/pp/1348',
+            authors: ['Don E. Wilhelms'],
+          },
+        ],
+      },
+    );
+    expect(matchCitations(book.references, grokBook.references).matches).toMatchObject([
+      { method: 'title_author' },
+    ]);
+  });
+});
+
+describe('short citations', () => {
+  const WIKITEXT = `The Moon formed 4.5 billion years ago.{{sfn|Canup|Asphaug|2001|pp=708–712}} Its far side was first photographed in 1959.<ref>{{harvnb|Wilhelms|1987|p=12}}</ref> It is the fifth-largest moon.<ref name="nasa">{{cite web|url=https://nasa.gov/moon|title=Moon facts}}</ref>{{rp|4}} {{harvtxt|Wilhelms|1987}} mapped its geology.
+
+== Bibliography ==
+* {{cite journal|last1=Canup|first1=Robin M.|last2=Asphaug|first2=Erik|title=Origin of the Moon in a giant impact|journal=Nature|date=16 August 2001|doi=10.1038/35089010}}
+* {{cite book|last=Wilhelms|first=Don E.|year=1987|title=The Geologic History of the Moon|isbn=0-306-40615-2}}
+* {{cite book|last=Spudis|year=1996|title=The Once and Future Moon}}`;
+
+  const article = parseWikiArticle(topic, WIKITEXT, metadata('wikipedia'));
+  const byId = new Map(article.references.map((reference) => [reference.citation_id, reference]));
+
+  it('resolves sfn and harvnb to bibliography entries with their pages', () => {
+    const sfn = byId.get('r_sfn_canupasphaug2001_708_712');
+    expect(sfn).toMatchObject({
+      full_citation_id: 'r_bib_canupasphaug2001',
+      cited_pages: ['708–712'],
+      normalized: { doi: '10.1038/35089010', pages: '708–712' },
+    });
+    expect(byId.get('r_bib_canupasphaug2001')?.normalized.title).toBe(
+      'Origin of the Moon in a giant impact',
+    );
+    expect(byId.get('r_sfn_wilhelms1987_12')).toMatchObject({
+      full_citation_id: 'r_bib_wilhelms1987',
+      normalized: { isbn: '9780306406157', pages: '12' },
+    });
+  });
+
+  it('only keeps bibliography entries that are cited', () => {
+    expect(byId.has('r_bib_spudis1996')).toBe(false);
+  });
+
+  it('links sentences to short citations and records rp pages', () => {
+    const sentences = article.lead.paragraphs.flatMap((paragraph) => paragraph.sentences);
+    expect(sentences[0].citation_ids).toEqual(['r_sfn_canupasphaug2001_708_712']);
+    expect(sentences[1].citation_ids).toEqual(['r_sfn_wilhelms1987_12']);
+    expect(sentences[2].citation_ids).toEqual(['r_nasa']);
+    expect(byId.get('r_nasa')?.cited_pages).toEqual(['4']);
+    expect(sentences[3].text).toBe('Wilhelms (1987) mapped its geology.');
+    expect(sentences[3].citation_ids).toEqual(['r_sfn_wilhelms1987']);
+  });
+
+  it('keeps unresolved short citations readable', () => {
+    const unresolved = parseWikiArticle(
+      topic,
+      'The Moon is bright.{{sfn|Nobody|2020|p=3}}',
+      metadata('wikipedia'),
+    );
+    expect(unresolved.references).toMatchObject([
+      { full_citation_id: null, normalized: { title: 'Nobody 2020, p. 3' } },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @file tests/contradictions.test.ts
+ * @description Covers NLI contradiction detection on aligned claims. The MNLI model is replaced
+ *              with a deterministic classifier keyed on the claim text.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+const CONTRADICTING = 'The Moon has no atmosphere at all.';
+
+vi.mock('../src/lib/nli-detector', () => ({
+  classifyEntailment: vi.fn(async (premise: string, hypothesis: string) =>
+    premise.includes('thin atmosphere') && hypothesis === CONTRADICTING
+      ? { entailment: 0.02, neutral: 0.08, contradiction: 0.9 }
+      : hypothesis.includes('thin atmosphere') && premise === CONTRADICTING
+        ? { entailment: 0.05, neutral: 0.15, contradiction: 0.8 }
+        : { entailment: 0.9, neutral: 0.08, contradiction: 0.02 },
+  ),
+}));
+
+import type { ClaimAlignmentRecord } from '../src/lib/alignment';
+import { analyzeContent, prepareAnalyzerSource } from '../src/lib/analyzer';
+import { detectContradictions } from '../src/lib/contradictions';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import type { StructuredArticle, StructuredClaim } from '../src/parsers/shared/types';
+
+const topic = {
+  id: 'moon',
+  title: 'Moon',
+  wikipedia_slug: 'Moon',
+  grokipedia_slug: 'page/Moon',
+};
+
+const claim = (claimId: string, text: string): StructuredClaim => ({
+  claim_id: claimId,
+  text,
+  normalized_text: text.toLowerCase(),
+  entities: [],
+  time: null,
+  temporal: [],
+  numbers: [],
+  citation_ids: [],
+});
+
+const toStructured = (markdown: string, source: 'wikipedia' | 'grokipedia'): StructuredArticle =>
+  parseMarkdownStructuredArticle(
+    topic,
+    markdown,
+    {
+      source,
+      pageId: `${source}:${topic.id}`,
+      lang: 'en',
+      title: topic.title,
+      canonicalUrl: `https://example.org/${topic.id}/${source}`,
+      revisionId: `${source}-test`,
+      revisionTimestamp: '2025-01-01T00:00:00Z',
+    },
+    { citations: [] },
+  );
+
+describe('detectContradictions', () => {
+  it('flags confident contradictions with both claim ids and annotates every pair', async () => {
+    const alignments: ClaimAlignmentRecord[] = [
+      {
+        reference: claim('c1', 'The Moon has a thin atmosphere called an exosphere.'),
+        candidate: claim('c4', 'The Moon has no atmosphere at all.'),
+        similarity: 0.7,
+        method: 'string',
+      },
+      {
+        reference: claim('c2', 'The Moon orbits Earth.'),
+        candidate: claim('c5', 'The Moon circles Earth.'),
+        similarity: 0.8,
+        method: 'string',
+      },
+      { reference: claim('c3', 'Unmatched claim.'), similarity: 0.1, method: null },
+    ];
+    const classify = vi.fn(async (premise: string, hypothesis: string) =>
+      premise.includes('thin') || hypothesis.includes('thin')
+        ? { entailment: 0.05, neutral: 0.1, contradiction: 0.85 }
+        : { entailment: 0.85, neutral: 0.1, contradiction: 0.05 },
+    );
+
+    const events = await detectContradictions(alignments, classify);
+
+    expect(classify).toHaveBeenCalledTimes(4);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'contradiction',
+      evidence: { reference_claim_id: 'c1', candidate_claim_id: 'c4' },
+      severity: 5,
+    });
+    expect(alignments[0].nli).toMatchObject({ label: 'contradiction', confidence: 0.85 });
+    expect(alignments[1].nli?.label).toBe('entailment');
+    expect(alignments[2].nli).toBeUndefined();
+  });
+
+  it('ignores contradictions below the confidence threshold', async () => {
+    const alignments: ClaimAlignmentRecord[] = [
+      {
+        reference: claim('c1', 'A'),
+        candidate: claim('c2', 'B'),
+        similarity: 0.7,
+        method: 'string',
+      },
+    ];
+    const events = await detectContradictions(alignments, async () => ({
+      entailment: 0.2,
+      neutral: 0.2,
+      contradiction: 0.6,
+    }));
+    expect(events).toHaveLength(0);
+    expect(alignments[0].nli?.label).toBe('contradiction');
+  });
+});
+
+describe('analyzeContent with NLI', () => {
+  it('emits contradiction discrepancies only when enabled', async () => {
+    const wiki = prepareAnalyzerSource(
+      toStructured('# Moon\n\nThe Moon has a thin atmosphere at all.', 'wikipedia'),
+    );
+    const grok = prepareAnalyzerSource(toStructured(`# Moon\n\n${CONTRADICTING}`, 'grokipedia'));
+
+    const baseline = await analyzeContent(topic, wiki, grok);
+    expect(baseline.contradictions).toBeUndefined();
+    expect(baseline.discrepancies.some((d) => d.type === 'contradiction')).toBe(false);
+
+    const withNli = await analyzeContent(topic, wiki, grok, { nli: true });
+    const aligned = withNli.claim_alignment.filter(
+      (record) => record.reference && record.candidate,
+    );
+    expect(aligned.length).toBeGreaterThan(0);
+    expect(withNli.contradictions).toHaveLength(1);
+    expect(withNli.discrepancies.some((d) => d.type === 'contradiction')).toBe(true);
+    expect(withNli.contradictions?.[0].evidence.candidate).toBe(CONTRADICTING);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @file tests/discrepancies.test.ts
+ * @description Covers unit-aware numeric comparison (convert-table normalization, pairing every
+ *              number by role, per-unit/role tolerances) and temporal comparison of aligned claims.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { ClaimAlignmentRecord } from '../src/lib/alignment';
+import { detectNumericDiscrepancies, detectTemporalDiscrepancies } from '../src/lib/discrepancies';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import { resolveUnit } from '../src/parsers/wiki/convert';
+import type { StructuredArticle, StructuredClaim } from '../src/parsers/shared/types';
+
+const topic = {
+  id: 'moon',
+  title: 'Moon',
+  wikipedia_slug: 'Moon',
+  grokipedia_slug: 'page/Moon',
+};
+
+const toStructured = (markdown: string, source: 'wikipedia' | 'grokipedia'): StructuredArticle =>
+  parseMarkdownStructuredArticle(
+    topic,
+    markdown,
+    {
+      source,
+      pageId: `${source}:${topic.id}`,
+      lang: 'en',
+      title: topic.title,
+      canonicalUrl: `https://example.org/${topic.id}/${source}`,
+      revisionId: `${source}-test`,
+      revisionTimestamp: '2025-01-01T00:00:00Z',
+    },
+    { citations: [] },
+  );
+
+const claimOf = (sentence: string, source: 'wikipedia' | 'grokipedia'): StructuredClaim =>
+  toStructured(`# Moon\n\n${sentence}`, source).claims[0];
+
+const align = (wiki: string, grok: string): ClaimAlignmentRecord[] => [
+  {
+    reference: claimOf(wiki, 'wikipedia'),
+    candidate: claimOf(grok, 'grokipedia'),
+    similarity: 0.8,
+    method: 'string',
+  },
+];
+
+describe('resolveUnit', () => {
+  it('resolves keys, symbols, and spelled-out names from the convert table', () => {
+    expect(resolveUnit('km')?.utype).toBe('length');
+    expect(resolveUnit('miles')?.symbol).toBe('mi');
+    expect(resolveUnit('kilometers')?.symbol).toBe('km');
+    expect(resolveUnit('°F')?.utype).toBe('temperature');
+    expect(resolveUnit('furlongs per fortnight')).toBeNull();
+  });
+});
+
+describe('detectNumericDiscrepancies', () => {
+  it('treats equivalent values in different units as agreeing', () => {
+    const alignments = align(
+      'The Moon orbits at an average distance of 384,400 km from Earth.',
+      'The Moon orbits at an average distance of 238,855 miles from Earth.',
+    );
+    expect(detectNumericDiscrepancies(alignments)).toEqual([]);
+  });
+
+  it('reports converted differences across units', () => {
+    const [discrepancy] = detectNumericDiscrepancies(
+      align(
+        'The Moon orbits at an average distance of 384,400 km from Earth.',
+        'The Moon orbits at an average distance of 300,000 miles from Earth.',
+      ),
+    );
+    expect(discrepancy).toMatchObject({ role: 'length', tolerance: 0.05 });
+    expect(discrepancy.converted_value?.unit).toBe('km');
+    expect(discrepancy.converted_value?.value).toBeCloseTo(482803.2, 1);
+    expect(discrepancy.relative_difference).toBeCloseTo(0.204, 3);
+    expect(discrepancy.description).toContain('300,000 miles ≈ 482,803 km');
+  });
+
+  it('pairs every number by role rather than only the first', () => {
+    const discrepancies = detectNumericDiscrepancies(
+      align(
+        'In 1969 the crew spent 21 days on a 3,474 km wide Moon.',
+        'In 1969 the crew spent 21 days on a 2,159 mi wide Moon.',
+      ),
+    );
+    expect(discrepancies).toEqual([]);
+
+    const shifted = detectNumericDiscrepancies(
+      align(
+        'In 1969 the crew collected 382 kg of samples across 6 missions.',
+        'In 1972 the crew collected 382 kg of samples across 9 missions.',
+      ),
+    );
+    expect(shifted.map((entry) => entry.role)).toEqual(['count']);
+  });
+
+  it('compares temperatures by their difference in degrees', () => {
+    const [warm] = detectNumericDiscrepancies(
+      align('The lake reaches 20 °C in summer.', 'The lake reaches 30 °C in summer.'),
+    );
+    expect(warm).toMatchObject({ role: 'temperature', tolerance: 1, absolute_difference: 10 });
+
+    const [boiling] = detectNumericDiscrepancies(
+      align('Water boils at 100 °C at sea level.', 'Water boils at 115 °C at sea level.'),
+    );
+    expect(boiling.absolute_difference).toBe(15);
+
+    expect(
+      detectNumericDiscrepancies(
+        align('Water boils at 100 °C at sea level.', 'Water boils at 212 °F at sea level.'),
+      ),
+    ).toEqual([]);
+  });
+
+  it('applies configured per-unit and per-role tolerances', () => {
+    const alignments = align(
+      'The Moon has a mean radius of 1,737 km and a surface gravity of 16.6%.',
+      'The Moon has a mean radius of 1,700 km and a surface gravity of 16.0%.',
+    );
+    expect(detectNumericDiscrepancies(alignments)).toEqual([]);
+
+    const strict = detectNumericDiscrepancies(alignments, {
+      tolerances: { km: 0.01, percent: 0.01 },
+    });
+    expect(strict.map((entry) => [entry.role, entry.tolerance])).toEqual([
+      ['length', 0.01],
+      ['percent', 0.01],
+    ]);
+  });
+});
+
+describe('detectTemporalDiscrepancies', () => {
+  it('reports dates that cannot describe the same moment', () => {
+    const [discrepancy, ...rest] = detectTemporalDiscrepancies(
+      align(
+        'Albert Einstein was born on 14 March 1879 and died in 1955.',
+        'Albert Einstein was born on March 14, 1878 and died in 1955.',
+      ),
+    );
+    expect(rest).toEqual([]);
+    expect(discrepancy.reference_value).toMatchObject({ raw: '14 March 1879', precision: 'day' });
+    expect(discrepancy.candidate_value).toMatchObject({ raw: 'March 14, 1878' });
+    expect(discrepancy.description).toBe('Date mismatch (14 March 1879 vs March 14, 1878).');
+  });
+
+  it('accepts coarser, ranged, and circa expressions that overlap', () => {
+    expect(
+      detectTemporalDiscrepancies(
+        align(
+          'The city was founded c. 753 BC and flourished from 1914 to 1918.',
+          'The city was founded in 750 BC and flourished 1914–18.',
+        ),
+      ),
+    ).toEqual([]);
+    expect(
+      detectTemporalDiscrepancies(
+        align('The band formed in March 1965.', 'The band formed in the 1960s.'),
+      ),
+    ).toEqual([]);
+  });
+
+  it('does not shift pairings when one side omits a date', () => {
+    expect(
+      detectTemporalDiscrepancies(
+        align('Construction began in 1889 and ended in 1892.', 'Construction ended in 1892.'),
+      ),
+    ).toEqual([]);
+
+    const discrepancies = detectTemporalDiscrepancies(
+      align(
+        'Construction began in 1889 and ended in 1892.',
+        'Construction ended in 1893 after starting in 1889.',
+      ),
+    );
+    expect(
+      discrepancies.map((entry) => [entry.reference_value.raw, entry.candidate_value.raw]),
+    ).toEqual([['1892', '1893']]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * @file tests/http.test.ts
+ * @description Covers retry/backoff, Retry-After handling, per-host spacing, conditional
+ *              revalidation, and cache pruning in the shared HTTP client.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/shared/paths', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'gwaln-http-'));
+  return {
+    paths: {
+      ROOT: root,
+      CACHE_DIR: path.join(root, 'cache'),
+      HTTP_CACHE_DIR: path.join(root, 'cache', 'http'),
+      ensureDir: (target: string) => fs.mkdirSync(target, { recursive: true }),
+    },
+  };
+});
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(),
+}));
+
+import fetch from 'node-fetch';
+import {
+  configureHttpClient,
+  httpGetBuffer,
+  httpGetText,
+  httpRequest,
+  HttpError,
+  HttpTimeoutError,
+  parseRetryAfter,
+  pruneHttpCache,
+} from '../src/shared/http';
+import { paths } from '../src/shared/paths';
+
+const mockFetch = fetch as unknown as ReturnType<typeof vi.fn>;
+
+const reply = (status: number, body: string, headers: Record<string, string> = {}) => ({
+  status,
+  statusText: status === 200 ? 'OK' : 'Error',
+  ok: status >= 200 && status < 300,
+  headers: new Headers(headers),
+  text: async () => body,
+});
+
+describe('shared HTTP client', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    fs.rmSync(paths.CACHE_DIR, { recursive: true, force: true });
+    configureHttpClient({ baseDelayMs: 1, maxDelayMs: 20, maxRetries: 2, rateLimits: {} });
+  });
+
+  afterAll(() => {
+    fs.rmSync(paths.ROOT, { recursive: true, force: true });
+  });
+
+  it('retries transient failures with backoff', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce(reply(503, 'busy'))
+      .mockResolvedValueOnce(reply(200, 'ok'));
+
+    await expect(httpGetText('https://example.org/a', { cache: false })).resolves.toBe('ok');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('honors Retry-After and surfaces the final status as an HttpError', async () => {
+    mockFetch.mockResolvedValue(reply(429, 'slow down', { 'Retry-After': '0' }));
+
+    await expect(httpGetText('https://example.org/b', { cache: false })).rejects.toBeInstanceOf(
+      HttpError,
+    );
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors', async () => {
+    mockFetch.mockResolvedValue(reply(404, 'missing'));
+
+    const response = await httpRequest('https://example.org/c', { cache: false });
+    expect(response.status).toBe(404);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('revalidates cached responses with ETag and Last-Modified', async () => {
+    mockFetch.mockResolvedValueOnce(
+      reply(200, 'v1', { ETag: '"abc"', 'Last-Modified': 'Wed, 01 Oct 2025 00:00:00 GMT' }),
+    );
+    await httpGetText('https://example.org/d');
+
+    mockFetch.mockResolvedValueOnce(reply(304, ''));
+    const response = await httpRequest('https://example.org/d');
+
+    const headers = mockFetch.mock.calls[1][1].headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBe('"abc"');
+    expect(headers['If-Modified-Since']).toBe('Wed, 01 Oct 2025 00:00:00 GMT');
+    expect(response.fromCache).toBe(true);
+    expect(response.text).toBe('v1');
+  });
+
+  it('retries timeouts unless the request opts out', async () => {
+    mockFetch.mockImplementation(
+      (_url: string, init: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+        }),
+    );
+
+    await expect(
+      httpRequest('https://example.org/slow', { method: 'POST', body: '{}', timeoutMs: 5 }),
+    ).rejects.toThrow(/failed after 3 attempt\(s\): .*timed out after 5ms/);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+
+    mockFetch.mockClear();
+    const once = httpRequest('https://example.org/slow', {
+      method: 'POST',
+      body: '{}',
+      timeoutMs: 5,
+      retryTimeouts: false,
+    });
+    await expect(once).rejects.toBeInstanceOf(HttpTimeoutError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('never caches requests with a body', async () => {
+    mockFetch.mockResolvedValue(reply(200, '{}', { ETag: '"x"' }));
+    await httpRequest('https://example.org/e', { method: 'POST', body: '{}' });
+    await httpRequest('https://example.org/e', { method: 'POST', body: '{}' });
+
+    expect(mockFetch.mock.calls[1][1].headers['If-None-Match']).toBeUndefined();
+    expect(fs.existsSync(paths.HTTP_CACHE_DIR)).toBe(false);
+  });
+
+  it('spaces requests to rate-limited hosts', async () => {
+    configureHttpClient({ rateLimits: { 'example.org': 40 } });
+    const startedAt: number[] = [];
+    mockFetch.mockImplementation(async () => {
+      startedAt.push(Date.now());
+      return reply(200, 'ok');
+    });
+
+    await Promise.all([
+      httpRequest('https://en.example.org/1', { cache: false }),
+      httpRequest('https://en.example.org/2', { cache: false }),
+    ]);
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(35);
+  });
+
+  it('streams binary bodies and stops at the size limit', async () => {
+    const chunks = [
+      Buffer.from('%PDF-1.7 '),
+      Buffer.from('a'.repeat(8)),
+      Buffer.from('b'.repeat(8)),
+    ];
+    mockFetch.mockResolvedValue({
+      ...reply(200, '', { 'Content-Type': 'application/pdf' }),
+      body: chunks.values(),
+    });
+
+    const response = await httpGetBuffer('https://example.org/report.pdf', { maxBytes: 12 });
+    expect(response.body.toString()).toBe('%PDF-1.7 aaa');
+    expect(response.truncated).toBe(true);
+    expect(response.headers['content-type']).toBe('application/pdf');
+
+    mockFetch.mockResolvedValue({ ...reply(200, ''), body: chunks.values() });
+    await expect(httpGetBuffer('https://example.org/report.pdf')).resolves.toMatchObject({
+      truncated: false,
+    });
+
+    mockFetch.mockResolvedValue(reply(404, 'missing'));
+    await expect(httpGetBuffer('https://example.org/gone.pdf')).rejects.toBeInstanceOf(HttpError);
+  });
+
+  it('releases retried bodies and caps error bodies when streaming', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ...reply(503, ''), body: [Buffer.from('busy')].values() })
+      .mockResolvedValueOnce({
+        ...reply(500, ''),
+        body: [Buffer.from('x'.repeat(40)), Buffer.from('y'.repeat(40))].values(),
+      });
+
+    const failure = await httpGetBuffer('https://example.org/big.pdf', {
+      maxRetries: 1,
+      maxBytes: 50,
+    }).catch((error: unknown) => error);
+    expect(failure).toBeInstanceOf(HttpError);
+    expect((failure as HttpError).body).toBe(`${'x'.repeat(40)}${'y'.repeat(10)}`);
+    expect(mockFetch.mock.calls.every(([, init]) => init.signal.aborted)).toBe(true);
+  });
+
+  it('prunes cache entries by age and total size', async () => {
+    mockFetch.mockImplementation(async (url: string) => reply(200, `body of ${url}`));
+    await httpGetText('https://example.org/old');
+    await httpGetText('https://example.org/older');
+    await httpGetText('https://example.org/new');
+    const files = fs
+      .readdirSync(paths.HTTP_CACHE_DIR, { recursive: true, encoding: 'utf8' })
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => path.join(paths.HTTP_CACHE_DIR, name));
+    const [oldFile, olderFile, newFile] = ['/old', '/older', '/new'].map(
+      (suffix) =>
+        files.find((file) => JSON.parse(fs.readFileSync(file, 'utf8')).url.endsWith(suffix))!,
+    );
+    const now = Date.now();
+    const hoursAgo = (hours: number) => new Date(now - hours * 60 * 60 * 1000);
+    fs.utimesSync(olderFile, hoursAgo(48), hoursAgo(48));
+    fs.utimesSync(oldFile, hoursAgo(2), hoursAgo(2));
+
+    configureHttpClient({
+      cacheMaxAgeMs: 24 * 60 * 60 * 1000,
+      cacheMaxBytes: fs.statSync(newFile).size + 10,
+    });
+    expect(pruneHttpCache(now)).toMatchObject({ removed: 2, remaining: 1 });
+    expect(fs.existsSync(newFile)).toBe(true);
+    expect(fs.existsSync(oldFile)).toBe(false);
+    expect(fs.existsSync(olderFile)).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts delta seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Wed, 01 Oct 2025 00:00:10 GMT', Date.UTC(2025, 9, 1))).toBe(10_000);
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
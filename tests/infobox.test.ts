@@ -0,0 +1,121 @@
+/**
+ * @file tests/infobox.test.ts
+ * @description Covers infobox parsing from wikitext (template rendering, references, ignored
+ *              parameters) and the field-by-field comparison against Grokipedia claims.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from 'vitest';
+import { analyzeContent, prepareAnalyzerSource } from '../src/lib/analyzer';
+import { compareInfobox } from '../src/lib/infobox-comparison';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import { buildInfobox } from '../src/parsers/shared/infobox';
+import type { StructuredArticle, StructuredInfobox } from '../src/parsers/shared/types';
+import { parseInfobox, parseWikiArticle } from '../src/parsers/wiki';
+
+const topic = {
+  id: 'einstein',
+  title: 'Albert Einstein',
+  wikipedia_slug: 'Albert_Einstein',
+  grokipedia_slug: 'page/Albert_Einstein',
+};
+
+const metadata = (source: 'wikipedia' | 'grokipedia') => ({
+  source,
+  pageId: `${source}:${topic.id}`,
+  lang: 'en',
+  title: topic.title,
+  canonicalUrl: `https://example.org/${topic.id}/${source}`,
+  revisionId: `${source}-test`,
+  revisionTimestamp: '2025-01-01T00:00:00Z',
+});
+
+const WIKITEXT = `{{Infobox scientist
+| name        = Albert Einstein
+| image       = Einstein 1921.jpg
+| birth_date  = {{birth date|1879|3|14|df=y}}
+| death_date  = {{death date and age|1955|4|18|1879|3|14|df=y}}<ref>Obituary.</ref>
+| height      = {{convert|1.75|m|ftin}}
+| fields      = Physics<br>Philosophy
+}}
+'''Albert Einstein''' was a German-born theoretical physicist.`;
+
+const grokArticle = (markdown: string, infobox: StructuredInfobox | null = null) =>
+  parseMarkdownStructuredArticle(topic, markdown, metadata('grokipedia'), {
+    citations: [],
+    infobox,
+  });
+
+describe('parseInfobox', () => {
+  it('renders templates, drops references and presentation parameters', () => {
+    const infobox = parseInfobox(WIKITEXT);
+    expect(infobox?.template).toBe('Infobox scientist');
+    const fields = new Map(infobox?.fields.map((field) => [field.key, field]));
+    expect(fields.has('image')).toBe(false);
+    expect(fields.get('birth_date')?.value).toBe('14 March 1879');
+    expect(fields.get('birth_date')?.temporal[0]).toMatchObject({ precision: 'day' });
+    expect(fields.get('death_date')?.value).not.toContain('Obituary');
+    expect(fields.get('height')?.numbers[0]).toMatchObject({ value: 1.75, unit: 'm' });
+    expect(fields.get('fields')?.value).toBe('Physics, Philosophy');
+  });
+
+  it('is attached to the parsed article and removed from the prose', () => {
+    const article = parseWikiArticle(topic, WIKITEXT, metadata('wikipedia'));
+    expect(article.infobox?.fields.map((field) => field.key)).toContain('birth_date');
+    expect(article.claims.some((claim) => claim.text.includes('birth_date'))).toBe(false);
+  });
+});
+
+describe('compareInfobox', () => {
+  const wiki = (): StructuredArticle => parseWikiArticle(topic, WIKITEXT, metadata('wikipedia'));
+
+  it('reports fields contradicted by Grokipedia claims', () => {
+    const { comparisons, events } = compareInfobox(
+      wiki(),
+      grokArticle(
+        '# Albert Einstein\n\nEinstein was born on 14 March 1878 in Ulm. He died on 18 April 1955 in Princeton.',
+      ),
+    );
+    const byField = new Map(comparisons.map((entry) => [entry.field, entry]));
+    expect(byField.get('birth_date')).toMatchObject({ status: 'mismatch' });
+    expect(byField.get('death_date')).toMatchObject({ status: 'consistent' });
+    expect(byField.get('height')?.status).toBe('not_found');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'infobox_mismatch',
+      evidence: { infobox_field: 'birth_date' },
+      tags: ['infobox', 'date_mismatch'],
+    });
+  });
+
+  it('checks the Grokipedia infobox field with the same key first', () => {
+    const { comparisons, events } = compareInfobox(
+      wiki(),
+      grokArticle(
+        '# Albert Einstein\n\nEinstein was a physicist.',
+        buildInfobox('Infobox', [
+          ['Born', '14 March 1879'],
+          ['Birth date', '1879-03-14'],
+        ]),
+      ),
+    );
+    const byField = new Map(comparisons.map((entry) => [entry.field, entry]));
+    expect(byField.get('birth_date')).toMatchObject({
+      status: 'consistent',
+      candidate_claim_id: 'infobox:birth_date',
+    });
+    expect(events).toEqual([]);
+  });
+
+  it('adds infobox mismatches to the analyzer payload', async () => {
+    const payload = await analyzeContent(
+      topic,
+      prepareAnalyzerSource(wiki()),
+      prepareAnalyzerSource(
+        grokArticle('# Albert Einstein\n\nEinstein was born on 14 March 1878 in Ulm.'),
+      ),
+    );
+    expect(payload.infobox_comparisons.some((entry) => entry.status === 'mismatch')).toBe(true);
+    expect(payload.discrepancies.some((entry) => entry.type === 'infobox_mismatch')).toBe(true);
+  });
+});
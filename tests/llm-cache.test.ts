@@ -0,0 +1,319 @@
+/**
+ * @file tests/llm-cache.test.ts
+ * @description Covers the content-addressed model output cache (keys, TTL, statistics, pruning)
+ *              and per-run usage and cost accounting.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/shared/paths', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'gwaln-llm-cache-'));
+  return {
+    paths: {
+      ROOT: root,
+      CACHE_DIR: path.join(root, 'cache'),
+      LLM_CACHE_DIR: path.join(root, 'cache', 'llm'),
+      ensureDir: (target: string) => fs.mkdirSync(target, { recursive: true }),
+    },
+  };
+});
+
+vi.mock('../src/shared/config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/config')>()),
+  readConfig: vi.fn(() => ({})),
+}));
+
+import {
+  cachedModelCall,
+  configureLlmCache,
+  createLlmUsageRecorder,
+  findLlmPrice,
+  getLlmCacheCounters,
+  inspectLlmCache,
+  llmCacheKey,
+  type LlmProvider,
+  type LlmRequest,
+  pruneLlmCache,
+  resetLlmCache,
+  withLlmCache,
+} from '../src/llm';
+import { readConfig } from '../src/shared/config';
+import { paths } from '../src/shared/paths';
+import { runLlmCacheWorkflow } from '../src/workflows/cache-workflow';
+
+const mockConfig = readConfig as unknown as ReturnType<typeof vi.fn>;
+
+const HOUR = 60 * 60 * 1000;
+
+const countingProvider = (overrides: Partial<LlmProvider> = {}) => {
+  const requests: LlmRequest[] = [];
+  const provider: LlmProvider = {
+    id: 'openai',
+    type: 'openai',
+    endpoint: 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+    complete: async (request) => {
+      requests.push(request);
+      return {
+        text: `reply ${requests.length}`,
+        model: 'gpt-4o-mini-2024-07-18',
+        usage: { inputTokens: 1000, outputTokens: 500 },
+      };
+    },
+    ...overrides,
+  };
+  return { provider, requests };
+};
+
+describe('LLM cache', () => {
+  beforeEach(() => {
+    fs.rmSync(paths.CACHE_DIR, { recursive: true, force: true });
+    mockConfig.mockReturnValue({});
+    resetLlmCache();
+  });
+
+  afterAll(() => {
+    fs.rmSync(paths.ROOT, { recursive: true, force: true });
+  });
+
+  it('answers repeated requests from disk and records usage and cost', async () => {
+    const { provider, requests } = countingProvider();
+    const usage = createLlmUsageRecorder();
+    const cached = withLlmCache(provider, usage);
+
+    const first = await cached.complete({ prompt: 'Compare', system: 'Be brief.', json: true });
+    const second = await withLlmCache(provider, usage).complete({
+      json: true,
+      system: 'Be brief.',
+      prompt: 'Compare',
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(first).toMatchObject({ text: 'reply 1' });
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ text: 'reply 1', cached: true });
+    expect(getLlmCacheCounters()).toEqual({ hits: 1, misses: 1 });
+    expect(usage.report()).toEqual({
+      calls: 2,
+      cache_hits: 1,
+      cache_misses: 1,
+      input_tokens: 1000,
+      output_tokens: 500,
+      cost_usd: 0.00045,
+      models: [
+        {
+          provider: 'openai',
+          model: 'gpt-4o-mini-2024-07-18',
+          calls: 2,
+          cache_hits: 1,
+          input_tokens: 1000,
+          output_tokens: 500,
+          cost_usd: 0.00045,
+        },
+      ],
+    });
+  });
+
+  it('keys entries by prompt, provider, model, and parameters', async () => {
+    const { provider, requests } = countingProvider();
+    const cached = withLlmCache(provider);
+
+    await cached.complete({ prompt: 'Compare' });
+    await cached.complete({ prompt: 'Compare', temperature: 0.2 });
+    await cached.complete({ prompt: 'Compare', system: 'Be brief.' });
+    await cached.complete({ prompt: 'Compare again' });
+    await withLlmCache({ ...provider, model: 'gpt-4o' }).complete({ prompt: 'Compare' });
+    await withLlmCache({ ...provider, id: 'onprem' }).complete({ prompt: 'Compare' });
+    await cached.complete({ prompt: 'Compare' });
+
+    expect(requests).toHaveLength(6);
+    expect(llmCacheKey({ provider: 'a', model: 'm', params: { x: 1, y: 2 }, input: 'i' })).toBe(
+      llmCacheKey({ input: 'i', model: 'm', provider: 'a', params: { y: 2, x: 1, z: undefined } }),
+    );
+  });
+
+  it('keys local servers by endpoint and the model they report', async () => {
+    let loaded: string | null = '/models/qwen2.5-7b.gguf';
+    const serverModel = vi.fn(async () => loaded);
+    const { provider, requests } = countingProvider({
+      id: 'llamacpp',
+      type: 'llamacpp',
+      endpoint: 'http://localhost:8080/v1',
+      model: 'local',
+      serverModel,
+    });
+
+    await withLlmCache(provider).complete({ prompt: 'Compare' });
+    await withLlmCache(provider).complete({ prompt: 'Compare' });
+    expect(requests).toHaveLength(1);
+    expect(serverModel).toHaveBeenCalledTimes(1);
+
+    await withLlmCache({ ...provider, endpoint: 'http://gpu-box:8080/v1' }).complete({
+      prompt: 'Compare',
+    });
+    expect(requests).toHaveLength(2);
+
+    loaded = '/models/llama3.1-8b.gguf';
+    resetLlmCache();
+    await withLlmCache(provider).complete({ prompt: 'Compare' });
+    expect(requests).toHaveLength(3);
+
+    loaded = null;
+    resetLlmCache();
+    serverModel.mockRejectedValueOnce(new Error('connection refused'));
+    await withLlmCache(provider).complete({ prompt: 'Compare' });
+    await withLlmCache(provider).complete({ prompt: 'Compare' });
+    expect(requests).toHaveLength(4);
+  });
+
+  it('expires entries after the TTL and never caches failures', async () => {
+    configureLlmCache({ ttlHours: 1 });
+    let calls = 0;
+    const compute = async () => {
+      calls += 1;
+      if (calls === 1) throw new Error('model crashed');
+      return { value: calls };
+    };
+    const parts = { provider: 'transformers', model: 'Xenova/test', input: 'sentence' };
+
+    await expect(cachedModelCall(parts, compute)).rejects.toThrow(/model crashed/);
+    expect(await cachedModelCall(parts, compute)).toBe(2);
+    expect(await cachedModelCall(parts, compute)).toBe(2);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(Date.now() + 2 * HOUR);
+      expect(await cachedModelCall(parts, compute)).toBe(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('bypasses the disk when disabled in .gwalnrc.json', async () => {
+    mockConfig.mockReturnValue({ llmCache: false });
+    resetLlmCache();
+    const { provider, requests } = countingProvider();
+    const usage = createLlmUsageRecorder();
+
+    await withLlmCache(provider, usage).complete({ prompt: 'Compare' });
+    await withLlmCache(provider, usage).complete({ prompt: 'Compare' });
+
+    expect(requests).toHaveLength(2);
+    expect(fs.existsSync(paths.LLM_CACHE_DIR)).toBe(false);
+    expect(usage.report()).toMatchObject({ calls: 2, cache_hits: 0, cost_usd: 0.0009 });
+  });
+
+  it('reports statistics and prunes expired entries', async () => {
+    const { provider } = countingProvider();
+    const cached = withLlmCache(provider);
+    await cached.complete({ prompt: 'one' });
+    await cached.complete({ prompt: 'one' });
+    await cached.complete({ prompt: 'one' });
+    await cached.complete({ prompt: 'two' });
+    await cachedModelCall(
+      { provider: 'transformers', model: 'Xenova/bart-large-mnli', input: 'sentence' },
+      async () => ({ value: { scores: [0.9, 0.1] } }),
+    );
+    const shard = path.join(paths.LLM_CACHE_DIR, 'zz');
+    fs.mkdirSync(shard, { recursive: true });
+    fs.writeFileSync(path.join(shard, 'broken.json'), '{');
+
+    const stats = inspectLlmCache();
+    expect(stats).toMatchObject({
+      dir: paths.LLM_CACHE_DIR,
+      enabled: true,
+      ttl_hours: 720,
+      entries: 3,
+      expired: 0,
+      invalid: 1,
+      hits: 2,
+      hit_rate: 0.4,
+    });
+    expect(stats.bytes).toBeGreaterThan(0);
+    expect(stats.models).toEqual([
+      { provider: 'openai', model: 'gpt-4o-mini-2024-07-18', entries: 2, hits: 2 },
+      { provider: 'transformers', model: 'Xenova/bart-large-mnli', entries: 1, hits: 0 },
+    ]);
+
+    expect(pruneLlmCache()).toMatchObject({ removed: 1, remaining: 3 });
+    expect(fs.existsSync(shard)).toBe(false);
+    expect(pruneLlmCache({ now: Date.now() + 721 * HOUR })).toMatchObject({
+      removed: 3,
+      remaining: 0,
+    });
+    expect(inspectLlmCache()).toMatchObject({ entries: 0, hit_rate: null, oldest: null });
+  });
+
+  it('prunes through the cache workflow', async () => {
+    await withLlmCache(countingProvider().provider).complete({ prompt: 'one' });
+
+    expect(() => runLlmCacheWorkflow({ all: true })).toThrow(/--prune --all/);
+    expect(runLlmCacheWorkflow().stats.entries).toBe(1);
+    const result = runLlmCacheWorkflow({ prune: true, all: true });
+    expect(result.pruned).toMatchObject({ removed: 1, remaining: 0 });
+    expect(result.stats.entries).toBe(0);
+  });
+});
+
+describe('LLM usage accounting', () => {
+  beforeEach(() => {
+    mockConfig.mockReturnValue({});
+  });
+
+  it('matches prices by name or dated prefix', () => {
+    expect(findLlmPrice('gpt-4o')).toEqual({ input: 2.5, output: 10 });
+    expect(findLlmPrice('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(findLlmPrice('gemini-1.5-flash-002')).toEqual({ input: 0.075, output: 0.3 });
+    expect(findLlmPrice('llama3.1')).toBeUndefined();
+  });
+
+  it('keeps local models free and lists unpriced hosted models', () => {
+    mockConfig.mockReturnValue({ llmPricing: { 'qwen2.5-14b': { input: 1, output: 2 } } });
+    const usage = createLlmUsageRecorder();
+    const usage2 = createLlmUsageRecorder();
+    usage.record({
+      provider: 'ollama',
+      model: 'llama3.1',
+      cached: false,
+      local: true,
+      usage: { inputTokens: 5000, outputTokens: 100 },
+    });
+    usage.record({
+      provider: 'onprem',
+      model: 'qwen2.5-14b',
+      cached: false,
+      usage: { inputTokens: 1_000_000, outputTokens: 500_000 },
+    });
+    usage2.record({
+      provider: 'openai',
+      model: 'mystery-model',
+      cached: false,
+      usage: { inputTokens: 10 },
+    });
+    usage2.record({ provider: 'transformers', model: 'Xenova/x', cached: true, local: true });
+    usage.merge(usage2.report());
+    usage.merge(undefined);
+
+    const report = usage.report();
+    expect(report).toMatchObject({
+      calls: 4,
+      cache_hits: 1,
+      cache_misses: 3,
+      input_tokens: 1_005_010,
+      output_tokens: 500_100,
+      cost_usd: 2,
+      unpriced_models: ['mystery-model'],
+    });
+    expect(report?.models.map((row) => [row.model, row.cost_usd])).toEqual([
+      ['llama3.1', 0],
+      ['qwen2.5-14b', 2],
+      ['mystery-model', null],
+      ['Xenova/x', 0],
+    ]);
+    expect(createLlmUsageRecorder().report()).toBeUndefined();
+  });
+});
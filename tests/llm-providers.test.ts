@@ -0,0 +1,255 @@
+/**
+ * @file tests/llm-providers.test.ts
+ * @description Runs the Gemini, OpenAI-compatible, and Ollama providers against a local mock
+ *              server and covers provider resolution from `.gwalnrc.json`.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AnalysisPayload, DiscrepancyRecord } from '../src/lib/analyzer';
+import { biasVerificationRecords, verifyDiscrepancies } from '../src/lib/llm-verifier';
+import { createLlmProvider, resolveLlmProviderConfig } from '../src/llm';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import { readConfig } from '../src/shared/config';
+import { configureHttpClient, resetHttpClient } from '../src/shared/http';
+
+vi.mock('../src/shared/config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/config')>()),
+  readConfig: vi.fn(() => ({})),
+}));
+
+const mockConfig = readConfig as unknown as ReturnType<typeof vi.fn>;
+
+interface CapturedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+const requests: CapturedRequest[] = [];
+let replyWith: (request: CapturedRequest) => unknown = () => ({});
+let replyDelayMs = 0;
+let server: http.Server;
+let endpoint = '';
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const captured = { path: req.url ?? '', headers: req.headers, body: JSON.parse(raw || '{}') };
+      requests.push(captured);
+      setTimeout(() => {
+        if (res.destroyed) return;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(replyWith(captured)));
+      }, replyDelayMs);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  configureHttpClient({ maxRetries: 0, cache: false, rateLimits: {} });
+});
+
+afterAll(async () => {
+  resetHttpClient();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  replyDelayMs = 0;
+  mockConfig.mockReturnValue({});
+});
+
+describe('LLM providers', () => {
+  it('calls Gemini generateContent with the key in a header', async () => {
+    replyWith = () => ({
+      candidates: [{ content: { parts: [{ text: 'Gemini says hi' }] } }],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3 },
+    });
+    const provider = createLlmProvider(
+      resolveLlmProviderConfig('gemini', { endpoint, geminiKey: 'secret' }),
+    );
+
+    const response = await provider.complete({ prompt: 'Hello', temperature: 0 });
+
+    expect(requests[0].path).toBe('/v1beta/models/gemini-1.5-flash:generateContent');
+    expect(requests[0].headers['x-goog-api-key']).toBe('secret');
+    expect(requests[0].body).toMatchObject({
+      contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+    });
+    expect(response).toMatchObject({
+      text: 'Gemini says hi',
+      usage: { inputTokens: 12, outputTokens: 3 },
+    });
+  });
+
+  it('calls an OpenAI-compatible chat endpoint', async () => {
+    replyWith = (request) => ({
+      model: request.body.model,
+      choices: [{ message: { content: 'Chat says hi' } }],
+      usage: { prompt_tokens: 5, completion_tokens: 2 },
+    });
+    mockConfig.mockReturnValue({
+      llmProviders: { vllm: { type: 'openai', endpoint: `${endpoint}/v1`, model: 'qwen2.5' } },
+    });
+    const provider = createLlmProvider(resolveLlmProviderConfig('vllm'));
+
+    const response = await provider.complete({ prompt: 'Hello', system: 'Be brief.' });
+
+    expect(requests[0].path).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body).toMatchObject({
+      model: 'qwen2.5',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hello' },
+      ],
+    });
+    expect(response).toMatchObject({ text: 'Chat says hi', model: 'qwen2.5' });
+  });
+
+  it('reports the model a local server has loaded', async () => {
+    replyWith = (request) =>
+      request.path === '/v1/models'
+        ? { object: 'list', data: [{ id: '/models/qwen2.5-7b-instruct.gguf' }] }
+        : {
+            models: [
+              { name: 'mistral:latest', digest: 'aaa' },
+              { name: 'llama3.1:latest', digest: 'bbb' },
+            ],
+          };
+    const llamacpp = createLlmProvider(
+      resolveLlmProviderConfig('llamacpp', { endpoint: `${endpoint}/v1` }),
+    );
+    const ollama = createLlmProvider(resolveLlmProviderConfig('ollama', { endpoint }));
+
+    expect(await llamacpp.serverModel?.()).toBe('/models/qwen2.5-7b-instruct.gguf');
+    expect(await ollama.serverModel?.()).toBe('llama3.1:latest@bbb');
+    expect(requests.map((request) => request.path)).toEqual(['/v1/models', '/api/tags']);
+    expect(
+      createLlmProvider(resolveLlmProviderConfig('gemini', { endpoint, geminiKey: 'k' }))
+        .serverModel,
+    ).toBeUndefined();
+  });
+
+  it('sends a timed-out completion once and names the timeout setting', async () => {
+    configureHttpClient({ maxRetries: 3, baseDelayMs: 1, cache: false, rateLimits: {} });
+    replyDelayMs = 200;
+    mockConfig.mockReturnValue({
+      llmProviders: { ollama: { endpoint, model: 'llama3.1', timeoutMs: 50 } },
+    });
+    const provider = createLlmProvider(resolveLlmProviderConfig('ollama'));
+
+    try {
+      await expect(provider.complete({ prompt: 'Hello' })).rejects.toThrow(
+        /did not answer within 50ms; raise llmProviders\.ollama\.timeoutMs/,
+      );
+      expect(requests).toHaveLength(1);
+    } finally {
+      configureHttpClient({ maxRetries: 0, cache: false, rateLimits: {} });
+    }
+  });
+
+  it('verifies bias events through a local Ollama server', async () => {
+    replyWith = () => ({
+      model: 'llama3.1',
+      message: {
+        content:
+          '```json\n[{"index":0,"verdict":"confirm","confidence":1.4,"rationale":"Loaded"}]\n```',
+      },
+    });
+    mockConfig.mockReturnValue({ llmProvider: 'ollama', llmProviders: { ollama: { endpoint } } });
+    const event: DiscrepancyRecord = {
+      type: 'bias_shift',
+      description: 'Loaded wording',
+      evidence: { candidate: 'The so-called experts were wrong.' },
+      tags: ['words_to_watch'],
+    };
+
+    const article = (source: 'wikipedia' | 'grokipedia', markdown: string) =>
+      parseMarkdownStructuredArticle(
+        { id: 'experts', title: 'Experts', wikipedia_slug: 'Experts', grokipedia_slug: 'Experts' },
+        markdown,
+        {
+          source,
+          pageId: source,
+          lang: 'en',
+          title: 'Experts',
+          canonicalUrl: `https://example.org/experts/${source}`,
+          revisionId: `${source}-test`,
+          revisionTimestamp: '2025-01-01T00:00:00Z',
+        },
+        { citations: [] },
+      );
+    const analysis = {
+      discrepancies: [event],
+      bias_events: [event],
+      hallucination_events: [],
+      factual_errors: [],
+      confidence: { label: 'possible_divergence', score: 0.5, rationale: [] },
+    } as unknown as AnalysisPayload;
+
+    await verifyDiscrepancies(
+      analysis,
+      {
+        reference: article('wikipedia', 'Experts disagree.'),
+        candidate: article('grokipedia', 'The so-called experts were wrong.'),
+      },
+      { provider: createLlmProvider(resolveLlmProviderConfig(undefined)) },
+    );
+    const records = biasVerificationRecords(analysis);
+
+    expect(requests[0].path).toBe('/api/chat');
+    expect(requests[0].body).toMatchObject({ model: 'llama3.1', stream: false, format: 'json' });
+    expect(records).toEqual([
+      expect.objectContaining({
+        provider: 'ollama',
+        event_index: 0,
+        verdict: 'confirm',
+        confidence: 1,
+      }),
+    ]);
+  });
+});
+
+describe('LLM provider resolution', () => {
+  it('applies config, environment, and command-line overrides', () => {
+    mockConfig.mockReturnValue({
+      geminiApiKey: 'from-config',
+      llmProviders: { llamacpp: { endpoint: 'http://gpu-box:8080/v1/' } },
+    });
+
+    expect(resolveLlmProviderConfig('gemini', { geminiModel: 'gemini-2.0-flash' })).toMatchObject({
+      type: 'gemini',
+      apiKey: 'from-config',
+      model: 'gemini-2.0-flash',
+    });
+    expect(resolveLlmProviderConfig('llamacpp')).toMatchObject({
+      type: 'llamacpp',
+      endpoint: 'http://gpu-box:8080/v1',
+    });
+    expect(resolveLlmProviderConfig('ollama', { model: 'mistral' }).model).toBe('mistral');
+  });
+
+  it('fails fast on unknown providers and missing hosted API keys', () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('GEMINI_API_KEY', '');
+
+    expect(() => resolveLlmProviderConfig('claude')).toThrow(/Unknown LLM provider 'claude'/);
+    expect(() => resolveLlmProviderConfig('gemini')).toThrow(/--gemini-key/);
+    expect(() => resolveLlmProviderConfig('openai', {}, '--llm-summary')).toThrow(
+      /OPENAI_API_KEY.*--llm-summary openai/,
+    );
+    expect(
+      resolveLlmProviderConfig('openai', { endpoint: 'http://localhost:1234/v1' }).apiKey,
+    ).toBeUndefined();
+
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * @file tests/llm-verifier.test.ts
+ * @description Covers context-aware LLM verification: passage retrieval from both articles,
+ *              token-budget batching, severity and confidence adjustments, schema repairs, and
+ *              prompt fencing of adversarial Grokipedia articles.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { alignSections } from '../src/lib/alignment';
+import {
+  analyzeContent,
+  prepareAnalyzerSource,
+  type AnalysisPayload,
+  type DiscrepancyRecord,
+} from '../src/lib/analyzer';
+import { biasVerificationRecords, verifyDiscrepancies } from '../src/lib/llm-verifier';
+import { defangFenceTags, extractJson, type LlmProvider, type LlmRequest } from '../src/llm';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import type { StructuredArticle } from '../src/parsers/shared/types';
+import { parseWikiArticle } from '../src/parsers/wiki';
+
+const topic = { id: 'moon', title: 'Moon', wikipedia_slug: 'Moon', grokipedia_slug: 'page/Moon' };
+
+const metadata = (source: 'wikipedia' | 'grokipedia') => ({
+  source,
+  pageId: `${source}:${topic.id}`,
+  lang: 'en',
+  title: topic.title,
+  canonicalUrl: `https://example.org/${topic.id}/${source}`,
+  revisionId: `${source}-test`,
+  revisionTimestamp: '2025-01-01T00:00:00Z',
+});
+
+/** The orbit facts sit after several thousand characters of unrelated exploration history. */
+const WIKITEXT = [
+  "The '''Moon''' is Earth's only natural satellite.<ref>{{cite web|url=https://nasa.example/moon|title=Moon overview}}</ref> It formed about 4.5 billion years ago.",
+  '',
+  '== Exploration ==',
+  Array.from(
+    { length: 60 },
+    (_value, index) =>
+      `Mission ${index + 1} studied the lunar surface and returned samples for laboratory analysis.`,
+  ).join(' '),
+  '',
+  '== Orbit ==',
+  'The Moon orbits Earth at an average distance of 384,400 kilometres.<ref>{{cite web|url=https://nasa.example/orbit|title=Orbit facts}}</ref> A sidereal orbit takes 27.3 days.',
+].join('\n');
+
+const GROK_MARKDOWN = [
+  '# Moon',
+  '',
+  "The Moon is Earth's only natural satellite.",
+  '',
+  '## Orbit',
+  '',
+  'The Moon orbits Earth at an average distance of 284,400 kilometres. A sidereal orbit takes 27.3 days.',
+].join('\n');
+
+const wiki = parseWikiArticle(topic, WIKITEXT, metadata('wikipedia'));
+const grokArticle = (markdown: string): StructuredArticle =>
+  parseMarkdownStructuredArticle(topic, markdown, metadata('grokipedia'), { citations: [] });
+
+const payload = (events: DiscrepancyRecord[], grok: StructuredArticle): AnalysisPayload =>
+  ({
+    discrepancies: events,
+    bias_events: events.filter((event) => event.type === 'bias_shift'),
+    hallucination_events: events.filter((event) => event.type === 'hallucination'),
+    factual_errors: events.filter((event) => event.type === 'factual_error'),
+    section_alignment: alignSections(wiki, grok),
+    confidence: { label: 'possible_divergence', score: 0.5, rationale: [] },
+  }) as unknown as AnalysisPayload;
+
+const ORBIT_ERROR: DiscrepancyRecord = {
+  type: 'factual_error',
+  description: 'Significant numeric discrepancy: distance differs',
+  evidence: { reference: '384,400 kilometres', candidate: '284,400 kilometres' },
+  severity: 3,
+};
+
+type Reply = string | ((request: LlmRequest, indices: number[]) => string);
+
+/** Replies in order (the last one repeats); functions receive the event indices of the prompt. */
+const scriptedProvider = (replies: Reply[]) => {
+  const requests: LlmRequest[] = [];
+  const provider: LlmProvider = {
+    id: 'mock',
+    type: 'openai',
+    endpoint: 'http://mock.test/v1',
+    model: 'mock-model',
+    complete: async (request) => {
+      requests.push(request);
+      const reply = replies[Math.min(requests.length - 1, replies.length - 1)];
+      const indices = Array.from(request.prompt.matchAll(/^\[(\d+)\] /gm), (match) =>
+        Number(match[1]),
+      );
+      return {
+        text: typeof reply === 'function' ? reply(request, indices) : reply,
+        model: 'mock-model',
+      };
+    },
+  };
+  return { provider, requests };
+};
+
+const verdicts = (...entries: object[]) => JSON.stringify({ verdicts: entries });
+
+const allVerdicts = (verdict: string) => (_request: LlmRequest, indices: number[]) =>
+  verdicts(...indices.map((index) => ({ index, verdict, confidence: 0.9 })));
+
+describe('verifyDiscrepancies context', () => {
+  it('retrieves the relevant passages and citations beyond the old context window', async () => {
+    const grok = grokArticle(GROK_MARKDOWN);
+    const analysis = payload([{ ...ORBIT_ERROR, evidence: { ...ORBIT_ERROR.evidence } }], grok);
+    const { provider, requests } = scriptedProvider([allVerdicts('confirm')]);
+
+    await verifyDiscrepancies(analysis, { reference: wiki, candidate: grok }, { provider });
+
+    expect(WIKITEXT.indexOf('384,400')).toBeGreaterThan(2500);
+    const { prompt } = requests[0];
+    expect(prompt).toMatch(
+      /- \[Orbit\] The Moon orbits Earth at an average distance of 384,400 kilometres\. \(cites: Orbit facts <https:\/\/nasa\.example\/orbit>\)/,
+    );
+    expect(prompt).toMatch(/Grokipedia passages:\n- \[Orbit\] The Moon orbits Earth .* 284,400/);
+    expect(prompt).not.toContain('Mission 30 studied');
+    const [event] = analysis.discrepancies;
+    expect(event.verification).toMatchObject({ provider: 'mock', verdict: 'confirm' });
+    expect(event.verification?.context).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^reference:/),
+        expect.stringMatching(/^candidate:/),
+      ]),
+    );
+  });
+
+  it('names the compared sources in the instructions and evidence', async () => {
+    const grok = grokArticle(GROK_MARKDOWN);
+    const analysis = payload([{ ...ORBIT_ERROR, evidence: { ...ORBIT_ERROR.evidence } }], grok);
+    const source = (id: string, label: string) => ({ id, label, slug: 'Moon', url: '' });
+    analysis.meta = {
+      sources: {
+        reference: source('dewiki', 'German Wikipedia'),
+        candidate: source('enc', 'Moonpedia'),
+      },
+    } as AnalysisPayload['meta'];
+    const { provider, requests } = scriptedProvider([allVerdicts('confirm')]);
+
+    await verifyDiscrepancies(analysis, { reference: wiki, candidate: grok }, { provider });
+
+    const [{ prompt, system }] = requests;
+    expect(system).toContain('between a German Wikipedia article (the reference) and a Moonpedia');
+    expect(system).toContain('when the Moonpedia article omits');
+    expect(system).not.toMatch(/Grokipedia/);
+    expect(prompt).toContain('German Wikipedia evidence: 384,400 kilometres');
+    expect(prompt).toContain('Moonpedia evidence: 284,400 kilometres');
+    expect(prompt).toMatch(/Moonpedia passages:\n- \[Orbit\]/);
+    expect(prompt).not.toMatch(/Grokipedia|^Wikipedia (evidence|passages)/m);
+  });
+
+  it('packs events into batches that fit the token budget', async () => {
+    const grok = grokArticle(GROK_MARKDOWN);
+    const events: DiscrepancyRecord[] = Array.from({ length: 12 }, (_value, index) => ({
+      type: 'added_claim',
+      description: `Sentence ${index} present on Grokipedia but absent on Wikipedia.`,
+      evidence: { candidate: `Claim number ${index} about the orbit of the Moon.` },
+    }));
+    const analysis = payload(events, grok);
+    const { provider, requests } = scriptedProvider([allVerdicts('reject')]);
+
+    const summary = await verifyDiscrepancies(
+      analysis,
+      { reference: wiki, candidate: grok },
+      { provider, tokenBudget: 400, maxEventsPerBatch: 5 },
+    );
+
+    expect(summary).toMatchObject({ verified: 12, rejected: 12, batches: requests.length });
+    expect(requests.length).toBeGreaterThanOrEqual(3);
+    requests.forEach(({ prompt }) => {
+      const count = prompt.match(/^\[\d+\] /gm)?.length ?? 0;
+      expect(count).toBeGreaterThan(0);
+      expect(count).toBeLessThanOrEqual(5);
+    });
+    expect(events.every((event) => event.verification?.verdict === 'reject')).toBe(true);
+  });
+});
+
+describe('verifyDiscrepancies outcomes', () => {
+  it('adjusts severity, confidence, and the bias verification view', async () => {
+    const grok = grokArticle(GROK_MARKDOWN);
+    const bias: DiscrepancyRecord = {
+      type: 'bias_shift',
+      description: 'Loaded wording',
+      evidence: { candidate: 'The so-called experts were wrong about the orbit.' },
+      severity: 2,
+      tags: ['words_to_watch'],
+    };
+    const factual = { ...ORBIT_ERROR };
+    const analysis = payload([factual, bias], grok);
+    const { provider } = scriptedProvider([
+      verdicts(
+        { index: 0, verdict: 'confirm', confidence: 0.9, rationale: 'Different distance' },
+        { index: 1, verdict: 'reject', confidence: 0.7, rationale: 'Neutral in context' },
+      ),
+    ]);
+
+    const summary = await verifyDiscrepancies(
+      analysis,
+      { reference: wiki, candidate: grok },
+      { provider },
+    );
+
+    expect(summary).toMatchObject({ verified: 2, confirmed: 1, rejected: 1, uncertain: 0 });
+    expect(factual.severity).toBe(4);
+    expect(bias.severity).toBe(1);
+    expect(analysis.bias_events[0].verification?.verdict).toBe('reject');
+    expect(analysis.confidence.score).toBe(0.48);
+    expect(analysis.confidence.rationale[analysis.confidence.rationale.length - 1]).toMatch(
+      /confirmed 1 and rejected 1 of 2/,
+    );
+    expect(biasVerificationRecords(analysis)).toEqual([
+      {
+        provider: 'mock',
+        event_index: 0,
+        verdict: 'reject',
+        confidence: 0.7,
+        rationale: 'Neutral in context',
+      },
+    ]);
+  });
+
+  it('only verifies the requested types', async () => {
+    const grok = grokArticle(GROK_MARKDOWN);
+    const factual = { ...ORBIT_ERROR };
+    const analysis = payload([factual], grok);
+    const { provider, requests } = scriptedProvider([allVerdicts('confirm')]);
+
+    const summary = await verifyDiscrepancies(
+      analysis,
+      { reference: wiki, candidate: grok },
+      { provider, types: ['bias_shift'] },
+    );
+
+    expect(requests).toHaveLength(0);
+    expect(summary.verified).toBe(0);
+    expect(factual.verification).toBeUndefined();
+    expect(analysis.confidence.rationale).toEqual([]);
+  });
+});
+
+describe('verifyDiscrepancies responses', () => {
+  const grok = grokArticle(GROK_MARKDOWN);
+  const events = (): DiscrepancyRecord[] => [
+    { ...ORBIT_ERROR },
+    {
+      type: 'hallucination',
+      description: 'Grokipedia uses speculative or unverified language.',
+      evidence: { candidate: 'Some say the Moon is hollow.' },
+      severity: 4,
+    },
+  ];
+
+  const run = (replies: Reply[]) => {
+    const scripted = scriptedProvider(replies);
+    const analysis = payload(events(), grok);
+    return {
+      ...scripted,
+      analysis,
+      result: verifyDiscrepancies(
+        analysis,
+        { reference: wiki, candidate: grok },
+        { provider: scripted.provider },
+      ),
+    };
+  };
+
+  it('accepts a bare array wrapped in prose and code fences', async () => {
+    const { analysis, result } = run([
+      'Here you go:\n```json\n[{"index":1,"verdict":" Reject ","confidence":7},{"index":0,"verdict":"confirm"}]\n```',
+    ]);
+    await result;
+
+    expect(
+      analysis.discrepancies.map(({ verification }) => [
+        verification?.verdict,
+        verification?.confidence,
+      ]),
+    ).toEqual([
+      ['confirm', null],
+      ['reject', 1],
+    ]);
+  });
+
+  it('sends malformed replies back for repair', async () => {
+    const { analysis, requests, result } = run([
+      'I cannot decide {"verdicts": [',
+      verdicts({ index: 0, verdict: 'confirm' }, { index: 1, verdict: 'reject' }),
+    ]);
+    await result;
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].prompt).toMatch(/previous reply could not be used/);
+    expect(requests[1].prompt).toMatch(/source="previous-reply">\nI cannot decide/);
+    expect(analysis.discrepancies.map((event) => event.verification?.verdict)).toEqual([
+      'confirm',
+      'reject',
+    ]);
+  });
+
+  it('falls back to uncertain per event when repairs fail', async () => {
+    const { analysis, requests, result } = run([
+      verdicts(
+        { index: 0, verdict: 'reject', confidence: 0.4 },
+        { index: 1, verdict: 'maybe' },
+        { index: 9, verdict: 'confirm' },
+      ),
+    ]);
+    const summary = await result;
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].prompt).toMatch(/verdicts\.1\.verdict/);
+    const [first, second] = analysis.discrepancies;
+    expect(first.verification).toMatchObject({ verdict: 'reject', confidence: 0.4 });
+    expect(second.verification).toMatchObject({ verdict: 'uncertain', confidence: null });
+    expect(second.verification?.rationale).toMatch(/malformed JSON after 2 attempt/);
+    expect(second.severity).toBe(4);
+    expect(summary.uncertain).toBe(1);
+  });
+
+  it('ignores out-of-range and duplicate indices', async () => {
+    const { analysis, result } = run([
+      verdicts(
+        { index: 0, verdict: 'confirm' },
+        { index: 0, verdict: 'reject' },
+        { index: 5, verdict: 'reject' },
+      ),
+    ]);
+    await result;
+
+    const [first, second] = analysis.discrepancies;
+    expect(first.verification?.verdict).toBe('confirm');
+    expect(second.verification).toMatchObject({ verdict: 'uncertain' });
+    expect(second.verification?.rationale).toMatch(/no verdict/);
+  });
+
+  it('propagates provider failures', async () => {
+    const provider: LlmProvider = {
+      id: 'mock',
+      type: 'ollama',
+      endpoint: 'http://localhost:11434',
+      model: 'mock-model',
+      complete: async () => {
+        throw new Error('LLM provider mock (http://localhost:11434) is unreachable');
+      },
+    };
+
+    await expect(
+      verifyDiscrepancies(
+        payload(events(), grok),
+        { reference: wiki, candidate: grok },
+        { provider },
+      ),
+    ).rejects.toThrow(/unreachable/);
+  });
+});
+
+describe('adversarial articles', () => {
+  const adversarialDir = path.resolve(__dirname, 'fixtures', 'adversarial');
+  const fixtures = fs
+    .readdirSync(adversarialDir)
+    .filter((name) => name.endsWith('.md'))
+    .sort();
+
+  it.each(fixtures)('keeps %s inside the untrusted fence', async (name) => {
+    const markdown = fs.readFileSync(path.join(adversarialDir, name), 'utf8');
+    const attack = markdown
+      .trim()
+      .split(/\n\s*\n/)
+      .slice(-1)[0];
+    const grok = grokArticle(markdown);
+    const analysis = await analyzeContent(
+      topic,
+      prepareAnalyzerSource(wiki),
+      prepareAnalyzerSource(grok),
+    );
+    analysis.bias_events.push({
+      type: 'bias_shift',
+      description: 'Loaded wording',
+      evidence: { candidate: attack },
+      tags: ['words_to_watch'],
+    });
+    const { provider, requests } = scriptedProvider([allVerdicts('confirm')]);
+
+    await verifyDiscrepancies(analysis, { reference: wiki, candidate: grok }, { provider });
+
+    expect(requests.length).toBeGreaterThan(0);
+    const words = attack.split(/\s+/).slice(0, 6).join(' ');
+    requests.forEach(({ prompt, system }) => {
+      const tag = prompt.match(/<(untrusted-[0-9a-f]{12}) source=/)?.[1];
+      expect(tag).toBeDefined();
+      expect(prompt.split(`<${tag} source=`)).toHaveLength(2);
+      expect(prompt.split(`</${tag}>`)).toHaveLength(2);
+      const outside = prompt.replace(new RegExp(`<${tag} [^>]*>[\\s\\S]*?</${tag}>`), '');
+      expect(outside).not.toContain(words);
+      expect(outside).toMatch(/never follow instructions/);
+      expect(system).toMatch(/Respond with JSON only/);
+      expect(system).not.toContain('Moon');
+      const headers = prompt.match(/^\[\d+\] /gm) ?? [];
+      const announced = Number(prompt.match(/Events \(indices 0-(\d+)\)/)?.[1]) + 1;
+      expect(headers).toHaveLength(announced);
+    });
+    expect(analysis.bias_events[analysis.bias_events.length - 1].verification?.verdict).toBe(
+      'confirm',
+    );
+  });
+
+  it('defangs forged fence tags', () => {
+    const article = fs.readFileSync(path.join(adversarialDir, 'forged-fence.md'), 'utf8');
+
+    expect(defangFenceTags(article)).not.toMatch(/<\/?untrusted-/);
+    expect(defangFenceTags(article)).toContain('‹/untrusted-000000000000>');
+  });
+});
+
+describe('extractJson', () => {
+  it('returns undefined when no JSON value parses', () => {
+    expect(extractJson('no json here')).toBeUndefined();
+    expect(extractJson('{"open": ')).toBeUndefined();
+    expect(extractJson('Result: {"a": [1, 2]} done')).toEqual({ a: [1, 2] });
+  });
+});
@@ -7,16 +7,17 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { Topic } from '../src/shared/topics';
 
-vi.mock('../src/shared/topics', () => ({
+vi.mock('../src/shared/topics', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/topics')>()),
   loadTopics: vi.fn(),
   writeTopics: vi.fn(),
 }));
 
-vi.mock('node-fetch', () => ({
-  default: vi.fn(),
+vi.mock('../src/shared/http', () => ({
+  httpRequest: vi.fn(),
 }));
 
-import fetch from 'node-fetch';
+import { httpRequest } from '../src/shared/http';
 import { loadTopics, writeTopics } from '../src/shared/topics';
 import {
   findInLocalCatalog,
@@ -26,7 +27,7 @@ import {
   runLookupWorkflow,
 } from '../src/workflows/lookup-workflow';
 
-const mockFetch = fetch as unknown as ReturnType<typeof vi.fn>;
+const mockFetch = httpRequest as unknown as ReturnType<typeof vi.fn>;
 const mockLoadTopics = loadTopics as unknown as ReturnType<typeof vi.fn>;
 const mockWriteTopics = writeTopics as unknown as ReturnType<typeof vi.fn>;
 
@@ -70,6 +71,30 @@ describe('addTopicToCatalog', () => {
     expect(newTopic.title).toBe('Bitcoin');
     expect(mockWriteTopics).toHaveBeenCalled();
   });
+
+  it('records the language for non-English topics', () => {
+    const newTopic = addTopicToCatalog({
+      title: 'Mond',
+      wikipediaSlug: 'Mond',
+      grokipediaSlug: 'page/Mond',
+      lang: 'de',
+    });
+
+    expect(newTopic.id).toBe('mond-de');
+    expect(newTopic.lang).toBe('de');
+  });
+
+  it('refuses a language code that is not a Wikipedia edition', () => {
+    expect(() =>
+      addTopicToCatalog({
+        title: 'Moon',
+        wikipediaSlug: 'Moon',
+        grokipediaSlug: 'page/Moon',
+        lang: 'en.evil.com',
+      }),
+    ).toThrow(/Invalid Wikipedia language code/);
+    expect(mockWriteTopics).not.toHaveBeenCalled();
+  });
 });
 
 describe('searchGrokipedia', () => {
@@ -81,7 +106,7 @@ describe('searchGrokipedia', () => {
     const mockResults = [{ title: 'Bitcoin', slug: 'Bitcoin' }];
     mockFetch.mockResolvedValueOnce({
       ok: true,
-      json: async () => ({ results: mockResults }),
+      text: JSON.stringify({ results: mockResults }),
     } as never);
 
     const results = await searchGrokipedia('bitcoin');
@@ -106,13 +131,30 @@ describe('searchWikipedia', () => {
     const mockPages = [{ key: 'Bitcoin', title: 'Bitcoin' }];
     mockFetch.mockResolvedValueOnce({
       ok: true,
-      json: async () => ({ pages: mockPages }),
+      text: JSON.stringify({ pages: mockPages }),
     } as never);
 
     const results = await searchWikipedia('bitcoin');
     expect(results).toEqual(mockPages);
   });
 
+  it('queries the Wikipedia edition for the requested language', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      text: JSON.stringify({ pages: [] }),
+    } as never);
+
+    await searchWikipedia('Mond', 5, 'de');
+    expect(mockFetch.mock.calls[0][0]).toContain('https://de.wikipedia.org/w/rest.php');
+  });
+
+  it('rejects language codes that are not Wikipedia editions', async () => {
+    await expect(searchWikipedia('Moon', 5, 'evil.com/x#')).rejects.toThrow(
+      /Invalid Wikipedia language code "evil.com\/x#"/,
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
   it('returns empty array on error', async () => {
     mockFetch.mockRejectedValueOnce(new Error('API error'));
     const results = await searchWikipedia('test');
@@ -145,11 +187,11 @@ describe('runLookupWorkflow', () => {
     mockFetch
       .mockResolvedValueOnce({
         ok: true,
-        json: async () => ({ results: [{ title: 'Test', slug: 'Test' }] }),
+        text: JSON.stringify({ results: [{ title: 'Test', slug: 'Test' }] }),
       } as never)
       .mockResolvedValueOnce({
         ok: true,
-        json: async () => ({ pages: [{ key: 'Test', title: 'Test' }] }),
+        text: JSON.stringify({ pages: [{ key: 'Test', title: 'Test' }] }),
       } as never);
 
     const result = await runLookupWorkflow({ query: 'test', searchApis: true });
@@ -0,0 +1,227 @@
+/**
+ * @file tests/model-manager.test.ts
+ * @description Covers per-pipeline model resolution, offline fail-fast loading, and the
+ *              `gwaln models` pull/verify/path workflows against a stubbed transformers.js.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/shared/paths', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'gwaln-models-'));
+  return {
+    paths: {
+      ROOT: root,
+      MODELS_DIR: path.join(root, 'models'),
+      ensureDir: (target: string) => fs.mkdirSync(target, { recursive: true }),
+    },
+  };
+});
+
+vi.mock('../src/shared/config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/config')>()),
+  readConfig: vi.fn(() => ({})),
+}));
+
+/** Stands in for a Hub download: writes the files transformers.js would cache. */
+vi.mock('@xenova/transformers', () => ({
+  pipeline: vi.fn(
+    async (
+      task: string,
+      model: string,
+      options: { cache_dir: string; quantized: boolean; progress_callback?: (e: object) => void },
+    ) => {
+      const dir = path.join(options.cache_dir, model);
+      const weights = options.quantized ? 'onnx/model_quantized.onnx' : 'onnx/model.onnx';
+      ['config.json', 'tokenizer.json', weights].forEach((file) => {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), `${model}:${file}`);
+        options.progress_callback?.({ status: 'done', name: model, file });
+      });
+      return { task, model };
+    },
+  ),
+}));
+
+import { pipeline } from '@xenova/transformers';
+import {
+  isModelCached,
+  listModels,
+  loadModelPipeline,
+  ModelUnavailableError,
+  modelDirectory,
+  resolveModelPipeline,
+  resolveModelSettings,
+  verifyModel,
+} from '../src/lib/model-manager';
+import { readConfig } from '../src/shared/config';
+import { paths } from '../src/shared/paths';
+import {
+  parseModelPipelines,
+  runModelsPathWorkflow,
+  runModelsPullWorkflow,
+  runModelsVerifyWorkflow,
+} from '../src/workflows/models-workflow';
+
+const mockConfig = readConfig as unknown as ReturnType<typeof vi.fn>;
+const mockPipeline = pipeline as unknown as ReturnType<typeof vi.fn>;
+
+describe('model manager', () => {
+  beforeEach(() => {
+    fs.rmSync(paths.MODELS_DIR, { recursive: true, force: true });
+    mockConfig.mockReturnValue({});
+    mockPipeline.mockClear();
+    delete process.env.GWALN_OFFLINE;
+  });
+
+  afterEach(() => {
+    delete process.env.GWALN_OFFLINE;
+  });
+
+  afterAll(() => {
+    fs.rmSync(paths.ROOT, { recursive: true, force: true });
+  });
+
+  it('applies per-pipeline overrides and the model cache directory from config', () => {
+    mockConfig.mockReturnValue({
+      modelCacheDir: '~/models-cache',
+      models: {
+        embedding: { model: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2' },
+        summary: { quantized: false, revision: 'v2' },
+      },
+    });
+
+    expect(resolveModelPipeline('bias')).toMatchObject({
+      task: 'zero-shot-classification',
+      model: 'Xenova/bart-large-mnli',
+      quantized: true,
+      revision: 'main',
+      overridden: false,
+    });
+    expect(resolveModelPipeline('embedding')).toMatchObject({
+      model: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+      overridden: true,
+    });
+    const summary = resolveModelPipeline('summary');
+    expect(summary).toMatchObject({ quantized: false, revision: 'v2', overridden: true });
+    expect(resolveModelSettings()).toEqual({
+      cacheDir: path.join(os.homedir(), 'models-cache'),
+      offline: false,
+    });
+    expect(modelDirectory(summary)).toBe(
+      path.join(os.homedir(), 'models-cache', 'Xenova/distilbart-cnn-6-6', 'v2'),
+    );
+  });
+
+  it('fails fast offline when a model is missing', async () => {
+    process.env.GWALN_OFFLINE = '1';
+
+    const load = loadModelPipeline('summary');
+
+    await expect(load).rejects.toBeInstanceOf(ModelUnavailableError);
+    await expect(load).rejects.toThrow(
+      /Xenova\/distilbart-cnn-6-6 for the summary pipeline is not in .* Run `gwaln models pull summary`/,
+    );
+    expect(mockPipeline).not.toHaveBeenCalled();
+    await expect(runModelsPullWorkflow({ pipelines: ['summary'] })).rejects.toThrow(
+      /Cannot download Xenova\/distilbart-cnn-6-6 in offline mode/,
+    );
+  });
+
+  it('loads cached models offline without network access', async () => {
+    await runModelsPullWorkflow({ pipelines: ['embedding'] });
+    mockPipeline.mockClear();
+    mockConfig.mockReturnValue({ modelOffline: true });
+
+    await loadModelPipeline('embedding');
+
+    expect(mockPipeline).toHaveBeenCalledWith(
+      'feature-extraction',
+      'Xenova/all-MiniLM-L6-v2',
+      expect.objectContaining({ cache_dir: paths.MODELS_DIR, local_files_only: true }),
+    );
+  });
+
+  it('shares one pipeline instance between pipelines using the same model', async () => {
+    const bias = await loadModelPipeline('bias');
+    const nli = await loadModelPipeline('nli');
+
+    expect(nli).toBe(bias);
+    expect(mockPipeline).toHaveBeenCalledTimes(1);
+  });
+
+  it('pulls each model once and records checksums', async () => {
+    const progress: string[] = [];
+
+    const records = await runModelsPullWorkflow({
+      pipelines: parseModelPipelines(['bias', 'nli', 'summary', 'bias']),
+      onProgress: (pipeline, event) => progress.push(`${pipeline}:${event.file}`),
+    });
+
+    expect(mockPipeline).toHaveBeenCalledTimes(2);
+    expect(records.map((record) => [record.pipeline, record.files, record.sharedWith])).toEqual([
+      ['bias', 3, undefined],
+      ['nli', 3, 'bias'],
+      ['summary', 3, undefined],
+    ]);
+    expect(progress).toContain('summary:onnx/model_quantized.onnx');
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(records[0].dir, '.gwaln-manifest.json'), 'utf8'),
+    );
+    expect(manifest).toMatchObject({ model: 'Xenova/bart-large-mnli', quantized: true });
+    expect(manifest.files.map((file: { path: string }) => file.path)).toEqual([
+      'config.json',
+      'onnx/model_quantized.onnx',
+      'tokenizer.json',
+    ]);
+    expect(listModels().map((entry) => [entry.spec.id, entry.cached, entry.manifest])).toEqual([
+      ['bias', true, true],
+      ['nli', true, true],
+      ['summary', true, true],
+      ['embedding', false, false],
+    ]);
+  });
+
+  it('detects modified, deleted, and unrecorded model files', async () => {
+    const [record] = await runModelsPullWorkflow({ pipelines: ['summary'] });
+    expect(await verifyModel('summary')).toMatchObject({ status: 'ok', checked: 3 });
+
+    fs.writeFileSync(path.join(record.dir, 'tokenizer.json'), 'tampered');
+    fs.rmSync(path.join(record.dir, 'config.json'));
+    expect(await verifyModel('summary')).toMatchObject({
+      status: 'corrupt',
+      modified: ['tokenizer.json'],
+      missing: ['config.json'],
+    });
+
+    fs.rmSync(path.join(record.dir, '.gwaln-manifest.json'));
+    fs.writeFileSync(path.join(record.dir, 'config.json'), '{}');
+    const [summary, embedding] = await runModelsVerifyWorkflow({
+      pipelines: ['summary', 'embedding'],
+    });
+    expect(summary.status).toBe('unverified');
+    expect(embedding.status).toBe('missing');
+  });
+
+  it('checks weights for the configured quantization', async () => {
+    await runModelsPullWorkflow({ pipelines: ['bias'] });
+    expect(isModelCached(resolveModelPipeline('bias'))).toBe(true);
+
+    mockConfig.mockReturnValue({ models: { bias: { quantized: false } } });
+    expect(isModelCached(resolveModelPipeline('bias'))).toBe(false);
+  });
+
+  it('resolves paths and rejects unknown pipelines', () => {
+    expect(runModelsPathWorkflow()).toBe(paths.MODELS_DIR);
+    expect(runModelsPathWorkflow('nli')).toBe(
+      path.join(paths.MODELS_DIR, 'Xenova/bart-large-mnli'),
+    );
+    expect(parseModelPipelines()).toEqual(['bias', 'nli', 'summary', 'embedding']);
+    expect(() => parseModelPipelines(['bias', 'ner'])).toThrow(
+      "Unknown model pipeline 'ner'. Use bias, nli, summary, embedding, or omit it for all.",
+    );
+  });
+});
@@ -46,18 +46,19 @@ const baseAnalysis: AnalysisPayload = {
   citations: {
     missing: ['https://nasa.gov/moon'],
     extra: [],
+    matches: [],
   },
   diff_sample: ['--- moon-wiki', '+++ moon-grok'],
   discrepancies: [
     {
       type: 'missing_context',
       description: 'Moon article omits NASA program paragraph.',
-      evidence: { wikipedia: 'NASA section text' },
+      evidence: { reference: 'NASA section text' },
     },
     {
       type: 'added_claim',
       description: 'Grokipedia adds conspiratorial claim.',
-      evidence: { grokipedia: 'Conspiracy snippet' },
+      evidence: { candidate: 'Conspiracy snippet' },
     },
   ],
   bias_events: [],
@@ -75,6 +76,49 @@ const baseAnalysis: AnalysisPayload = {
   section_alignment: [],
   claim_alignment: [],
   numeric_discrepancies: [],
+  temporal_discrepancies: [],
+  infobox_comparisons: [],
+  table_comparisons: [],
+  source_overlap: {
+    reference_source_count: 0,
+    candidate_source_count: 0,
+    shared_source_count: 0,
+    overlap_ratio: 0,
+    reference_retained_ratio: 0,
+    candidate_shared_ratio: 0,
+    domains: { reference: [], candidate: [] },
+    dropped: [],
+    added: [],
+  },
+  source_quality: {
+    reference: {
+      reference_count: 0,
+      counts: {
+        generally_reliable: 0,
+        no_consensus: 0,
+        generally_unreliable: 0,
+        deprecated: 0,
+        blacklisted: 0,
+        unknown: 0,
+      },
+      reliable_share: 0,
+      deprecated_share: 0,
+    },
+    candidate: {
+      reference_count: 0,
+      counts: {
+        generally_reliable: 0,
+        no_consensus: 0,
+        generally_unreliable: 0,
+        deprecated: 0,
+        blacklisted: 0,
+        unknown: 0,
+      },
+      reliable_share: 0,
+      deprecated_share: 0,
+    },
+    references: [],
+  },
   entity_discrepancies: [],
   bias_metrics: {
     subjectivity_delta: 0,
@@ -131,4 +175,42 @@ describe('buildCommunityNote', () => {
     },
     30000,
   );
+
+  it('names and links the compared sources from the analysis', async () => {
+    const source = (id: string, label: string) => ({
+      id,
+      label,
+      slug: 'Moon',
+      url: `https://example.org/moon/${id}`,
+    });
+    const analysis = buildStructuredAnalysis(topic, {
+      ...baseAnalysis,
+      meta: {
+        ...baseAnalysis.meta,
+        sources: {
+          reference: source('dewiki', 'German Wikipedia'),
+          candidate: source('moonpedia', 'Moonpedia'),
+        },
+      },
+    });
+    const note = await buildCommunityNote(topic, analysis, { summary: 'Reviewed.' });
+    expect(note['claimReviewed']).toBe(
+      'Comparison of Moon entries on Moonpedia and German Wikipedia',
+    );
+    expect(note['citation']).toEqual([
+      {
+        '@type': 'CreativeWork',
+        name: 'German Wikipedia',
+        url: 'https://example.org/moon/dewiki',
+      },
+      { '@type': 'CreativeWork', name: 'Moonpedia', url: 'https://example.org/moon/moonpedia' },
+    ]);
+    const targets = (note['hasPart'] as Array<{ target: Array<{ source: string }> }>).map(
+      (annotation) => annotation.target[0].source,
+    );
+    expect(targets).toEqual([
+      'https://example.org/moon/dewiki',
+      'https://example.org/moon/moonpedia',
+    ]);
+  });
 });
@@ -0,0 +1,183 @@
+/**
+ * @file tests/offline-fetch.test.ts
+ * @description Exercises `gwaln fetch --from-file` against local fixtures, directories, and
+ *              MediaWiki XML dumps without touching the network.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/shared/paths', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'gwaln-offline-'));
+  const dataDir = path.join(root, 'data');
+  return {
+    paths: {
+      ROOT: root,
+      DATA_DIR: dataDir,
+      WIKI_DIR: path.join(dataDir, 'wiki'),
+      GROK_DIR: path.join(dataDir, 'grok'),
+      HISTORY_DIR: path.join(dataDir, 'history'),
+      ensureDir: (target: string) => fs.mkdirSync(target, { recursive: true }),
+    },
+  };
+});
+
+vi.mock('../src/shared/topics', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/topics')>()),
+  loadTopics: () => ({
+    moon: { id: 'moon', title: 'Moon', wikipedia_slug: 'Moon', grokipedia_slug: 'page/Moon' },
+    venus: { id: 'venus', title: 'Venus', wikipedia_slug: 'Venus', grokipedia_slug: 'page/Venus' },
+  }),
+}));
+
+vi.mock('node-fetch', () => ({
+  default: vi.fn(() => Promise.reject(new Error('network disabled in tests'))),
+}));
+
+import type { StructuredArticle } from '../src/parsers/shared/types';
+import { parseWikiDumpPage } from '../src/parsers/wiki';
+import { paths } from '../src/shared/paths';
+import { fetchHandler } from '../src/tools/fetch';
+import { runFetchWorkflow } from '../src/workflows/fetch-workflow';
+
+const fixturesDir = path.resolve(__dirname, 'fixtures');
+
+const readSnapshot = (source: 'wiki' | 'grok', topicId: string): StructuredArticle =>
+  JSON.parse(
+    fs.readFileSync(
+      path.join(source === 'wiki' ? paths.WIKI_DIR : paths.GROK_DIR, `${topicId}.parsed.json`),
+      'utf8',
+    ),
+  ) as StructuredArticle;
+
+const venusDump = `<mediawiki xmlns="http://www.mediawiki.org/xml/export-0.11/" xml:lang="en">
+  <siteinfo><sitename>Wikipedia</sitename></siteinfo>
+  <page>
+    <title>Talk:Venus</title>
+    <ns>1</ns>
+    <id>1</id>
+    <revision><id>10</id><timestamp>2025-01-01T00:00:00Z</timestamp><text>Talk page.</text></revision>
+  </page>
+  <page>
+    <title>Venus</title>
+    <ns>0</ns>
+    <id>32745</id>
+    <revision>
+      <id>1234567</id>
+      <timestamp>2025-10-01T12:00:00Z</timestamp>
+      <text xml:space="preserve">'''Venus''' is the second planet from the Sun &amp; the hottest planet in the Solar System. It has a dense atmosphere of carbon dioxide.
+
+== Orbit ==
+Venus orbits the Sun every 224.7 Earth days. Its rotation is retrograde and very slow.</text>
+    </revision>
+  </page>
+</mediawiki>`;
+
+describe('offline fetch', () => {
+  beforeEach(() => {
+    fs.rmSync(paths.DATA_DIR, { recursive: true, force: true });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    fs.rmSync(paths.ROOT, { recursive: true, force: true });
+  });
+
+  it('parses a single wikitext file for the given topic', async () => {
+    await runFetchWorkflow('wiki', 'moon', {
+      fromFile: path.join(fixturesDir, 'wiki-moon.raw'),
+    });
+    const article = readSnapshot('wiki', 'moon');
+    expect(article.source).toBe('wikipedia');
+    expect(article.revision.id).toMatch(/^local-[0-9a-f]{12}$/);
+    expect(article.lead.paragraphs.length).toBeGreaterThan(0);
+    expect(article.canonical_url).toBe('https://en.wikipedia.org/wiki/Moon');
+  });
+
+  it('matches fixture files in a directory to topics by name', async () => {
+    await runFetchWorkflow('grok', undefined, { fromFile: fixturesDir });
+    const article = readSnapshot('grok', 'moon');
+    expect(article.source).toBe('grokipedia');
+    expect(article.revision.id).toMatch(/^grok-local-/);
+    expect(article.sections.length).toBeGreaterThan(0);
+    expect(article.sections[0].heading).not.toBe('Moon');
+    expect(fs.existsSync(path.join(paths.GROK_DIR, 'venus.parsed.json'))).toBe(false);
+  });
+
+  it('loads matching articles from a MediaWiki XML dump', async () => {
+    const dumpPath = path.join(paths.ROOT, 'dump.xml');
+    fs.writeFileSync(dumpPath, venusDump, 'utf8');
+    await runFetchWorkflow('wiki', 'venus', { fromFile: dumpPath });
+    const article = readSnapshot('wiki', 'venus');
+    expect(article.revision).toEqual({ id: '1234567', timestamp: '2025-10-01T12:00:00Z' });
+    expect(article.sections.map((section) => section.heading)).toContain('Orbit');
+  });
+
+  it('keeps HTML tables as structured tables instead of prose', async () => {
+    const htmlPath = path.join(paths.ROOT, 'venus.html');
+    fs.writeFileSync(
+      htmlPath,
+      `<html><body><h1>Venus</h1><p>Venus is the second planet from the Sun.</p>
+<h2>Orbit</h2><p>Venus orbits the Sun every 224.7 Earth days.</p>
+<table><caption>Orbital data</caption>
+<tr><th>Property</th><th>Value</th></tr>
+<tr><td>Period</td><td>224.7 days</td></tr>
+<tr><td colspan="2">Retrograde rotation</td></tr>
+</table></body></html>`,
+      'utf8',
+    );
+    await runFetchWorkflow('grok', 'venus', { fromFile: htmlPath });
+    const article = readSnapshot('grok', 'venus');
+    expect(article.tables).toEqual([
+      {
+        table_id: 't1',
+        section_id: 'sec-orbit',
+        caption: 'Orbital data',
+        headers: ['Property', 'Value'],
+        rows: [
+          [
+            { text: 'Period', citation_ids: [] },
+            { text: '224.7 days', citation_ids: [] },
+          ],
+          [
+            { text: 'Retrograde rotation', citation_ids: [] },
+            { text: 'Retrograde rotation', citation_ids: [] },
+          ],
+        ],
+      },
+    ]);
+    expect(article.claims.some((claim) => claim.text.includes('Period'))).toBe(false);
+  });
+
+  it('rejects offline input for both sources at once', async () => {
+    await expect(
+      runFetchWorkflow('both', 'moon', { fromFile: path.join(fixturesDir, 'wiki-moon.raw') }),
+    ).rejects.toThrow(/single source/);
+  });
+
+  it('rejects offline input for both sources through the MCP tool', async () => {
+    const fromFile = path.join(fixturesDir, 'wiki-moon.raw');
+    fs.rmSync(paths.DATA_DIR, { recursive: true, force: true });
+
+    await expect(fetchHandler({ topicId: 'moon', fromFile })).rejects.toThrow(/single source/);
+    await expect(fetchHandler({ source: 'both', topicId: 'moon', fromFile })).rejects.toThrow(
+      /single source/,
+    );
+    expect(fs.existsSync(paths.GROK_DIR)).toBe(false);
+  });
+});
+
+describe('parseWikiDumpPage', () => {
+  it('decodes entities and reads the latest revision', () => {
+    const page = parseWikiDumpPage(
+      `<page><title>A &amp; B</title><ns>0</ns><id>7</id><revision><id>1</id><timestamp>2020-01-01T00:00:00Z</timestamp><text>old</text></revision><revision><id>2</id><timestamp>2021-01-01T00:00:00Z</timestamp><text>&lt;ref&gt;new&lt;/ref&gt;</text></revision></page>`,
+    );
+    expect(page.title).toBe('A & B');
+    expect(page.pageId).toBe('7');
+    expect(page.revisionId).toBe('2');
+    expect(page.wikitext).toBe('<ref>new</ref>');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @file tests/semantic-align.test.ts
+ * @description Covers `--semantic-align`: embedding fallback in claim/section alignment, method
+ *              reporting, and fewer false missing/added discrepancies for paraphrases. The
+ *              embedding model is replaced with a deterministic stub index.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+const WIKI_SENTENCE =
+  'The Moon formed about 4.5 billion years ago from debris left by a giant impact.';
+const GROK_SENTENCE =
+  'Roughly 4.5 billion years back, the satellite was created out of collision remnants.';
+
+const PARAPHRASES: Array<[string, string]> = [
+  [WIKI_SENTENCE, GROK_SENTENCE],
+  ['Formation', 'Origin'],
+];
+
+const stubIndex = {
+  model: 'stub-embedding-model',
+  similarity: (a: string, b: string): number => {
+    const key = (value: string) => value.trim().toLowerCase();
+    return PARAPHRASES.some(
+      ([left, right]) =>
+        (key(left) === key(a) && key(right) === key(b)) ||
+        (key(left) === key(b) && key(right) === key(a)),
+    )
+      ? 0.91
+      : 0.12;
+  },
+  nearest: (query: string, candidates: string[], k = 1) =>
+    candidates
+      .map((text) => ({ text, similarity: stubIndex.similarity(query, text) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, k),
+};
+
+vi.mock('../src/lib/semantic-alignment', () => ({
+  buildEmbeddingIndex: vi.fn(async () => stubIndex),
+}));
+
+import { alignClaims, alignSections } from '../src/lib/alignment';
+import { analyzeContent, prepareAnalyzerSource } from '../src/lib/analyzer';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import type { StructuredArticle } from '../src/parsers/shared/types';
+
+const topic = {
+  id: 'moon',
+  title: 'Moon',
+  wikipedia_slug: 'Moon',
+  grokipedia_slug: 'page/Moon',
+};
+
+const toStructured = (markdown: string, source: 'wikipedia' | 'grokipedia'): StructuredArticle =>
+  parseMarkdownStructuredArticle(
+    topic,
+    markdown,
+    {
+      source,
+      pageId: `${source}:${topic.id}`,
+      lang: 'en',
+      title: topic.title,
+      canonicalUrl: `https://example.org/${topic.id}/${source}`,
+      revisionId: `${source}-test`,
+      revisionTimestamp: '2025-01-01T00:00:00Z',
+    },
+    { citations: [] },
+  );
+
+const SHARED = 'The Moon is the only natural satellite orbiting Earth at a stable distance.';
+
+const wikiArticle = toStructured(
+  `# Moon\n\n${SHARED}\n\n## Formation\n\n${WIKI_SENTENCE}`,
+  'wikipedia',
+);
+const grokArticle = toStructured(
+  `# Moon\n\n${SHARED}\n\n## Origin\n\n${GROK_SENTENCE}`,
+  'grokipedia',
+);
+
+describe('semantic alignment', () => {
+  it('keeps string matching as the default and reports the method', () => {
+    const alignments = alignClaims(wikiArticle, grokArticle);
+    const shared = alignments.find((record) => record.reference?.text.includes('only natural'));
+    expect(shared?.method).toBe('string');
+    const paraphrase = alignments.find((record) => record.reference?.text === WIKI_SENTENCE);
+    expect(paraphrase?.candidate).toBeUndefined();
+    expect(paraphrase?.method).toBeNull();
+  });
+
+  it('matches paraphrased claims and headings through the embedding index', () => {
+    const alignments = alignClaims(wikiArticle, grokArticle, { index: stubIndex });
+    const paraphrase = alignments.find((record) => record.reference?.text === WIKI_SENTENCE);
+    expect(paraphrase?.candidate?.text).toBe(GROK_SENTENCE);
+    expect(paraphrase?.method).toBe('embedding');
+    expect(paraphrase?.similarity).toBeCloseTo(0.91);
+    expect(alignments.some((record) => !record.reference)).toBe(false);
+
+    const sections = alignSections(wikiArticle, grokArticle, { index: stubIndex });
+    const formation = sections.find((record) => record.reference?.heading === 'Formation');
+    expect(formation?.candidate?.heading).toBe('Origin');
+    expect(formation?.method).toBe('embedding');
+  });
+
+  it('turns paraphrases into reworded claims instead of missing/added discrepancies', async () => {
+    const wiki = prepareAnalyzerSource(wikiArticle);
+    const grok = prepareAnalyzerSource(grokArticle);
+
+    const lexical = await analyzeContent(topic, wiki, grok);
+    expect(lexical.meta.alignment_method).toBe('string');
+    expect(lexical.discrepancies.some((d) => d.type === 'missing_context')).toBe(true);
+    expect(lexical.discrepancies.some((d) => d.type === 'added_claim')).toBe(true);
+
+    const semantic = await analyzeContent(topic, wiki, grok, { semanticAlign: true });
+    expect(semantic.meta.alignment_method).toBe('semantic');
+    expect(semantic.meta.embedding_model).toBe('stub-embedding-model');
+    expect(semantic.reworded_sentences).toEqual([
+      { reference: WIKI_SENTENCE, candidate: GROK_SENTENCE, similarity: 0.91 },
+    ]);
+    expect(semantic.discrepancies.some((d) => d.type === 'missing_context')).toBe(false);
+    expect(semantic.discrepancies.some((d) => d.type === 'added_claim')).toBe(false);
+    expect(semantic.extra_sentences).toContain(GROK_SENTENCE);
+  });
+});
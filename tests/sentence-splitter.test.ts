@@ -0,0 +1,44 @@
+/**
+ * @file tests/sentence-splitter.test.ts
+ * @description Verifies language-aware sentence splitting for spaced and unspaced scripts.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from 'vitest';
+import { splitSentences } from '../src/parsers/wiki/sentence-splitter';
+
+const texts = (input: string, lang?: string): string[] =>
+  splitSentences(input, lang).map((slice) => slice.text);
+
+describe('splitSentences', () => {
+  it('splits English sentences on Latin capitals', () => {
+    expect(texts('The Moon orbits Earth. It is tidally locked to the planet.')).toEqual([
+      'The Moon orbits Earth.',
+      'It is tidally locked to the planet.',
+    ]);
+  });
+
+  it('splits German sentences that start with umlauts', () => {
+    expect(
+      texts('Der Mond umkreist die Erde. Über seine Entstehung gibt es mehrere Theorien.', 'de'),
+    ).toEqual(['Der Mond umkreist die Erde.', 'Über seine Entstehung gibt es mehrere Theorien.']);
+  });
+
+  it('splits Spanish sentences that open with inverted punctuation', () => {
+    expect(
+      texts('La Luna es el único satélite natural. ¿Cómo se formó la Luna hace años?', 'es'),
+    ).toEqual(['La Luna es el único satélite natural.', '¿Cómo se formó la Luna hace años?']);
+  });
+
+  it('splits Japanese sentences on full-width punctuation without spaces', () => {
+    const slices = splitSentences(
+      '月は地球の唯一の衛星である。月の直径は地球の約4分の1である。',
+      'ja',
+    );
+    expect(slices.map((slice) => slice.text)).toEqual([
+      '月は地球の唯一の衛星である。',
+      '月の直径は地球の約4分の1である。',
+    ]);
+    expect(slices[1].start).toBe(14);
+  });
+});
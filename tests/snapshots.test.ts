@@ -0,0 +1,127 @@
+/**
+ * @file tests/snapshots.test.ts
+ * @description Unit tests for the versioned snapshot store used to pin analyses to revisions.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/shared/paths', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'gwaln-snapshots-'));
+  const dataDir = path.join(root, 'data');
+  return {
+    paths: {
+      ROOT: root,
+      DATA_DIR: dataDir,
+      WIKI_DIR: path.join(dataDir, 'wiki'),
+      GROK_DIR: path.join(dataDir, 'grok'),
+      HISTORY_DIR: path.join(dataDir, 'history'),
+      ensureDir: (target: string) => fs.mkdirSync(target, { recursive: true }),
+    },
+  };
+});
+
+import type { StructuredArticle } from '../src/parsers/shared/types';
+import {
+  listSnapshotRevisions,
+  parseSnapshotRef,
+  readSnapshot,
+  resolveSnapshotRevision,
+  writeSnapshot,
+} from '../src/shared/snapshots';
+import { paths } from '../src/shared/paths';
+
+const tempRoot = paths.ROOT;
+
+const topic = {
+  id: 'moon',
+  title: 'Moon',
+  wikipedia_slug: 'Moon',
+  grokipedia_slug: 'page/Moon',
+};
+
+const article = (revisionId: string, timestamp: string, length: number): StructuredArticle => ({
+  source: 'grokipedia',
+  page_id: 'grokipedia:moon',
+  lang: 'en',
+  title: 'Moon',
+  canonical_url: 'https://grokipedia.com/page/Moon',
+  revision: { id: revisionId, timestamp },
+  lead: { text_range: { start_offset: 0, end_offset: length }, paragraphs: [] },
+  sections: [],
+  media: [],
+  references: [],
+  claims: [],
+});
+
+describe('snapshot history', () => {
+  beforeEach(() => {
+    fs.rmSync(tempRoot, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempRoot, { recursive: true, force: true });
+  });
+
+  it('archives distinct revisions and skips unchanged content', () => {
+    const first = writeSnapshot('grok', topic, article('r1', '2025-11-01T10:00:00Z', 1));
+    const duplicate = writeSnapshot('grok', topic, article('r2', '2025-11-02T10:00:00Z', 1));
+    const second = writeSnapshot('grok', topic, article('r3', '2025-11-20T10:00:00Z', 2));
+
+    expect(first.archived).toBe(true);
+    expect(duplicate.archived).toBe(false);
+    expect(duplicate.revision.revision_id).toBe('r1');
+    expect(second.archived).toBe(true);
+    expect(listSnapshotRevisions('grok', topic.id).map((entry) => entry.revision_id)).toEqual([
+      'r1',
+      'r3',
+    ]);
+    expect(fs.existsSync(path.join(tempRoot, 'data', 'grok', 'moon.parsed.json'))).toBe(true);
+  });
+
+  it('resolves revisions by id, timestamp prefix, and as-of date', () => {
+    writeSnapshot('grok', topic, article('r1', '2025-11-01T10:00:00Z', 1));
+    writeSnapshot('grok', topic, article('r3', '2025-11-20T10:00:00Z', 2));
+
+    expect(resolveSnapshotRevision('grok', 'moon', 'r1')?.revision_id).toBe('r1');
+    expect(resolveSnapshotRevision('grok', 'moon', '2025-11-20')?.revision_id).toBe('r3');
+    expect(resolveSnapshotRevision('grok', 'moon', '2025-11-10')?.revision_id).toBe('r1');
+    expect(resolveSnapshotRevision('grok', 'moon', 'latest')?.revision_id).toBe('r3');
+    expect(resolveSnapshotRevision('grok', 'moon', '2024-01-01')).toBeNull();
+    expect(resolveSnapshotRevision('grok', 'moon', '12345')).toBeNull();
+    expect(resolveSnapshotRevision('grok', 'moon', '2025')?.revision_id).toBe('r3');
+  });
+
+  it('reads pinned and latest snapshots', () => {
+    writeSnapshot('grok', topic, article('r1', '2025-11-01T10:00:00Z', 1));
+    writeSnapshot('grok', topic, article('r3', '2025-11-20T10:00:00Z', 2));
+
+    expect(readSnapshot(topic, parseSnapshotRef('grok@r1')).revision.id).toBe('r1');
+    expect(readSnapshot(topic, parseSnapshotRef('grokipedia')).revision.id).toBe('r3');
+    expect(() => readSnapshot(topic, parseSnapshotRef('grok@missing'))).toThrow(/gwaln history/);
+    expect(() => readSnapshot(topic, parseSnapshotRef('wiki@latest'))).toThrow(
+      /gwaln fetch wiki --topic moon/,
+    );
+  });
+
+  it('accepts configured sources and rejects malformed references', () => {
+    expect(parseSnapshotRef('wikipedia@123')).toEqual({ source: 'wiki', revision: '123' });
+    expect(parseSnapshotRef('DEWIKI@2025-11')).toEqual({ source: 'dewiki', revision: '2025-11' });
+    expect(() => parseSnapshotRef('de wiki@1')).toThrow(/Invalid snapshot reference/);
+    expect(() => parseSnapshotRef('history@1')).toThrow(/Invalid snapshot reference/);
+  });
+
+  it('stores configured sources under their own data directory', () => {
+    const { path: latest } = writeSnapshot(
+      'dewiki',
+      topic,
+      article('d1', '2025-11-01T10:00:00Z', 1),
+    );
+
+    expect(latest).toBe(path.join(paths.DATA_DIR, 'dewiki', 'moon.parsed.json'));
+    expect(readSnapshot(topic, parseSnapshotRef('dewiki@d1')).revision.id).toBe('d1');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * @file tests/source-adapters.test.ts
+ * @description Covers the source registry (built-ins, configured sources, validation) and the
+ *              MediaWiki and page adapters against stubbed endpoints.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { httpGetText, httpRequestJson } from '../src/shared/http';
+import type { Topic } from '../src/shared/topics';
+import { createSourceRegistry } from '../src/sources';
+
+vi.mock('../src/shared/http', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/http')>()),
+  httpGetText: vi.fn(),
+  httpRequestJson: vi.fn(),
+}));
+
+const mockText = httpGetText as unknown as ReturnType<typeof vi.fn>;
+const mockJson = httpRequestJson as unknown as ReturnType<typeof vi.fn>;
+
+const topic: Topic = {
+  id: 'moon',
+  title: 'Moon',
+  wikipedia_slug: 'Moon',
+  grokipedia_slug: 'page/Moon',
+  slugs: { testwiki: 'Test_Moon', dewiki: 'Mond' },
+};
+
+const WIKITEXT = [
+  "The '''Moon''' is Earth's only natural satellite.<ref>{{cite web |url=https://nasa.gov/moon |title=Moon facts}}</ref>",
+  '',
+  '== Orbit ==',
+  'The Moon orbits Earth every 27.3 days.',
+  '',
+  '== References ==',
+  '<references />',
+].join('\n');
+
+describe('source registry', () => {
+  it('provides the built-in sources under their ids and long names', () => {
+    const registry = createSourceRegistry();
+
+    expect(registry.list().map((adapter) => adapter.id)).toEqual(['wiki', 'grok']);
+    expect(registry.get('wikipedia').id).toBe('wiki');
+    expect(registry.get('Grokipedia').name).toBe('grokipedia');
+    expect(registry.get('wiki').canonicalUrl({ ...topic, lang: 'de' })).toBe(
+      'https://de.wikipedia.org/wiki/Moon',
+    );
+    expect(registry.get('grok').canonicalUrl(topic)).toBe('https://grokipedia.com/page/Moon');
+    expect(() => registry.get('britannica')).toThrow(/Unknown source 'britannica'.*wiki, grok/);
+  });
+
+  it('adds configured sources with per-topic slugs', () => {
+    const registry = createSourceRegistry({
+      dewiki: { type: 'mediawiki', lang: 'de' },
+      encyclo: { type: 'page', label: 'Encyclo', pageUrl: 'https://encyclo.test/a/{slug}' },
+    });
+
+    expect(registry.get('dewiki').label).toBe('Wikipedia (de)');
+    expect(registry.get('dewiki').canonicalUrl(topic)).toBe('https://de.wikipedia.org/wiki/Mond');
+    expect(registry.get('encyclo').canonicalUrl(topic)).toBe('https://encyclo.test/a/Moon');
+  });
+
+  it('rejects invalid source definitions', () => {
+    expect(() => createSourceRegistry({ both: { type: 'mediawiki' } })).toThrow(/reserved/);
+    expect(() => createSourceRegistry({ 'My Wiki': { type: 'mediawiki' } })).toThrow(
+      /Invalid source id/,
+    );
+    expect(() =>
+      createSourceRegistry({ encyclo: { type: 'page', pageUrl: 'https://encyclo.test/' } }),
+    ).toThrow(/\{slug\} placeholder/);
+    expect(() =>
+      createSourceRegistry({ odd: { type: 'rss' } as unknown as { type: 'mediawiki' } }),
+    ).toThrow(/Unknown type "rss" for source "odd"/);
+    expect(() =>
+      createSourceRegistry({ evilwiki: { type: 'mediawiki', lang: 'evil.com/x#' } }),
+    ).toThrow(/Source "evilwiki": Invalid Wikipedia language code/);
+  });
+});
+
+describe('MediaWiki adapter', () => {
+  beforeEach(() => {
+    mockText.mockReset();
+    mockJson.mockReset();
+  });
+
+  it('fetches a page from a local test server', async () => {
+    mockText.mockImplementation(async (url: string) => {
+      if (url.includes('/api.php')) {
+        return JSON.stringify({
+          query: {
+            pages: [
+              {
+                title: 'Test Moon',
+                fullurl: 'http://localhost:8080/index.php/Test_Moon',
+                pagelanguage: 'en',
+                revisions: [{ revid: 42, timestamp: '2025-10-01T12:00:00Z' }],
+              },
+            ],
+          },
+        });
+      }
+      return WIKITEXT;
+    });
+    const adapter = createSourceRegistry({
+      testwiki: {
+        type: 'mediawiki',
+        label: 'Test wiki',
+        baseUrl: 'http://localhost:8080/',
+        scriptPath: '',
+        articlePath: '/index.php/{slug}',
+      },
+    }).get('testwiki');
+
+    const article = await adapter.fetch(topic);
+
+    expect(mockText.mock.calls.map(([url]) => url)).toEqual(
+      expect.arrayContaining([
+        'http://localhost:8080/index.php?title=Test_Moon&action=raw',
+        expect.stringMatching(/^http:\/\/localhost:8080\/api\.php\?action=query.*titles=Test_Moon/),
+      ]),
+    );
+    expect(article.source).toBe('testwiki');
+    expect(article.canonical_url).toBe('http://localhost:8080/index.php/Test_Moon');
+    expect(article.revision).toEqual({ id: '42', timestamp: '2025-10-01T12:00:00Z' });
+    expect(article.sections.map((section) => section.heading)).toContain('Orbit');
+    expect(article.references.length).toBeGreaterThan(0);
+  });
+
+  it('searches with the OpenSearch API', async () => {
+    mockText.mockResolvedValue(
+      JSON.stringify([
+        'mond',
+        ['Mond', 'Mondfinsternis'],
+        ['Natürlicher Satellit der Erde', ''],
+        ['https://de.wikipedia.org/wiki/Mond', 'https://de.wikipedia.org/wiki/Mondfinsternis'],
+      ]),
+    );
+    const adapter = createSourceRegistry({ dewiki: { type: 'mediawiki', lang: 'de' } }).get(
+      'dewiki',
+    );
+
+    const results = await adapter.search('mond', 2);
+
+    expect(mockText.mock.calls[0][0]).toMatch(
+      /^https:\/\/de\.wikipedia\.org\/w\/api\.php\?action=opensearch&search=mond&limit=2/,
+    );
+    expect(results).toEqual([
+      {
+        title: 'Mond',
+        slug: 'Mond',
+        url: 'https://de.wikipedia.org/wiki/Mond',
+        description: 'Natürlicher Satellit der Erde',
+      },
+      {
+        title: 'Mondfinsternis',
+        slug: 'Mondfinsternis',
+        url: 'https://de.wikipedia.org/wiki/Mondfinsternis',
+      },
+    ]);
+  });
+});
+
+describe('page adapter', () => {
+  const registry = createSourceRegistry({
+    encyclo: {
+      type: 'page',
+      label: 'Encyclo',
+      pageUrl: 'https://encyclo.test/a/{slug}',
+      searchUrl: 'https://encyclo.test/search?q={query}&n={limit}',
+    },
+    plain: { type: 'page', pageUrl: 'https://plain.test/{slug}' },
+  });
+
+  beforeEach(() => {
+    mockText.mockReset();
+    mockJson.mockReset();
+  });
+
+  it('parses a JSON page with embedded citations', async () => {
+    mockText.mockResolvedValue(
+      JSON.stringify({
+        content:
+          '# Moon\n\nThe Moon is a rocky body.\n\n## Orbit\n\nIt orbits Earth every 27.3 days.',
+        citations: [{ id: '1', title: 'Moon facts', url: 'https://nasa.gov/moon' }],
+      }),
+    );
+
+    const article = await registry.get('encyclo').fetch(topic);
+
+    expect(mockText.mock.calls[0][0]).toBe('https://encyclo.test/a/Moon');
+    expect(article.source).toBe('encyclo');
+    expect(article.canonical_url).toBe('https://encyclo.test/a/Moon');
+    expect(article.revision.id).toMatch(/^encyclo-/);
+    expect(article.sections.map((section) => section.heading)).toEqual(['Orbit']);
+    expect(article.references.map((reference) => reference.normalized.url)).toEqual([
+      'https://nasa.gov/moon',
+    ]);
+  });
+
+  it('maps search results and requires a search endpoint', async () => {
+    mockJson.mockResolvedValue({
+      results: [
+        { title: 'Moon', url: '/a/Moon' },
+        { title: 'Lunar Orbit', slug: 'Lunar_Orbit' },
+      ],
+    });
+
+    const results = await registry.get('encyclo').search('moon', 3);
+
+    expect(mockJson.mock.calls[0][0]).toBe('https://encyclo.test/search?q=moon&n=3');
+    expect(results).toEqual([
+      { title: 'Moon', slug: 'a/Moon', url: 'https://encyclo.test/a/Moon' },
+      { title: 'Lunar Orbit', slug: 'Lunar_Orbit', url: 'https://encyclo.test/a/Lunar_Orbit' },
+    ]);
+    await expect(registry.get('plain').search('moon')).rejects.toThrow(/no search endpoint/);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @file tests/source-reliability.test.ts
+ * @description Covers domain ratings, user overrides, the `source_quality` block, and
+ *              deprecated-source discrepancies.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from 'vitest';
+import { analyzeContent, prepareAnalyzerSource } from '../src/lib/analyzer';
+import { assessSourceQuality, buildReliabilityList } from '../src/lib/source-reliability';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import { parseWikiArticle } from '../src/parsers/wiki';
+
+const topic = {
+  id: 'moon',
+  title: 'Moon',
+  wikipedia_slug: 'Moon',
+  grokipedia_slug: 'page/Moon',
+};
+
+const metadata = (source: 'wikipedia' | 'grokipedia') => ({
+  source,
+  pageId: `${source}:${topic.id}`,
+  lang: 'en',
+  title: topic.title,
+  canonicalUrl: `https://example.org/${topic.id}/${source}`,
+  revisionId: `${source}-test`,
+  revisionTimestamp: '2025-01-01T00:00:00Z',
+});
+
+const wikiArticle = (url: string) =>
+  parseWikiArticle(
+    topic,
+    `The Moon has no atmosphere.<ref>{{cite web|url=${url}|title=Moon facts}}</ref> It is bright.<ref>Moon handbook, 1999.</ref>`,
+    metadata('wikipedia'),
+  );
+
+const grokArticle = (url: string) =>
+  parseMarkdownStructuredArticle(
+    topic,
+    `# Moon\n\nThe Moon has no atmosphere.\n\nThe Moon landing was staged [Moon hoax](${url}).`,
+    metadata('grokipedia'),
+  );
+
+describe('source reliability', () => {
+  it('rates references by domain, including subdomains and unlisted hosts', () => {
+    const { quality } = assessSourceQuality(
+      wikiArticle('https://news.bbc.co.uk/2/hi/science/moon.stm'),
+      grokArticle('https://www.dailymail.co.uk/news/moon-hoax.html'),
+    );
+    expect(
+      quality.references.map(({ source, domain, status }) => [source, domain, status]),
+    ).toEqual([
+      ['reference', 'bbc.co.uk', 'generally_reliable'],
+      ['reference', null, 'unknown'],
+      ['candidate', 'dailymail.co.uk', 'deprecated'],
+    ]);
+    expect(quality.reference).toMatchObject({
+      reference_count: 2,
+      reliable_share: 1,
+      deprecated_share: 0,
+    });
+    expect(quality.candidate).toMatchObject({ reference_count: 1, deprecated_share: 1 });
+  });
+
+  it('merges user ratings over the bundled list and rejects unknown statuses', () => {
+    const list = buildReliabilityList({
+      'WWW.Example-News.com': 'deprecated',
+      'forbes.com': 'generally_reliable',
+    });
+    expect(list['example-news.com']).toBe('deprecated');
+    expect(list['forbes.com']).toBe('generally_reliable');
+    expect(list['dailymail.co.uk']).toBe('deprecated');
+    expect(() => buildReliabilityList({ 'example.com': 'dodgy' })).toThrow(
+      /Unknown reliability "dodgy" for example\.com/,
+    );
+  });
+
+  it('flags deprecated Grokipedia sources that Wikipedia does not cite', async () => {
+    const payload = await analyzeContent(
+      topic,
+      prepareAnalyzerSource(wikiArticle('https://www.bbc.co.uk/news/moon')),
+      prepareAnalyzerSource(grokArticle('https://www.dailymail.co.uk/news/moon-hoax.html')),
+    );
+    const events = payload.discrepancies.filter((event) => event.type === 'deprecated_source');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      category: 'citation',
+      severity: 3,
+      tags: ['source_quality', 'deprecated'],
+      evidence: { candidate: expect.stringContaining('landing was staged') },
+    });
+    expect(events[0].description).toContain('dailymail.co.uk');
+    expect(payload.source_quality.candidate.counts.deprecated).toBe(1);
+  });
+
+  it('does not flag a deprecated domain that Wikipedia cites too', () => {
+    const { events } = assessSourceQuality(
+      wikiArticle('https://www.dailymail.co.uk/news/other.html'),
+      grokArticle('https://www.dailymail.co.uk/news/moon-hoax.html'),
+    );
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @file tests/sources.test.ts
+ * @description Covers URL canonicalization, domain grouping, and the source-overlap block of the
+ *              analysis payload.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from 'vitest';
+import { analyzeContent, prepareAnalyzerSource } from '../src/lib/analyzer';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import { canonicalizeUrl, urlDomain } from '../src/parsers/shared/urls';
+import { parseWikiArticle } from '../src/parsers/wiki';
+
+const topic = {
+  id: 'moon',
+  title: 'Moon',
+  wikipedia_slug: 'Moon',
+  grokipedia_slug: 'page/Moon',
+};
+
+const metadata = (source: 'wikipedia' | 'grokipedia') => ({
+  source,
+  pageId: `${source}:${topic.id}`,
+  lang: 'en',
+  title: topic.title,
+  canonicalUrl: `https://example.org/${topic.id}/${source}`,
+  revisionId: `${source}-test`,
+  revisionTimestamp: '2025-01-01T00:00:00Z',
+});
+
+describe('canonicalizeUrl', () => {
+  it('treats scheme, host prefixes, tracking parameters, and fragments as noise', () => {
+    const canonical = 'https://example.org/news/story?id=7&page=2';
+    expect(
+      canonicalizeUrl('http://www.example.org/news/story/?page=2&utm_source=x&id=7&fbclid=abc#top'),
+    ).toBe(canonical);
+    expect(canonicalizeUrl('https://m.example.org/news/story?id=7&page=2')).toBe(canonical);
+  });
+
+  it('unwraps AMP pages and caches, archive snapshots, and DOI resolvers', () => {
+    expect(canonicalizeUrl('https://www.example.org/news/story/amp')).toBe(
+      'https://example.org/news/story',
+    );
+    expect(canonicalizeUrl('https://www.google.com/amp/s/www.example.org/news/story')).toBe(
+      'https://example.org/news/story',
+    );
+    expect(
+      canonicalizeUrl('https://example-org.cdn.ampproject.org/c/s/example.org/news/story.amp.html'),
+    ).toBe('https://example.org/news/story.html');
+    expect(
+      canonicalizeUrl('https://web.archive.org/web/20200101000000/http://example.org/news/story'),
+    ).toBe('https://example.org/news/story');
+    expect(canonicalizeUrl('http://dx.doi.org/10.1038/NATURE12345')).toBe(
+      'https://doi.org/10.1038/nature12345',
+    );
+    expect(canonicalizeUrl('mailto:someone@example.org')).toBeNull();
+  });
+
+  it('reduces hosts to their registrable domain', () => {
+    expect(urlDomain('https://news.bbc.co.uk/2/hi/science')).toBe('bbc.co.uk');
+    expect(urlDomain('https://science.nasa.gov/moon')).toBe('nasa.gov');
+  });
+});
+
+describe('source overlap', () => {
+  it('reports shared ratios, domain distributions, and dropped or added sources', async () => {
+    const wiki = parseWikiArticle(
+      topic,
+      `The Moon formed in a giant impact.<ref>{{cite journal|title=Origin of the Moon|journal=Nature|url=https://www.nature.com/articles/35089010|doi=10.1038/35089010}}</ref> It has no atmosphere.<ref>{{cite web|url=https://science.nasa.gov/moon/|title=Moon facts}}</ref> Its crust is old.<ref>{{cite journal|title=Lunar crust|url=https://www.science.org/doi/10.1126/science.1}}</ref>`,
+      metadata('wikipedia'),
+    );
+    const grok = parseMarkdownStructuredArticle(
+      topic,
+      '# Moon\n\nThe Moon formed in a giant impact. It has no atmosphere. Its crust is old.',
+      metadata('grokipedia'),
+      {
+        citations: [
+          { id: '1', title: 'Giant impact', url: 'https://doi.org/10.1038/35089010' },
+          { id: '2', title: 'NASA', url: 'http://science.nasa.gov/moon?utm_medium=social' },
+          { id: '3', title: 'Moon blog', url: 'https://moonfacts.blogspot.com/2020/01/crust.html' },
+        ],
+      },
+    );
+    const payload = await analyzeContent(
+      topic,
+      prepareAnalyzerSource(wiki),
+      prepareAnalyzerSource(grok),
+    );
+    expect(payload.source_overlap).toMatchObject({
+      reference_source_count: 3,
+      candidate_source_count: 3,
+      shared_source_count: 2,
+      overlap_ratio: 0.5,
+      reference_retained_ratio: 0.667,
+      candidate_shared_ratio: 0.667,
+      dropped: [{ domain: 'science.org' }],
+      added: [{ domain: 'blogspot.com' }],
+    });
+    expect(payload.source_overlap.domains.reference.map((entry) => entry.domain)).toEqual([
+      'nasa.gov',
+      'nature.com',
+      'science.org',
+    ]);
+    expect(payload.source_overlap.domains.candidate.map((entry) => entry.domain)).toEqual([
+      'blogspot.com',
+      'doi.org',
+      'nasa.gov',
+    ]);
+  });
+});
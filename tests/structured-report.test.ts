@@ -5,7 +5,11 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import { buildStructuredAnalysis, STRUCTURED_ANALYSIS_SCHEMA } from '../src/lib/structured-report';
+import {
+  buildStructuredAnalysis,
+  coerceStructuredAnalysisReport,
+  STRUCTURED_ANALYSIS_SCHEMA,
+} from '../src/lib/structured-report';
 import type { AnalysisPayload } from '../src/lib/analyzer';
 import type { Topic } from '../src/shared/topics';
 
@@ -41,13 +45,13 @@ const payload: AnalysisPayload = {
   agreed_sentences: [],
   sections_missing: ['History'],
   sections_extra: ['Interpretations'],
-  citations: { missing: [], extra: [] },
+  citations: { missing: [], extra: [], matches: [] },
   diff_sample: ['--- wiki', '+++ grok'],
   discrepancies: [
     {
       type: 'missing_context',
       description: 'Missing context sample',
-      evidence: { wikipedia: 'Wikipedia snippet' },
+      evidence: { reference: 'Wikipedia snippet' },
     },
   ],
   bias_events: [],
@@ -74,13 +78,56 @@ const payload: AnalysisPayload = {
   },
   section_alignment: [
     {
-      wikipedia: { section_id: 'sec-history', heading: 'History' },
-      grokipedia: { section_id: 'sec-history', heading: 'History' },
+      reference: { section_id: 'sec-history', heading: 'History' },
+      candidate: { section_id: 'sec-history', heading: 'History' },
       similarity: 0.95,
     },
   ],
   claim_alignment: [],
   numeric_discrepancies: [],
+  temporal_discrepancies: [],
+  infobox_comparisons: [],
+  table_comparisons: [],
+  source_overlap: {
+    reference_source_count: 0,
+    candidate_source_count: 0,
+    shared_source_count: 0,
+    overlap_ratio: 0,
+    reference_retained_ratio: 0,
+    candidate_shared_ratio: 0,
+    domains: { reference: [], candidate: [] },
+    dropped: [],
+    added: [],
+  },
+  source_quality: {
+    reference: {
+      reference_count: 0,
+      counts: {
+        generally_reliable: 0,
+        no_consensus: 0,
+        generally_unreliable: 0,
+        deprecated: 0,
+        blacklisted: 0,
+        unknown: 0,
+      },
+      reliable_share: 0,
+      deprecated_share: 0,
+    },
+    candidate: {
+      reference_count: 0,
+      counts: {
+        generally_reliable: 0,
+        no_consensus: 0,
+        generally_unreliable: 0,
+        deprecated: 0,
+        blacklisted: 0,
+        unknown: 0,
+      },
+      reliable_share: 0,
+      deprecated_share: 0,
+    },
+    references: [],
+  },
   entity_discrepancies: [],
   bias_metrics: {
     subjectivity_delta: 0.1,
@@ -101,5 +148,66 @@ describe('buildStructuredAnalysis', () => {
     expect(report.discrepancies.primary).toHaveLength(1);
     expect(report.attachments.diff_sample).toHaveLength(2);
     expect(report.meta.content_hash).toBe(payload.meta.content_hash);
+    expect(report.topic.lang).toBe('en');
+  });
+
+  it('carries the topic language and localized Wikipedia URL', () => {
+    const report = buildStructuredAnalysis(
+      { ...topic, id: 'mond-de', wikipedia_slug: 'Mond', lang: 'de' },
+      payload,
+    );
+    expect(report.topic.lang).toBe('de');
+    expect(report.topic.urls.reference).toBe('https://de.wikipedia.org/wiki/Mond');
+  });
+
+  it('names the sides reference and candidate and maps them to the compared sources', () => {
+    const report = buildStructuredAnalysis(topic, {
+      ...payload,
+      discrepancies: [],
+      reworded_sentences: [
+        {
+          reference: 'The Moon orbits Earth.',
+          candidate: 'Earth is orbited by the Moon.',
+          similarity: 0.8,
+        },
+      ],
+      highlights: {
+        missing: [{ source: 'reference', tag: 'missing', text: 'A.', preview: 'A.' }],
+        extra: [{ source: 'candidate', tag: 'extra', text: 'B.', preview: 'B.' }],
+      },
+      meta: {
+        ...payload.meta,
+        sources: {
+          reference: {
+            id: 'wiki',
+            label: 'Wikipedia',
+            slug: 'Moon',
+            url: 'https://en.wikipedia.org/wiki/Moon',
+          },
+          candidate: {
+            id: 'dewiki',
+            label: 'Wikipedia (de)',
+            slug: 'Mond',
+            url: 'https://de.wikipedia.org/wiki/Mond',
+          },
+        },
+      },
+    });
+    expect(report.sources.candidate.id).toBe('dewiki');
+    expect(report.topic.slugs).toEqual({ reference: 'Moon', candidate: 'Mond' });
+    expect(report.topic.urls.candidate).toBe('https://de.wikipedia.org/wiki/Mond');
+    expect(report.comparison.sentences.reworded[0]).toMatchObject({
+      reference: 'The Moon orbits Earth.',
+      candidate: 'Earth is orbited by the Moon.',
+    });
+    expect(report.discrepancies.highlights.extra[0].source).toBe('candidate');
+    expect(report.summary.headline).toBe('Wikipedia (de) remains aligned with Wikipedia for Moon.');
+  });
+
+  it('asks for a new analysis when a stored report uses an older schema', () => {
+    const stale = { ...buildStructuredAnalysis(topic, payload), schema: 'gwaln.analysis/2' };
+    expect(() => coerceStructuredAnalysisReport(topic, stale as never)).toThrow(
+      /uses schema gwaln\.analysis\/2.*gwaln analyse --topic moon/,
+    );
   });
 });
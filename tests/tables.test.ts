@@ -0,0 +1,186 @@
+/**
+ * @file tests/tables.test.ts
+ * @description Covers table extraction from wikitext and Markdown (captions, headers, spans,
+ *              cell citations) and the table diff reported by the analyzer.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from 'vitest';
+import { analyzeContent, prepareAnalyzerSource } from '../src/lib/analyzer';
+import { compareTables } from '../src/lib/table-comparison';
+import { parseMarkdownStructuredArticle } from '../src/parsers/grok';
+import { parseWikiArticle as parseGrokWikiArticle } from '../src/parsers/grok/parser';
+import { extractMarkdownTables, renderMarkdownTable } from '../src/parsers/shared/tables';
+import { parseWikiArticle } from '../src/parsers/wiki';
+
+const topic = {
+  id: 'planets',
+  title: 'Planets',
+  wikipedia_slug: 'Planet',
+  grokipedia_slug: 'page/Planet',
+};
+
+const metadata = (source: 'wikipedia' | 'grokipedia') => ({
+  source,
+  pageId: `${source}:${topic.id}`,
+  lang: 'en',
+  title: topic.title,
+  canonicalUrl: `https://example.org/${topic.id}/${source}`,
+  revisionId: `${source}-test`,
+  revisionTimestamp: '2025-01-01T00:00:00Z',
+});
+
+const WIKITEXT = `The planets differ widely in size.
+
+== Data ==
+The inner planets are rocky.
+{| class="wikitable sortable"
+|+ Planetary radii
+|-
+! scope="col" | Planet !! Radius !! Moons
+|-
+| [[Mercury (planet)|Mercury]] || 2,440 km || 0
+|-
+| [[Venus]] || {{convert|6052|km|mi}}<ref name="nasa">{{cite web|url=https://nasa.gov/venus|title=Venus}}</ref> || 0
+|-
+| Earth
+| 6,371 km
+| 1
+|-
+| rowspan="2" | Gas giant
+| colspan="2" | Unknown
+|-
+| 25
+| 3
+|}
+The outer planets are larger.`;
+
+const grokArticle = (markdown: string) =>
+  parseMarkdownStructuredArticle(topic, markdown, metadata('grokipedia'), { citations: [] });
+
+describe('wikitext tables', () => {
+  it('extracts caption, headers, rows, spans, and cell citations', () => {
+    const article = parseWikiArticle(topic, WIKITEXT, metadata('wikipedia'));
+    expect(article.tables).toHaveLength(1);
+    const [table] = article.tables ?? [];
+    expect(table).toMatchObject({
+      table_id: 't1',
+      section_id: 'sec-data',
+      caption: 'Planetary radii',
+      headers: ['Planet', 'Radius', 'Moons'],
+    });
+    expect(table.rows.map((row) => row.map((cell) => cell.text))).toEqual([
+      ['Mercury', '2,440 km', '0'],
+      ['Venus', '6052 kilometres (3800 mi)', '0'],
+      ['Earth', '6,371 km', '1'],
+      ['Gas giant', 'Unknown', 'Unknown'],
+      ['Gas giant', '25', '3'],
+    ]);
+    expect(table.rows[1][1].citation_ids).toEqual(['r_nasa']);
+    expect(article.references.map((ref) => ref.citation_id)).toContain('r_nasa');
+  });
+
+  it('resolves cells the same way for Grokipedia wikitext', () => {
+    const wiki = parseWikiArticle(topic, WIKITEXT, metadata('wikipedia'));
+    const grok = parseGrokWikiArticle(topic, WIKITEXT, metadata('grokipedia'));
+    const cells = (tables: typeof wiki.tables) =>
+      (tables ?? []).map((table) => table.rows.map((row) => row.map((cell) => cell.text)));
+    expect(cells(grok.tables)).toEqual(cells(wiki.tables));
+    expect(grok.tables?.[0].rows[0][0].text).toBe('Mercury');
+  });
+
+  it('keeps table markup out of the prose', () => {
+    const article = parseWikiArticle(topic, WIKITEXT, metadata('wikipedia'));
+    const texts = article.claims.map((claim) => claim.text);
+    expect(texts).toContain('The inner planets are rocky.');
+    expect(texts).toContain('The outer planets are larger.');
+    expect(texts.some((text) => text.includes('Mercury'))).toBe(false);
+  });
+});
+
+describe('Markdown tables', () => {
+  it('reads pipe tables with captions and round-trips rendered tables', () => {
+    const rendered = renderMarkdownTable({
+      caption: 'Radii',
+      rows: [
+        [
+          { content: 'Planet', header: true, colspan: 1, rowspan: 1 },
+          { content: 'Radius', header: true, colspan: 1, rowspan: 1 },
+        ],
+        [
+          { content: 'Mars', header: false, colspan: 1, rowspan: 1 },
+          { content: '3,390 km | approx.', header: false, colspan: 1, rowspan: 1 },
+        ],
+      ],
+    });
+    const { text, tables } = extractMarkdownTables(`Intro line.\n${rendered}\nAfter.`);
+    expect(text).toBe('Intro line.\nAfter.');
+    expect(tables[0].caption).toBe('Radii');
+    expect(tables[0].rows[1].map((cell) => cell.content)).toEqual(['Mars', '3,390 km | approx.']);
+  });
+
+  it('attaches link citations to cells', () => {
+    const article = grokArticle(
+      '# Planets\n\nPlanets orbit stars.\n\n## Data\n\n| Planet | Radius |\n| --- | --- |\n| Mars | [3,390 km](https://example.org/mars) |',
+    );
+    const [table] = article.tables ?? [];
+    expect(table.headers).toEqual(['Planet', 'Radius']);
+    expect(table.rows[0][1]).toMatchObject({ text: '3,390 km', citation_ids: ['r_link_1'] });
+  });
+});
+
+describe('compareTables', () => {
+  const wiki = () => parseWikiArticle(topic, WIKITEXT, metadata('wikipedia'));
+  const GROK = `# Planets
+
+Planets orbit stars.
+
+## Data
+
+Table: Planetary radii
+| Planet | Radius | Moons |
+| --- | --- | --- |
+| Mercury | 1,516 mi | None |
+| Venus | 7,000 km | 0 |
+| Earth | 6,371 km | 2 |
+| Mars | 3,390 km | 2 |`;
+
+  it('reports missing rows, changed cells, and numeric deltas', () => {
+    const { comparisons, events } = compareTables(wiki(), grokArticle(GROK));
+    expect(comparisons).toHaveLength(1);
+    const [comparison] = comparisons;
+    expect(comparison.candidate_table_id).toBe('t1');
+    expect(comparison.missing_rows).toEqual(['Gas giant']);
+    expect(comparison.extra_rows).toEqual(['Mars']);
+    expect(
+      comparison.changed_cells.map((change) => [change.row, change.column, change.kind]),
+    ).toEqual([
+      ['Mercury', 'Moons', 'text'],
+      ['Venus', 'Radius', 'numeric'],
+      ['Earth', 'Moons', 'numeric'],
+    ]);
+    expect(comparison.changed_cells[1].relative_difference).toBeCloseTo(0.135, 3);
+    expect(events.map((event) => event.tags?.[1])).toEqual([
+      'cell_changed',
+      'numeric_mismatch',
+      'numeric_mismatch',
+      'missing_rows',
+      'extra_rows',
+    ]);
+  });
+
+  it('reports Wikipedia tables without a Grokipedia counterpart', async () => {
+    const payload = await analyzeContent(
+      topic,
+      prepareAnalyzerSource(wiki()),
+      prepareAnalyzerSource(grokArticle('# Planets\n\nPlanets orbit stars.')),
+    );
+    expect(payload.table_comparisons[0]).toMatchObject({
+      candidate_table_id: null,
+      missing_rows: ['Mercury', 'Venus', 'Earth', 'Gas giant'],
+    });
+    expect(
+      payload.discrepancies.filter((entry) => entry.type === 'table_discrepancy'),
+    ).toMatchObject([{ evidence: { table_id: 't1' }, tags: ['table', 'missing_table'] }]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @file tests/temporal.test.ts
+ * @description Covers temporal expression extraction and the rendering of Wikipedia date
+ *              templates into prose the extractor can read.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from 'vitest';
+import { extractTemporalExpressions } from '../src/parsers/shared/temporal';
+import { parseWikiArticle } from '../src/parsers/wiki';
+
+const summarize = (text: string) =>
+  extractTemporalExpressions(text).map((expression) => ({
+    raw: expression.raw,
+    kind: expression.kind,
+    start: expression.start.year,
+    end: expression.end.year,
+    approximate: expression.approximate,
+  }));
+
+describe('extractTemporalExpressions', () => {
+  it('extracts full dates, month/year pairs, and ISO dates', () => {
+    const [dmy, mdy, iso, month] = extractTemporalExpressions(
+      'Born on 14 March 1879, died on April 18, 1955, filed 2020-03-14 and cited in May 2021.',
+    );
+    expect(dmy).toMatchObject({ precision: 'day', start: { year: 1879, month: 3, day: 14 } });
+    expect(mdy).toMatchObject({ precision: 'day', start: { year: 1955, month: 4, day: 18 } });
+    expect(iso).toMatchObject({ precision: 'day', start: { year: 2020, month: 3, day: 14 } });
+    expect(month).toMatchObject({ precision: 'month', start: { year: 2021, month: 5, day: null } });
+  });
+
+  it('handles eras, circa, decades, and ranges', () => {
+    expect(summarize('Rome was founded c. 753 BC and Pompeii was destroyed in AD 79.')).toEqual([
+      { raw: 'c. 753 BC', kind: 'year', start: -753, end: -753, approximate: true },
+      { raw: 'AD 79', kind: 'year', start: 79, end: 79, approximate: false },
+    ]);
+    expect(
+      summarize('The Punic Wars spanned 264–146 BC; the war ran 1939–45 and peaked in the 1960s.'),
+    ).toEqual([
+      { raw: '264–146 BC', kind: 'range', start: -264, end: -146, approximate: false },
+      { raw: '1939–45', kind: 'range', start: 1939, end: 1945, approximate: false },
+      { raw: '1960s', kind: 'decade', start: 1960, end: 1969, approximate: false },
+    ]);
+  });
+
+  it('ignores quantities that only look like years', () => {
+    expect(summarize('The Moon has a radius of 1737 km and is 384,400 km away.')).toEqual([]);
+  });
+});
+
+describe('date templates', () => {
+  it('renders birth/start date and circa templates for claim extraction', () => {
+    const article = parseWikiArticle(
+      { id: 'test', title: 'Test', wikipedia_slug: 'Test', grokipedia_slug: 'page/Test' },
+      'Einstein was born on {{birth date|1879|3|14|df=y}} and the firm opened {{start date|1902|6}}. The temple dates to {{circa|1500}}.',
+      {
+        source: 'wikipedia',
+        pageId: 'test',
+        lang: 'en',
+        title: 'Test',
+        canonicalUrl: 'https://en.wikipedia.org/wiki/Test',
+        revisionId: '1',
+        revisionTimestamp: '2024-01-01T00:00:00Z',
+      },
+    );
+    const [born, temple] = article.claims;
+    expect(born.text).toContain('born on 14 March 1879');
+    expect(born.text).toContain('opened June 1902');
+    expect(born.temporal.map((expression) => expression.raw)).toEqual([
+      '14 March 1879',
+      'June 1902',
+    ]);
+    expect(temple.temporal[0]).toMatchObject({ raw: 'c. 1500', approximate: true });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @file tests/topics.test.ts
+ * @description Covers loading the topic catalog, including language-code validation.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/shared/paths', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'gwaln-topics-'));
+  return {
+    paths: {
+      ROOT: root,
+      TOPICS: path.join(root, 'topics.json'),
+      ensureTopics: () => undefined,
+    },
+  };
+});
+
+import { paths } from '../src/shared/paths';
+import { loadTopics, topicUrls } from '../src/shared/topics';
+
+const writeCatalog = (topics: Array<Record<string, string>>): void => {
+  fs.writeFileSync(paths.TOPICS, JSON.stringify(topics), 'utf8');
+};
+
+const topic = (id: string, lang?: string) => ({
+  id,
+  title: id,
+  wikipedia_slug: id,
+  grokipedia_slug: id,
+  ...(lang === undefined ? {} : { lang }),
+});
+
+describe('loadTopics', () => {
+  afterAll(() => {
+    fs.rmSync(paths.ROOT, { recursive: true, force: true });
+  });
+
+  it('normalizes language codes once on load', () => {
+    writeCatalog([topic('Moon', ' DE '), topic('Mars')]);
+
+    const topics = loadTopics();
+    expect(topics.Moon.lang).toBe('de');
+    expect(topicUrls(topics.Moon).wikipedia).toBe('https://de.wikipedia.org/wiki/Moon');
+    expect(topics.Mars.lang).toBeUndefined();
+  });
+
+  it('names the topic whose language code is invalid', () => {
+    writeCatalog([topic('Moon', 'en'), topic('Mars', 'evil.com/x#')]);
+
+    expect(() => loadTopics()).toThrow(
+      /Topic "Mars" in .*topics\.json: Invalid Wikipedia language code "evil\.com\/x#"/,
+    );
+  });
+});